@@ -0,0 +1,180 @@
+// scripts/convert-call-records.ts - Move call_records' legacy JSON text columns into the jsonb ones
+//
+// npm run convert-call-records -- [--dry-run] [--batch-size 100]
+//
+// One-off, run after the 20261019000000_call_records_jsonb migration; it stops
+// straight away if that hasn't been pushed. It can run before or after
+// 20261019020000_call_transcript_versions: that migration's trigger treats an
+// update that clears *_legacy values as this conversion, so a row without a
+// version gets version 1 from the converted values and a row with one keeps
+// it. Every update here therefore clears the legacy column of each value it
+// converts.
+//
+// A row is converted once its *_legacy columns are all null. Values that can't
+// be read are left where they are and reported, as are values on rows saved
+// again since the migration: their newer list is kept, and the legacy value is
+// the only copy of the original, which never got a version. Both can be looked
+// at before the legacy columns are dropped.
+import { loadEnvConfig } from "@next/env";
+import { parseArgs } from "util";
+
+// Load .env before the lib modules create their clients
+loadEnvConfig(process.cwd());
+
+const { values } = parseArgs({
+  options: {
+    "dry-run": { type: "boolean", default: false },
+    "batch-size": { type: "string", default: "100" },
+  },
+});
+
+const LIST_COLUMNS = ["speaker_data", "sentiment_analysis", "entities", "categories"] as const;
+
+type ListColumn = (typeof LIST_COLUMNS)[number];
+
+type LegacyRow = { contact_id: string; call_duration_seconds: number | null; call_duration_legacy: unknown } & {
+  [Column in ListColumn]: unknown[];
+} & {
+  [Column in ListColumn as `${Column}_legacy`]: unknown;
+};
+
+// Helper function to read a legacy list value: JSON text, jsonb, or JSON text
+// that was encoded twice. Returns undefined when it isn't JSON.
+function parseLegacyJson(value: unknown): unknown {
+  let parsed = value;
+  while (typeof parsed === "string") {
+    try {
+      parsed = JSON.parse(parsed);
+    } catch {
+      return undefined;
+    }
+  }
+  return parsed;
+}
+
+async function main() {
+  const dryRun = values["dry-run"];
+  const batchSize = parseInt(values["batch-size"] || "100", 10) || 100;
+
+  const { supabaseAdmin } = await import("../src/lib/supabaseAdmin");
+  const {
+    callDurationSchema,
+    categoriesSchema,
+    durationSeconds,
+    entitySchema,
+    parseStoredList,
+    sentimentResultSchema,
+    utteranceSchema,
+  } = await import("../src/lib/domain");
+
+  const listSchemas = {
+    speaker_data: utteranceSchema,
+    sentiment_analysis: sentimentResultSchema,
+    entities: entitySchema,
+    categories: categoriesSchema.element,
+  };
+
+  console.log(`🗄️ Converting legacy call_records columns${dryRun ? " (dry run)" : ""}...`);
+
+  const totals = { selected: 0, converted: 0, dropped: 0, failed: 0 };
+  const unreadable: { contact_id: string; column: string }[] = [];
+  const superseded: { contact_id: string; column: string }[] = [];
+
+  let cursor: string | undefined;
+  do {
+    let query = supabaseAdmin
+      .from("call_records")
+      .select(
+        `contact_id, call_duration_seconds, call_duration_legacy, ${LIST_COLUMNS.flatMap((column) => [column, `${column}_legacy`]).join(", ")}`
+      )
+      .or([...LIST_COLUMNS, "call_duration"].map((column) => `${column}_legacy.not.is.null`).join(","))
+      .order("contact_id", { ascending: true })
+      .limit(batchSize);
+    if (cursor) query = query.gt("contact_id", cursor);
+
+    const { data, error } = await query;
+    if (error?.code === "42703") {
+      throw new Error("call_records has no legacy columns; push the 20261019000000_call_records_jsonb migration first");
+    }
+    if (error) {
+      throw new Error(`Failed to fetch call records to convert: ${error.message}`);
+    }
+
+    const rows = (data || []) as unknown as LegacyRow[];
+    totals.selected += rows.length;
+
+    for (const row of rows) {
+      const update: Record<string, unknown> = {};
+      let readable = true;
+
+      for (const column of LIST_COLUMNS) {
+        const legacy = row[`${column}_legacy`];
+        if (legacy === null) continue;
+
+        const list = parseLegacyJson(legacy);
+        if (!Array.isArray(list)) {
+          unreadable.push({ contact_id: row.contact_id, column });
+          readable = false;
+          continue;
+        }
+
+        // Rows saved again since the migration already have the newer list
+        if (row[column].length > 0) {
+          superseded.push({ contact_id: row.contact_id, column });
+          readable = false;
+          continue;
+        }
+
+        const entries = parseStoredList(listSchemas[column], list);
+        totals.dropped += list.length - entries.length;
+        update[column] = entries;
+        update[`${column}_legacy`] = null;
+      }
+
+      if (row.call_duration_legacy !== null) {
+        const duration = callDurationSchema.safeParse(row.call_duration_legacy);
+        if (!duration.success) {
+          unreadable.push({ contact_id: row.contact_id, column: "call_duration" });
+          readable = false;
+        } else {
+          if (row.call_duration_seconds === null) {
+            update.call_duration_seconds = durationSeconds(duration.data);
+          }
+          update.call_duration_legacy = null;
+        }
+      }
+
+      if (readable) totals.converted++;
+      if (dryRun || Object.keys(update).length === 0) continue;
+
+      const { error: updateError } = await supabaseAdmin
+        .from("call_records")
+        .update(update)
+        .eq("contact_id", row.contact_id);
+
+      if (updateError) {
+        console.error(`❌ Failed to convert ${row.contact_id}: ${updateError.message}`);
+        totals.failed++;
+        if (readable) totals.converted--;
+      }
+    }
+
+    cursor = rows.length === batchSize ? rows[rows.length - 1].contact_id : undefined;
+  } while (cursor);
+
+  console.log(
+    `\n📊 ${dryRun ? "Dry run: " : ""}${totals.converted}/${totals.selected} rows converted, ${totals.dropped} list entries dropped as invalid, ${unreadable.length} unreadable and ${superseded.length} superseded values left in place, ${totals.failed} failed\n`
+  );
+  if (unreadable.length > 0) console.table(unreadable);
+  if (superseded.length > 0) {
+    console.log("🗂️ Saved again since the migration; the legacy value is the original:");
+    console.table(superseded);
+  }
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error("💥 Conversion failed:", error);
+    process.exit(1);
+  });
@@ -0,0 +1,55 @@
+// scripts/crawl-recordings.ts - Crawl a channel's recording store into the recording index
+//
+// npm run crawl-recordings -- [--full] [--channel 22] [--report-days 7]
+import { loadEnvConfig } from "@next/env";
+import { parseArgs } from "util";
+
+// Load .env before the lib modules create their clients
+loadEnvConfig(process.cwd());
+
+const { values } = parseArgs({
+  options: {
+    full: { type: "boolean", default: false },
+    channel: { type: "string" },
+    "report-days": { type: "string", default: "7" },
+  },
+});
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+async function main() {
+  const reportDays = parseInt(values["report-days"] || "7", 10);
+  if (!Number.isFinite(reportDays) || reportDays < 0) {
+    throw new Error(`--report-days must be a number of days, got "${values["report-days"]}"`);
+  }
+
+  const { crawlRecordings, findUnmatchedRecordings } = await import("../src/lib/recordingIndex");
+  const { getContactLogs } = await import("../src/lib/db");
+
+  console.log(`🗂️ Crawling recordings${values.full ? " (full)" : ""}...`);
+  const { channel } = await crawlRecordings({ full: values.full, channel: values.channel });
+
+  if (reportDays === 0) return;
+
+  const end = new Date();
+  const logs = await getContactLogs({ start: new Date(end.getTime() - reportDays * DAY_MS), end }, channel);
+  const unmatched = await findUnmatchedRecordings(logs, channel);
+
+  console.log(`\n📊 ${unmatched.length}/${logs.length} calls in the last ${reportDays} days have no indexed recording\n`);
+  if (unmatched.length > 0) {
+    console.table(
+      unmatched.map((recording) => ({
+        contact_id: recording.contact_id,
+        started: recording.initiation_timestamp,
+        filename: recording.filename,
+      }))
+    );
+  }
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error("💥 Recording crawl failed:", error);
+    process.exit(1);
+  });
@@ -0,0 +1,201 @@
+// scripts/mock-assemblyai.ts - Local stand-in for the AssemblyAI API
+//
+// Accepts uploads and transcript submissions, then posts a completion
+// payload to the submitted webhook_url (with the submitted auth header)
+// the same way AssemblyAI does. Run it with `npm run mock:assemblyai` and
+// start the app or worker with ASSEMBLYAI_API_URL=http://localhost:4010.
+// Tests start it in-process with startMockAssemblyAI.
+import { createServer, IncomingMessage, Server, ServerResponse } from "http";
+import { AddressInfo } from "net";
+import { randomUUID } from "crypto";
+
+export interface MockTranscript {
+  id: string;
+  status: "queued" | "processing" | "completed" | "error";
+  audio_url: string;
+  webhook_url?: string;
+  webhook_auth_header_name?: string;
+  webhook_auth_header_value?: string;
+}
+
+export interface MockAssemblyAIOptions {
+  port?: number; // 0 picks a free port
+  // How long a job takes; null leaves jobs queued until deliver() is called
+  delayMs?: number | null;
+  finalStatus?: "completed" | "error";
+}
+
+export interface MockAssemblyAI {
+  url: string;
+  transcripts: Map<string, MockTranscript>;
+  // Finish a job (if it isn't already) and post its webhook, resolving with
+  // the status the webhook answered with
+  deliver: (id: string) => Promise<number | null>;
+  close: () => Promise<void>;
+}
+
+const utterances = [
+  { speaker: "A", start: 0, end: 4200, confidence: 0.95, text: "Thanks for calling Team Global Express, how can I help?" },
+  { speaker: "B", start: 4500, end: 9800, confidence: 0.93, text: "Hi, I'm chasing a consignment that was meant to be delivered yesterday." },
+  { speaker: "A", start: 10100, end: 15600, confidence: 0.94, text: "No problem, can I grab the tracking number and I'll check where it's up to?" },
+  { speaker: "B", start: 15900, end: 19200, confidence: 0.92, text: "Sure, it's TGE one two three four five." },
+  { speaker: "A", start: 19500, end: 26000, confidence: 0.95, text: "It's on the truck for delivery today, you should have it this afternoon." },
+];
+
+// Canned transcript body returned once a job completes
+function buildTranscript(job: MockTranscript) {
+  return {
+    id: job.id,
+    status: job.status,
+    audio_url: job.audio_url,
+    error: job.status === "error" ? "Mock transcription failure" : undefined,
+    text: utterances.map((u) => u.text).join(" "),
+    audio_duration: 26,
+    confidence: 0.94,
+    language_code: "en",
+    language_confidence: 0.98,
+    utterances,
+    words: [],
+    summary: "The customer called about a late consignment. The agent confirmed it is out for delivery today.",
+    sentiment_analysis_results: utterances.map((u) => ({
+      text: u.text,
+      start: u.start,
+      end: u.end,
+      sentiment: "NEUTRAL",
+      confidence: 0.8,
+      speaker: u.speaker,
+    })),
+    entities: [{ entity_type: "organization", text: "Team Global Express", start: 0, end: 4200 }],
+  };
+}
+
+function readBody(req: IncomingMessage): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    req.on("data", (chunk) => chunks.push(chunk));
+    req.on("end", () => resolve(Buffer.concat(chunks)));
+    req.on("error", reject);
+  });
+}
+
+function sendJson(res: ServerResponse, status: number, body: unknown) {
+  res.writeHead(status, { "Content-Type": "application/json" });
+  res.end(JSON.stringify(body));
+}
+
+// Post the completion payload to the webhook the job was submitted with
+async function deliverWebhook(job: MockTranscript): Promise<number | null> {
+  if (!job.webhook_url) return null;
+
+  const headers: Record<string, string> = { "Content-Type": "application/json" };
+  if (job.webhook_auth_header_name && job.webhook_auth_header_value) {
+    headers[job.webhook_auth_header_name] = job.webhook_auth_header_value;
+  }
+
+  try {
+    const response = await fetch(job.webhook_url, {
+      method: "POST",
+      headers,
+      body: JSON.stringify({ transcript_id: job.id, status: job.status }),
+    });
+    console.log(`📨 Webhook for ${job.id} (${job.status}) -> ${response.status} ${await response.text()}`);
+    return response.status;
+  } catch (error) {
+    console.error(`❌ Webhook for ${job.id} failed:`, error);
+    return null;
+  }
+}
+
+// Function to start the mock, resolving once it's listening
+export function startMockAssemblyAI({
+  port = 4010,
+  delayMs = 3000,
+  finalStatus = "completed",
+}: MockAssemblyAIOptions = {}): Promise<MockAssemblyAI> {
+  const transcripts = new Map<string, MockTranscript>();
+  let baseUrl = `http://localhost:${port}`;
+
+  const finish = (job: MockTranscript) => {
+    if (job.status === "queued" || job.status === "processing") job.status = finalStatus;
+    return deliverWebhook(job);
+  };
+
+  const server: Server = createServer(async (req, res) => {
+    const url = new URL(req.url || "/", baseUrl);
+
+    try {
+      if (req.method === "POST" && url.pathname === "/v2/upload") {
+        const audio = await readBody(req);
+        console.log(`⬆️ Received ${audio.length} bytes of audio`);
+        return sendJson(res, 200, { upload_url: `${baseUrl}/uploads/${randomUUID()}` });
+      }
+
+      if (req.method === "POST" && url.pathname === "/v2/transcript") {
+        const body = JSON.parse((await readBody(req)).toString() || "{}");
+        if (!body.audio_url) {
+          return sendJson(res, 400, { error: "audio_url is required" });
+        }
+
+        const job: MockTranscript = {
+          id: randomUUID(),
+          status: "queued",
+          audio_url: body.audio_url,
+          webhook_url: body.webhook_url,
+          webhook_auth_header_name: body.webhook_auth_header_name,
+          webhook_auth_header_value: body.webhook_auth_header_value,
+        };
+        transcripts.set(job.id, job);
+        console.log(`🎙️ Transcript ${job.id} submitted${job.webhook_url ? ` (webhook ${job.webhook_url})` : ""}`);
+
+        if (delayMs !== null) setTimeout(() => finish(job), delayMs);
+
+        return sendJson(res, 200, { id: job.id, status: job.status });
+      }
+
+      const match = url.pathname.match(/^\/v2\/transcript\/([^/]+)$/);
+      if (req.method === "GET" && match) {
+        const job = transcripts.get(match[1]);
+        if (!job) {
+          return sendJson(res, 404, { error: "Transcript not found" });
+        }
+        return sendJson(res, 200, buildTranscript(job));
+      }
+
+      sendJson(res, 404, { error: `No mock for ${req.method} ${url.pathname}` });
+    } catch (error) {
+      console.error("Mock AssemblyAI error:", error);
+      sendJson(res, 500, { error: error instanceof Error ? error.message : "Unknown error" });
+    }
+  });
+
+  return new Promise((resolve) => {
+    server.listen(port, () => {
+      baseUrl = `http://localhost:${(server.address() as AddressInfo).port}`;
+      resolve({
+        url: baseUrl,
+        transcripts,
+        deliver: async (id) => {
+          const job = transcripts.get(id);
+          if (!job) throw new Error(`No mock transcript ${id}`);
+          return finish(job);
+        },
+        close: () => new Promise((resolveClose) => server.close(() => resolveClose())),
+      });
+    });
+  });
+}
+
+// Run as a standalone server unless imported by a test
+if (process.argv[1]?.endsWith("mock-assemblyai.ts")) {
+  const delayMs = parseInt(process.env.MOCK_TRANSCRIPT_DELAY_MS || "3000", 10);
+  // Set to "error" to exercise the failure path
+  const finalStatus = process.env.MOCK_TRANSCRIPT_STATUS === "error" ? "error" : "completed";
+
+  startMockAssemblyAI({
+    port: parseInt(process.env.MOCK_ASSEMBLYAI_PORT || "4010", 10),
+    delayMs,
+    finalStatus,
+  }).then(({ url }) => {
+    console.log(`🧪 Mock AssemblyAI listening on ${url} (jobs finish as "${finalStatus}" after ${delayMs}ms)`);
+  });
+}
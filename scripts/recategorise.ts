@@ -0,0 +1,93 @@
+// scripts/recategorise.ts - Re-run topic categorisation over stored transcripts
+//
+// npm run recategorise -- [--start 2026-01-01] [--end 2026-02-01] [--channel 22]
+//                         [--only all|uncategorised|other] [--dry-run] [--batch-size 100]
+import { loadEnvConfig } from "@next/env";
+import { parseArgs } from "util";
+
+// Load .env before the lib modules create their clients
+loadEnvConfig(process.cwd());
+
+const { values } = parseArgs({
+  options: {
+    start: { type: "string" },
+    end: { type: "string" },
+    channel: { type: "string" },
+    only: { type: "string", default: "all" },
+    "dry-run": { type: "boolean", default: false },
+    "batch-size": { type: "string", default: "100" },
+  },
+});
+
+function parseDate(name: string, value?: string): Date | undefined {
+  if (!value) return undefined;
+  const date = new Date(value);
+  if (isNaN(date.getTime())) {
+    throw new Error(`--${name} must be a date, got "${value}"`);
+  }
+  return date;
+}
+
+async function main() {
+  const only = values.only as "all" | "uncategorised" | "other";
+  if (!["all", "uncategorised", "other"].includes(only)) {
+    throw new Error(`--only must be all, uncategorised or other, got "${values.only}"`);
+  }
+
+  const options = {
+    start: parseDate("start", values.start),
+    end: parseDate("end", values.end),
+    channel: values.channel,
+    only,
+    dryRun: values["dry-run"],
+    limit: parseInt(values["batch-size"] || "100", 10) || 100,
+  };
+
+  const { runCategoryBackfill, diffDistributions } = await import("../src/lib/categoryBackfill");
+
+  console.log("🏷️ Recategorising stored calls", options);
+
+  const before: Record<string, number> = {};
+  const after: Record<string, number> = {};
+  const totals = { selected: 0, recategorised: 0, changed: 0, skipped: 0, failed: 0 };
+  const add = (target: Record<string, number>, source: Record<string, number>) =>
+    Object.entries(source).forEach(([category, count]) => {
+      target[category] = (target[category] || 0) + count;
+    });
+
+  let cursor: string | undefined;
+  do {
+    const report = await runCategoryBackfill({ ...options, after: cursor });
+
+    add(before, report.before);
+    add(after, report.after);
+    totals.selected += report.selected;
+    totals.recategorised += report.recategorised;
+    totals.changed += report.changed;
+    totals.skipped += report.skipped;
+    totals.failed += report.failed;
+    report.errors.forEach((error) => console.error(`   ${error.contact_id}: ${error.error}`));
+
+    cursor = report.nextCursor ?? undefined;
+  } while (cursor);
+
+  const delta = diffDistributions(before, after);
+  const categories = Array.from(new Set([...Object.keys(before), ...Object.keys(after)])).sort();
+
+  console.log(`\n📊 ${options.dryRun ? "Dry run: " : ""}${totals.recategorised}/${totals.selected} recategorised, ${totals.changed} changed, ${totals.skipped} skipped (no speaker data), ${totals.failed} failed\n`);
+  console.table(
+    categories.map((category) => ({
+      category,
+      before: before[category] || 0,
+      after: after[category] || 0,
+      change: delta[category] || 0,
+    }))
+  );
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error("💥 Recategorisation failed:", error);
+    process.exit(1);
+  });
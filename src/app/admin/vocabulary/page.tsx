@@ -0,0 +1,9 @@
+import VocabularyManager from "@/components/features/VocabularyManager"
+
+const VocabularyPage = () => {
+  return (
+    <div className="flex flex-1"><VocabularyManager /></div>
+  )
+}
+
+export default VocabularyPage
@@ -0,0 +1,50 @@
+// app/api/call-logs/count/route.ts - How many of a channel's calls match, by transcription status
+import { NextRequest, NextResponse } from 'next/server';
+import { countContactLogs } from '@/lib/db';
+import { ContactLogGroupBy, GROUP_BY_FIELDS, parseContactLogFilters } from '@/lib/contactLogQuery';
+
+// Takes the same filters as /api/call-logs. ?groupBy=agent_username (or
+// queue_name, disposition_title) adds the counts for each value.
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const filters = parseContactLogFilters(searchParams);
+
+    if (typeof filters === 'string') {
+      return NextResponse.json(
+        { success: false, error: filters },
+        { status: 400 }
+      );
+    }
+
+    const groupBy = searchParams.get('groupBy') || undefined;
+    if (groupBy && !GROUP_BY_FIELDS.includes(groupBy as ContactLogGroupBy)) {
+      return NextResponse.json(
+        { success: false, error: `groupBy must be one of: ${GROUP_BY_FIELDS.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    const counts = await countContactLogs(
+      filters,
+      searchParams.get('channel') || undefined,
+      groupBy as ContactLogGroupBy | undefined
+    );
+
+    return NextResponse.json({
+      success: true,
+      ...counts,
+      timestamp: new Date().toISOString()
+    });
+  } catch (error) {
+    console.error('Error counting call logs:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Failed to count call logs',
+        details: process.env.NODE_ENV === 'development' && error instanceof Error ? error.message : undefined
+      },
+      { status: 500 }
+    );
+  }
+}
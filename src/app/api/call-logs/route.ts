@@ -0,0 +1,44 @@
+// app/api/call-logs/route.ts - One page of a channel's calls, filtered and sorted on the server
+import { NextRequest, NextResponse } from 'next/server';
+import { getContactLogPage } from '@/lib/db';
+import { parseContactLogQuery } from '@/lib/contactLogQuery';
+import { callLogSchema } from '@/lib/domain';
+
+// Filters: ?start=&end= (ISO), agent, queue, disposition, campaignId (repeatable
+// or comma separated), minSeconds, maxSeconds, transcription=transcribed|missing
+// and channel. Sorted by ?sort= and ?direction=; pass the returned nextCursor
+// as ?cursor= for the following page.
+export async function GET(request: NextRequest) {
+  try {
+    const query = parseContactLogQuery(new URL(request.url).searchParams);
+
+    if (typeof query === 'string') {
+      return NextResponse.json(
+        { success: false, error: query },
+        { status: 400 }
+      );
+    }
+
+    const { logs, nextCursor } = await getContactLogPage(query);
+
+    return NextResponse.json({
+      success: true,
+      data: callLogSchema.array().parse(logs),
+      count: logs.length,
+      nextCursor,
+      sort: query.sort,
+      direction: query.direction,
+      timestamp: new Date().toISOString()
+    });
+  } catch (error) {
+    console.error('Error fetching call logs:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Failed to fetch call logs',
+        details: process.env.NODE_ENV === 'development' && error instanceof Error ? error.message : undefined
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getContactLogs } from '@/lib/db';
-import { enhanceCallLogsWithSupabaseStatus } from '@/lib/supabaseUtils';
+import { enhanceCallLogsWithSupabaseStatus } from '@/lib/callRecords';
+import { callLogSchema, callLogsRequestSchema, validationError } from '@/lib/domain';
 
 export async function GET(request: NextRequest) {
   try {
@@ -8,6 +9,7 @@ export async function GET(request: NextRequest) {
     const startDate = searchParams.get('startDate');
     const endDate = searchParams.get('endDate');
     const checkSupabase = searchParams.get('checkSupabase') === 'true'; // Optional parameter
+    const channel = searchParams.get('channel') || undefined; // Defaults to the ingest channel
 
     let dateRange;
     
@@ -36,7 +38,7 @@ export async function GET(request: NextRequest) {
     }
 
     // Get the contact logs with optional date filtering
-    let logs = await getContactLogs();
+    let logs = await getContactLogs(dateRange, channel);
     
     // Enhance with Supabase status if requested
     if (checkSupabase) {
@@ -45,7 +47,7 @@ export async function GET(request: NextRequest) {
     
     return NextResponse.json({
       success: true,
-      data: logs,
+      data: callLogSchema.array().parse(logs),
       count: logs.length,
       dateRange: dateRange ? {
         start: dateRange.start.toISOString(),
@@ -69,8 +71,15 @@ export async function GET(request: NextRequest) {
 
 export async function POST(request: NextRequest) {
   try {
-    const body = await request.json();
-    const { startDate, endDate, checkSupabase = false } = body;
+    const body = callLogsRequestSchema.safeParse(await request.json());
+    if (!body.success) {
+      return NextResponse.json(
+        { success: false, error: validationError(body.error) },
+        { status: 400 }
+      );
+    }
+
+    const { startDate, endDate, checkSupabase, channel } = body.data;
 
     let dateRange;
     
@@ -95,7 +104,7 @@ export async function POST(request: NextRequest) {
       dateRange = { start, end };
     }
 
-    let logs = await getContactLogs();
+    let logs = await getContactLogs(dateRange, channel);
     
     // Enhance with Supabase status if requested
     if (checkSupabase) {
@@ -104,7 +113,7 @@ export async function POST(request: NextRequest) {
     
     return NextResponse.json({
       success: true,
-      data: logs,
+      data: callLogSchema.array().parse(logs),
       count: logs.length,
       dateRange: dateRange ? {
         start: dateRange.start.toISOString(),
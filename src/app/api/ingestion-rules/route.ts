@@ -0,0 +1,101 @@
+// app/api/ingestion-rules/route.ts - Which contact_log calls each channel ingests
+import { NextRequest, NextResponse } from 'next/server';
+import { Channels } from '@/lib/Channels';
+import { getChannelIngestionRules, ingestionRulesError, saveIngestionRules } from '@/lib/ingestionRules';
+import { ADMIN_KEY_HEADER, isAdminKeyConfigured, verifyAdminKey } from '@/lib/adminAuth';
+
+// Lists every channel with its rules (null when it has none and ingests no calls)
+export async function GET() {
+  try {
+    const stored = new Map((await getChannelIngestionRules()).map((rules) => [rules.channel, rules]));
+
+    const channels = Channels.map((channel) => ({
+      channel: String(channel.id),
+      title: channel.title,
+      active: channel.active,
+      rules: stored.get(String(channel.id)) || null,
+    }));
+
+    return NextResponse.json({
+      success: true,
+      channels,
+      timestamp: new Date().toISOString()
+    });
+  } catch (error) {
+    console.error('Error fetching ingestion rules:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Failed to fetch ingestion rules',
+        details: process.env.NODE_ENV === 'development' && error instanceof Error ? error.message : undefined
+      },
+      { status: 500 }
+    );
+  }
+}
+
+// Replaces { channel, campaignIds, queueNames, excludedDispositions,
+// minCallSeconds, agentAllowlist, agentDenylist } for one channel; requires the
+// admin key. Lists left out are empty, which doesn't restrict anything.
+export async function PUT(request: NextRequest) {
+  if (!isAdminKeyConfigured()) {
+    return NextResponse.json(
+      { success: false, error: 'Ingestion rule administration is not configured' },
+      { status: 503 }
+    );
+  }
+
+  if (!verifyAdminKey(request.headers.get(ADMIN_KEY_HEADER))) {
+    return NextResponse.json(
+      { success: false, error: 'Unauthorized' },
+      { status: 401 }
+    );
+  }
+
+  try {
+    const {
+      channel,
+      campaignIds = [],
+      queueNames = [],
+      excludedDispositions = [],
+      minCallSeconds = 0,
+      agentAllowlist = [],
+      agentDenylist = [],
+    } = await request.json();
+
+    if (!channel || !Channels.some((c) => String(c.id) === String(channel))) {
+      return NextResponse.json(
+        { success: false, error: 'A known channel is required' },
+        { status: 400 }
+      );
+    }
+
+    const submitted = { campaignIds, queueNames, excludedDispositions, minCallSeconds, agentAllowlist, agentDenylist };
+    const validationError = ingestionRulesError(submitted);
+    if (validationError) {
+      return NextResponse.json(
+        { success: false, error: validationError },
+        { status: 400 }
+      );
+    }
+
+    const rules = await saveIngestionRules(String(channel), submitted);
+    console.log(`📏 Saved ingestion rules for channel ${channel}`);
+
+    return NextResponse.json({
+      success: true,
+      rules,
+      timestamp: new Date().toISOString()
+    });
+  } catch (error) {
+    console.error('Error saving ingestion rules:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Failed to save ingestion rules',
+        details: process.env.NODE_ENV === 'development' && error instanceof Error ? error.message : undefined
+      },
+      { status: 500 }
+    );
+  }
+}
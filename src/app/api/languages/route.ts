@@ -0,0 +1,120 @@
+// app/api/languages/route.ts - Expected languages and translation per channel
+import { NextRequest, NextResponse } from 'next/server';
+import { Channels } from '@/lib/Channels';
+import {
+  DEFAULT_LANGUAGE_SETTINGS,
+  getChannelLanguages,
+  languagesError,
+  normaliseLanguageCode,
+  saveChannelLanguages,
+} from '@/lib/language';
+import { ADMIN_KEY_HEADER, isAdminKeyConfigured, verifyAdminKey } from '@/lib/adminAuth';
+
+// Lists every channel with its language settings (the default when none are stored)
+export async function GET() {
+  try {
+    const stored = new Map((await getChannelLanguages()).map((settings) => [settings.channel, settings]));
+
+    const languages = Channels.map((channel) => {
+      const settings = stored.get(String(channel.id));
+      return {
+        channel: String(channel.id),
+        title: channel.title,
+        active: channel.active,
+        expected_languages: settings?.expected_languages || DEFAULT_LANGUAGE_SETTINGS.expectedLanguages,
+        translate_to_english: settings?.translate_to_english ?? DEFAULT_LANGUAGE_SETTINGS.translateToEnglish,
+        updated_at: settings?.updated_at || null,
+      };
+    });
+
+    return NextResponse.json({
+      success: true,
+      languages,
+      timestamp: new Date().toISOString()
+    });
+  } catch (error) {
+    console.error('Error fetching channel languages:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Failed to fetch channel languages',
+        details: process.env.NODE_ENV === 'development' && error instanceof Error ? error.message : undefined
+      },
+      { status: 500 }
+    );
+  }
+}
+
+// Replaces { channel, expectedLanguages, translateToEnglish } for one channel; requires the admin key
+export async function PUT(request: NextRequest) {
+  if (!isAdminKeyConfigured()) {
+    return NextResponse.json(
+      { success: false, error: 'Language administration is not configured' },
+      { status: 503 }
+    );
+  }
+
+  if (!verifyAdminKey(request.headers.get(ADMIN_KEY_HEADER))) {
+    return NextResponse.json(
+      { success: false, error: 'Unauthorized' },
+      { status: 401 }
+    );
+  }
+
+  try {
+    const { channel, expectedLanguages = [], translateToEnglish = true } = await request.json();
+
+    if (!channel || !Channels.some((c) => String(c.id) === String(channel))) {
+      return NextResponse.json(
+        { success: false, error: 'A known channel is required' },
+        { status: 400 }
+      );
+    }
+
+    if (!Array.isArray(expectedLanguages) || expectedLanguages.some((language) => typeof language !== 'string')) {
+      return NextResponse.json(
+        { success: false, error: 'expectedLanguages must be an array of language codes' },
+        { status: 400 }
+      );
+    }
+
+    if (typeof translateToEnglish !== 'boolean') {
+      return NextResponse.json(
+        { success: false, error: 'translateToEnglish must be a boolean' },
+        { status: 400 }
+      );
+    }
+
+    const languages = expectedLanguages.map(normaliseLanguageCode);
+    const validationError = languagesError(languages);
+    if (validationError) {
+      return NextResponse.json(
+        { success: false, error: validationError },
+        { status: 400 }
+      );
+    }
+
+    const settings = await saveChannelLanguages(String(channel), languages, translateToEnglish);
+    console.log(
+      `🌐 Saved languages for channel ${channel}: ${settings.expected_languages.join(', ') || 'any'}${
+        settings.translate_to_english ? ' (translated)' : ''
+      }`
+    );
+
+    return NextResponse.json({
+      success: true,
+      settings,
+      timestamp: new Date().toISOString()
+    });
+  } catch (error) {
+    console.error('Error saving channel languages:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Failed to save channel languages',
+        details: process.env.NODE_ENV === 'development' && error instanceof Error ? error.message : undefined
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -1,76 +1,34 @@
 import { NextRequest, NextResponse } from "next/server";
 import OpenAI from "openai";
+import { recordCompletionUsage } from "@/lib/usage";
+import {
+  callQueryRequestSchema,
+  formatSeconds,
+  validationError,
+  type CallRecord,
+  type TranscriptSentiment,
+  type TranscriptUtterance,
+} from "@/lib/domain";
 
 const openai = new OpenAI({
   apiKey: process.env.OPENAI_API_KEY,
 });
 
-interface CallTranscriptionData {
-  contact_id: string;
-  recording_location: string;
-  transcript_text: string;
-  queue_name?: string;
-  agent_username: string;
-  initiation_timestamp: string;
-  speaker_data?: string;
-  sentiment_analysis?: string;
-  entities?: string;
-  categories?: string;
-  disposition_title?: string;
-  call_summary?: string;
-  campaign_name?: string;
-  campaign_id?: string;
-  customer_cli?: string;
-  agent_hold_time?: number;
-  total_hold_time?: {
-    minutes: number | 0;
-    seconds: number | 0;
-  };
-  time_in_queue?: number;
-  created_at?: string;
-  updated_at?: string;
-  call_duration: {
-    minutes: number | 0;
-    seconds: number | 0;
-  };
-}
-
-interface Message {
-  role: "user" | "assistant";
-  content: string;
-}
-
 export async function POST(req: NextRequest) {
   try {
-    const { message, callData, conversationHistory } = await req.json();
-
-    if (!message) {
-      return NextResponse.json(
-        { error: "Message is required" },
-        { status: 400 }
-      );
-    }
+    const body = callQueryRequestSchema.safeParse(await req.json());
 
-    if (!callData) {
+    if (!body.success) {
       return NextResponse.json(
-        { error: "Call data is required" },
+        { error: validationError(body.error) },
         { status: 400 }
       );
     }
 
-    // Parse JSON fields for better analysis
-    const parsedSpeakerData = parseJsonField(callData.speaker_data);
-    const parsedSentimentData = parseJsonField(callData.sentiment_analysis);
-    const parsedEntities = parseJsonField(callData.entities);
-    const parsedCategories = parseJsonField(callData.categories);
+    const { message, callData, conversationHistory } = body.data;
 
     // Generate comprehensive call context
-    const callContext = generateCallContext(callData, {
-      speakerData: parsedSpeakerData,
-      sentimentData: parsedSentimentData,
-      entities: parsedEntities,
-      categories: parsedCategories,
-    });
+    const callContext = generateCallContext(callData);
 
     const systemPrompt = `You are a helpful assistant that analyzes call transcripts and provides insights. 
 You have access to a call transcript and analysis data. 
@@ -117,14 +75,12 @@ The user can ask about any aspect of this call data.`;
     const messages: any[] = [{ role: "system", content: systemPrompt }];
 
     // Add conversation history (last few messages for context)
-    if (conversationHistory && Array.isArray(conversationHistory)) {
-      conversationHistory.slice(-8).forEach((msg: Message) => {
-        messages.push({
-          role: msg.role,
-          content: msg.content,
-        });
+    conversationHistory.slice(-8).forEach((msg) => {
+      messages.push({
+        role: msg.role,
+        content: msg.content,
       });
-    }
+    });
 
     // Add the current user message
     messages.push({
@@ -139,6 +95,12 @@ The user can ask about any aspect of this call data.`;
       temperature: 0.3, // Lower temperature for more focused analysis
     });
 
+    await recordCompletionUsage("chat", completion, {
+      channel: callData.channel ?? undefined,
+      agentUsername: callData.agent_username,
+      contactId: callData.contact_id,
+    });
+
     const response =
       completion.choices[0]?.message?.content ||
       "Sorry, I could not generate a response.";
@@ -153,49 +115,29 @@ The user can ask about any aspect of this call data.`;
   }
 }
 
-function parseJsonField(jsonString: string | null | undefined) {
-  if (!jsonString) return null;
-  try {
-    return JSON.parse(jsonString);
-  } catch {
-    return null;
-  }
-}
-
-function generateCallContext(
-  callData: CallTranscriptionData,
-  // eslint-disable-next-line @typescript-eslint/no-explicit-any
-  parsedData: any
-): string {
-  const { speakerData, sentimentData, entities, categories } = parsedData;
-
-  // Format call duration
-  const formatDuration = (duration: {
-    minutes: number | 0;
-    seconds: number | 0;
-  }) => {
-    return `${duration.minutes || 0}m ${duration.seconds || 0}s`;
-  };
+function generateCallContext(callData: CallRecord): string {
+  const {
+    speaker_data: speakerData,
+    sentiment_analysis: sentimentData,
+    entities,
+    categories,
+  } = callData;
 
   // Generate sentiment summary with better formatting
-  const sentimentSummary = sentimentData
+  const sentimentSummary = sentimentData.length > 0
     ? generateSentimentSummary(sentimentData)
     : "No sentiment analysis available";
 
   // Generate entity summary with better formatting
   const entitySummary =
-    entities && entities.length > 0
-      // eslint-disable-next-line @typescript-eslint/no-explicit-any
-      ? entities.map((e: any) => `- **${e.entity_type}**: "${e.text}" (confidence: ${Math.round(e.confidence * 100)}%)`).join("\n")
+    entities.length > 0
+      ? entities.map((e) => `- **${e.entity_type}**: "${e.text}"`).join("\n")
       : "No entities extracted";
 
   // Generate category summary with better formatting
   const categorySummary =
-    categories && categories.length > 0
-      ? categories
-          // eslint-disable-next-line @typescript-eslint/no-explicit-any
-          .map((c: any) => `- ${c.category} (${Math.round(c.confidence * 100)}% confidence)`)
-          .join("\n")
+    categories.length > 0
+      ? categories.map((category) => `- ${category}`).join("\n")
       : "No categories identified";
 
   // Format transcript for context with better structure
@@ -212,10 +154,8 @@ function generateCallContext(
 - **Queue**: ${callData.queue_name || "N/A"}
 - **Campaign**: ${callData.campaign_name || "N/A"}
 - **Customer CLI**: ${callData.customer_cli || "N/A"}
-- **Duration**: ${formatDuration(callData.call_duration)}
-- **Hold Time**: ${formatDuration(
-    callData.total_hold_time || { minutes: 0, seconds: 0 }
-  )}
+- **Duration**: ${formatSeconds(callData.call_duration_seconds || 0)}
+- **Hold Time**: ${formatSeconds(callData.total_hold_time || 0)}
 - **Queue Time**: ${callData.time_in_queue || 0} seconds
 - **Disposition**: ${callData.disposition_title || "N/A"}
 
@@ -234,13 +174,15 @@ ${categorySummary}
 ## TRANSCRIPT PREVIEW
 ${transcriptPreview}
 
-## FULL TRANSCRIPT
+## FULL TRANSCRIPT${callData.language ? ` (language: ${callData.language})` : ""}
 ${callData.transcript_text || "No transcript available"}
-`;
+${callData.translated_text ? `
+## ENGLISH TRANSLATION
+${callData.translated_text}
+` : ""}`;
 }
 
-// eslint-disable-next-line @typescript-eslint/no-explicit-any
-function generateSentimentSummary(sentimentData: any[]): string {
+function generateSentimentSummary(sentimentData: TranscriptSentiment[]): string {
   if (!sentimentData || sentimentData.length === 0)
     return "No sentiment data available";
 
@@ -275,8 +217,7 @@ ${exampleSentiments}`;
 }
 
 function generateTranscriptPreview(
-  // eslint-disable-next-line @typescript-eslint/no-explicit-any
-  speakerData: any[],
+  speakerData: TranscriptUtterance[],
   fallbackText: string
 ): string {
   if (speakerData && speakerData.length > 0) {
@@ -1,69 +1,14 @@
 /* eslint-disable @typescript-eslint/no-explicit-any */
-/* eslint-disable @typescript-eslint/no-unused-vars */
 import { NextRequest, NextResponse } from 'next/server';
 import OpenAI from "openai";
+import { recordCompletionUsage } from "@/lib/usage";
+import { callsQueryRequestSchema, validationError, type CallOverview, type ChatMessage } from "@/lib/domain";
 
 // Initialize OpenAI client
 const openai = new OpenAI({
   apiKey: process.env.OPENAI_API_KEY,
 });
 
-interface CallOverviewData {
-  contact_id: string;
-  agent_username: string;
-  initiation_timestamp: string;
-  queue_name?: string;
-  disposition_title?: string;
-  campaign_name?: string;
-  customer_cli?: string;
-  call_duration: {
-    minutes: number;
-    seconds: number;
-  };
-  call_duration_total_seconds: number;
-  call_summary?: string;
-  primary_category?: string;
-  categories?: string;
-  sentiment_analysis?: string;
-  processed_sentiments?: any[];
-  created_at: string;
-  updated_at: string;
-  transcript_text?: string;
-  transcript_processed?: {
-    full: string;
-    greeting: string;
-    closing: string;
-    length: number;
-    wordCount: number;
-    greetingSentiment: 'positive' | 'neutral' | 'negative' | null;
-    closingSentiment: 'positive' | 'neutral' | 'negative' | null;
-    hasTransfer: boolean;
-    hasEscalation: boolean;
-    keywordMatches: string[];
-  };
-  keywords?: string;
-  topics?: string;
-  satisfaction_score?: number;
-  resolution_status?: string;
-  escalation_reason?: string;
-  callback_requested?: boolean;
-  language?: string;
-  channel?: string;
-  has_transcript: boolean;
-  has_sentiment: boolean;
-  has_summary: boolean;
-  is_short_call: boolean;
-  is_long_call: boolean;
-  [key: string]: any;
-}
-
-interface Message {
-  id: string;
-  role: "user" | "assistant";
-  content: string;
-  timestamp: Date;
-}
-
 interface Analytics {
   totalCalls: number;
   dateRange: {
@@ -113,21 +58,16 @@ interface Analytics {
 
 export async function POST(request: NextRequest) {
   try {
-    const { message, transcriptionData, conversationHistory, dataFields } = await request.json();
+    const body = callsQueryRequestSchema.safeParse(await request.json());
 
-    if (!message) {
+    if (!body.success) {
       return NextResponse.json(
-        { error: "Message is required" },
+        { error: validationError(body.error) },
         { status: 400 }
       );
     }
 
-    if (!transcriptionData || !Array.isArray(transcriptionData)) {
-      return NextResponse.json(
-        { error: "Transcription data is required" },
-        { status: 400 }
-      );
-    }
+    const { message, transcriptionData, conversationHistory, dataFields } = body.data;
 
     // Perform basic data analytics
     const analytics = performBasicAnalytics(transcriptionData);
@@ -158,6 +98,12 @@ export async function POST(request: NextRequest) {
       presence_penalty: 0.1,
     });
 
+    // Bill the chat to the calls' channel when they all share one
+    const channels = new Set(transcriptionData.map((call) => call.channel).filter(Boolean));
+    await recordCompletionUsage("chat", completion, {
+      channel: channels.size === 1 ? String(Array.from(channels)[0]) : null,
+    });
+
     const response = completion.choices[0]?.message?.content;
 
     if (!response) {
@@ -183,7 +129,7 @@ export async function POST(request: NextRequest) {
   }
 }
 
-function performBasicAnalytics(data: CallOverviewData[]): Analytics {
+function performBasicAnalytics(data: CallOverview[]): Analytics {
   const analytics: Analytics = {
     totalCalls: data.length,
     dateRange: getDateRange(data),
@@ -199,7 +145,7 @@ function performBasicAnalytics(data: CallOverviewData[]): Analytics {
   return analytics;
 }
 
-function getDateRange(data: CallOverviewData[]): {
+function getDateRange(data: CallOverview[]): {
   earliest: string;
   latest: string;
   spanDays: number;
@@ -214,7 +160,7 @@ function getDateRange(data: CallOverviewData[]): {
   };
 }
 
-function calculateCoverage(data: CallOverviewData[]): {
+function calculateCoverage(data: CallOverview[]): {
   transcript: { count: number; percentage: number };
   sentiment: { count: number; percentage: number };
   summary: { count: number; percentage: number };
@@ -231,7 +177,7 @@ function calculateCoverage(data: CallOverviewData[]): {
   };
 }
 
-function processAgentAnalytics(data: CallOverviewData[]) {
+function processAgentAnalytics(data: CallOverview[]) {
   const agentStats = {} as Record<string, any>;
   
   data.forEach(call => {
@@ -313,7 +259,7 @@ function processAgentAnalytics(data: CallOverviewData[]) {
   return agentStats;
 }
 
-function processSentimentAnalytics(data: CallOverviewData[]): {
+function processSentimentAnalytics(data: CallOverview[]): {
   overall: { positive: number; neutral: number; negative: number };
   byAgent: Record<string, { positive: number; neutral: number; negative: number }>;
   byCategory: Record<string, { positive: number; neutral: number; negative: number }>;
@@ -367,7 +313,7 @@ function processSentimentAnalytics(data: CallOverviewData[]): {
   return analytics;
 }
 
-function processCategoryAnalytics(data: CallOverviewData[]): {
+function processCategoryAnalytics(data: CallOverview[]): {
   distribution: Record<string, number>;
   avgDurationByCategory: Record<string, number>;
   satisfactionByCategory: Record<string, number[]>;
@@ -406,7 +352,7 @@ function processCategoryAnalytics(data: CallOverviewData[]): {
   return analytics;
 }
 
-function processDispositionAnalytics(data: CallOverviewData[]): {
+function processDispositionAnalytics(data: CallOverview[]): {
   distribution: Record<string, number>;
   byAgent: Record<string, Record<string, number>>;
   byQueue: Record<string, Record<string, number>>;
@@ -464,7 +410,7 @@ function processDispositionAnalytics(data: CallOverviewData[]): {
   return analytics;
 }
 
-function processQueueAnalytics(data: CallOverviewData[]): {
+function processQueueAnalytics(data: CallOverview[]): {
   distribution: Record<string, number>;
   avgDurationByQueue: Record<string, number>;
   satisfactionByQueue: Record<string, number[]>;
@@ -503,7 +449,7 @@ function processQueueAnalytics(data: CallOverviewData[]): {
   return analytics;
 }
 
-function processTimeAnalytics(data: CallOverviewData[]): {
+function processTimeAnalytics(data: CallOverview[]): {
   hourlyVolume: Record<number, number>;
   dailyVolume: Record<string, number>;
   weeklyPatterns: Record<string, number>;
@@ -529,7 +475,7 @@ function processTimeAnalytics(data: CallOverviewData[]): {
 }
 
 function createSystemPrompt(
-  data: CallOverviewData[], 
+  data: CallOverview[], 
   analytics: Analytics, 
   dataFields: string[], 
   conversationContext: string
@@ -618,7 +564,7 @@ ${conversationContext ? `\n📝 CONVERSATION CONTEXT:\n${conversationContext}` :
 Remember: Every statistic, comparison, and insight must be derived from the actual call data provided. Focus on helping users understand their call center performance through data-driven analysis.`;
 }
 
-function buildConversationContext(conversationHistory: Message[]): string {
+function buildConversationContext(conversationHistory: ChatMessage[]): string {
   if (!conversationHistory || conversationHistory.length === 0) return '';
   
   const recentMessages = conversationHistory.slice(-4);
@@ -0,0 +1,77 @@
+// app/api/openAI/categorise/backfill/route.ts - Recategorise stored calls after the taxonomy changes
+import { NextRequest, NextResponse } from 'next/server';
+import { BackfillSelector, runCategoryBackfill } from '@/lib/categoryBackfill';
+import { requireAdmin } from '@/lib/adminAuth';
+
+const SELECTORS: BackfillSelector[] = ['all', 'uncategorised', 'other'];
+const MAX_LIMIT = 500;
+
+// Helper function to parse an optional ISO date from the request body
+function parseDate(value: unknown): Date | undefined | null {
+  if (value === undefined || value === null || value === '') return undefined;
+  const date = new Date(String(value));
+  return isNaN(date.getTime()) ? null : date;
+}
+
+// POST runs one batch; call again with `after: nextCursor` until nextCursor is null.
+// Requires the admin key, since a batch spends OpenAI credit and rewrites calls.
+export async function POST(request: NextRequest) {
+  const denied = requireAdmin(request, 'Category backfill');
+  if (denied) return denied;
+
+  try {
+    const body = await request.json();
+    const { channel, only = 'all', dryRun = false, after } = body;
+
+    const start = parseDate(body.startDate);
+    const end = parseDate(body.endDate);
+    if (start === null || end === null) {
+      return NextResponse.json(
+        { success: false, error: 'startDate and endDate must be ISO dates' },
+        { status: 400 }
+      );
+    }
+
+    if (!SELECTORS.includes(only)) {
+      return NextResponse.json(
+        { success: false, error: `only must be one of: ${SELECTORS.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    if (!process.env.OPENAI_API_KEY) {
+      return NextResponse.json(
+        { success: false, error: 'OpenAI API key not configured' },
+        { status: 500 }
+      );
+    }
+
+    const limit = Math.min(Math.max(parseInt(body.limit, 10) || 100, 1), MAX_LIMIT);
+
+    const report = await runCategoryBackfill({
+      start,
+      end,
+      channel: channel ? String(channel) : undefined,
+      only,
+      dryRun: Boolean(dryRun),
+      limit,
+      after: after ? String(after) : undefined,
+    });
+
+    return NextResponse.json({
+      success: true,
+      report,
+      timestamp: new Date().toISOString()
+    });
+  } catch (error) {
+    console.error('Error running category backfill:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Failed to run category backfill',
+        details: process.env.NODE_ENV === 'development' && error instanceof Error ? error.message : undefined
+      },
+      { status: 500 }
+    );
+  }
+}
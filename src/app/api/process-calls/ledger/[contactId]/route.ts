@@ -0,0 +1,40 @@
+// app/api/process-calls/ledger/[contactId]/route.ts - Pipeline audit trail for one call
+import { NextResponse } from 'next/server';
+import { getLedger } from '@/lib/pipelineLedger';
+import { requirePiiAccess } from '@/lib/adminAuth';
+
+// Stage outputs can hold the full transcript, so they're only included with
+// ?full=true and the PII access or admin key
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ contactId: string }> }
+) {
+  const includeOutput = new URL(request.url).searchParams.get('full') === 'true';
+  if (includeOutput) {
+    const denied = requirePiiAccess(request, 'Full ledger access');
+    if (denied) return denied;
+  }
+
+  try {
+    const { contactId } = await params;
+
+    const entries = await getLedger(contactId, { includeOutput });
+
+    return NextResponse.json({
+      success: true,
+      contactId,
+      entries,
+      timestamp: new Date().toISOString()
+    });
+  } catch (error) {
+    console.error('Error fetching pipeline ledger:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Failed to fetch pipeline ledger',
+        details: process.env.NODE_ENV === 'development' && error instanceof Error ? error.message : undefined
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,91 @@
+// app/api/process-calls/progress/route.ts - Server-Sent Events stream of per-call processing stages
+import { NextRequest } from 'next/server';
+import { CallProgressEvent, getCallProgressSince } from '@/lib/callProgress';
+
+export const dynamic = 'force-dynamic';
+
+const POLL_INTERVAL_MS = 1000;
+const KEEPALIVE_INTERVAL_MS = 15 * 1000; // Stops proxies closing an idle stream
+
+// Stages are read from call_processing_jobs, so calls processed by the
+// worker or finished by the webhook show up here as well.
+export async function GET(request: NextRequest) {
+  const { searchParams } = new URL(request.url);
+  const since = searchParams.get('since') || new Date().toISOString();
+  const contactIds = searchParams.get('contactIds')?.split(',').filter(Boolean);
+
+  if (isNaN(new Date(since).getTime())) {
+    return Response.json(
+      { success: false, error: 'since must be an ISO timestamp' },
+      { status: 400 }
+    );
+  }
+
+  const encoder = new TextEncoder();
+  let closed = false;
+
+  const stream = new ReadableStream({
+    async start(controller) {
+      const send = (chunk: string) => {
+        if (!closed) controller.enqueue(encoder.encode(chunk));
+      };
+
+      const close = () => {
+        if (closed) return;
+        closed = true;
+        controller.close();
+      };
+
+      request.signal.addEventListener('abort', close);
+
+      // Polling with gte means rows at the cursor come back again, so only
+      // send a call when its stage timestamp has moved on
+      const lastSent = new Map<string, string>();
+      let cursor = since;
+      let lastWrite = Date.now();
+
+      send('retry: 3000\n\n');
+
+      while (!closed) {
+        try {
+          const events: CallProgressEvent[] = await getCallProgressSince(cursor, contactIds);
+
+          for (const event of events) {
+            if (lastSent.get(event.contact_id) === event.stage_updated_at) continue;
+
+            lastSent.set(event.contact_id, event.stage_updated_at);
+            send(`event: progress\ndata: ${JSON.stringify(event)}\n\n`);
+            lastWrite = Date.now();
+          }
+
+          if (events.length > 0) {
+            cursor = events[events.length - 1].stage_updated_at;
+          }
+        } catch (error) {
+          console.error('Error streaming call progress:', error);
+          send(`event: error\ndata: ${JSON.stringify({ error: 'Failed to fetch call progress' })}\n\n`);
+          lastWrite = Date.now();
+        }
+
+        if (Date.now() - lastWrite >= KEEPALIVE_INTERVAL_MS) {
+          send(': keepalive\n\n');
+          lastWrite = Date.now();
+        }
+
+        await new Promise((resolve) => setTimeout(resolve, POLL_INTERVAL_MS));
+      }
+    },
+    cancel() {
+      closed = true;
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive',
+      'X-Accel-Buffering': 'no',
+    },
+  });
+}
@@ -1,48 +1,19 @@
-/* eslint-disable @typescript-eslint/no-unused-vars */
 /* eslint-disable @typescript-eslint/no-explicit-any */
 // app/api/process-calls/route.ts - Unified call processing workflow with duplicate prevention
 
 import { NextRequest, NextResponse } from "next/server";
-import { Pool } from "pg";
-import { createClient } from "@supabase/supabase-js";
-import { Client } from "ssh2";
-import { readFileSync } from "fs";
-import * as path from "path";
-
-// Database configuration
-const pool = new Pool({
-  host: process.env.DB_HOST,
-  port: 5432,
-  user: process.env.DB_USER,
-  password: `Y2QyNzk5ZjRiMDZmYTYwMDI2NWE1NzhmODUwNjY2`,
-  database: process.env.DB_NAME,
-});
-
-// Supabase configuration
-const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL!;
-const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY!;
-const supabase = createClient(supabaseUrl, supabaseServiceKey);
-
-// SFTP configuration
-type SftpConfig = {
-  host: string;
-  port: number;
-  username: string;
-  privateKey: Buffer;
-  passphrase: string;
-};
-
-function getSftpConfig(): SftpConfig {
-  return {
-    host: process.env.SFTP_HOST!,
-    port: parseInt(process.env.SFTP_PORT!),
-    username: process.env.SFTP_USERNAME!,
-    privateKey: readFileSync(
-      path.resolve(process.env.HOME || "~", ".ssh/sftp_key")
-    ),
-    passphrase: process.env.SFTP_PASSPHRASE!,
-  };
-}
+import { getContactLogs } from "@/lib/db";
+import { getUnavailableContactIds, createLeaseOwner } from "@/lib/jobQueue";
+import { enhanceCallLogsWithSupabaseStatus } from "@/lib/callRecords";
+import { callLogSchema, processCallsRequestSchema, validationError, type ChannelCallLog } from "@/lib/domain";
+import {
+  claimCallsForProcessing,
+  processCall,
+  releaseCall,
+} from "@/lib/callPipeline";
+import { getTranscriptionProvider } from "@/lib/transcription";
+import { callsBudgetExceededError } from "@/lib/budget";
+import { estimateProcessing } from "@/lib/processingEstimate";
 
 // Interfaces
 interface DateRange {
@@ -50,796 +21,15 @@ interface DateRange {
   end: Date;
 }
 
-interface CallLog {
-  contact_id: string;
-  agent_username: string;
-  recording_location: string;
-  initiation_timestamp: string;
-  total_call_time: {
-    minutes: number;
-    seconds: number;
-  };
-  campaign_name: string;
-  campaign_id: number;
-  customer_cli: string;
-  agent_hold_time: number;
-  total_hold_time: number;
-  time_in_queue: number;
-  queue_name: string;
-  disposition_title: string;
-  existsInSupabase?: boolean;
-}
-
-interface TranscriptionData {
-  contact_id: string;
-  recording_location: string;
-  transcript_text: string;
-  queue_name?: string;
-  agent_username: string;
-  initiation_timestamp: string;
-  speaker_data?: string | null;
-  sentiment_analysis?: string | null;
-  entities?: string | null;
-  categories?: string | null;
-  disposition_title?: string;
-  call_summary?: string | null;
-  campaign_name?: string | null;
-  campaign_id?: string | null;
-  customer_cli?: string | null;
-  agent_hold_time?: number | null;
-  total_hold_time?: number | null;
-  time_in_queue?: number | null;
-  call_duration: string;
-  primary_category?: string | null;
-}
-
-// Helper function to get contact logs from database
-async function getContactLogs(dateRange?: DateRange) {
-  try {
-    let query: string;
-    let params: any[] = [];
-
-    if (dateRange) {
-      query = `
-        SELECT * FROM reporting.contact_log 
-        WHERE agent_username IS NOT NULL
-        AND disposition_title IS NOT NULL
-        AND disposition_title NOT IN ('No Answer - No Voicemail Available', 'No Answer - Voicemail Available', 'Engaged', 'Done', 'Invalid Endpoint')
-        AND initiation_timestamp >= $1 
-        AND initiation_timestamp <= $2
-        ORDER BY initiation_timestamp DESC
-      `;
-      params = [dateRange.start, dateRange.end];
-    } else {
-      query = `
-        SELECT * FROM reporting.contact_log 
-        WHERE agent_username IS NOT NULL
-        AND disposition_title IS NOT NULL
-        AND disposition_title NOT IN ('No Answer - No Voicemail Available', 'No Answer - Voicemail Available', 'Engaged', 'Done', 'Invalid Endpoint')
-        ORDER BY initiation_timestamp DESC
-      `;
-    }
-
-    const result = await pool.query(query, params);
-    return result.rows;
-  } catch (error) {
-    console.error("Database query error:", error);
-    throw error;
-  }
-}
-
-// NEW: Helper function to check if a single call exists in Supabase
-async function checkCallExistsInSupabase(contactId: string): Promise<boolean> {
-  try {
-    const { data, error } = await supabase
-      .from("call_records")
-      .select("contact_id")
-      .eq("contact_id", contactId)
-      .single();
-
-    if (error && error.code !== "PGRST116") {
-      console.error(`Error checking call ${contactId}:`, error);
-      return false;
-    }
-
-    return !!data;
-  } catch (error) {
-    console.error(`Error checking call ${contactId}:`, error);
-    return false;
-  }
-}
-
-// Helper function to check Supabase status for call logs (with batching to avoid 414 error)
-async function enhanceCallLogsWithSupabaseStatus(
-  logs: CallLog[]
-): Promise<CallLog[]> {
-  try {
-    if (logs.length === 0) return logs;
-
-    const contactIds = logs.map((log) => log.contact_id);
-    console.log(`🔍 Checking ${contactIds.length} contact IDs against Supabase in batches...`);
-
-    // CRITICAL FIX: Batch the Supabase queries to avoid 414 Request-URI Too Large error
-    const SUPABASE_BATCH_SIZE = 100; // Process 100 contact IDs at a time
-    const allExistingContactIds = new Set<string>();
-
-    for (let i = 0; i < contactIds.length; i += SUPABASE_BATCH_SIZE) {
-      const batch = contactIds.slice(i, i + SUPABASE_BATCH_SIZE);
-      const batchNumber = Math.floor(i / SUPABASE_BATCH_SIZE) + 1;
-      const totalBatches = Math.ceil(contactIds.length / SUPABASE_BATCH_SIZE);
-      
-      console.log(`📊 Checking Supabase batch ${batchNumber}/${totalBatches} (${batch.length} contact IDs)`);
-
-      try {
-        const { data: batchRecords, error } = await supabase
-          .from("call_records")
-          .select("contact_id")
-          .in("contact_id", batch);
-
-        if (error) {
-          console.error(`Error in Supabase batch ${batchNumber}:`, error);
-          continue; // Continue with next batch even if one fails
-        }
-
-        // Add this batch's results to the overall set
-        if (batchRecords) {
-          batchRecords.forEach(record => allExistingContactIds.add(record.contact_id));
-        }
-
-        console.log(`✅ Batch ${batchNumber}/${totalBatches}: Found ${batchRecords?.length || 0} existing records`);
-      } catch (batchError) {
-        console.error(`Error processing Supabase batch ${batchNumber}:`, batchError);
-        continue; // Continue with next batch
-      }
-    }
-
-    console.log(`📋 Total existing records found: ${allExistingContactIds.size}/${contactIds.length}`);
-
-    return logs.map((log) => ({
-      ...log,
-      existsInSupabase: allExistingContactIds.has(log.contact_id),
-    }));
-  } catch (error) {
-    console.error("Error enhancing call logs with Supabase status:", error);
-    return logs.map((log) => ({ ...log, existsInSupabase: false }));
-  }
-}
-
-
-function constructSftpPath(filename: string): string[] {
-  const possiblePaths = [];
-  
-  // Decode URL encoding
-  let decodedFilename = filename;
-  try {
-    decodedFilename = decodeURIComponent(filename);
-  } catch (error) {
-    console.log(`⚠️ Could not decode filename: ${filename}`);
-  }
-  
-  // If filename has path structure, use it first
-  if (decodedFilename.includes('/')) {
-    let cleanPath = decodedFilename;
-    
-    // Handle known prefixes
-    if (cleanPath.startsWith('amazon-connect-b1a9c08821e5/')) {
-      cleanPath = cleanPath.replace('amazon-connect-b1a9c08821e5/', '');
-    }
-    
-    if (!cleanPath.startsWith('./') && !cleanPath.startsWith('/')) {
-      cleanPath = `./${cleanPath}`;
-    }
-    
-    possiblePaths.push(cleanPath);
-    
-    // Also try without leading ./
-    if (cleanPath.startsWith('./')) {
-      possiblePaths.push(cleanPath.substring(2));
-    }
-  }
-  
-  // Extract filename for date-based searches
-  const justFilename = decodedFilename.split('/').pop() || decodedFilename;
-  
-  // COMPREHENSIVE DATE SEARCH: Current year with all months/days + 1 day forward
-  const currentDate = new Date();
-  const currentYear = currentDate.getFullYear();
-  
-  // First, try current date and 1 day forward (prioritize recent dates)
-  for (let daysForward = 0; daysForward <= 1; daysForward++) {
-    const targetDate = new Date(currentDate);
-    targetDate.setDate(currentDate.getDate() + daysForward);
-    
-    const year = targetDate.getFullYear();
-    const month = targetDate.getMonth() + 1;
-    const day = targetDate.getDate();
-    
-    const datePath = `${year}/${month.toString().padStart(2, '0')}/${day.toString().padStart(2, '0')}`;
-    
-    possiblePaths.push(`./${datePath}/${justFilename}`);
-    possiblePaths.push(`${datePath}/${justFilename}`);
-  }
-  
-  // Then check ALL months (01-12) and ALL days (01-31) for current year - PADDED FORMATS ONLY
-  for (let month = 1; month <= 12; month++) {
-    for (let day = 1; day <= 31; day++) {
-      const monthStr = month.toString().padStart(2, '0');
-      const dayStr = day.toString().padStart(2, '0');
-      
-      const datePath = `${currentYear}/${monthStr}/${dayStr}`;
-      
-      possiblePaths.push(`./${datePath}/${justFilename}`);
-      possiblePaths.push(`${datePath}/${justFilename}`);
-    }
-  }
-  
-  // Try alternative date formats for current date only
-  const year = currentDate.getFullYear();
-  const month = currentDate.getMonth() + 1;
-  const day = currentDate.getDate();
-  
-  // Dashed format for current date
-  possiblePaths.push(`./${year}-${month.toString().padStart(2, '0')}-${day.toString().padStart(2, '0')}/${justFilename}`);
-  possiblePaths.push(`${year}-${month.toString().padStart(2, '0')}-${day.toString().padStart(2, '0')}/${justFilename}`);
-  
-  // Try direct access as fallback
-  possiblePaths.push(`./${justFilename}`);
-  possiblePaths.push(justFilename);
-  
-  // Try in root audio/recordings folders
-  possiblePaths.push(`./audio/${justFilename}`);
-  possiblePaths.push(`./recordings/${justFilename}`);
-  possiblePaths.push(`audio/${justFilename}`);
-  possiblePaths.push(`recordings/${justFilename}`);
-  
-  // Remove duplicates while preserving order
-  return Array.from(new Set(possiblePaths));
-}
-
-// Helper function to download audio file from SFTP
-async function downloadAudioFromSftp(filename: string): Promise<Buffer> {
-  const sftpConfig = getSftpConfig();
-
-  return new Promise<Buffer>((resolve, reject) => {
-    const conn = new Client();
-    let resolved = false;
-    let sftpSession: any = null;
-
-    const cleanup = () => {
-      try {
-        if (sftpSession) {
-          sftpSession.end();
-          sftpSession = null;
-        }
-        conn.end();
-      } catch (e) {
-        console.log("Cleanup error:", e);
-      }
-    };
-
-    conn.on("ready", () => {
-      console.log("SFTP connection ready for", filename);
-
-      conn.sftp((err, sftp) => {
-        if (err) {
-          console.error("SFTP session error:", err);
-          if (!resolved) {
-            resolved = true;
-            cleanup();
-            reject(new Error("SFTP session error"));
-          }
-          return;
-        }
-
-        sftpSession = sftp;
-        const possiblePaths = constructSftpPath(filename);
-        console.log(`Searching ${possiblePaths.length} paths for ${filename}`);
-
-        let pathIndex = 0;
-
-        const tryNextPath = async () => {
-          if (resolved) return;
-
-          if (pathIndex >= possiblePaths.length) {
-            console.error(`File not found in ${possiblePaths.length} paths`);
-            if (!resolved) {
-              resolved = true;
-              cleanup();
-              reject(new Error("Audio file not found"));
-            }
-            return;
-          }
-
-          const currentPath = possiblePaths[pathIndex];
-          console.log(
-            `Trying path ${pathIndex + 1}/${
-              possiblePaths.length
-            }: ${currentPath}`
-          );
-
-          try {
-            const stats = await new Promise<any>(
-              (resolveStats, rejectStats) => {
-                sftp.stat(currentPath, (statErr, statsResult) => {
-                  if (statErr) {
-                    rejectStats(statErr);
-                  } else {
-                    resolveStats(statsResult);
-                  }
-                });
-              }
-            );
-
-            const sizeInMB = stats.size / (1024 * 1024);
-            console.log(`Found file: ${sizeInMB.toFixed(2)}MB`);
-
-            if (stats.size === 0) {
-              console.log(`Empty file, trying next`);
-              pathIndex++;
-              return tryNextPath();
-            }
-
-            if (stats.size < 10000) {
-              console.log(`File too small: ${stats.size} bytes`);
-              pathIndex++;
-              return tryNextPath();
-            }
-
-            console.log(`Downloading ${stats.size} bytes`);
-
-            const fileData = await new Promise<Buffer>(
-              (resolveDownload, rejectDownload) => {
-                const fileBuffers: Buffer[] = [];
-                let totalBytesReceived = 0;
-
-                const readStream = sftp.createReadStream(currentPath, {
-                  highWaterMark: 256 * 1024,
-                });
-
-                readStream.on("error", (readErr: Error) => {
-                  console.error(`Stream error: ${readErr.message}`);
-                  rejectDownload(readErr);
-                });
-
-                readStream.on("data", (chunk: Buffer) => {
-                  fileBuffers.push(chunk);
-                  totalBytesReceived += chunk.length;
-
-                  if (totalBytesReceived % (1024 * 1024) < chunk.length) {
-                    const progress = (
-                      (totalBytesReceived / stats.size) *
-                      100
-                    ).toFixed(0);
-                    console.log(
-                      `Progress: ${progress}% (${(
-                        totalBytesReceived /
-                        (1024 * 1024)
-                      ).toFixed(1)}MB)`
-                    );
-                  }
-                });
-
-                readStream.on("end", () => {
-                  const audioBuffer = Buffer.concat(fileBuffers);
-                  console.log(`Downloaded: ${audioBuffer.length} bytes`);
-
-                  if (audioBuffer.length !== stats.size) {
-                    rejectDownload(
-                      new Error(
-                        `Size mismatch: expected ${stats.size}, got ${audioBuffer.length}`
-                      )
-                    );
-                  } else {
-                    resolveDownload(audioBuffer);
-                  }
-                });
-              }
-            );
-
-            if (!resolved) {
-              resolved = true;
-              cleanup();
-              resolve(fileData);
-            }
-            return;
-          } catch (error) {
-            console.log(
-              `Error with path ${pathIndex + 1}: ${
-                error instanceof Error ? error.message : "Unknown"
-              }`
-            );
-            pathIndex++;
-            setTimeout(tryNextPath, 200);
-          }
-        };
-
-        tryNextPath();
-      });
-    });
-
-    conn.on("error", (err) => {
-      console.error("SFTP connection error:", err.message);
-      if (!resolved) {
-        resolved = true;
-        cleanup();
-        reject(new Error("SFTP connection failed"));
-      }
-    });
-
-    try {
-      conn.connect({
-        ...sftpConfig,
-        keepaliveInterval: 30000,
-        keepaliveCountMax: 10,
-        algorithms: {
-          compress: ["none"],
-        },
-        tryKeyboard: false,
-      });
-    } catch (e) {
-      console.error("Connection setup error:", e);
-      if (!resolved) {
-        resolved = true;
-        reject(new Error("Failed to initialize SFTP connection"));
-      }
-    }
-  });
-}
-
-// Helper function to upload audio to AssemblyAI
-async function uploadToAssemblyAI(
-  audioBuffer: Buffer,
-  apiKey: string
-): Promise<string> {
-  console.log("Uploading audio to AssemblyAI...");
-
-  // Convert Buffer to Uint8Array for fetch compatibility
-  const uint8Array = new Uint8Array(audioBuffer);
-
-  const uploadResponse = await fetch("https://api.assemblyai.com/v2/upload", {
-    method: "POST",
-    headers: {
-      Authorization: apiKey,
-      "Content-Type": "application/octet-stream",
-    },
-    body: uint8Array,
-  });
-
-  if (!uploadResponse.ok) {
-    const errorText = await uploadResponse.text();
-    throw new Error(
-      `AssemblyAI upload failed: ${uploadResponse.status} - ${errorText}`
-    );
-  }
-
-  const { upload_url } = await uploadResponse.json();
-  console.log("Audio uploaded to AssemblyAI successfully");
-  return upload_url;
-}
-
-// Helper function for topic categorization
-async function performTopicCategorization(transcriptData: any): Promise<{
-  primary_category: string;
-  topic_categories: string[];
-  confidence: number;
-} | null> {
-  try {
-    const serverUrl =
-      process.env.NEXT_PUBLIC_SERVER_URL || "http://192.168.40.101";
-
-    const response = await fetch(`${serverUrl}/api/openAI/categorise`, {
-      method: "POST",
-      headers: { "Content-Type": "application/json" },
-      body: JSON.stringify({ transcript: transcriptData }),
-      signal: AbortSignal.timeout(20000),
-    });
-
-    if (!response.ok) {
-      console.error("Topic categorization failed:", response.status);
-      return null;
-    }
-
-    const topicData = await response.json();
-
-    if (topicData.topic_categories && topicData.topic_categories.length > 0) {
-      return {
-        primary_category: topicData.primary_category,
-        topic_categories: topicData.topic_categories,
-        confidence: topicData.confidence || 1.0,
-      };
-    }
-
-    return null;
-  } catch (error) {
-    console.error("Error in topic categorization:", error);
-    return null;
-  }
-}
-
-// Helper function to transcribe audio with AssemblyAI
-async function transcribeAudio(
-  uploadUrl: string,
-  speakerCount: number = 2
-): Promise<any> {
-  const apiKey = process.env.ASSEMBLYAI_API_KEY!;
-
-  console.log("Submitting transcription to AssemblyAI...");
-
-  const transcriptResponse = await fetch(
-    "https://api.assemblyai.com/v2/transcript",
-    {
-      method: "POST",
-      headers: {
-        Authorization: apiKey,
-        "Content-Type": "application/json",
-      },
-      body: JSON.stringify({
-        audio_url: uploadUrl,
-        speech_model: "best",
-        word_boost: [
-          "Team",
-          "Global",
-          "Express",
-          "Freight",
-          "Referred",
-          "You're",
-          "Logistics",
-          "Calling",
-          "Regards",
-          "Referral",
-          "Transportation",
-          "Shipment",
-          "Supply Chain",
-          "Carrier",
-          "Warehouse",
-          "Cargo",
-          "Dispatch",
-          "Consignment",
-          "Tracking",
-          "Delivery",
-          "Inventory",
-          "Import",
-          "Export",
-          "Port",
-          "Barge",
-          "Forwarding",
-          "Customs",
-          "Route",
-          "Tracking Number",
-          "Handling",
-          "Third-party",
-          "Broker",
-          "Load",
-          "Pallet",
-          "Shipping",
-          "Logistics Management",
-          "Freight Forwarder",
-          "Fleet",
-          "Intermodal",
-          "Air Freight",
-          "Sea Freight",
-          "Freight Rates",
-          "Lead Time",
-          "Shipping Label",
-          "Warehouse Management",
-          "Distribution",
-          "Freight Broker",
-          "Freight Consolidation",
-          "Cross-docking",
-          "Port of Entry",
-          "Drop-off",
-          "Pickup",
-          "Route Optimization",
-          "Fleet Management",
-          "Supply Chain Solutions",
-          "Full Truckload",
-          "Less-than-Truckload",
-          "3PL",
-          "Logistics Provider",
-          "Transporter",
-          "Freight Class",
-          "Shipping Terms",
-          "Logistics Network",
-        ],
-        speaker_labels: true,
-        speakers_expected: speakerCount,
-        summarization: true,
-        summary_model: "conversational",
-        summary_type: "paragraph",
-        entity_detection: true,
-        sentiment_analysis: true,
-        filter_profanity: false,
-        auto_highlights: true,
-        punctuate: true,
-        format_text: true,
-      }),
-    }
-  );
-
-  if (!transcriptResponse.ok) {
-    const errorData = await transcriptResponse.json();
-    throw new Error(
-      `AssemblyAI submission failed: ${JSON.stringify(errorData)}`
-    );
-  }
-
-  const { id } = await transcriptResponse.json();
-  console.log(`Transcription job created: ${id}`);
-
-  // Poll for completion
-  let transcript;
-  let status = "processing";
-  let attempts = 0;
-  const maxAttempts = 120; // 10 minutes at 5-second intervals
-  const pollInterval = 5000;
-
-  while (
-    (status === "processing" || status === "queued") &&
-    attempts < maxAttempts
-  ) {
-    await new Promise((resolve) => setTimeout(resolve, pollInterval));
-    attempts++;
-
-    const statusResponse = await fetch(
-      `https://api.assemblyai.com/v2/transcript/${id}`,
-      {
-        headers: { Authorization: apiKey },
-      }
-    );
-
-    if (!statusResponse.ok) {
-      throw new Error(`Status check failed: ${statusResponse.status}`);
-    }
-
-    transcript = await statusResponse.json();
-    status = transcript.status;
-
-    if (attempts % 12 === 0) {
-      // Log every minute
-      console.log(`Transcription status after ${attempts * 5}s: ${status}`);
-    }
-
-    if (status === "completed" || status === "error") {
-      break;
-    }
-  }
-
-  if (status === "error") {
-    throw new Error(
-      `Transcription failed: ${transcript?.error || "Unknown error"}`
-    );
-  }
-
-  if (status !== "completed") {
-    throw new Error(
-      `Transcription timed out after ${(maxAttempts * pollInterval) / 1000}s`
-    );
-  }
-
-  console.log("Transcription completed successfully");
-
-  // Process speaker roles
-  if (transcript.utterances) {
-    transcript.utterances = transcript.utterances.map((utterance: any) => ({
-      ...utterance,
-      speakerRole: utterance.speaker === "A" ? "Agent" : "Customer",
-    }));
-  }
-
-  if (transcript.words) {
-    transcript.words = transcript.words.map((word: any) => ({
-      ...word,
-      speakerRole: word.speaker === "A" ? "Agent" : "Customer",
-    }));
-  }
-
-  return transcript;
-}
-
-// Helper function to save transcription to Supabase
-async function saveTranscriptionToSupabase(
-  callData: CallLog,
-  transcriptData: any,
-  categorization: any = null
-): Promise<void> {
-  try {
-    const payload: TranscriptionData = {
-      contact_id: callData.contact_id,
-      recording_location: callData.recording_location || "",
-      transcript_text: transcriptData.text || "",
-      queue_name: callData.queue_name || "",
-      agent_username: callData.agent_username || "",
-      initiation_timestamp:
-        callData.initiation_timestamp || new Date().toISOString(),
-      speaker_data: transcriptData.utterances
-        ? JSON.stringify(transcriptData.utterances)
-        : null,
-      sentiment_analysis: transcriptData.sentiment_analysis_results
-        ? JSON.stringify(transcriptData.sentiment_analysis_results)
-        : null,
-      entities: transcriptData.entities
-        ? JSON.stringify(transcriptData.entities)
-        : null,
-      disposition_title: callData.disposition_title || "",
-      call_summary: transcriptData.summary || null,
-      campaign_name: callData.campaign_name || null,
-      campaign_id: callData.campaign_id?.toString() || null,
-      customer_cli: callData.customer_cli || null,
-      agent_hold_time: callData.agent_hold_time || null,
-      total_hold_time: callData.total_hold_time || null,
-      time_in_queue: callData.time_in_queue || null,
-      call_duration: JSON.stringify(callData.total_call_time) || "",
-      categories: categorization?.topic_categories
-        ? JSON.stringify(categorization.topic_categories)
-        : transcriptData.topic_categorization?.all_topics
-        ? JSON.stringify(transcriptData.topic_categorization.all_topics)
-        : null,
-      primary_category:
-        categorization?.primary_category ||
-        transcriptData.topic_categorization?.primary_topic ||
-        null,
-    };
-
-    console.log(
-      "Saving transcription to Supabase for contact_id:",
-      payload.contact_id
-    );
-
-    // Check if record already exists
-    const { data: existingRecord, error: checkError } = await supabase
-      .from("call_records")
-      .select("contact_id")
-      .eq("contact_id", payload.contact_id)
-      .single();
-
-    if (checkError && checkError.code !== "PGRST116") {
-      throw new Error(`Error checking existing record: ${checkError.message}`);
-    }
-
-    if (existingRecord) {
-      // Update existing record
-      const { error } = await supabase
-        .from("call_records")
-        .update(payload)
-        .eq("contact_id", payload.contact_id);
-
-      if (error) {
-        throw new Error(`Failed to update record: ${error.message}`);
-      }
-
-      console.log("Successfully updated existing record");
-    } else {
-      // Insert new record
-      const { error } = await supabase.from("call_records").insert([payload]);
-
-      if (error) {
-        throw new Error(`Failed to insert record: ${error.message}`);
-      }
-
-      console.log("Successfully inserted new record");
-    }
-  } catch (error) {
-    console.error("Error saving to Supabase:", error);
-    throw error;
-  }
-}
-
-// NEW: In-memory tracking for processing calls to prevent duplicates
-const processingCalls = new Set<string>();
-const attemptedCalls = new Map<string, number>(); // contact_id -> attempt count
-const MAX_ATTEMPTS = 3;
-
-// NEW: Function to get fresh missing transcriptions with exclusions
+// Function to get fresh missing transcriptions with exclusions
 async function getFreshMissingTranscriptions(
   dateRange?: DateRange,
   maxCount?: number,
   excludeContactIds: string[] = []
-): Promise<CallLog[]> {
+): Promise<ChannelCallLog[]> {
   try {
     console.log("🔄 Getting fresh list of missing transcriptions...");
     console.log(`📋 Excluding ${excludeContactIds.length} contact IDs from client`);
-    console.log(`🔒 Currently processing: ${processingCalls.size} calls`);
-    console.log(`🚫 Failed attempts tracked: ${attemptedCalls.size} calls`);
     
     // Get call logs from database
     const logs = await getContactLogs(dateRange);
@@ -851,6 +41,13 @@ async function getFreshMissingTranscriptions(
     // Count how many already exist in Supabase
     const alreadyInSupabase = enhancedLogs.filter(log => log.existsInSupabase).length;
     console.log(`✅ ${alreadyInSupabase} calls already exist in Supabase`);
+
+    // Check the job queue for calls that are leased, backing off or out of attempts
+    const candidateIds = enhancedLogs
+      .filter((log) => !log.existsInSupabase && log.recording_location)
+      .map((log) => log.contact_id);
+    const unavailableContactIds = await getUnavailableContactIds(candidateIds);
+    console.log(`🔒 ${unavailableContactIds.size} calls are processing, backing off or exhausted`);
     
     // Filter for missing transcriptions with comprehensive exclusions
     const missingTranscriptions = enhancedLogs.filter((log) => {
@@ -870,16 +67,9 @@ async function getFreshMissingTranscriptions(
         return false;
       }
       
-      // Must not be currently processing
-      if (processingCalls.has(log.contact_id)) {
-        console.log(`⚠️ Excluding ${log.contact_id} - currently processing`);
-        return false;
-      }
-      
-      // Must not have exceeded retry attempts
-      const attempts = attemptedCalls.get(log.contact_id) || 0;
-      if (attempts >= MAX_ATTEMPTS) {
-        console.log(`⚠️ Excluding ${log.contact_id} - exceeded ${MAX_ATTEMPTS} attempts (${attempts})`);
+      // Must not be leased, waiting for a retry or out of attempts
+      if (unavailableContactIds.has(log.contact_id)) {
+        console.log(`⚠️ Excluding ${log.contact_id} - unavailable in job queue`);
         return false;
       }
       
@@ -907,33 +97,6 @@ async function getFreshMissingTranscriptions(
   }
 }
 
-// NEW: Function to mark call as being processed
-function markCallAsProcessing(contactId: string) {
-  processingCalls.add(contactId);
-  console.log(`🔒 Marked ${contactId} as processing`);
-}
-
-// NEW: Function to unmark call as being processed
-function unmarkCallAsProcessing(contactId: string, success: boolean = false) {
-  processingCalls.delete(contactId);
-  
-  if (!success) {
-    const attempts = (attemptedCalls.get(contactId) || 0) + 1;
-    attemptedCalls.set(contactId, attempts);
-    console.log(`❌ Unmarked ${contactId} as processing (attempt ${attempts}/${MAX_ATTEMPTS})`);
-  } else {
-    attemptedCalls.delete(contactId);
-    console.log(`✅ Unmarked ${contactId} as processing (success)`);
-  }
-}
-
-// NEW: Function to clear processing state (for cleanup)
-function clearProcessingState() {
-  processingCalls.clear();
-  attemptedCalls.clear();
-  console.log("🧹 Cleared all processing state");
-}
-
 // Main API handler
 export async function GET(request: NextRequest) {
   try {
@@ -945,6 +108,7 @@ export async function GET(request: NextRequest) {
     const maxProcessCount = parseInt(
       searchParams.get("maxProcessCount") || "3"
     );
+    const dryRun = searchParams.get("dryRun") === "true";
     // NEW: Get excluded contact IDs from query params
     const excludeContactIdsParam = searchParams.get("excludeContactIds");
     const excludeContactIds = excludeContactIdsParam 
@@ -979,6 +143,35 @@ export async function GET(request: NextRequest) {
       dateRange = { start, end };
     }
 
+    // Dry run: estimate what processing would cost without claiming or downloading anything.
+    // Covers every missing call unless maxProcessCount is given explicitly.
+    if (dryRun) {
+      console.log("🧮 Dry run: estimating processing cost...");
+      const candidates = await getFreshMissingTranscriptions(
+        dateRange,
+        searchParams.has("maxProcessCount") ? maxProcessCount : undefined,
+        excludeContactIds
+      );
+      const estimate = await estimateProcessing(candidates);
+
+      console.log(
+        `🧮 ${estimate.foundCount}/${estimate.callCount} recordings found, ${estimate.audioMinutes.toFixed(1)} min, ~$${estimate.estimatedCostUsd.toFixed(2)}, ~${Math.round(estimate.estimatedSeconds / 60)} min`
+      );
+
+      return NextResponse.json({
+        success: true,
+        dryRun: true,
+        estimate,
+        dateRange: dateRange
+          ? {
+              start: dateRange.start.toISOString(),
+              end: dateRange.end.toISOString(),
+            }
+          : null,
+        timestamp: new Date().toISOString(),
+      });
+    }
+
     // Step 1: Get call logs from database
     console.log("📊 Step 1: Fetching call logs from database...");
     let logs = await getContactLogs(dateRange);
@@ -996,6 +189,7 @@ export async function GET(request: NextRequest) {
     );
 
     let processedCount = 0;
+    let submittedCount = 0;
     const errors: any[] = [];
     const processedContactIds: string[] = []; // NEW: Track which calls we've processed
 
@@ -1005,21 +199,38 @@ export async function GET(request: NextRequest) {
         `🎵 Step 3: Processing up to ${maxProcessCount} missing transcriptions...`
       );
 
-      const apiKey = process.env.ASSEMBLYAI_API_KEY;
-      if (!apiKey) {
+      const configError = getTranscriptionProvider().configurationError();
+      if (configError) {
         return NextResponse.json(
-          { error: "AssemblyAI API key not configured" },
+          { error: configError },
           { status: 500 }
         );
       }
 
       // CRITICAL FIX: Get fresh missing transcriptions with exclusions and validate results
-      const freshMissingTranscriptions = await getFreshMissingTranscriptions(
+      const candidateTranscriptions = await getFreshMissingTranscriptions(
         dateRange,
         maxProcessCount,
         [...processedContactIds, ...excludeContactIds] // Combine local processed + excluded from client
       );
 
+      // Stop spending once a monthly cap of the calls' channels is reached
+      const budgetError = await callsBudgetExceededError(candidateTranscriptions);
+      if (budgetError) {
+        return NextResponse.json(
+          { success: false, error: budgetError, budgetExceeded: true },
+          { status: 402 }
+        );
+      }
+
+      // Claim the candidates in the job queue so no other batch can take them
+      const leaseOwner = createLeaseOwner("process-calls");
+      const freshMissingTranscriptions = await claimCallsForProcessing(
+        candidateTranscriptions,
+        leaseOwner,
+        maxProcessCount
+      );
+
       console.log(`🎯 After exclusions: ${freshMissingTranscriptions.length} calls to process`);
 
       // CRITICAL FIX: If no calls to process after exclusions, return early
@@ -1039,11 +250,10 @@ export async function GET(request: NextRequest) {
         };
 
         console.log("🎉 No processing needed - returning current status:", finalSummary);
-        clearProcessingState();
 
         return NextResponse.json({
           success: true,
-          data: finalLogs,
+          data: callLogSchema.array().parse(finalLogs),
           summary: finalSummary,
           processedContactIds: [],
           errors: undefined,
@@ -1059,89 +269,37 @@ export async function GET(request: NextRequest) {
 
       for (const log of freshMissingTranscriptions) {
         try {
-          console.log(`\n🔍 Final check for call ${log.contact_id}...`);
+          const outcome = await processCall(log, leaseOwner);
 
-          // FIXED: Double-check right before processing each individual call
-          const stillMissing = !(await checkCallExistsInSupabase(log.contact_id));
-          if (!stillMissing) {
-            console.log(`⏭️ Call ${log.contact_id} already processed by another batch, skipping...`);
+          if (outcome === "submitted") {
+            // The webhook finishes and releases this call
+            submittedCount++;
             continue;
           }
 
-          // NEW: Mark call as being processed
-          markCallAsProcessing(log.contact_id);
-
-          console.log(`🎯 Processing call ${log.contact_id}...`);
-
-          // Download audio from SFTP
-          console.log("📥 Downloading audio from SFTP...");
-          const audioBuffer = await downloadAudioFromSftp(
-            log.recording_location
-          );
-
-          // Upload to AssemblyAI
-          console.log("⬆️ Uploading to AssemblyAI...");
-          const uploadUrl = await uploadToAssemblyAI(audioBuffer, apiKey);
-
-          // Transcribe audio
-          console.log("🎙️ Transcribing audio...");
-          const transcript = await transcribeAudio(uploadUrl, 2);
-
-          // Perform topic categorization
-          console.log("🏷️ Performing topic categorization...");
-          let categorization: {
-            primary_category: string;
-            topic_categories: string[];
-            confidence: number;
-          } | null = null;
-
-          if (transcript.utterances && transcript.utterances.length > 0) {
-            try {
-              categorization = await performTopicCategorization(transcript);
-            } catch (catError) {
-              console.error("⚠️ Categorization failed:", catError);
-            }
-
-            transcript.topic_categorization = categorization
-              ? {
-                  primary_topic: categorization.primary_category,
-                  all_topics: categorization.topic_categories,
-                  confidence: categorization.confidence,
-                }
-              : {
-                  primary_topic: "Uncategorised",
-                  all_topics: ["Uncategorised"],
-                  confidence: 0,
-                };
-          }
-
-          // FIXED: Final check before saving to prevent race conditions
-          console.log("🔒 Final check before saving...");
-          const finalCheck = await checkCallExistsInSupabase(log.contact_id);
-          if (finalCheck) {
-            console.log(`⚠️ Call ${log.contact_id} was processed by another batch during processing, skipping save...`);
-            unmarkCallAsProcessing(log.contact_id, false);
+          if (outcome === "rejected") {
+            // The job was failed without retries; its failure_reason says why
+            errors.push({
+              contact_id: log.contact_id,
+              error: "Recording failed integrity check",
+            });
             continue;
           }
 
-          // Save to Supabase
-          console.log("💾 Saving to Supabase...");
-          await saveTranscriptionToSupabase(log, transcript, categorization);
-
-          // Update log status
-          log.existsInSupabase = true;
-          processedCount++;
-          processedContactIds.push(log.contact_id); // NEW: Track this as processed
+          // Mark the job as completed (a skipped call was saved elsewhere)
+          await releaseCall(log.contact_id, leaseOwner);
 
-          // NEW: Mark as successfully processed
-          unmarkCallAsProcessing(log.contact_id, true);
-
-          console.log(`✅ Successfully processed call ${log.contact_id}`);
+          if (outcome === "saved") {
+            // Update log status
+            log.existsInSupabase = true;
+            processedCount++;
+            processedContactIds.push(log.contact_id); // Track this as processed
+          }
         } catch (error) {
           console.error(`❌ Error processing call ${log.contact_id}:`, error);
           
-          // NEW: Unmark as processing on error
-          unmarkCallAsProcessing(log.contact_id, false);
+          // Record the failed attempt so it is retried with backoff
+          await releaseCall(log.contact_id, leaseOwner, error);
           
           errors.push({
             contact_id: log.contact_id,
@@ -1164,17 +322,15 @@ export async function GET(request: NextRequest) {
         (log) => !log.existsInSupabase && log.recording_location
       ).length,
       processedThisRequest: processedCount,
+      submittedThisRequest: submittedCount,
       errors: errors.length,
     };
 
     console.log("🎉 Unified workflow completed:", summary);
 
-    // NEW: Clear processing state on completion
-    clearProcessingState();
-
     return NextResponse.json({
       success: true,
-      data: finalLogs,
+      data: callLogSchema.array().parse(finalLogs),
       summary,
       processedContactIds, // NEW: Return processed contact IDs for frontend tracking
       errors: errors.length > 0 ? errors : undefined,
@@ -1189,9 +345,6 @@ export async function GET(request: NextRequest) {
   } catch (error) {
     console.error("💥 Unified workflow error:", error);
     
-    // NEW: Clear processing state on error
-    clearProcessingState();
-    
     return NextResponse.json(
       {
         success: false,
@@ -1209,16 +362,17 @@ export async function GET(request: NextRequest) {
 // POST endpoint for processing specific calls
 export async function POST(request: NextRequest) {
   try {
-    const body = await request.json();
-    const { contactIds, processTranscriptions = true } = body;
+    const body = processCallsRequestSchema.safeParse(await request.json());
 
-    if (!contactIds || !Array.isArray(contactIds)) {
+    if (!body.success) {
       return NextResponse.json(
-        { error: "contactIds array is required" },
+        { error: validationError(body.error) },
         { status: 400 }
       );
     }
 
+    const { contactIds, processTranscriptions } = body.data;
+
     console.log(`🚀 Processing specific calls: ${contactIds.join(", ")}`);
 
     // Get specific call logs
@@ -1241,81 +395,67 @@ export async function POST(request: NextRequest) {
     );
 
     let processedCount = 0;
+    let submittedCount = 0;
     const errors: any[] = [];
 
     if (processTranscriptions && missingTranscriptions.length > 0) {
-      const apiKey = process.env.ASSEMBLYAI_API_KEY;
-      if (!apiKey) {
+      const configError = getTranscriptionProvider().configurationError();
+      if (configError) {
         return NextResponse.json(
-          { error: "AssemblyAI API key not configured" },
+          { error: configError },
           { status: 500 }
         );
       }
 
-      for (const log of missingTranscriptions) {
-        try {
-          console.log(`🔍 Final check for call ${log.contact_id}...`);
-
-          // FIXED: Double-check right before processing each individual call
-          const stillMissing = !(await checkCallExistsInSupabase(log.contact_id));
-          if (!stillMissing) {
-            console.log(`⏭️ Call ${log.contact_id} already processed, skipping...`);
-            continue;
-          }
-
-          // NEW: Mark call as being processed
-          markCallAsProcessing(log.contact_id);
-
-          console.log(`🎯 Processing call ${log.contact_id}...`);
+      // Stop spending once a monthly cap of the calls' channels is reached
+      const budgetError = await callsBudgetExceededError(missingTranscriptions);
+      if (budgetError) {
+        return NextResponse.json(
+          { success: false, error: budgetError, budgetExceeded: true },
+          { status: 402 }
+        );
+      }
 
-          const audioBuffer = await downloadAudioFromSftp(
-            log.recording_location
-          );
-          const uploadUrl = await uploadToAssemblyAI(audioBuffer, apiKey);
-          const transcript = await transcribeAudio(uploadUrl, 2);
+      // Claim the requested calls; anything leased by another batch is skipped
+      const leaseOwner = createLeaseOwner("process-calls");
+      const claimedTranscriptions = await claimCallsForProcessing(
+        missingTranscriptions,
+        leaseOwner,
+        missingTranscriptions.length
+      );
 
-          let categorization = null;
-          if (transcript.utterances && transcript.utterances.length > 0) {
-            try {
-              categorization = await performTopicCategorization(transcript);
-            } catch (catError) {
-              console.error("Categorization failed:", catError);
-            }
+      for (const log of claimedTranscriptions) {
+        try {
+          const outcome = await processCall(log, leaseOwner);
 
-            transcript.topic_categorization = categorization
-              ? {
-                  primary_topic: categorization.primary_category,
-                  all_topics: categorization.topic_categories,
-                  confidence: categorization.confidence,
-                }
-              : {
-                  primary_topic: "Uncategorised",
-                  all_topics: ["Uncategorised"],
-                  confidence: 0,
-                };
+          if (outcome === "submitted") {
+            // The webhook finishes and releases this call
+            submittedCount++;
+            continue;
           }
 
-          // FIXED: Final check before saving
-          const finalCheck = await checkCallExistsInSupabase(log.contact_id);
-          if (finalCheck) {
-            console.log(`⚠️ Call ${log.contact_id} was processed during processing, skipping save...`);
-            unmarkCallAsProcessing(log.contact_id, false);
+          if (outcome === "rejected") {
+            // The job was failed without retries; its failure_reason says why
+            errors.push({
+              contact_id: log.contact_id,
+              error: "Recording failed integrity check",
+            });
             continue;
           }
 
-          await saveTranscriptionToSupabase(log, transcript, categorization);
-          log.existsInSupabase = true;
-          processedCount++;
+          // Mark the job as completed (a skipped call was saved elsewhere)
+          await releaseCall(log.contact_id, leaseOwner);
 
-          // NEW: Mark as successfully processed
-          unmarkCallAsProcessing(log.contact_id, true);
-
-          console.log(`✅ Successfully processed call ${log.contact_id}`);
+          if (outcome === "saved") {
+            // Update log status
+            log.existsInSupabase = true;
+            processedCount++;
+          }
         } catch (error) {
           console.error(`❌ Error processing call ${log.contact_id}:`, error);
           
-          // NEW: Unmark as processing on error
-          unmarkCallAsProcessing(log.contact_id, false);
+          // Record the failed attempt so it is retried with backoff
+          await releaseCall(log.contact_id, leaseOwner, error);
           
           errors.push({
             contact_id: log.contact_id,
@@ -1328,12 +468,9 @@ export async function POST(request: NextRequest) {
     // Get final status
     const finalEnhancedLogs = await enhanceCallLogsWithSupabaseStatus(enhancedLogs);
 
-    // NEW: Clear processing state on completion
-    clearProcessingState();
-
     return NextResponse.json({
       success: true,
-      data: finalEnhancedLogs,
+      data: callLogSchema.array().parse(finalEnhancedLogs),
       summary: {
         requestedCalls: contactIds.length,
         foundCalls: targetLogs.length,
@@ -1341,6 +478,7 @@ export async function POST(request: NextRequest) {
           (log) => log.existsInSupabase
         ).length,
         processedThisRequest: processedCount,
+        submittedThisRequest: submittedCount,
         errors: errors.length,
       },
       errors: errors.length > 0 ? errors : undefined,
@@ -1349,9 +487,6 @@ export async function POST(request: NextRequest) {
   } catch (error) {
     console.error("Error in POST workflow:", error);
     
-    // NEW: Clear processing state on error
-    clearProcessingState();
-    
     return NextResponse.json(
       {
         success: false,
@@ -0,0 +1,124 @@
+// app/api/redaction/policies/route.ts - PII redaction policy per channel
+import { NextRequest, NextResponse } from 'next/server';
+import { Channels } from '@/lib/Channels';
+import {
+  DEFAULT_REDACTION_POLICY,
+  getRedactionPolicies,
+  redactionActionsError,
+  saveRedactionPolicy,
+} from '@/lib/redaction';
+import { ADMIN_KEY_HEADER, isAdminKeyConfigured, verifyAdminKey } from '@/lib/adminAuth';
+
+// Lists every channel with its policy (the default when none is stored)
+export async function GET() {
+  try {
+    const stored = new Map((await getRedactionPolicies()).map((policy) => [policy.channel, policy]));
+
+    const policies = Channels.map((channel) => ({
+      title: channel.title,
+      active: channel.active,
+      ...(stored.get(String(channel.id)) || {
+        ...DEFAULT_REDACTION_POLICY,
+        channel: String(channel.id),
+        updatedAt: null,
+      }),
+    }));
+
+    return NextResponse.json({
+      success: true,
+      policies,
+      timestamp: new Date().toISOString()
+    });
+  } catch (error) {
+    console.error('Error fetching redaction policies:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Failed to fetch redaction policies',
+        details: process.env.NODE_ENV === 'development' && error instanceof Error ? error.message : undefined
+      },
+      { status: 500 }
+    );
+  }
+}
+
+// Replaces { channel, enabled, actions, providerRedaction, keepUnredacted } for
+// one channel; requires the admin key. Types left out of actions are masked.
+export async function PUT(request: NextRequest) {
+  if (!isAdminKeyConfigured()) {
+    return NextResponse.json(
+      { success: false, error: 'Redaction administration is not configured' },
+      { status: 503 }
+    );
+  }
+
+  if (!verifyAdminKey(request.headers.get(ADMIN_KEY_HEADER))) {
+    return NextResponse.json(
+      { success: false, error: 'Unauthorized' },
+      { status: 401 }
+    );
+  }
+
+  try {
+    const {
+      channel,
+      enabled = true,
+      actions = {},
+      providerRedaction = false,
+      keepUnredacted = false,
+    } = await request.json();
+
+    if (!channel || !Channels.some((c) => String(c.id) === String(channel))) {
+      return NextResponse.json(
+        { success: false, error: 'A known channel is required' },
+        { status: 400 }
+      );
+    }
+
+    if ([enabled, providerRedaction, keepUnredacted].some((flag) => typeof flag !== 'boolean')) {
+      return NextResponse.json(
+        { success: false, error: 'enabled, providerRedaction and keepUnredacted must be booleans' },
+        { status: 400 }
+      );
+    }
+
+    if (typeof actions !== 'object' || actions === null || Array.isArray(actions)) {
+      return NextResponse.json(
+        { success: false, error: 'actions must map PII types to mask, hash or drop' },
+        { status: 400 }
+      );
+    }
+
+    const validationError = redactionActionsError(actions);
+    if (validationError) {
+      return NextResponse.json(
+        { success: false, error: validationError },
+        { status: 400 }
+      );
+    }
+
+    const policy = await saveRedactionPolicy(String(channel), {
+      enabled,
+      actions: { ...DEFAULT_REDACTION_POLICY.actions, ...actions },
+      providerRedaction,
+      keepUnredacted,
+    });
+    console.log(`🔏 Saved redaction policy for channel ${channel}${policy.enabled ? '' : ' (disabled)'}`);
+
+    return NextResponse.json({
+      success: true,
+      policy,
+      timestamp: new Date().toISOString()
+    });
+  } catch (error) {
+    console.error('Error saving redaction policy:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Failed to save redaction policy',
+        details: process.env.NODE_ENV === 'development' && error instanceof Error ? error.message : undefined
+      },
+      { status: 500 }
+    );
+  }
+}
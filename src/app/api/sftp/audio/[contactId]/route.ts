@@ -0,0 +1,187 @@
+// app/api/sftp/audio/[contactId]/route.ts - Streams a call's recording, raw or transcoded, with Range support
+import fs from 'fs';
+import { Readable } from 'stream';
+import { NextRequest, NextResponse } from 'next/server';
+import { getContactRecordingLocation } from '@/lib/db';
+import { getCallRecordChannel } from '@/lib/callRecords';
+import { getRecordingFilename, locateRecording } from '@/lib/recordingIndex';
+import { downloadRecording, getRecordingStore } from '@/lib/recordingStore';
+import { ByteRange, parseRangeHeader } from '@/lib/httpRange';
+import {
+  cacheAudio,
+  CachedAudio,
+  getCachedAudio,
+  isPlaybackFormat,
+  isTranscodingAvailable,
+  PLAYBACK_FORMATS,
+  PlaybackFormat,
+} from '@/lib/audioCache';
+
+interface AudioSource {
+  size: number;
+  contentType: string;
+  filename: string;
+  stream: (range?: ByteRange) => Promise<ReadableStream<Uint8Array>>;
+}
+
+// Helper function to build the response for all of a file or the requested range
+async function respondWithAudio(request: NextRequest, source: AudioSource, headOnly: boolean) {
+  const range = parseRangeHeader(request.headers.get('range'), source.size);
+
+  if (range === 'unsatisfiable') {
+    return new NextResponse(null, {
+      status: 416,
+      headers: { 'Content-Range': `bytes */${source.size}` },
+    });
+  }
+
+  const headers: Record<string, string> = {
+    'Content-Type': source.contentType,
+    'Accept-Ranges': 'bytes',
+    'Content-Length': String(range ? range.end - range.start + 1 : source.size),
+  };
+
+  if (range) {
+    headers['Content-Range'] = `bytes ${range.start}-${range.end}/${source.size}`;
+  }
+
+  if (new URL(request.url).searchParams.get('download') === 'true') {
+    headers['Content-Disposition'] = `attachment; filename="${source.filename}"`;
+  }
+
+  if (headOnly) {
+    return new NextResponse(null, { status: range ? 206 : 200, headers });
+  }
+
+  return new NextResponse(await source.stream(range || undefined), { status: range ? 206 : 200, headers });
+}
+
+// Helper function to serve a cached transcode from disk, named after the recording
+function cachedAudioSource(cached: CachedAudio, wavFilename: string, format: PlaybackFormat): AudioSource {
+  return {
+    ...cached,
+    filename: `${wavFilename.replace(/\.wav$/i, '')}.${PLAYBACK_FORMATS[format].extension}`,
+    stream: async (range) =>
+      Readable.toWeb(fs.createReadStream(cached.path, range || {})) as ReadableStream<Uint8Array>,
+  };
+}
+
+// Helper function to get the call's audio in a playback format, transcoding it
+// into the cache on first play. Null when ffmpeg isn't available or fails, in
+// which case the WAV is served instead.
+async function getPlaybackAudio(
+  contactId: string,
+  recordingLocation: string,
+  channel: string | undefined,
+  format: PlaybackFormat,
+  transcode: boolean
+): Promise<CachedAudio | null> {
+  const cached = await getCachedAudio(contactId, format);
+  if (cached || !transcode || !(await isTranscodingAvailable())) return cached;
+
+  const recording = await locateRecording(recordingLocation, channel);
+  if (!recording) return null;
+
+  try {
+    const wav = await downloadRecording(recordingLocation, { channel, knownPath: recording.path });
+    return await cacheAudio(contactId, wav, format);
+  } catch (error) {
+    console.error(`⚠️ Could not transcode ${contactId} to ${format}, serving WAV:`, error);
+    return null;
+  }
+}
+
+// Helper function to serve the recording. The path is resolved from the call's
+// contact_log row, so callers can only reach recordings that belong to a call.
+// The store is the one of the channel the call was saved under; calls not yet
+// transcribed use ?channel=, or the ingest channel without it.
+async function serveRecording(request: NextRequest, contactId: string, headOnly: boolean) {
+  const recordingLocation = await getContactRecordingLocation(contactId);
+  if (!recordingLocation) {
+    return NextResponse.json(
+      { success: false, error: 'No recording for this call' },
+      { status: 404 }
+    );
+  }
+
+  const { searchParams } = new URL(request.url);
+  const channel = (await getCallRecordChannel(contactId)) || searchParams.get('channel') || undefined;
+  const requestedFormat = searchParams.get('format');
+  if (requestedFormat && !isPlaybackFormat(requestedFormat)) {
+    return NextResponse.json(
+      { success: false, error: `format must be one of ${Object.keys(PLAYBACK_FORMATS).join(', ')}` },
+      { status: 400 }
+    );
+  }
+
+  const format = requestedFormat as PlaybackFormat | null;
+  const wavFilename = getRecordingFilename(recordingLocation);
+
+  if (format) {
+    // HEAD requests only report a transcode that's already cached
+    const playback = await getPlaybackAudio(contactId, recordingLocation, channel, format, !headOnly);
+    if (playback) {
+      return respondWithAudio(request, cachedAudioSource(playback, wavFilename, format), headOnly);
+    }
+  }
+
+  const recording = await locateRecording(recordingLocation, channel);
+  const store = getRecordingStore(channel);
+  const stats = recording ? await store.stat(recording.path).finally(() => store.close()) : null;
+
+  if (!recording || !stats) {
+    return NextResponse.json(
+      { success: false, error: 'Recording not found' },
+      { status: 404 }
+    );
+  }
+
+  return respondWithAudio(
+    request,
+    {
+      size: stats.size,
+      contentType: 'audio/wav',
+      filename: wavFilename,
+      // Streams clean up after themselves, so the store needn't be closed
+      stream: (range) => getRecordingStore(channel).stream(recording.path, range),
+    },
+    headOnly
+  );
+}
+
+// Streams the recording, or the requested byte range so players can seek.
+// Add ?format=opus or ?format=mp3 for a smaller transcoded copy, and
+// ?download=true to have browsers save it instead.
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ contactId: string }> }
+) {
+  try {
+    const { contactId } = await params;
+    return await serveRecording(request, contactId, false);
+  } catch (error) {
+    console.error('Error streaming recording:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Failed to stream recording',
+        details: process.env.NODE_ENV === 'development' && error instanceof Error ? error.message : undefined
+      },
+      { status: 500 }
+    );
+  }
+}
+
+// Same headers as GET without the audio, for checking a recording exists
+export async function HEAD(
+  request: NextRequest,
+  { params }: { params: Promise<{ contactId: string }> }
+) {
+  try {
+    const { contactId } = await params;
+    return await serveRecording(request, contactId, true);
+  } catch (error) {
+    console.error('Error checking recording:', error);
+    return new NextResponse(null, { status: 500 });
+  }
+}
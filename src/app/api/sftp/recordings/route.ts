@@ -0,0 +1,114 @@
+// app/api/sftp/recordings/route.ts - Recording index status, unmatched recordings and crawling
+import { NextRequest, NextResponse } from 'next/server';
+import { getContactLogs } from '@/lib/db';
+import { Channels } from '@/lib/Channels';
+import { crawlRecordings, findUnmatchedRecordings, getRecordingIndexStatus } from '@/lib/recordingIndex';
+import { ADMIN_KEY_HEADER, isAdminKeyConfigured, verifyAdminKey } from '@/lib/adminAuth';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Reports the index and the calls whose recording isn't in it. Defaults to the
+// last 7 days of the ingest channel; pass ?start=&end= (ISO dates) and ?channel= to change.
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const end = searchParams.get('end') ? new Date(searchParams.get('end')!) : new Date();
+    const start = searchParams.get('start')
+      ? new Date(searchParams.get('start')!)
+      : new Date(end.getTime() - 7 * DAY_MS);
+
+    if (isNaN(start.getTime()) || isNaN(end.getTime())) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid date format. Please use ISO date format.' },
+        { status: 400 }
+      );
+    }
+
+    if (start > end) {
+      return NextResponse.json(
+        { success: false, error: 'Start date must be before or equal to end date.' },
+        { status: 400 }
+      );
+    }
+
+    const channel = searchParams.get('channel') || undefined;
+    const logs = await getContactLogs({ start, end }, channel);
+    const [index, unmatched] = await Promise.all([
+      getRecordingIndexStatus(channel),
+      findUnmatchedRecordings(logs, channel),
+    ]);
+
+    return NextResponse.json({
+      success: true,
+      index,
+      callCount: logs.length,
+      unmatchedCount: unmatched.length,
+      unmatched,
+      timestamp: new Date().toISOString()
+    });
+  } catch (error) {
+    console.error('Error checking recording index:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Failed to check recording index',
+        details: process.env.NODE_ENV === 'development' && error instanceof Error ? error.message : undefined
+      },
+      { status: 500 }
+    );
+  }
+}
+
+// Crawls a channel's recording store into the index now ({ full: true } relists
+// every day, { channel } picks another channel); requires the admin key
+export async function POST(request: NextRequest) {
+  if (!isAdminKeyConfigured()) {
+    return NextResponse.json(
+      { success: false, error: 'Recording index administration is not configured' },
+      { status: 503 }
+    );
+  }
+
+  if (!verifyAdminKey(request.headers.get(ADMIN_KEY_HEADER))) {
+    return NextResponse.json(
+      { success: false, error: 'Unauthorized' },
+      { status: 401 }
+    );
+  }
+
+  try {
+    const { full = false, channel } = await request.json().catch(() => ({}));
+
+    if (typeof full !== 'boolean') {
+      return NextResponse.json(
+        { success: false, error: 'full must be a boolean' },
+        { status: 400 }
+      );
+    }
+
+    if (channel !== undefined && !Channels.some((c) => String(c.id) === String(channel))) {
+      return NextResponse.json(
+        { success: false, error: 'channel must be a known channel id' },
+        { status: 400 }
+      );
+    }
+
+    const report = await crawlRecordings({ full, channel: channel === undefined ? undefined : String(channel) });
+
+    return NextResponse.json({
+      success: true,
+      report,
+      timestamp: new Date().toISOString()
+    });
+  } catch (error) {
+    console.error('Error crawling recordings:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Failed to crawl recordings',
+        details: process.env.NODE_ENV === 'development' && error instanceof Error ? error.message : undefined
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -1,73 +1,21 @@
 /* eslint-disable @typescript-eslint/no-explicit-any */
 import { NextRequest, NextResponse } from 'next/server';
 import { createClient } from '@supabase/supabase-js';
+import {
+  categoriesSchema,
+  callOverviewSchema,
+  parseStoredList,
+  sentimentResultSchema,
+  type CallOverview,
+  type TranscriptProcessed,
+  type TranscriptSentiment,
+} from '@/lib/domain';
 
 const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL!;
 const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY!;
 
 const supabase = createClient(supabaseUrl, supabaseServiceKey);
 
-// Define proper interfaces for type safety
-interface CallDuration {
-  minutes: number;
-  seconds: number;
-}
-
-interface ProcessedSentiment {
-  sentiment: string;
-  score?: number;
-  text?: string;
-}
-
-interface TranscriptProcessed {
-  full: string;
-  greeting: string;
-  closing: string;
-  length: number;
-  wordCount: number;
-  greetingSentiment: 'positive' | 'neutral' | 'negative' | null;
-  closingSentiment: 'positive' | 'neutral' | 'negative' | null;
-  hasTransfer: boolean;
-  hasEscalation: boolean;
-  keywordMatches: string[];
-}
-
-interface TransformedCallRecord {
-  id?: string;
-  contact_id: string;
-  agent_username: string;
-  initiation_timestamp: string;
-  queue_name: string;
-  disposition_title: string;
-  campaign_name: string;
-  customer_cli: string;
-  call_duration: CallDuration;
-  call_duration_total_seconds: number;
-  call_summary: string;
-  primary_category: string;
-  categories: string;
-  sentiment_analysis: string;
-  processed_sentiments: ProcessedSentiment[] | null;
-  transcript_text: string;
-  transcript_processed: TranscriptProcessed | null;
-  keywords: string;
-  topics: string;
-  satisfaction_score: number | null;
-  resolution_status: string;
-  escalation_reason: string;
-  callback_requested: boolean;
-  language: string;
-  channel: string;
-  created_at: string;
-  updated_at: string;
-  processed_at: string | null;
-  has_transcript: boolean;
-  has_sentiment: boolean;
-  has_summary: boolean;
-  is_short_call: boolean;
-  is_long_call: boolean;
-}
-
 interface SentimentCount {
   positive: number;
   neutral: number;
@@ -113,7 +61,7 @@ export async function GET() {
     // Fetch all transcription records with comprehensive field selection
     const { data, error } = await supabase
       .from('call_records')
-      .select(`contact_id, transcript_text, queue_name, agent_username, initiation_timestamp, sentiment_analysis, categories, disposition_title, call_summary, call_duration, primary_category`)
+      .select(`contact_id, transcript_text, queue_name, agent_username, initiation_timestamp, sentiment_analysis, categories, disposition_title, call_summary, call_duration_seconds, primary_category, language, translated_text`)
       .order('initiation_timestamp', { ascending: false });
 
     if (error) {
@@ -155,7 +103,7 @@ export async function GET() {
 
     return NextResponse.json({
       success: true,
-      data: transformedData,
+      data: callOverviewSchema.array().parse(transformedData),
       count: transformedData.length,
       analytics: analytics,
       statistics: enhancedStatistics,
@@ -185,54 +133,27 @@ export async function GET() {
   }
 }
 
-function transformCallRecord(record: any): TransformedCallRecord {
-  // Enhanced call duration processing
-  let call_duration: CallDuration = { minutes: 0, seconds: 0 };
-  
-  if (record.call_duration) {
-    if (typeof record.call_duration === 'object' && record.call_duration !== null) {
-      call_duration = {
-        minutes: Number(record.call_duration.minutes) || 0,
-        seconds: Number(record.call_duration.seconds) || 0
-      };
-    } else if (typeof record.call_duration === 'number') {
-      call_duration = {
-        minutes: Math.floor(record.call_duration / 60),
-        seconds: record.call_duration % 60
-      };
-    } else if (typeof record.call_duration === 'string') {
-      const parts = record.call_duration.split(':');
-      if (parts.length === 2) {
-        call_duration = {
-          minutes: parseInt(parts[0]) || 0,
-          seconds: parseInt(parts[1]) || 0
-        };
-      }
-    }
-  }
+function transformCallRecord(record: any): CallOverview {
+  const totalSeconds = Number(record.call_duration_seconds) || 0;
 
   // Enhanced sentiment processing
-  let processedSentiments: ProcessedSentiment[] | null = null;
-  if (record.sentiment_analysis) {
-    try {
-      processedSentiments = JSON.parse(record.sentiment_analysis);
-    } catch {
-      console.warn('Invalid sentiment data for call:', record.contact_id);
-    }
-  }
+  const sentiments = parseStoredList(sentimentResultSchema, record.sentiment_analysis);
+  const processedSentiments: TranscriptSentiment[] | null = sentiments.length > 0 ? sentiments : null;
 
-  // Enhanced transcript processing
+  // Enhanced transcript processing. The greeting, closing and keyword checks
+  // are English, so non-English calls are analysed from their translation.
+  const analysisText: string = record.translated_text || record.transcript_text;
   const processedTranscript: TranscriptProcessed | null = record.transcript_text ? {
     full: record.transcript_text,
-    greeting: extractGreeting(record.transcript_text),
-    closing: extractClosing(record.transcript_text),
+    greeting: extractGreeting(analysisText),
+    closing: extractClosing(analysisText),
     length: record.transcript_text.length,
     wordCount: record.transcript_text.split(/\s+/).length,
-    greetingSentiment: analyzeGreetingSentiment(record.transcript_text),
-    closingSentiment: analyzeClosingSentiment(record.transcript_text),
-    hasTransfer: checkForTransfer(record.transcript_text),
-    hasEscalation: checkForEscalation(record.transcript_text),
-    keywordMatches: extractKeywordMatches(record.transcript_text)
+    greetingSentiment: analyzeGreetingSentiment(analysisText),
+    closingSentiment: analyzeClosingSentiment(analysisText),
+    hasTransfer: checkForTransfer(analysisText),
+    hasEscalation: checkForEscalation(analysisText),
+    keywordMatches: extractKeywordMatches(analysisText)
   } : null;
 
   return {
@@ -249,18 +170,17 @@ function transformCallRecord(record: any): TransformedCallRecord {
     customer_cli: record.customer_cli || '',
     
     // Enhanced call metrics
-    call_duration,
-    call_duration_total_seconds: call_duration.minutes * 60 + call_duration.seconds,
+    call_duration_total_seconds: totalSeconds,
     
     // Enhanced AI analysis
     call_summary: record.call_summary || '',
     primary_category: record.primary_category || '',
-    categories: record.categories || '',
-    sentiment_analysis: record.sentiment_analysis || '',
+    categories: parseStoredList(categoriesSchema.element, record.categories),
     processed_sentiments: processedSentiments,
     
     // Enhanced transcript data
     transcript_text: record.transcript_text || '',
+    translated_text: record.translated_text || '',
     transcript_processed: processedTranscript,
     
     // Additional analysis fields
@@ -280,14 +200,14 @@ function transformCallRecord(record: any): TransformedCallRecord {
     
     // Analysis flags (computed)
     has_transcript: Boolean(record.transcript_text?.trim()),
-    has_sentiment: Boolean(record.sentiment_analysis?.trim()),
+    has_sentiment: sentiments.length > 0,
     has_summary: Boolean(record.call_summary?.trim()),
-    is_short_call: call_duration.minutes < 2,
-    is_long_call: call_duration.minutes > 10,
+    is_short_call: totalSeconds < 120,
+    is_long_call: totalSeconds >= 660,
   };
 }
 
-async function processComprehensiveAnalytics(data: TransformedCallRecord[]) {
+async function processComprehensiveAnalytics(data: CallOverview[]) {
   const analytics = {
     // Basic metrics
     totalCalls: data.length,
@@ -324,7 +244,7 @@ async function processComprehensiveAnalytics(data: TransformedCallRecord[]) {
   return analytics;
 }
 
-function getDateRange(data: TransformedCallRecord[]) {
+function getDateRange(data: CallOverview[]) {
   if (data.length === 0) return null;
   
   const dates = data.map(call => new Date(call.initiation_timestamp).getTime());
@@ -335,7 +255,7 @@ function getDateRange(data: TransformedCallRecord[]) {
   };
 }
 
-function calculateCoverage(data: TransformedCallRecord[]) {
+function calculateCoverage(data: CallOverview[]) {
   const total = data.length;
   const withTranscripts = data.filter(call => call.has_transcript).length;
   const withSentiment = data.filter(call => call.has_sentiment).length;
@@ -348,7 +268,7 @@ function calculateCoverage(data: TransformedCallRecord[]) {
   };
 }
 
-function processAgentAnalytics(data: TransformedCallRecord[]) {
+function processAgentAnalytics(data: CallOverview[]) {
   const agentStats: Record<string, AgentStats> = {};
   
   data.forEach(call => {
@@ -398,7 +318,7 @@ function processAgentAnalytics(data: TransformedCallRecord[]) {
     
     // Process sentiments
     if (call.processed_sentiments) {
-      call.processed_sentiments.forEach((item: ProcessedSentiment) => {
+      call.processed_sentiments.forEach((item: TranscriptSentiment) => {
         const sentiment = item.sentiment?.toLowerCase();
         if (sentiment === 'positive') stats.sentimentCounts.positive++;
         else if (sentiment === 'negative') stats.sentimentCounts.negative++;
@@ -473,7 +393,7 @@ function processAgentAnalytics(data: TransformedCallRecord[]) {
   return agentStats;
 }
 
-function processSentimentAnalytics(data: TransformedCallRecord[]) {
+function processSentimentAnalytics(data: CallOverview[]) {
   const analytics = {
     overall: { positive: 0, neutral: 0, negative: 0 },
     byCategory: {} as Record<string, SentimentCount>,
@@ -503,7 +423,7 @@ function processSentimentAnalytics(data: TransformedCallRecord[]) {
     
     // Process overall sentiments
     if (call.processed_sentiments) {
-      call.processed_sentiments.forEach((item: ProcessedSentiment) => {
+      call.processed_sentiments.forEach((item: TranscriptSentiment) => {
         const sentiment = item.sentiment?.toLowerCase();
         if (sentiment === 'positive') {
           analytics.overall.positive++;
@@ -548,7 +468,7 @@ function processSentimentAnalytics(data: TransformedCallRecord[]) {
   return analytics;
 }
 
-function processGreetingAnalytics(data: TransformedCallRecord[]) {
+function processGreetingAnalytics(data: CallOverview[]) {
   const analytics = {
     totalAnalyzed: 0,
     sentimentDistribution: { positive: 0, neutral: 0, negative: 0 },
@@ -624,8 +544,8 @@ function processGreetingAnalytics(data: TransformedCallRecord[]) {
     
     // Correlation analysis
     if (call.processed_sentiments && call.processed_sentiments.length > 0) {
-      const hasPositiveOverall = call.processed_sentiments.some((s: ProcessedSentiment) => s.sentiment?.toLowerCase() === 'positive');
-      const hasNegativeOverall = call.processed_sentiments.some((s: ProcessedSentiment) => s.sentiment?.toLowerCase() === 'negative');
+      const hasPositiveOverall = call.processed_sentiments.some((s: TranscriptSentiment) => s.sentiment?.toLowerCase() === 'positive');
+      const hasNegativeOverall = call.processed_sentiments.some((s: TranscriptSentiment) => s.sentiment?.toLowerCase() === 'negative');
       
       if (greetingSentiment === 'positive' && hasPositiveOverall) {
         analytics.correlationWithOverallSentiment.positiveGreetingPositiveCall++;
@@ -650,7 +570,7 @@ function processGreetingAnalytics(data: TransformedCallRecord[]) {
   return analytics;
 }
 
-function processCategoryAnalytics(data: TransformedCallRecord[]) {
+function processCategoryAnalytics(data: CallOverview[]) {
   const analytics = {
     distribution: {} as Record<string, number>,
     sentimentByCategory: {} as Record<string, SentimentCount>,
@@ -681,7 +601,7 @@ function processCategoryAnalytics(data: TransformedCallRecord[]) {
     }
     
     if (call.processed_sentiments) {
-      call.processed_sentiments.forEach((item: ProcessedSentiment) => {
+      call.processed_sentiments.forEach((item: TranscriptSentiment) => {
         const sentiment = item.sentiment?.toLowerCase();
         if (sentiment === 'positive') analytics.sentimentByCategory[category].positive++;
         else if (sentiment === 'negative') analytics.sentimentByCategory[category].negative++;
@@ -699,7 +619,7 @@ function processCategoryAnalytics(data: TransformedCallRecord[]) {
   return analytics;
 }
 
-function processTimeAnalytics(data: TransformedCallRecord[]) {
+function processTimeAnalytics(data: CallOverview[]) {
   const analytics = {
     hourlyVolume: {} as Record<number, number>,
     dailyVolume: {} as Record<string, number>,
@@ -726,7 +646,7 @@ function processTimeAnalytics(data: TransformedCallRecord[]) {
     analytics.durationByHour[hour].push(call.call_duration_total_seconds);
     
     if (call.processed_sentiments) {
-      call.processed_sentiments.forEach((item: ProcessedSentiment) => {
+      call.processed_sentiments.forEach((item: TranscriptSentiment) => {
         const sentiment = item.sentiment?.toLowerCase();
         if (sentiment === 'positive') analytics.sentimentByHour[hour].positive++;
         else if (sentiment === 'negative') analytics.sentimentByHour[hour].negative++;
@@ -745,7 +665,7 @@ function processTimeAnalytics(data: TransformedCallRecord[]) {
   return analytics;
 }
 
-function processTranscriptAnalytics(data: TransformedCallRecord[]) {
+function processTranscriptAnalytics(data: CallOverview[]) {
   const callsWithTranscripts = data.filter(call => call.has_transcript);
   
   const analytics = {
@@ -797,7 +717,7 @@ function processTranscriptAnalytics(data: TransformedCallRecord[]) {
   return analytics;
 }
 
-function processPerformanceAnalytics(data: TransformedCallRecord[]) {
+function processPerformanceAnalytics(data: CallOverview[]) {
   return {
     callVolume: {
       total: data.length,
@@ -817,7 +737,7 @@ function processPerformanceAnalytics(data: TransformedCallRecord[]) {
   };
 }
 
-function processQualityAnalytics(data: TransformedCallRecord[]) {
+function processQualityAnalytics(data: CallOverview[]) {
   const callsWithScores = data.filter(call => call.satisfaction_score !== null);
   
   return {
@@ -930,7 +850,7 @@ function extractMainGreetingPhrase(greeting: string): string | null {
   return null;
 }
 
-function calculateSentimentQuality(data: TransformedCallRecord[]) {
+function calculateSentimentQuality(data: CallOverview[]) {
   const total = data.length;
   const withSentiment = data.filter(call => call.has_sentiment).length;
   const positiveGreetings = data.filter(call => 
@@ -944,7 +864,7 @@ function calculateSentimentQuality(data: TransformedCallRecord[]) {
   };
 }
 
-function calculateGreetingQuality(data: TransformedCallRecord[]) {
+function calculateGreetingQuality(data: CallOverview[]) {
   const withGreetingAnalysis = data.filter(call => 
     call.transcript_processed?.greetingSentiment
   );
@@ -967,7 +887,7 @@ function calculateGreetingQuality(data: TransformedCallRecord[]) {
   };
 }
 
-function calculateOverallPositivityRate(data: TransformedCallRecord[]): number {
+function calculateOverallPositivityRate(data: CallOverview[]): number {
   const withSentiment = data.filter(call => call.processed_sentiments);
   if (withSentiment.length === 0) return 0;
   
@@ -975,7 +895,7 @@ function calculateOverallPositivityRate(data: TransformedCallRecord[]): number {
   let positiveSentiments = 0;
   
   withSentiment.forEach(call => {
-    call.processed_sentiments?.forEach((sentiment: ProcessedSentiment) => {
+    call.processed_sentiments?.forEach((sentiment: TranscriptSentiment) => {
       totalSentiments++;
       if (sentiment.sentiment?.toLowerCase() === 'positive') {
         positiveSentiments++;
@@ -986,7 +906,7 @@ function calculateOverallPositivityRate(data: TransformedCallRecord[]): number {
   return totalSentiments > 0 ? (positiveSentiments / totalSentiments) * 100 : 0;
 }
 
-function generateEnhancedStatistics(data: TransformedCallRecord[], analytics: any) {
+function generateEnhancedStatistics(data: CallOverview[], analytics: any) {
   const total = data.length;
   
   return {
@@ -1089,7 +1009,7 @@ export async function POST(request: NextRequest) {
 
     return NextResponse.json({
       success: true,
-      data: transformedData,
+      data: callOverviewSchema.array().parse(transformedData),
       count: transformedData.length,
       analytics: analytics,
       filtersApplied: filters,
@@ -0,0 +1,111 @@
+// app/api/supabase/save-transcription/route.test.ts - Which channel saved calls are stored under
+import { NextRequest } from "next/server";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+const { existing, writes } = vi.hoisted(() => {
+  // Read when the route loads
+  process.env.NEXT_PUBLIC_SUPABASE_URL = "http://localhost";
+  process.env.SUPABASE_SERVICE_ROLE_KEY = "test-key";
+  return {
+    existing: { row: null as Record<string, unknown> | null },
+    writes: [] as { op: string; values: unknown }[],
+  };
+});
+
+// Lookups return the existing row, if any; inserts and updates are recorded
+// and hand back what was written
+vi.mock("@supabase/supabase-js", () => ({
+  createClient: () => ({
+    from: () => {
+      let written: Record<string, unknown> | null = null;
+      const builder: Record<string, unknown> = {};
+      const chain = () => builder;
+      ["select", "eq"].forEach((method) => (builder[method] = chain));
+      builder.insert = (values: Record<string, unknown>[]) => {
+        writes.push({ op: "insert", values });
+        written = values[0];
+        return builder;
+      };
+      builder.update = (values: Record<string, unknown>) => {
+        writes.push({ op: "update", values });
+        written = { ...existing.row, ...values };
+        return builder;
+      };
+      builder.single = () =>
+        Promise.resolve(
+          existing.row ? { data: existing.row, error: null } : { data: null, error: { code: "PGRST116" } }
+        );
+      builder.then = (resolve: (value: unknown) => unknown) => resolve({ data: [written], error: null });
+      return builder;
+    },
+  }),
+}));
+
+// Redaction is covered elsewhere; pass transcripts through untouched
+vi.mock("@/lib/redaction", () => ({
+  applyRedaction: async (transcript: unknown) => ({ transcript, findings: null }),
+}));
+
+const call = {
+  contact_id: "2001",
+  recording_location: "recordings/2001.wav",
+  transcript_text: "Hello, where is my parcel?",
+  agent_username: "agent.one",
+  initiation_timestamp: "2026-10-01T00:00:00.000Z",
+};
+
+// Helper function to post a call to the route
+async function save(body: Record<string, unknown>) {
+  const { POST } = await import("./route");
+  return POST(
+    new NextRequest("http://localhost/api/supabase/save-transcription", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(body),
+    })
+  );
+}
+
+beforeEach(() => {
+  existing.row = null;
+  writes.length = 0;
+  vi.spyOn(console, "log").mockImplementation(() => {});
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+  vi.unstubAllEnvs();
+});
+
+describe("POST /api/supabase/save-transcription", () => {
+  it("stores a new call sent without a channel under the ingest channel", async () => {
+    vi.stubEnv("INGEST_CHANNEL_ID", "");
+
+    const response = await save(call);
+
+    expect(response.status).toBe(200);
+    expect(writes).toEqual([{ op: "insert", values: [expect.objectContaining({ contact_id: "2001", channel: "22" })] }]);
+  });
+
+  it("follows INGEST_CHANNEL_ID", async () => {
+    vi.stubEnv("INGEST_CHANNEL_ID", "7");
+
+    await save(call);
+
+    expect(writes[0].values).toEqual([expect.objectContaining({ channel: "7" })]);
+  });
+
+  it("keeps the channel it was sent with", async () => {
+    await save({ ...call, channel: "7" });
+
+    expect(writes[0].values).toEqual([expect.objectContaining({ channel: "7" })]);
+  });
+
+  it("leaves an existing call's channel alone when re-saved without one", async () => {
+    existing.row = { contact_id: "2001" };
+
+    await save(call);
+
+    expect(writes).toEqual([{ op: "update", values: expect.not.objectContaining({ channel: expect.anything() }) }]);
+  });
+});
@@ -1,5 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createClient } from '@supabase/supabase-js';
+import { applyRedaction } from '@/lib/redaction';
+import { getIngestChannel } from '@/lib/channelConfig';
+import { callRecordInputSchema, callRecordSchema, toCallRecordRow, validationError, type CallRecord } from '@/lib/domain';
 
 // Initialize Supabase client
 const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL!;
@@ -11,74 +14,63 @@ if (!supabaseUrl || !supabaseServiceKey) {
 
 const supabase = createClient(supabaseUrl, supabaseServiceKey);
 
-// Define the interface for the transcription data
-interface TranscriptionData {
-  call_duration: string
-  contact_id: string;
-  recording_location: string;
-  transcript_text: string;
-  queue_name?: string;
-  agent_username: string;
-  initiation_timestamp: string;
-  speaker_data?: string | null;
-  sentiment_analysis?: string | null;
-  entities?: string | null;
-  categories?: string | null; // This will be the JSONB categories column
-  disposition_title?: string;
-  call_summary?: string | null;
-  campaign_name?: string | null;
-  campaign_id?: string | null;
-  customer_cli?: string | null;
-  agent_hold_time?: number | null;
-  total_hold_time?: number | null;
-  time_in_queue?: number | null;
-  primary_category?: string | null; // This will be the text primary_category column
+// Helper function to redact the transcript columns before they're written.
+// Callers normally redact already, so this is a safety net: re-redacting is a
+// no-op, and no unredacted copy is kept since the input may not be the original.
+async function redactTranscriptionData(data: CallRecord): Promise<CallRecord> {
+  const { transcript, findings } = await applyRedaction(
+    {
+      text: data.transcript_text || '',
+      utterances: data.speaker_data,
+      sentiment_analysis_results: data.sentiment_analysis,
+      entities: data.entities,
+      summary: data.call_summary ?? null,
+    },
+    { contactId: data.contact_id, channel: data.channel || undefined, keepCopy: false }
+  );
+
+  const translated = data.translated_text
+    ? await applyRedaction(
+        { text: data.translated_text, utterances: [], sentiment_analysis_results: [], entities: [], summary: null },
+        { contactId: data.contact_id, channel: data.channel || undefined, keepCopy: false }
+      )
+    : null;
+
+  return {
+    ...data,
+    transcript_text: transcript.text,
+    translated_text: translated ? translated.transcript.text : data.translated_text,
+    speaker_data: transcript.utterances,
+    sentiment_analysis: transcript.sentiment_analysis_results,
+    entities: transcript.entities,
+    call_summary: transcript.summary,
+    pii_findings: data.pii_findings || findings,
+  };
 }
 
 export async function POST(request: NextRequest) {
   try {
-    // Parse the request body
-    const transcriptionData: TranscriptionData = await request.json();
+    // Validate the request body against the call record schema
+    const parsed = callRecordInputSchema.safeParse(await request.json());
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: validationError(parsed.error) },
+        { status: 400 }
+      );
+    }
+
+    const transcriptionData = await redactTranscriptionData(parsed.data);
 
     // Log the received data for debugging
     console.log('Received transcription data:', {
       contact_id: transcriptionData.contact_id,
       has_transcript: !!transcriptionData.transcript_text,
-      transcript_length: transcriptionData.transcript_text?.length || 0,
-      has_categories: !!transcriptionData.categories,
+      transcript_length: transcriptionData.transcript_text.length,
+      has_categories: transcriptionData.categories.length > 0,
       primary_category: transcriptionData.primary_category,
-      categories_preview: transcriptionData.categories ? transcriptionData.categories.substring(0, 100) : null
+      categories_preview: transcriptionData.categories.slice(0, 3)
     });
 
-    // Validate required fields
-    if (!transcriptionData.contact_id) {
-      return NextResponse.json(
-        { error: 'Missing required field: contact_id' },
-        { status: 400 }
-      );
-    }
-
-    if (!transcriptionData.recording_location) {
-      return NextResponse.json(
-        { error: 'Missing required field: recording_location' },
-        { status: 400 }
-      );
-    }
-
-    if (!transcriptionData.agent_username) {
-      return NextResponse.json(
-        { error: 'Missing required field: agent_username' },
-        { status: 400 }
-      );
-    }
-
-    if (!transcriptionData.initiation_timestamp) {
-      return NextResponse.json(
-        { error: 'Missing required field: initiation_timestamp' },
-        { status: 400 }
-      );
-    }
-
     // Check if record already exists
     const { data: existingRecord, error: checkError } = await supabase
       .from('call_records') // Replace with your actual table name
@@ -95,26 +87,10 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    // Calls sent without a channel keep the one they were stored with
     const baseData = {
-      recording_location: transcriptionData.recording_location,
-      transcript_text: transcriptionData.transcript_text,
-      queue_name: transcriptionData.queue_name,
-      agent_username: transcriptionData.agent_username,
-      initiation_timestamp: transcriptionData.initiation_timestamp,
-      speaker_data: transcriptionData.speaker_data,
-      sentiment_analysis: transcriptionData.sentiment_analysis,
-      entities: transcriptionData.entities,
-      categories: transcriptionData.categories, // JSONB column for all categories
-      disposition_title: transcriptionData.disposition_title,
-      call_summary: transcriptionData.call_summary,
-      campaign_name: transcriptionData.campaign_name,
-      campaign_id: transcriptionData.campaign_id,
-      customer_cli: transcriptionData.customer_cli,
-      agent_hold_time: transcriptionData.agent_hold_time,
-      total_hold_time: transcriptionData.total_hold_time,
-      time_in_queue: transcriptionData.time_in_queue,
-      call_duration: transcriptionData.call_duration,
-      primary_category: transcriptionData.primary_category, // Text column for primary category
+      ...toCallRecordRow(transcriptionData),
+      channel: transcriptionData.channel ?? undefined,
     };
 
     // Log what we're about to save for debugging
@@ -125,7 +101,8 @@ export async function POST(request: NextRequest) {
     });
 
     if (existingRecord) {
-      // Record already exists, update it instead
+      // Record already exists, update it instead. The previous transcript is
+      // kept as an earlier version.
       console.log(`Updating existing record for contact_id: ${transcriptionData.contact_id}`);
       
       const { data, error } = await supabase
@@ -145,26 +122,25 @@ export async function POST(request: NextRequest) {
       console.log('Successfully updated record with categories:', {
         contact_id: transcriptionData.contact_id,
         categories: data[0]?.categories,
-        primary_category: data[0]?.primary_category
+        primary_category: data[0]?.primary_category,
+        current_version: data[0]?.current_version
       });
 
       return NextResponse.json({
         success: true,
         message: 'Transcription data updated successfully',
-        data: data[0],
+        data: callRecordSchema.parse(data[0]),
         operation: 'update'
       });
 
     } else {
-      // Record doesn't exist, insert new one
+      // Record doesn't exist, insert new one. Calls sent without a channel
+      // were ingested from contact_log, so they belong to the ingest channel.
       console.log(`Inserting new record for contact_id: ${transcriptionData.contact_id}`);
       
       const { data, error } = await supabase
         .from('call_records')
-        .insert([{
-          contact_id: transcriptionData.contact_id,
-          ...baseData
-        }])
+        .insert([{ ...baseData, channel: baseData.channel ?? String(getIngestChannel().id) }])
         .select();
 
       if (error) {
@@ -184,7 +160,7 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({
         success: true,
         message: 'Transcription data saved successfully',
-        data: data[0],
+        data: callRecordSchema.parse(data[0]),
         operation: 'insert'
       });
     }
@@ -236,7 +212,7 @@ export async function GET(request: NextRequest) {
 
     return NextResponse.json({
       success: true,
-      data: data
+      data: callRecordSchema.parse(data)
     });
 
   } catch (error) {
@@ -0,0 +1,95 @@
+// app/api/supabase/transcript-versions/[contactId]/route.ts - A call's transcript history and rollback
+import { NextRequest, NextResponse } from 'next/server';
+import { getTranscriptHistory, rollbackTranscript } from '@/lib/transcriptVersions';
+import { ADMIN_KEY_HEADER, isAdminKeyConfigured, verifyAdminKey } from '@/lib/adminAuth';
+import { rollbackRequestSchema, validationError } from '@/lib/domain';
+
+// Lists the call's versions, newest first, with the current one
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ contactId: string }> }
+) {
+  try {
+    const { contactId } = await params;
+    const history = await getTranscriptHistory(contactId);
+
+    if (!history) {
+      return NextResponse.json(
+        { success: false, error: 'Transcription not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: history,
+      timestamp: new Date().toISOString()
+    });
+  } catch (error) {
+    console.error('Error fetching transcript versions:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Failed to fetch transcript versions',
+        details: process.env.NODE_ENV === 'development' && error instanceof Error ? error.message : undefined
+      },
+      { status: 500 }
+    );
+  }
+}
+
+// Makes { version } current again; requires the admin key
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ contactId: string }> }
+) {
+  if (!isAdminKeyConfigured()) {
+    return NextResponse.json(
+      { success: false, error: 'Transcript rollback is not configured' },
+      { status: 503 }
+    );
+  }
+
+  if (!verifyAdminKey(request.headers.get(ADMIN_KEY_HEADER))) {
+    return NextResponse.json(
+      { success: false, error: 'Unauthorized' },
+      { status: 401 }
+    );
+  }
+
+  try {
+    const { contactId } = await params;
+    const body = rollbackRequestSchema.safeParse(await request.json());
+
+    if (!body.success) {
+      return NextResponse.json(
+        { success: false, error: validationError(body.error) },
+        { status: 400 }
+      );
+    }
+
+    const rolledBack = await rollbackTranscript(contactId, body.data.version);
+    if (!rolledBack) {
+      return NextResponse.json(
+        { success: false, error: `Version ${body.data.version} of call ${contactId} not found` },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: await getTranscriptHistory(contactId),
+      timestamp: new Date().toISOString()
+    });
+  } catch (error) {
+    console.error('Error rolling back transcript:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Failed to roll back transcript',
+        details: process.env.NODE_ENV === 'development' && error instanceof Error ? error.message : undefined
+      },
+      { status: 500 }
+    );
+  }
+}
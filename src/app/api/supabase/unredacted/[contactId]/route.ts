@@ -0,0 +1,44 @@
+// app/api/supabase/unredacted/[contactId]/route.ts - Original transcript for authorised reviewers
+import { NextRequest, NextResponse } from 'next/server';
+import { getUnredactedCopy } from '@/lib/redaction';
+import { requirePiiAccess } from '@/lib/adminAuth';
+
+// Only kept for channels whose policy sets keepUnredacted; every read is logged
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ contactId: string }> }
+) {
+  const denied = requirePiiAccess(request, 'Unredacted access');
+  if (denied) return denied;
+
+  try {
+    const { contactId } = await params;
+    const forwardedFor = request.headers.get('x-forwarded-for') || 'unknown';
+
+    console.log(`🔓 Unredacted transcript for ${contactId} requested from ${forwardedFor}`);
+
+    const copy = await getUnredactedCopy(contactId);
+    if (!copy) {
+      return NextResponse.json(
+        { success: false, error: 'No unredacted copy is kept for this call' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: copy,
+      timestamp: new Date().toISOString()
+    });
+  } catch (error) {
+    console.error('Error fetching unredacted transcript:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Failed to fetch unredacted transcript',
+        details: process.env.NODE_ENV === 'development' && error instanceof Error ? error.message : undefined
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -1,61 +1,34 @@
-/* eslint-disable @typescript-eslint/no-unused-vars */
-/* eslint-disable @typescript-eslint/no-explicit-any */
 import { NextResponse } from "next/server";
-
-/**
- * Helper function to save transcription to Supabase
- */
-async function saveToSupabase(
-  callData: any,
-  transcriptData: any,
-  categorization: any = null
-) {
-  try {
-    const serverUrl = process.env.NEXT_PUBLIC_SERVER_URL || "http://192.168.40.101";
-
-    const payload = {
-      contact_id: callData.contact_id,
-      recording_location: callData.recording_location || "",
-      transcript_text: transcriptData.text || "",
-      queue_name: callData.queue_name || null,
-      agent_username: callData.agent_username || "",
-      initiation_timestamp: callData.initiation_timestamp || new Date().toISOString(),
-      speaker_data: transcriptData.utterances ? JSON.stringify(transcriptData.utterances) : null,
-      sentiment_analysis: transcriptData.sentiment_analysis_results ? JSON.stringify(transcriptData.sentiment_analysis_results) : null,
-      entities: transcriptData.entities ? JSON.stringify(transcriptData.entities) : null,
-      disposition_title: callData.disposition_title || null,
-      call_summary: transcriptData.summary || null,
-      campaign_name: callData.campaign_name || null,
-      campaign_id: callData.campaign_id || null,
-      customer_cli: callData.customer_cli || null,
-      agent_hold_time: callData.agent_hold_time || null,
-      total_hold_time: callData.total_hold_time || null,
-      time_in_queue: callData.time_in_queue || null,
-      call_duration: callData.total_call_time || null,
-      categories: categorization?.topic_categories 
-        ? JSON.stringify(categorization.topic_categories) 
-        : (transcriptData.topic_categorization?.all_topics ? JSON.stringify(transcriptData.topic_categorization.all_topics) : null),
-      primary_category: categorization?.primary_category || transcriptData.topic_categorization?.primary_topic || null,
-    };
-
-    const response = await fetch(`${serverUrl}/api/supabase/save-transcription`, {
-      method: "POST",
-      headers: { "Content-Type": "application/json" },
-      body: JSON.stringify(payload),
-    });
-
-    if (!response.ok) {
-      const errorText = await response.text();
-      throw new Error(`Supabase save failed: ${response.status}`);
-    }
-
-    const result = await response.json();
-    return result.data;
-  } catch (error) {
-    console.error("Error saving to Supabase:", error);
-    throw error;
-  }
-}
+import {
+  getTranscriptionProvider,
+  getWebhookConfig,
+  Transcript,
+  TranscriptionJob,
+} from "@/lib/transcription";
+import {
+  claimCallJobs,
+  createLeaseOwner,
+  enqueueCallJobs,
+  markCallJobTranscribing,
+} from "@/lib/jobQueue";
+import { getCallChannel, releaseCall } from "@/lib/callPipeline";
+import { saveTranscriptionToSupabase } from "@/lib/callRecords";
+import { recordLedgerEntry } from "@/lib/pipelineLedger";
+import { recordTranscriptionUsage } from "@/lib/usage";
+import { budgetExceededError } from "@/lib/budget";
+import { getTranscriptionVocabulary } from "@/lib/vocabulary";
+import { getProviderRedaction, getRedactionPolicy, redactFinishedTranscript } from "@/lib/redaction";
+import { getLanguageSettings } from "@/lib/language";
+import { translateTranscript } from "@/lib/translation";
+import { assignSpeakerRoles } from "@/lib/speakerRoles";
+import { fetchWavHeader } from "@/lib/wav";
+import {
+  categorisationSchema,
+  transcribeRequestSchema,
+  validationError,
+  type CategorisationResult,
+  type ChannelCallLog,
+} from "@/lib/domain";
 
 /**
  * Get server URL with proper network configuration
@@ -74,15 +47,34 @@ function getServerUrl(): string {
 // downloadAudioWithChunking and uploadToAssemblyAI functions removed
 // since we now use direct URLs
 
+/**
+ * Read the channel count from the WAV header so stereo calls can be transcribed
+ * per channel. Diarisation still works without it, so failures just return null.
+ */
+async function getAudioChannels(audioUrl: string): Promise<number | null> {
+  try {
+    const wav = await fetchWavHeader(audioUrl);
+    if (wav) console.log(`🎧 Audio has ${wav.channels} channel(s)`);
+    return wav?.channels ?? null;
+  } catch (headerError) {
+    console.log(`⚠️ Could not read WAV header, assuming mono: ${headerError instanceof Error ? headerError.message : "Unknown"}`);
+    return null;
+  }
+}
+
 /**
  * INFRASTRUCTURE BYPASS: Use direct SFTP URL approach
  */
-async function getOptimizedAudioUrl(sftpFilename: string, apiKey: string): Promise<string> {
+async function getOptimizedAudioUrl(sftpFilename: string, contactId?: string): Promise<string> {
   console.log("🎯 INFRASTRUCTURE BYPASS: Using direct URL approach:", sftpFilename);
-  
+
+  // The audio route serves recordings by call, not by path
+  if (!contactId) {
+    throw new Error("callData.contact_id is required to stream an SFTP recording");
+  }
+
   const serverUrl = getServerUrl();
-  const decodedFilename = decodeURIComponent(sftpFilename);
-  const directUrl = `${serverUrl}/api/sftp/download?filename=${encodeURIComponent(decodedFilename)}`;
+  const directUrl = `${serverUrl}/api/sftp/audio/${encodeURIComponent(contactId)}`;
   
   // INFRASTRUCTURE BYPASS: Always use direct URL - let AssemblyAI handle the download
   console.log("🚀 INFRASTRUCTURE BYPASS: Using direct URL to avoid server timeout");
@@ -115,18 +107,17 @@ async function getOptimizedAudioUrl(sftpFilename: string, apiKey: string): Promi
 /**
  * Topic categorization with infrastructure timeout protection
  */
-async function performTopicCategorization(transcriptData: any): Promise<{
-  primary_category: string;
-  topic_categories: string[];
-  confidence: number;
-} | null> {
+async function performTopicCategorization(
+  transcriptData: Transcript,
+  callData: ChannelCallLog | null = null
+): Promise<CategorisationResult | null> {
   try {
     const serverUrl = getServerUrl();
 
     const response = await fetch(`${serverUrl}/api/openAI/categorise`, {
       method: "POST",
       headers: { "Content-Type": "application/json" },
-      body: JSON.stringify({ transcript: transcriptData }),
+      body: JSON.stringify({ transcript: transcriptData, callData }),
       signal: AbortSignal.timeout(20000), // 20 seconds to avoid infrastructure timeout
     });
 
@@ -135,17 +126,13 @@ async function performTopicCategorization(transcriptData: any): Promise<{
       return null;
     }
 
-    const topicData = await response.json();
-
-    if (topicData.topic_categories && topicData.topic_categories.length > 0) {
-      return {
-        primary_category: topicData.primary_category,
-        topic_categories: topicData.topic_categories,
-        confidence: topicData.confidence || 1.0,
-      };
+    const topicData = categorisationSchema.safeParse(await response.json());
+    if (!topicData.success) {
+      console.error("Topic categorization returned an unexpected response:", validationError(topicData.error));
+      return null;
     }
 
-    return null;
+    return topicData.data.topic_categories.length > 0 ? topicData.data : null;
   } catch (error) {
     console.error("Error in topic categorization:", error);
     return null;
@@ -156,15 +143,12 @@ export async function POST(request: Request) {
   const requestStartTime = Date.now();
   
   try {
-    const body = await request.json();
-    const {
-      audioUrl,
-      speakerCount = 2,
-      filename,
-      isDirectSftpFile = false,
-      sftpFilename = null,
-      callData = null,
-    } = body;
+    const body = transcribeRequestSchema.safeParse(await request.json());
+    if (!body.success) {
+      return NextResponse.json({ error: validationError(body.error) }, { status: 400 });
+    }
+
+    const { audioUrl, speakerCount, filename, isDirectSftpFile, sftpFilename, callData } = body.data;
 
     console.log("🎬 INFRASTRUCTURE BYPASS TRANSCRIPTION:", {
       filename,
@@ -178,13 +162,15 @@ export async function POST(request: Request) {
       return NextResponse.json({ error: "Audio source required" }, { status: 400 });
     }
 
-    if (!filename) {
-      return NextResponse.json({ error: "Filename required" }, { status: 400 });
+    const provider = getTranscriptionProvider();
+    const configError = provider.configurationError();
+    if (configError) {
+      return NextResponse.json({ error: configError }, { status: 500 });
     }
 
-    const apiKey = process.env.ASSEMBLYAI_API_KEY;
-    if (!apiKey) {
-      return NextResponse.json({ error: "AssemblyAI API key not configured" }, { status: 500 });
+    const budgetError = await budgetExceededError(callData?.channel || undefined);
+    if (budgetError) {
+      return NextResponse.json({ error: budgetError, budgetExceeded: true }, { status: 402 });
     }
 
     let uploadUrl: string;
@@ -194,7 +180,7 @@ export async function POST(request: Request) {
       console.log("📁 PHASE 1: Audio URL resolution (INFRASTRUCTURE BYPASS)...");
       
       if (isDirectSftpFile && sftpFilename) {
-        uploadUrl = await getOptimizedAudioUrl(sftpFilename, apiKey);
+        uploadUrl = await getOptimizedAudioUrl(sftpFilename, callData?.contact_id);
       } else if (audioUrl) {
         console.log("Using provided audio URL:", audioUrl);
         uploadUrl = audioUrl;
@@ -214,49 +200,78 @@ export async function POST(request: Request) {
       }, { status: 500 });
     }
 
-    // PHASE 2: Submit to AssemblyAI (Quick operation)
-    console.log("📡 PHASE 2: Submitting to AssemblyAI (INFRASTRUCTURE BYPASS)...");
-    
-    const transcriptResponse = await fetch("https://api.assemblyai.com/v2/transcript", {
-      method: "POST",
-      headers: {
-        Authorization: apiKey,
-        "Content-Type": "application/json",
-      },
-      body: JSON.stringify({
-        audio_url: uploadUrl,
-        speech_model: "best",
-        speaker_labels: true,
-        speakers_expected: speakerCount || 2,
-        summarization: true,
-        summary_model: "conversational",
-        summary_type: "paragraph",
-        entity_detection: true,
-        sentiment_analysis: true,
-        filter_profanity: false,
-        auto_highlights: true,
-        punctuate: true,
-        format_text: true,
-      }),
-      signal: AbortSignal.timeout(30000), // 30 seconds should be plenty for submission
-    });
+    // Calls with callData are finished by the webhook when one is configured.
+    // Claim the job first so the webhook can match the transcript back to it.
+    const webhook = callData && provider.supportsWebhooks ? getWebhookConfig() : null;
+    const leaseOwner = webhook ? createLeaseOwner("transcribe") : null;
+
+    if (callData && webhook && leaseOwner) {
+      await enqueueCallJobs([callData.contact_id]);
+      const [job] = await claimCallJobs(leaseOwner, {
+        contactIds: [callData.contact_id],
+        limit: 1,
+      });
+
+      if (!job) {
+        return NextResponse.json({
+          error: "Call is already being processed",
+          status: "error",
+        }, { status: 409 });
+      }
+    }
+
+    // PHASE 2: Submit to the transcription provider (Quick operation)
+    console.log(`📡 PHASE 2: Submitting to ${provider.name} (INFRASTRUCTURE BYPASS)...`);
 
-    if (!transcriptResponse.ok) {
-      const errorData = await transcriptResponse.json();
-      console.error("AssemblyAI submission failed:", errorData);
+    let id: string;
+    try {
+      const vocabulary = await getTranscriptionVocabulary(callData?.channel || undefined);
+      const { expectedLanguages: languages } = await getLanguageSettings(callData?.channel || undefined);
+      const redaction = getProviderRedaction(await getRedactionPolicy(callData?.channel || undefined));
+      const audioChannels = await getAudioChannels(uploadUrl);
+      id = await provider.submit(uploadUrl, {
+        speakerCount: speakerCount || 2,
+        webhook,
+        vocabulary,
+        audioChannels,
+        languages,
+        redaction,
+      });
+    } catch (submitError) {
+      console.error("Transcription submission failed:", submitError);
+      if (callData && leaseOwner) {
+        await releaseCall(callData.contact_id, leaseOwner, submitError);
+      }
       return NextResponse.json({
         error: "Failed to initiate transcription",
-        details: errorData
+        details: submitError instanceof Error ? submitError.message : "Unknown error"
       }, { status: 500 });
     }
 
-    const { id } = await transcriptResponse.json();
     console.log(`✅ Transcription job created (INFRASTRUCTURE BYPASS): ${id}`);
 
+    // Webhook mode: no polling, the webhook categorises and saves the call
+    if (callData && webhook && leaseOwner) {
+      await recordLedgerEntry(callData.contact_id, "transcript_submitted", {
+        output: { transcript_id: id, provider: provider.name },
+        leaseOwner,
+      });
+      await markCallJobTranscribing(callData.contact_id, leaseOwner, id, callData);
+      console.log(`📨 Waiting for webhook for ${callData.contact_id} (${id})`);
+
+      return NextResponse.json({
+        status: "processing",
+        transcription_id: id,
+        message: "Transcription started successfully. The call will be saved when AssemblyAI calls back.",
+        polling_url: `/api/transcribe/status/${id}`,
+        call_data: callData,
+      });
+    }
+
     // PHASE 3: Quick initial poll, then return with job ID for client-side polling
     console.log("⏳ PHASE 3: Initial status check...");
     
-    let transcript;
+    let job: TranscriptionJob | null = null;
     let status = "processing";
     let attempts = 0;
     const maxQuickAttempts = 6; // Only 30 seconds of polling (6 * 5 seconds)
@@ -268,18 +283,8 @@ export async function POST(request: Request) {
       attempts++;
 
       try {
-        const statusResponse = await fetch(`https://api.assemblyai.com/v2/transcript/${id}`, {
-          headers: { Authorization: apiKey },
-          signal: AbortSignal.timeout(10000),
-        });
-
-        if (!statusResponse.ok) {
-          console.error("Status check failed:", statusResponse.status);
-          break;
-        }
-
-        transcript = await statusResponse.json();
-        status = transcript.status;
+        job = await provider.getJob(id);
+        status = job.status;
         
         console.log(`📊 Quick poll ${attempts}/${maxQuickAttempts}: ${status}`);
         
@@ -294,35 +299,42 @@ export async function POST(request: Request) {
     }
 
     // PHASE 4: Process results if completed quickly, otherwise return job ID
-    if (status === "completed" && transcript) {
+    if (status === "completed" && job?.transcript) {
       console.log("✅ Transcription completed quickly! (INFRASTRUCTURE BYPASS)");
-
-      // Process speaker roles
-      if (transcript.utterances) {
-        transcript.utterances = transcript.utterances.map((utterance: any) => ({
-          ...utterance,
-          speakerRole: utterance.speaker === "A" ? "Agent" : "Customer",
-        }));
-      }
-
-      if (transcript.words) {
-        transcript.words = transcript.words.map((word: any) => ({
-          ...word,
-          speakerRole: word.speaker === "A" ? "Agent" : "Customer",
-        }));
-      }
+      // Settle speaker roles, then redact before anything else sees it:
+      // translation, categorisation, the save and the response
+      const withRoles = assignSpeakerRoles(job.transcript, {
+        channel: callData?.channel || undefined,
+        agentUsername: callData?.agent_username,
+      });
+      const transcript = await translateTranscript(
+        await redactFinishedTranscript(withRoles, {
+          contactId: callData?.contact_id,
+          channel: callData?.channel || undefined,
+        }),
+        await getLanguageSettings(callData?.channel || undefined),
+        {
+          channel: callData?.channel || undefined,
+          usageContext: {
+            channel: callData?.channel,
+            agentUsername: callData?.agent_username,
+            contactId: callData?.contact_id,
+          },
+        }
+      );
+      await recordTranscriptionUsage(transcript, {
+        channel: callData?.channel,
+        agentUsername: callData?.agent_username,
+        contactId: callData?.contact_id,
+      });
 
       // Optional topic categorization (with timeout to avoid infrastructure timeout)
-      let categorization: {
-        primary_category: string;
-        topic_categories: string[];
-        confidence: number;
-      } | null = null;
+      let categorization: CategorisationResult | null = null;
       
       if (transcript.utterances && transcript.utterances.length > 0) {
         try {
           // Use AbortSignal.timeout for better type safety
-          categorization = await performTopicCategorization(transcript);
+          categorization = await performTopicCategorization(transcript, callData);
         } catch (catError) {
           console.error("⚠️ Categorization failed:", catError);
           categorization = null;
@@ -342,7 +354,7 @@ export async function POST(request: Request) {
       // Optional Supabase save
       if (callData) {
         try {
-          await saveToSupabase(callData, transcript, categorization);
+          await saveTranscriptionToSupabase(callData, transcript, categorization, getCallChannel(callData));
           console.log("✅ Saved to Supabase");
         } catch (supabaseError) {
           console.error("⚠️ Supabase save failed:", supabaseError);
@@ -359,9 +371,9 @@ export async function POST(request: Request) {
       });
 
     } else if (status === "error") {
-      console.error("❌ AssemblyAI error:", transcript?.error);
+      console.error(`❌ ${provider.name} error:`, job?.error);
       return NextResponse.json({
-        error: `Transcription failed: ${transcript?.error || "Unknown error"}`,
+        error: `Transcription failed: ${job?.error || "Unknown error"}`,
         status: "error",
       }, { status: 500 });
       
@@ -373,7 +385,7 @@ export async function POST(request: Request) {
       return NextResponse.json({
         status: "processing",
         transcription_id: id,
-        message: "Transcription started successfully. AssemblyAI is processing the file directly from your server.",
+        message: `Transcription started successfully. ${provider.name} is processing the file.`,
         polling_url: `/api/transcribe/status/${id}`,
         call_data: callData || null,
       });
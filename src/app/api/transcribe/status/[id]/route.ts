@@ -1,62 +1,21 @@
-/* eslint-disable @typescript-eslint/no-unused-vars */
-/* eslint-disable @typescript-eslint/no-explicit-any */
 // app/api/transcribe/status/[id]/route.ts
 import { NextResponse } from "next/server";
-
-/**
- * Helper function to save transcription to Supabase
- */
-async function saveToSupabase(
-  callData: any,
-  transcriptData: any,
-  categorization: any = null
-) {
-  try {
-    const serverUrl = process.env.NEXT_PUBLIC_SERVER_URL || "http://192.168.40.101";
-
-    const payload = {
-      contact_id: callData.contact_id,
-      recording_location: callData.recording_location || "",
-      transcript_text: transcriptData.text || "",
-      queue_name: callData.queue_name || null,
-      agent_username: callData.agent_username || "",
-      initiation_timestamp: callData.initiation_timestamp || new Date().toISOString(),
-      speaker_data: transcriptData.utterances ? JSON.stringify(transcriptData.utterances) : null,
-      sentiment_analysis: transcriptData.sentiment_analysis_results ? JSON.stringify(transcriptData.sentiment_analysis_results) : null,
-      entities: transcriptData.entities ? JSON.stringify(transcriptData.entities) : null,
-      disposition_title: callData.disposition_title || null,
-      call_summary: transcriptData.summary || null,
-      campaign_name: callData.campaign_name || null,
-      campaign_id: callData.campaign_id || null,
-      customer_cli: callData.customer_cli || null,
-      agent_hold_time: callData.agent_hold_time || null,
-      total_hold_time: callData.total_hold_time || null,
-      time_in_queue: callData.time_in_queue || null,
-      call_duration: callData.total_call_time || null,
-      categories: categorization?.topic_categories 
-        ? JSON.stringify(categorization.topic_categories) 
-        : (transcriptData.topic_categorization?.all_topics ? JSON.stringify(transcriptData.topic_categorization.all_topics) : null),
-      primary_category: categorization?.primary_category || transcriptData.topic_categorization?.primary_topic || null,
-    };
-
-    const response = await fetch(`${serverUrl}/api/supabase/save-transcription`, {
-      method: "POST",
-      headers: { "Content-Type": "application/json" },
-      body: JSON.stringify(payload),
-    });
-
-    if (!response.ok) {
-      const errorText = await response.text();
-      throw new Error(`Supabase save failed: ${response.status}`);
-    }
-
-    const result = await response.json();
-    return result.data;
-  } catch (error) {
-    console.error("Error saving to Supabase:", error);
-    throw error;
-  }
-}
+import { getTranscriptionProvider, type Transcript } from "@/lib/transcription";
+import { recordTranscriptionUsage } from "@/lib/usage";
+import { redactFinishedTranscript } from "@/lib/redaction";
+import { getLanguageSettings } from "@/lib/language";
+import { translateTranscript } from "@/lib/translation";
+import { assignSpeakerRoles } from "@/lib/speakerRoles";
+import { getCallChannel } from "@/lib/callPipeline";
+import { saveTranscriptionToSupabase } from "@/lib/callRecords";
+import { findSavedTranscript, getLedger, recordLedgerEntry } from "@/lib/pipelineLedger";
+import {
+  categorisationSchema,
+  channelCallLogSchema,
+  validationError,
+  type CategorisationResult,
+  type ChannelCallLog,
+} from "@/lib/domain";
 
 /**
  * Get server URL with proper network configuration
@@ -74,18 +33,17 @@ function getServerUrl(): string {
 /**
  * Topic categorization with timeout
  */
-async function performTopicCategorization(transcriptData: any): Promise<{
-  primary_category: string;
-  topic_categories: string[];
-  confidence: number;
-} | null> {
+async function performTopicCategorization(
+  transcriptData: Transcript,
+  callData: ChannelCallLog | null = null
+): Promise<CategorisationResult | null> {
   try {
     const serverUrl = getServerUrl();
 
     const response = await fetch(`${serverUrl}/api/openAI/categorise`, {
       method: "POST",
       headers: { "Content-Type": "application/json" },
-      body: JSON.stringify({ transcript: transcriptData }),
+      body: JSON.stringify({ transcript: transcriptData, callData }),
       signal: AbortSignal.timeout(20000), // 20 seconds for categorization
     });
 
@@ -94,23 +52,47 @@ async function performTopicCategorization(transcriptData: any): Promise<{
       return null;
     }
 
-    const topicData = await response.json();
-
-    if (topicData.topic_categories && topicData.topic_categories.length > 0) {
-      return {
-        primary_category: topicData.primary_category,
-        topic_categories: topicData.topic_categories,
-        confidence: topicData.confidence || 1.0,
-      };
+    const topicData = categorisationSchema.safeParse(await response.json());
+    if (!topicData.success) {
+      console.error("Topic categorization returned an unexpected response:", validationError(topicData.error));
+      return null;
     }
 
-    return null;
+    return topicData.data.topic_categories.length > 0 ? topicData.data : null;
   } catch (error) {
     console.error("Error in topic categorization:", error);
     return null;
   }
 }
 
+/**
+ * The topics reported with a transcript, Uncategorised when categorisation failed
+ */
+function topicCategorization(categorization: CategorisationResult | null | undefined) {
+  return categorization ? {
+    primary_topic: categorization.primary_category,
+    all_topics: categorization.topic_categories,
+    confidence: categorization.confidence,
+  } : {
+    primary_topic: "Uncategorised",
+    all_topics: ["Uncategorised"],
+    confidence: 0,
+  };
+}
+
+/**
+ * The call's saved result for this transcript, if it was saved by an earlier poll
+ */
+async function getSavedTranscript(contactId: string, transcriptId: string) {
+  try {
+    return findSavedTranscript(await getLedger(contactId), transcriptId);
+  } catch (error) {
+    // Without the ledger the transcript is processed again, as it used to be
+    console.error(`⚠️ Could not load ledger for ${contactId}:`, error);
+    return null;
+  }
+}
+
 export async function GET(
   request: Request,
   { params }: { params: Promise<{ id: string }> }
@@ -120,89 +102,122 @@ export async function GET(
     const url = new URL(request.url);
     const callDataParam = url.searchParams.get('callData');
     
-    let callData = null;
+    let callData: ChannelCallLog | null = null;
     if (callDataParam) {
+      let json: unknown;
       try {
-        callData = JSON.parse(decodeURIComponent(callDataParam));
-      } catch (e) {
-        console.warn("Failed to parse callData parameter");
+        json = JSON.parse(decodeURIComponent(callDataParam));
+      } catch {
+        return NextResponse.json({ error: "callData: Invalid JSON" }, { status: 400 });
       }
+
+      const parsed = channelCallLogSchema.safeParse(json);
+      if (!parsed.success) {
+        return NextResponse.json({ error: validationError(parsed.error) }, { status: 400 });
+      }
+      callData = parsed.data;
     }
 
     console.log(`📊 Checking transcription status for job: ${id}`);
 
-    const apiKey = process.env.ASSEMBLYAI_API_KEY;
-    if (!apiKey) {
-      return NextResponse.json({ error: "AssemblyAI API key not configured" }, { status: 500 });
+    const provider = getTranscriptionProvider();
+    const configError = provider.configurationError();
+    if (configError) {
+      return NextResponse.json({ error: configError }, { status: 500 });
     }
 
-    // Get transcription status from AssemblyAI
-    const statusResponse = await fetch(`https://api.assemblyai.com/v2/transcript/${id}`, {
-      headers: { Authorization: apiKey },
-      signal: AbortSignal.timeout(15000), // 15 second timeout for status check
-    });
-
-    if (!statusResponse.ok) {
-      console.error("AssemblyAI status check failed:", statusResponse.status);
+    // Get transcription status from the provider
+    let job;
+    try {
+      job = await provider.getJob(id);
+    } catch (statusError) {
+      console.error("Transcription status check failed:", statusError);
       return NextResponse.json({
         error: "Failed to check transcription status",
         status: "error"
       }, { status: 500 });
     }
 
-    const transcript = await statusResponse.json();
-    const status = transcript.status;
+    const status = job.status;
 
     console.log(`📋 Job ${id} status: ${status}`);
 
-    if (status === "completed") {
+    // Polls keep coming after completion; answer them from the saved call
+    // rather than translating, categorising and saving it again
+    const saved = status === "completed" && callData ? await getSavedTranscript(callData.contact_id, id) : null;
+    if (saved) {
+      console.log(`♻️ Transcript ${id} already saved for ${callData?.contact_id}`);
+      return NextResponse.json({
+        ...saved.transcript,
+        ...(saved.transcript.utterances?.length ? { topic_categorization: topicCategorization(saved.categorisation) } : {}),
+        status: "completed",
+        call_data: callData,
+      });
+    }
+
+    if (status === "completed" && job.transcript) {
       console.log("✅ Transcription completed! Processing results...");
+      // Settle speaker roles, then redact before anything else sees it:
+      // translation, categorisation, the save and the response
+      const withRoles = assignSpeakerRoles(job.transcript, {
+        channel: callData?.channel || undefined,
+        agentUsername: callData?.agent_username,
+      });
+      const transcript = await translateTranscript(
+        await redactFinishedTranscript(withRoles, {
+          contactId: callData?.contact_id,
+          channel: callData?.channel || undefined,
+        }),
+        await getLanguageSettings(callData?.channel || undefined),
+        {
+          channel: callData?.channel || undefined,
+          usageContext: {
+            channel: callData?.channel,
+            agentUsername: callData?.agent_username,
+            contactId: callData?.contact_id,
+          },
+        }
+      );
 
-      // Process speaker roles
-      if (transcript.utterances) {
-        transcript.utterances = transcript.utterances.map((utterance: any) => ({
-          ...utterance,
-          speakerRole: utterance.speaker === "A" ? "Agent" : "Customer",
-        }));
+      if (callData) {
+        await recordLedgerEntry(callData.contact_id, "transcript_received", {
+          output: { transcript_id: id, provider: transcript.provider, transcript },
+        });
       }
 
-      if (transcript.words) {
-        transcript.words = transcript.words.map((word: any) => ({
-          ...word,
-          speakerRole: word.speaker === "A" ? "Agent" : "Customer",
-        }));
-      }
+      // Polled repeatedly, but usage is keyed on the transcript id so it's only counted once
+      await recordTranscriptionUsage(transcript, {
+        channel: callData?.channel,
+        agentUsername: callData?.agent_username,
+        contactId: callData?.contact_id,
+      });
 
       // Optional topic categorization
-      let categorization: {
-        primary_category: string;
-        topic_categories: string[];
-        confidence: number;
-      } | null = null;
+      let categorization: CategorisationResult | null = null;
       
       if (transcript.utterances && transcript.utterances.length > 0) {
         try {
-          categorization = await performTopicCategorization(transcript);
+          categorization = await performTopicCategorization(transcript, callData);
         } catch (catError) {
           console.error("⚠️ Categorization failed:", catError);
           categorization = null;
         }
         
-        transcript.topic_categorization = categorization ? {
-          primary_topic: categorization.primary_category,
-          all_topics: categorization.topic_categories,
-          confidence: categorization.confidence,
-        } : {
-          primary_topic: "Uncategorised",
-          all_topics: ["Uncategorised"],
-          confidence: 0,
-        };
+        transcript.topic_categorization = topicCategorization(categorization);
       }
 
       // Optional Supabase save
       if (callData) {
         try {
-          await saveToSupabase(callData, transcript, categorization);
+          if (categorization) {
+            await recordLedgerEntry(callData.contact_id, "categorised", {
+              output: { categorisation: categorization },
+            });
+          }
+          await saveTranscriptionToSupabase(callData, transcript, categorization, getCallChannel(callData));
+          await recordLedgerEntry(callData.contact_id, "saved", {
+            output: { primary_category: categorization?.primary_category ?? null },
+          });
           console.log("✅ Saved to Supabase");
         } catch (supabaseError) {
           console.error("⚠️ Supabase save failed:", supabaseError);
@@ -218,11 +233,11 @@ export async function GET(
       });
 
     } else if (status === "error") {
-      console.error("❌ AssemblyAI transcription error:", transcript.error);
+      console.error(`❌ ${provider.name} transcription error:`, job.error);
       return NextResponse.json({
-        error: `Transcription failed: ${transcript.error || "Unknown error"}`,
+        error: `Transcription failed: ${job.error || "Unknown error"}`,
         status: "error",
-        details: transcript.error
+        details: job.error
       }, { status: 500 });
       
     } else {
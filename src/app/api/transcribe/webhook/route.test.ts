@@ -0,0 +1,294 @@
+// app/api/transcribe/webhook/route.test.ts - The transcription webhook against scripts/mock-assemblyai.ts
+//
+// The mock serves transcripts and delivers webhooks to a local server that
+// hands them to the route. The job queue is kept in memory and Supabase writes
+// are recorded, so nothing leaves the machine.
+import { createServer, IncomingMessage, Server } from "http";
+import { AddressInfo } from "net";
+import { NextRequest } from "next/server";
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it, vi } from "vitest";
+import type { CallJob } from "@/lib/jobQueue";
+import { startMockAssemblyAI, type MockAssemblyAI } from "../../../../../scripts/mock-assemblyai";
+
+const SECRET = "test-webhook-secret";
+const CHANNEL = "7";
+
+const { jobs, writes } = vi.hoisted(() => ({
+  jobs: new Map<string, CallJob>(),
+  writes: [] as { table: string; op: string; values: unknown }[],
+}));
+
+// Every query resolves empty; inserts, upserts and updates are recorded
+vi.mock("@/lib/supabaseAdmin", () => {
+  const query = (table: string) => {
+    const builder: Record<string, unknown> = {};
+    const chain = () => builder;
+    ["select", "eq", "in", "lt", "gte", "lte", "order", "limit"].forEach((method) => (builder[method] = chain));
+    ["insert", "upsert", "update", "delete"].forEach((op) => {
+      builder[op] = (values: unknown) => {
+        writes.push({ table, op, values });
+        return builder;
+      };
+    });
+    const empty = () => Promise.resolve({ data: null, error: null });
+    builder.single = empty;
+    builder.maybeSingle = empty;
+    builder.then = (resolve: (value: unknown) => unknown, reject: (reason: unknown) => unknown) =>
+      empty().then(resolve, reject);
+    return builder;
+  };
+
+  return {
+    supabaseAdmin: {
+      from: query,
+      rpc: () => Promise.resolve({ data: null, error: null }),
+    },
+  };
+});
+
+// The parts of the job queue the webhook uses, with the same lease rules
+vi.mock("@/lib/jobQueue", async (importOriginal) => {
+  const original = await importOriginal<typeof import("@/lib/jobQueue")>();
+  const leased = (contactId: string, owner: string) => {
+    const job = jobs.get(contactId);
+    return job && job.lease_owner === owner && ["processing", "transcribing"].includes(job.status) ? job : null;
+  };
+
+  return {
+    ...original,
+    getCallJobByTranscriptId: async (transcriptId: string) =>
+      Array.from(jobs.values()).find((job) => job.transcript_id === transcriptId) || null,
+    completeCallJob: async (contactId: string, owner: string) => {
+      const job = leased(contactId, owner);
+      if (!job) return false;
+      Object.assign(job, { status: "completed", lease_owner: null, lease_expires_at: null });
+      return true;
+    },
+    failCallJob: async (contactId: string, owner: string, error: string) => {
+      const job = leased(contactId, owner);
+      if (!job) return null;
+      // Claiming counts the attempt; failing it only decides whether it's retried
+      Object.assign(job, {
+        status: job.attempts >= job.max_attempts ? "failed" : "pending",
+        last_error: error,
+        lease_owner: null,
+        lease_expires_at: null,
+      });
+      return job;
+    },
+  };
+});
+
+vi.mock("@/lib/categorise", () => ({
+  categoriseUtterances: async () => ({
+    primary_category: "Delivery Enquiry",
+    topic_categories: ["Delivery Enquiry"],
+    confidence: 0.9,
+  }),
+}));
+
+let mock: MockAssemblyAI;
+let webhookServer: Server;
+let webhookUrl: string;
+let POST: typeof import("./route").POST;
+const responses: { status: number; body: Record<string, unknown> }[] = [];
+
+// Helper function to hand a delivered webhook to the route
+async function forward(req: IncomingMessage): Promise<Response> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of req) chunks.push(chunk);
+
+  const response = await POST(
+    new NextRequest(`${webhookUrl}${req.url}`, {
+      method: "POST",
+      headers: req.headers as Record<string, string>,
+      body: Buffer.concat(chunks),
+    })
+  );
+  responses.push({ status: response.status, body: await response.clone().json() });
+  return response;
+}
+
+// Helper function to submit a call to the mock and park its job as 'transcribing'
+async function submitCall(contactId: string): Promise<string> {
+  const { getTranscriptionProvider, getWebhookConfig } = await import("@/lib/transcription");
+  const provider = getTranscriptionProvider("assemblyai");
+  const transcriptId = await provider.submit(await provider.upload(Buffer.from("RIFF")), {
+    speakerCount: 2,
+    webhook: getWebhookConfig(),
+  });
+
+  jobs.set(contactId, {
+    contact_id: contactId,
+    status: "transcribing",
+    attempts: 1,
+    max_attempts: 3,
+    last_error: null,
+    failure_reason: null,
+    next_retry_at: new Date().toISOString(),
+    lease_owner: "worker:test",
+    lease_expires_at: new Date(Date.now() + 60 * 60 * 1000).toISOString(),
+    transcript_id: transcriptId,
+    call_data: {
+      contact_id: contactId,
+      agent_username: "agent.one",
+      recording_location: `recordings/${contactId}.wav`,
+      initiation_timestamp: "2026-10-01T00:00:00.000Z",
+      total_call_time: { minutes: 0, seconds: 26 },
+      channel: CHANNEL,
+    },
+    transcript_submitted_at: new Date().toISOString(),
+    created_at: new Date().toISOString(),
+    updated_at: new Date().toISOString(),
+  });
+
+  return transcriptId;
+}
+
+// Helper function to post straight to the route, as something other than the mock would
+function postWebhook(body: unknown, secret?: string) {
+  return POST(
+    new NextRequest(`${webhookUrl}/api/transcribe/webhook`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json", ...(secret && { "x-webhook-secret": secret }) },
+      body: JSON.stringify(body),
+    })
+  );
+}
+
+const savedRecords = () => writes.filter((write) => write.table === "call_records" && write.op === "insert");
+
+beforeAll(async () => {
+  webhookServer = createServer(async (req, res) => {
+    const response = await forward(req);
+    res.writeHead(response.status, { "Content-Type": "application/json" });
+    res.end(await response.text());
+  });
+  await new Promise<void>((resolve) => webhookServer.listen(0, resolve));
+  webhookUrl = `http://localhost:${(webhookServer.address() as AddressInfo).port}`;
+
+  mock = await startMockAssemblyAI({ port: 0, delayMs: null });
+
+  // Read when the provider and route load, so set before importing them
+  process.env.ASSEMBLYAI_API_URL = mock.url;
+  process.env.ASSEMBLYAI_API_KEY = "test-key";
+  process.env.ASSEMBLYAI_WEBHOOK_URL = `${webhookUrl}/api/transcribe/webhook`;
+  ({ POST } = await import("./route"));
+});
+
+afterAll(async () => {
+  await mock.close();
+  await new Promise((resolve) => webhookServer.close(resolve));
+});
+
+beforeEach(() => {
+  process.env.ASSEMBLYAI_WEBHOOK_SECRET = SECRET;
+  jobs.clear();
+  writes.length = 0;
+  responses.length = 0;
+  vi.spyOn(console, "log").mockImplementation(() => {});
+  vi.spyOn(console, "warn").mockImplementation(() => {});
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe("POST /api/transcribe/webhook", () => {
+  it("is unavailable until a secret is configured", async () => {
+    delete process.env.ASSEMBLYAI_WEBHOOK_SECRET;
+
+    const response = await postWebhook({ transcript_id: "any", status: "completed" }, SECRET);
+
+    expect(response.status).toBe(503);
+  });
+
+  it("rejects a missing or wrong secret without touching the job", async () => {
+    const transcriptId = await submitCall("1001");
+
+    expect((await postWebhook({ transcript_id: transcriptId, status: "completed" })).status).toBe(401);
+    expect((await postWebhook({ transcript_id: transcriptId, status: "completed" }, "wrong")).status).toBe(401);
+    expect(jobs.get("1001")?.status).toBe("transcribing");
+    expect(savedRecords()).toHaveLength(0);
+  });
+
+  it("finishes a transcribing job when the mock reports it completed", async () => {
+    const transcriptId = await submitCall("1002");
+
+    expect(await mock.deliver(transcriptId)).toBe(200);
+
+    expect(responses[0].body).toMatchObject({ success: true, contact_id: "1002", outcome: "saved" });
+    expect(jobs.get("1002")).toMatchObject({ status: "completed", lease_owner: null });
+
+    const [saved] = savedRecords();
+    expect(saved.values).toEqual([
+      expect.objectContaining({
+        contact_id: "1002",
+        channel: CHANNEL,
+        primary_category: "Delivery Enquiry",
+        transcript_provider: "assemblyai",
+      }),
+    ]);
+  });
+
+  it("ignores a duplicate delivery of a finished transcript", async () => {
+    const transcriptId = await submitCall("1003");
+
+    await mock.deliver(transcriptId);
+    expect(await mock.deliver(transcriptId)).toBe(200);
+
+    expect(responses.map((response) => response.body.outcome)).toEqual(["saved", "ignored"]);
+    expect(savedRecords()).toHaveLength(1);
+  });
+
+  it("ignores a late delivery once the job has been claimed again", async () => {
+    const transcriptId = await submitCall("1004");
+    Object.assign(jobs.get("1004")!, { status: "processing", lease_owner: "worker:other" });
+
+    await mock.deliver(transcriptId);
+
+    expect(responses[0].body).toMatchObject({ contact_id: "1004", outcome: "ignored" });
+    expect(jobs.get("1004")).toMatchObject({ status: "processing", lease_owner: "worker:other" });
+    expect(savedRecords()).toHaveLength(0);
+  });
+
+  it("rejects a body that isn't JSON", async () => {
+    const response = await POST(
+      new NextRequest(`${webhookUrl}/api/transcribe/webhook`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json", "x-webhook-secret": SECRET },
+        body: "{not json",
+      })
+    );
+
+    expect(response.status).toBe(400);
+  });
+
+  it("records a failed attempt when the mock reports an error", async () => {
+    const transcriptId = await submitCall("1005");
+    mock.transcripts.get(transcriptId)!.status = "error";
+    vi.spyOn(console, "error").mockImplementation(() => {});
+
+    expect(await mock.deliver(transcriptId)).toBe(200);
+
+    expect(responses[0].body).toMatchObject({ success: false, contact_id: "1005", outcome: "failed" });
+    expect(jobs.get("1005")).toMatchObject({
+      status: "pending",
+      attempts: 1,
+      lease_owner: null,
+      last_error: expect.stringContaining("Mock transcription failure"),
+    });
+    expect(savedRecords()).toHaveLength(0);
+  });
+
+  it("fails the job for good when the last attempt errors", async () => {
+    const transcriptId = await submitCall("1006");
+    jobs.get("1006")!.attempts = 3;
+    mock.transcripts.get(transcriptId)!.status = "error";
+    vi.spyOn(console, "error").mockImplementation(() => {});
+
+    await mock.deliver(transcriptId);
+
+    expect(jobs.get("1006")).toMatchObject({ status: "failed", attempts: 3, lease_owner: null });
+  });
+});
@@ -0,0 +1,65 @@
+// app/api/transcribe/webhook/route.ts - AssemblyAI calls this when a transcript finishes
+import { NextRequest, NextResponse } from 'next/server';
+import { verifyWebhookSecret, WEBHOOK_SECRET_HEADER } from '@/lib/transcription';
+import { handleTranscriptionWebhook } from '@/lib/callPipeline';
+
+export async function POST(request: NextRequest) {
+  if (!process.env.ASSEMBLYAI_WEBHOOK_SECRET) {
+    return NextResponse.json(
+      { success: false, error: 'Transcription webhook is not configured' },
+      { status: 503 }
+    );
+  }
+
+  if (!verifyWebhookSecret(request.headers.get(WEBHOOK_SECRET_HEADER))) {
+    console.warn('⚠️ Rejected transcription webhook with a bad secret');
+    return NextResponse.json(
+      { success: false, error: 'Unauthorized' },
+      { status: 401 }
+    );
+  }
+
+  let body: { transcript_id?: string; status?: string };
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json(
+      { success: false, error: 'Body is not valid JSON' },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const { transcript_id, status } = body ?? {};
+
+    if (!transcript_id || !status) {
+      return NextResponse.json(
+        { success: false, error: 'transcript_id and status are required' },
+        { status: 400 }
+      );
+    }
+
+    console.log(`📨 Transcription webhook: ${transcript_id} is ${status}`);
+    const result = await handleTranscriptionWebhook(transcript_id, status);
+
+    // Failures are recorded on the job and retried by the pipeline, so the
+    // webhook is still acknowledged to stop AssemblyAI redelivering it
+    return NextResponse.json({
+      success: result.outcome !== 'failed',
+      transcript_id,
+      contact_id: result.contactId,
+      outcome: result.outcome,
+      timestamp: new Date().toISOString()
+    });
+  } catch (error) {
+    console.error('Error handling transcription webhook:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Failed to handle transcription webhook',
+        details: process.env.NODE_ENV === 'development' && error instanceof Error ? error.message : undefined
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,73 @@
+// app/api/transcripts/report/route.ts - Sentiment and talk time by speaker role across transcripts
+import { NextRequest, NextResponse } from 'next/server';
+import { getTranscriptReport } from '@/lib/transcriptReport';
+import { speakerRoleSchema } from '@/lib/domain';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Defaults to the last 30 days; pass ?start=&end= (ISO dates) and optionally
+// &channel=, &speakerRole=Agent|Customer|Unknown and &lastSeconds= to only
+// count what was said at the end of each call
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const end = searchParams.get('end') ? new Date(searchParams.get('end')!) : new Date();
+    const start = searchParams.get('start')
+      ? new Date(searchParams.get('start')!)
+      : new Date(end.getTime() - 30 * DAY_MS);
+
+    if (isNaN(start.getTime()) || isNaN(end.getTime())) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid date format. Please use ISO date format.' },
+        { status: 400 }
+      );
+    }
+
+    if (start > end) {
+      return NextResponse.json(
+        { success: false, error: 'Start date must be before or equal to end date.' },
+        { status: 400 }
+      );
+    }
+
+    const speakerRole = speakerRoleSchema.nullable().safeParse(searchParams.get('speakerRole'));
+    if (!speakerRole.success) {
+      return NextResponse.json(
+        { success: false, error: 'speakerRole must be Agent, Customer or Unknown.' },
+        { status: 400 }
+      );
+    }
+
+    const lastSeconds = searchParams.get('lastSeconds') ? Number(searchParams.get('lastSeconds')) : null;
+    if (lastSeconds !== null && (!Number.isInteger(lastSeconds) || lastSeconds <= 0)) {
+      return NextResponse.json(
+        { success: false, error: 'lastSeconds must be a positive whole number of seconds.' },
+        { status: 400 }
+      );
+    }
+
+    const report = await getTranscriptReport({
+      start,
+      end,
+      channel: searchParams.get('channel'),
+      speakerRole: speakerRole.data,
+      lastSeconds,
+    });
+
+    return NextResponse.json({
+      success: true,
+      ...report,
+      timestamp: new Date().toISOString()
+    });
+  } catch (error) {
+    console.error('Error building transcript report:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Failed to build transcript report',
+        details: process.env.NODE_ENV === 'development' && error instanceof Error ? error.message : undefined
+      },
+      { status: 500 }
+    );
+  }
+}
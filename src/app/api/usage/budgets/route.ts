@@ -0,0 +1,82 @@
+// app/api/usage/budgets/route.ts - Monthly spend caps per channel
+import { NextRequest, NextResponse } from 'next/server';
+import { getBudgetStatus, getChannelBudgets, setChannelBudget } from '@/lib/budget';
+import { ADMIN_KEY_HEADER, isAdminKeyConfigured, verifyAdminKey } from '@/lib/adminAuth';
+
+// Lists every capped channel with its spend so far this month
+export async function GET() {
+  try {
+    const budgets = await getChannelBudgets();
+    const statuses = await Promise.all(budgets.map((budget) => getBudgetStatus(budget.channel)));
+
+    return NextResponse.json({
+      success: true,
+      budgets: statuses,
+      timestamp: new Date().toISOString()
+    });
+  } catch (error) {
+    console.error('Error fetching budgets:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Failed to fetch budgets',
+        details: process.env.NODE_ENV === 'development' && error instanceof Error ? error.message : undefined
+      },
+      { status: 500 }
+    );
+  }
+}
+
+// Sets { channel, monthlyCapUsd } (null removes the cap); requires the admin key
+export async function PUT(request: NextRequest) {
+  if (!isAdminKeyConfigured()) {
+    return NextResponse.json(
+      { success: false, error: 'Budget administration is not configured' },
+      { status: 503 }
+    );
+  }
+
+  if (!verifyAdminKey(request.headers.get(ADMIN_KEY_HEADER))) {
+    return NextResponse.json(
+      { success: false, error: 'Unauthorized' },
+      { status: 401 }
+    );
+  }
+
+  try {
+    const { channel, monthlyCapUsd } = await request.json();
+
+    if (!channel) {
+      return NextResponse.json(
+        { success: false, error: 'channel is required' },
+        { status: 400 }
+      );
+    }
+
+    if (monthlyCapUsd !== null && (typeof monthlyCapUsd !== 'number' || !Number.isFinite(monthlyCapUsd) || monthlyCapUsd < 0)) {
+      return NextResponse.json(
+        { success: false, error: 'monthlyCapUsd must be a non-negative number, or null to remove the cap' },
+        { status: 400 }
+      );
+    }
+
+    await setChannelBudget(String(channel), monthlyCapUsd);
+    console.log(`💰 Budget for channel ${channel} set to ${monthlyCapUsd === null ? 'uncapped' : `$${monthlyCapUsd}`}`);
+
+    return NextResponse.json({
+      success: true,
+      budget: await getBudgetStatus(String(channel)),
+      timestamp: new Date().toISOString()
+    });
+  } catch (error) {
+    console.error('Error updating budget:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Failed to update budget',
+        details: process.env.NODE_ENV === 'development' && error instanceof Error ? error.message : undefined
+      },
+      { status: 500 }
+    );
+  }
+}
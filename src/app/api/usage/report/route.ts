@@ -0,0 +1,48 @@
+// app/api/usage/report/route.ts - Transcription and OpenAI cost by day, channel and agent
+import { NextRequest, NextResponse } from 'next/server';
+import { getUsageReport } from '@/lib/usage';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Defaults to the last 30 days; pass ?start=&end= (ISO dates) and optionally &channel=
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const end = searchParams.get('end') ? new Date(searchParams.get('end')!) : new Date();
+    const start = searchParams.get('start')
+      ? new Date(searchParams.get('start')!)
+      : new Date(end.getTime() - 30 * DAY_MS);
+
+    if (isNaN(start.getTime()) || isNaN(end.getTime())) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid date format. Please use ISO date format.' },
+        { status: 400 }
+      );
+    }
+
+    if (start > end) {
+      return NextResponse.json(
+        { success: false, error: 'Start date must be before or equal to end date.' },
+        { status: 400 }
+      );
+    }
+
+    const report = await getUsageReport(start, end, searchParams.get('channel'));
+
+    return NextResponse.json({
+      success: true,
+      ...report,
+      timestamp: new Date().toISOString()
+    });
+  } catch (error) {
+    console.error('Error building usage report:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Failed to build usage report',
+        details: process.env.NODE_ENV === 'development' && error instanceof Error ? error.message : undefined
+      },
+      { status: 500 }
+    );
+  }
+}
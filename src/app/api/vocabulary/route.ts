@@ -0,0 +1,106 @@
+// app/api/vocabulary/route.ts - Custom transcription vocabulary per channel
+import { NextRequest, NextResponse } from 'next/server';
+import { Channels } from '@/lib/Channels';
+import {
+  getChannelVocabularies,
+  normaliseVocabularyWords,
+  saveChannelVocabulary,
+  vocabularyError,
+  WORD_BOOST_LEVELS,
+} from '@/lib/vocabulary';
+import { requireAdmin } from '@/lib/adminAuth';
+import type { WordBoostLevel } from '@/lib/transcription';
+
+// Lists every channel with its vocabulary (empty when none is stored)
+export async function GET() {
+  try {
+    const stored = new Map((await getChannelVocabularies()).map((vocabulary) => [vocabulary.channel, vocabulary]));
+
+    const vocabularies = Channels.map((channel) => {
+      const vocabulary = stored.get(String(channel.id));
+      return {
+        channel: String(channel.id),
+        title: channel.title,
+        active: channel.active,
+        words: vocabulary?.words || [],
+        boost_param: vocabulary?.boost_param || 'default',
+        updated_at: vocabulary?.updated_at || null,
+      };
+    });
+
+    return NextResponse.json({
+      success: true,
+      vocabularies,
+      timestamp: new Date().toISOString()
+    });
+  } catch (error) {
+    console.error('Error fetching vocabularies:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Failed to fetch vocabularies',
+        details: process.env.NODE_ENV === 'development' && error instanceof Error ? error.message : undefined
+      },
+      { status: 500 }
+    );
+  }
+}
+
+// Replaces { channel, words, boostParam } for one channel; requires the admin key
+export async function PUT(request: NextRequest) {
+  const denied = requireAdmin(request, 'Vocabulary administration');
+  if (denied) return denied;
+
+  try {
+    const { channel, words, boostParam = 'default' } = await request.json();
+
+    if (!channel || !Channels.some((c) => String(c.id) === String(channel))) {
+      return NextResponse.json(
+        { success: false, error: 'A known channel is required' },
+        { status: 400 }
+      );
+    }
+
+    if (!Array.isArray(words) || words.some((word) => typeof word !== 'string')) {
+      return NextResponse.json(
+        { success: false, error: 'words must be an array of strings' },
+        { status: 400 }
+      );
+    }
+
+    if (!WORD_BOOST_LEVELS.includes(boostParam)) {
+      return NextResponse.json(
+        { success: false, error: `boostParam must be one of: ${WORD_BOOST_LEVELS.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    const normalisedWords = normaliseVocabularyWords(words);
+    const validationError = vocabularyError(normalisedWords);
+    if (validationError) {
+      return NextResponse.json(
+        { success: false, error: validationError },
+        { status: 400 }
+      );
+    }
+
+    const vocabulary = await saveChannelVocabulary(String(channel), normalisedWords, boostParam as WordBoostLevel);
+    console.log(`📚 Saved ${vocabulary.words.length} vocabulary terms for channel ${channel} (${vocabulary.boost_param})`);
+
+    return NextResponse.json({
+      success: true,
+      vocabulary,
+      timestamp: new Date().toISOString()
+    });
+  } catch (error) {
+    console.error('Error saving vocabulary:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Failed to save vocabulary',
+        details: process.env.NODE_ENV === 'development' && error instanceof Error ? error.message : undefined
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,25 @@
+import { NextResponse } from 'next/server';
+import { getWorkerHeartbeats } from '@/lib/workerHeartbeat';
+
+export async function GET() {
+  try {
+    const workers = await getWorkerHeartbeats();
+
+    return NextResponse.json({
+      success: true,
+      workers,
+      onlineCount: workers.filter((worker) => worker.online).length,
+      timestamp: new Date().toISOString()
+    });
+  } catch (error) {
+    console.error('Error fetching worker status:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Failed to fetch worker status',
+        details: process.env.NODE_ENV === 'development' && error instanceof Error ? error.message : undefined
+      },
+      { status: 500 }
+    );
+  }
+}
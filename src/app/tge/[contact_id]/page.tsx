@@ -4,68 +4,15 @@ import { useState, useEffect, useRef } from "react";
 import { useParams } from "next/navigation";
 import Link from "next/link";
 import { BiSolidHome } from "react-icons/bi";
+import TranscriptHistory from "@/components/features/TranscriptHistory";
+import {
+  formatSeconds,
+  type CallRecord,
+  type TranscriptSentiment,
+} from "@/lib/domain";
 // import ReactMarkdown from 'react-markdown';
 // import remarkGfm from 'remark-gfm';
 
-// ... (keep all existing interfaces - CallTranscriptionData, ParsedSpeakerData, etc.)
-
-interface CallTranscriptionData {
-  contact_id: string;
-  recording_location: string;
-  transcript_text: string
-  queue_name?: string;
-  agent_username: string;
-  initiation_timestamp: string;
-  speaker_data?: string;
-  sentiment_analysis?: string;
-  entities?: string;
-  categories?: string;
-  disposition_title?: string;
-  call_summary?: string;
-  campaign_name?: string;
-  campaign_id?: string;
-  customer_cli?: string;
-  agent_hold_time?: number;
-  total_hold_time?: {
-    minutes: number | 0,
-    seconds: number | 0
-  };
-  time_in_queue?: number;
-  created_at?: string;
-  updated_at?: string;
-  call_duration: {
-    minutes: number | 0,
-    seconds: number | 0
-  };
-}
-
-interface ParsedSpeakerData {
-  speaker: string;
-  text: string;
-  start: number;
-  end: number;
-  confidence: number;
-}
-
-interface ParsedSentimentData {
-  text: string;
-  sentiment: string;
-  confidence: number;
-}
-
-interface ParsedEntity {
-  entity_type: string;
-  text: string;
-  start: number;
-  end: number;
-  confidence: number;
-}
-
-interface ParsedCategory {
-  category: string;
-  confidence: number;
-}
-
 interface Message {
   id: string;
   role: 'user' | 'assistant';
@@ -170,7 +117,7 @@ interface Message {
 // };
 
 // AI Chat Component with Markdown Rendering
-const AIChat = ({ callData }: { callData: CallTranscriptionData }) => {
+const AIChat = ({ callData }: { callData: CallRecord }) => {
   const [messages, setMessages] = useState<Message[]>([]);
   const [input, setInput] = useState('');
   const [isLoading, setIsLoading] = useState(false);
@@ -376,13 +323,7 @@ What would you like to know about this call?`,
 // ... (keep all the other components like AudioPlayer, etc. exactly the same)
 
 // Audio Player Component (unchanged)
-const AudioPlayer = ({
-  recordingLocation,
-  contactId,
-}: {
-  recordingLocation: string;
-  contactId: string;
-}) => {
+const AudioPlayer = ({ contactId }: { contactId: string }) => {
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [audioUrl, setAudioUrl] = useState<string | null>(null);
@@ -391,33 +332,21 @@ const AudioPlayer = ({
   const [duration, setDuration] = useState(0);
   const audioRef = useRef<HTMLAudioElement>(null);
 
-  const loadAudio = async () => {
+  // The audio element streams the recording itself, fetching byte ranges as the user seeks
+  const loadAudio = () => {
     if (audioUrl) return;
 
     setIsLoading(true);
     setError(null);
+    // Transcoded copies are much smaller; Opus where the browser plays it, MP3 otherwise
+    const format = document.createElement("audio").canPlayType('audio/ogg; codecs="opus"') ? "opus" : "mp3";
+    setAudioUrl(`/api/sftp/audio/${encodeURIComponent(contactId)}?format=${format}`);
+  };
 
-    try {
-      const params = new URLSearchParams({
-        recordingLocation,
-        contactId,
-      });
-
-      const response = await fetch(`/api/sftp/audio?${params}`);
-
-      if (!response.ok) {
-        throw new Error(`Failed to load audio: ${response.statusText}`);
-      }
-
-      const audioBlob = await response.blob();
-      const url = URL.createObjectURL(audioBlob);
-      setAudioUrl(url);
-    } catch (err) {
-      console.error("Error loading audio:", err);
-      setError(err instanceof Error ? err.message : "Failed to load audio");
-    } finally {
-      setIsLoading(false);
-    }
+  const handleAudioError = () => {
+    setIsLoading(false);
+    setAudioUrl(null);
+    setError("Failed to load audio");
   };
 
   const togglePlay = () => {
@@ -436,6 +365,7 @@ const AudioPlayer = ({
   };
 
   const handleLoadedMetadata = () => {
+    setIsLoading(false);
     if (audioRef.current) {
       setDuration(audioRef.current.duration);
     }
@@ -455,14 +385,6 @@ const AudioPlayer = ({
     return `${mins}:${secs.toString().padStart(2, "0")}`;
   };
 
-  useEffect(() => {
-    return () => {
-      if (audioUrl) {
-        URL.revokeObjectURL(audioUrl);
-      }
-    };
-  }, [audioUrl]);
-
   return (
     <div className="bg-bg-secondary border border-border rounded-lg p-4">
       <h3 className="text-lg font-semibold text-white mb-3">
@@ -507,6 +429,7 @@ const AudioPlayer = ({
             src={audioUrl}
             onTimeUpdate={handleTimeUpdate}
             onLoadedMetadata={handleLoadedMetadata}
+            onError={handleAudioError}
             onPlay={() => setIsPlaying(true)}
             onPause={() => setIsPlaying(false)}
             onEnded={() => setIsPlaying(false)}
@@ -549,12 +472,14 @@ export default function CallDetailPage() {
   const params = useParams();
   const contactId = params.contact_id as string;
 
-  const [callData, setCallData] = useState<CallTranscriptionData | null>(null);
+  const [callData, setCallData] = useState<CallRecord | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [activeTab, setActiveTab] = useState<
-    "overview" | "transcript" | "analysis"
+    "overview" | "transcript" | "analysis" | "history"
   >("overview");
+  // Bumped after a rollback so the page shows the version that's now current
+  const [reloadKey, setReloadKey] = useState(0);
 
   useEffect(() => {
     const fetchCallData = async () => {
@@ -596,21 +521,12 @@ export default function CallDetailPage() {
     };
 
     fetchCallData();
-  }, [contactId]);
+  }, [contactId, reloadKey]);
 
   const formatTimestamp = (timestamp: string) => {
     return new Date(timestamp).toLocaleString();
   };
 
-  const parseJsonField = (jsonString: string | null | undefined) => {
-    if (!jsonString) return null;
-    try {
-      return JSON.parse(jsonString);
-    } catch {
-      return null;
-    }
-  };
-
   if (loading) {
     return (
       <div className="min-h-screen bg-bg-primary flex items-center justify-center">
@@ -661,26 +577,22 @@ export default function CallDetailPage() {
     );
   }
 
-  const parsedSpeakerData: ParsedSpeakerData[] =
-    parseJsonField(callData.speaker_data) || [];
-  const parsedSentimentData: ParsedSentimentData[] =
-    parseJsonField(callData.sentiment_analysis) || [];
-  const parsedEntities: ParsedEntity[] =
-    parseJsonField(callData.entities) || [];
-  const parsedCategories: ParsedCategory[] =
-    parseJsonField(callData.categories) || [];
-
-function countSentiments(jsonString: string) {
-  if (jsonString) {
-  const sentiments = JSON.parse(jsonString);
-  
-  // eslint-disable-next-line @typescript-eslint/no-explicit-any
-  return sentiments.reduce((counts: any, item: any) => {
-    counts[item.sentiment.toLowerCase()]++;
-    console.log(item.sentiment)
-    return counts;
-  }, { positive: 0, neutral: 0, negative: 0 });}
-  else return { positive: 0, neutral: 0, negative: 0 }
+  const {
+    speaker_data: speakerData,
+    sentiment_analysis: sentimentData,
+    entities,
+    categories,
+  } = callData;
+  const sentimentCounts = countSentiments(sentimentData);
+
+function countSentiments(sentiments: TranscriptSentiment[]) {
+  return sentiments.reduce(
+    (counts, item) => {
+      counts[item.sentiment === "POSITIVE" ? "positive" : item.sentiment === "NEGATIVE" ? "negative" : "neutral"]++;
+      return counts;
+    },
+    { positive: 0, neutral: 0, negative: 0 }
+  );
 }
 
   return (
@@ -720,6 +632,7 @@ function countSentiments(jsonString: string) {
                   { id: "overview", label: "Overview" },
                   { id: "transcript", label: "Transcript" },
                   { id: "analysis", label: "Analysis" },
+                  { id: "history", label: "History" },
                 ].map((tab) => (
                   <button
                     key={tab.id}
@@ -791,7 +704,7 @@ function countSentiments(jsonString: string) {
                         Total Call Duration
                       </label>
                       <p className="text-lg text-white">
-                        {callData.call_duration?.minutes === undefined ? '0' : callData.call_duration?.minutes}m {callData.call_duration?.seconds === undefined ? '0' : callData.call_duration?.seconds}s
+                        {formatSeconds(callData.call_duration_seconds || 0)}
                       </p>
                     </div>
                     <div>
@@ -799,7 +712,7 @@ function countSentiments(jsonString: string) {
                         Total Hold Time
                       </label>
                       <p className="text-lg text-white">
-                        {callData.total_hold_time?.minutes === undefined ? '0' : callData.total_hold_time?.minutes}m {callData.total_hold_time?.seconds === undefined ? '0' : callData.total_hold_time?.seconds}s
+                        {formatSeconds(callData.total_hold_time || 0)}
                       </p>
                     </div>
                     <div>
@@ -807,9 +720,9 @@ function countSentiments(jsonString: string) {
                         Sentiment
                       </label>
                       <p className="text-lg text-white">
-                        <span className="text-green-400">{countSentiments(callData.sentiment_analysis!).positive}</span>/
-                        <span className="text-gray-400">{countSentiments(callData.sentiment_analysis!).neutral}</span>/
-                        <span className="text-red-400">{countSentiments(callData.sentiment_analysis!).negative}</span>
+                        <span className="text-green-400">{sentimentCounts.positive}</span>/
+                        <span className="text-gray-400">{sentimentCounts.neutral}</span>/
+                        <span className="text-red-400">{sentimentCounts.negative}</span>
                       </p>
                     </div>
                   </div>
@@ -829,10 +742,7 @@ function countSentiments(jsonString: string) {
 
                 {/* Audio Player */}
                 {callData.recording_location && (
-                  <AudioPlayer
-                    recordingLocation={callData.recording_location}
-                    contactId={callData.contact_id}
-                  />
+                  <AudioPlayer contactId={callData.contact_id} />
                 )}
               </div>
             )}
@@ -843,9 +753,14 @@ function countSentiments(jsonString: string) {
                 <div className="p-6">
                   <h2 className="text-xl font-semibold text-white mb-4">
                     Full Transcript
+                    {callData.language && (
+                      <span className="ml-2 text-sm font-normal text-gray-400 uppercase">
+                        {callData.language}
+                      </span>
+                    )}
                   </h2>
 
-                  {parsedSpeakerData.length > 0 ? (
+                  {speakerData.length > 0 ? (
                     <div
                       className="space-y-4 max-h-[calc(100vh-400px)] overflow-y-auto [&::-webkit-scrollbar]:w-2
     [&::-webkit-scrollbar-track]:rounded-full
@@ -855,7 +770,7 @@ function countSentiments(jsonString: string) {
     dark:[&::-webkit-scrollbar-track]:bg-neutral-700
     dark:[&::-webkit-scrollbar-thumb]:bg-neutral-500"
                     >
-                      {parsedSpeakerData.map((utterance, index) => (
+                      {speakerData.map((utterance, index) => (
                         <div
                           key={index}
                           className="border-l-4 border-blue-200 pl-4 py-2 bg-bg-primary"
@@ -880,6 +795,17 @@ function countSentiments(jsonString: string) {
                       </p>
                     </div>
                   )}
+
+                  {callData.translated_text && (
+                    <div className="mt-6">
+                      <h3 className="text-lg font-semibold text-white mb-2">
+                        English Translation
+                      </h3>
+                      <p className="text-gray-300 whitespace-pre-wrap">
+                        {callData.translated_text}
+                      </p>
+                    </div>
+                  )}
                 </div>
               </div>
             )}
@@ -895,22 +821,25 @@ function countSentiments(jsonString: string) {
     dark:[&::-webkit-scrollbar-thumb]:bg-neutral-500">
 
                 {/* Categories */}
-                {parsedCategories.length > 0 && (
+                {categories.length > 0 && (
                   <div className="bg-bg-secondary rounded-lg shadow-sm border border-border p-6">
                     <h3 className="text-lg font-semibold text-white mb-4">
                       Categories
                     </h3>
                     <div className="flex flex-wrap gap-2">
+                      {categories.map((category) => (
                         <span
+                          key={category}
                           className="px-3 py-1 bg-purple-100 text-purple-800 rounded-full text-sm font-medium"
                         >
-                          {callData.categories}
+                          {category}
                         </span>
+                      ))}
                     </div>
                   </div>
                 )}
                 {/* Sentiment Analysis */}
-                {parsedSentimentData.length > 0 && (
+                {sentimentData.length > 0 && (
                   <div className="bg-bg-secondary rounded-lg shadow-sm border border-border p-6">
                     <h3 className="text-lg font-semibold text-white mb-4">
                       Sentiment Analysis
@@ -924,7 +853,7 @@ function countSentiments(jsonString: string) {
     dark:[&::-webkit-scrollbar-track]:bg-neutral-700
     dark:[&::-webkit-scrollbar-thumb]:bg-neutral-500"
                     >
-                      {parsedSentimentData.map((sentiment, index) => (
+                      {sentimentData.map((sentiment, index) => (
                         <div
                           key={index}
                           className="flex items-center justify-between p-3 bg-bg-primary rounded-lg"
@@ -953,7 +882,7 @@ function countSentiments(jsonString: string) {
                 )}
 
                 {/* Entities */}
-                {parsedEntities.length > 0 && (
+                {entities.length > 0 && (
                   <div className="bg-bg-secondary rounded-lg shadow-sm border border-border p-6 space-y-4 max-h-[calc(100vh-500px)] overflow-y-auto [&::-webkit-scrollbar]:w-2
     [&::-webkit-scrollbar-track]:rounded-full
     [&::-webkit-scrollbar-track]:bg-gray-100
@@ -965,7 +894,7 @@ function countSentiments(jsonString: string) {
                       Extracted Entities
                     </h3>
                     <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-                      {parsedEntities.map((entity, index) => (
+                      {entities.map((entity, index) => (
                         <div key={index} className="p-3 bg-bg-primary rounded-lg">
                           <div className="flex items-center justify-between mb-1">
                             <span className="font-medium text-blue-600">
@@ -980,6 +909,13 @@ function countSentiments(jsonString: string) {
                 )}
               </div>
             )}
+
+            {activeTab === "history" && (
+              <TranscriptHistory
+                contactId={contactId}
+                onRolledBack={() => setReloadKey((key) => key + 1)}
+              />
+            )}
           </div>
         </div>
 
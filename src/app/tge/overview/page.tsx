@@ -22,52 +22,7 @@ import {
   AreaChart,
 } from "recharts";
 import { BiSolidHome } from "react-icons/bi";
-
-// Comprehensive interface to capture all possible fields from Supabase
-interface CallOverviewData {
-  // Core identification fields
-  id?: string | number;
-  contact_id: string;
-  agent_username: string;
-  initiation_timestamp: string;
-
-  // Call routing and categorization
-  queue_name?: string;
-  disposition_title?: string;
-  campaign_name?: string;
-  customer_cli?: string;
-
-  // Call metrics
-  call_duration: {
-    minutes: number;
-    seconds: number;
-  };
-
-  // AI analysis fields
-  call_summary?: string;
-  primary_category?: string;
-  categories?: string;
-  sentiment_analysis?: string;
-  transcript_text?: string;
-
-  // Additional analysis fields that might exist
-  keywords?: string;
-  topics?: string;
-  satisfaction_score?: number;
-  resolution_status?: string;
-  callback_requested?: boolean;
-  language?: string;
-  channel?: string;
-
-  // System fields
-  created_at: string;
-  updated_at: string;
-  processed_at?: string;
-
-  // Catch-all for any additional fields
-  // eslint-disable-next-line @typescript-eslint/no-explicit-any
-  [key: string]: any;
-}
+import { type CallOverview, type TranscriptSentiment } from "@/lib/domain";
 
 interface FilterState {
   search: string;
@@ -231,7 +186,7 @@ const MarkdownMessage = ({
 };
 
 export default function CallAnalyticsDashboard() {
-  const [calls, setCalls] = useState<CallOverviewData[]>([]);
+  const [calls, setCalls] = useState<CallOverview[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [dataFields, setDataFields] = useState<string[]>([]);
@@ -275,7 +230,7 @@ export default function CallAnalyticsDashboard() {
           // Analyse data structure to understand all available fields
           if (data.data.length > 0) {
             const allFields = new Set<string>();
-            data.data.forEach((call: CallOverviewData) => {
+            data.data.forEach((call: CallOverview) => {
               Object.keys(call).forEach((key) => allFields.add(key));
             });
             setDataFields(Array.from(allFields).sort());
@@ -296,45 +251,17 @@ export default function CallAnalyticsDashboard() {
     fetchAllCalls();
   }, []);
 
-  // Helper function to parse call duration from JSONB string
-  const parseCallDuration = (durationJson: string | object): { minutes: number; seconds: number } => {
-    try {
-      let duration;
-      if (typeof durationJson === 'string') {
-        duration = JSON.parse(durationJson);
-      } else {
-        duration = durationJson;
-      }
-      
-      return {
-        minutes: duration.minutes || 0,
-        seconds: duration.seconds || 0
-      };
-    } catch {
-      return { minutes: 0, seconds: 0 };
-    }
-  };
-
   // Helper function to count sentiments
-  const countSentiments = (sentimentJson: string | null): SentimentCounts => {
-    if (!sentimentJson) return { positive: 0, neutral: 0, negative: 0 };
-
-    try {
-      const sentiments = JSON.parse(sentimentJson);
-      return sentiments.reduce(
-        // eslint-disable-next-line @typescript-eslint/no-explicit-any
-        (counts: SentimentCounts, item: any) => {
-          const sentiment = item.sentiment.toLowerCase();
-          if (sentiment === "positive") counts.positive++;
-          else if (sentiment === "negative") counts.negative++;
-          else counts.neutral++;
-          return counts;
-        },
-        { positive: 0, neutral: 0, negative: 0 }
-      );
-    } catch {
-      return { positive: 0, neutral: 0, negative: 0 };
-    }
+  const countSentiments = (sentiments: TranscriptSentiment[] | null): SentimentCounts => {
+    return (sentiments || []).reduce(
+      (counts: SentimentCounts, item) => {
+        if (item.sentiment === "POSITIVE") counts.positive++;
+        else if (item.sentiment === "NEGATIVE") counts.negative++;
+        else counts.neutral++;
+        return counts;
+      },
+      { positive: 0, neutral: 0, negative: 0 }
+    );
   };
 
   // Helper function to check if a date is the same day
@@ -395,7 +322,7 @@ export default function CallAnalyticsDashboard() {
           call.keywords,
           call.topics,
           call.primary_category,
-          call.categories,
+          call.categories.join(" "),
           call.resolution_status,
           call.escalation_reason,
         ]
@@ -498,7 +425,7 @@ export default function CallAnalyticsDashboard() {
     // Sentiment distribution
     const totalSentiments = filteredCalls.reduce(
       (acc, call) => {
-        const sentiments = countSentiments(call.sentiment_analysis!);
+        const sentiments = countSentiments(call.processed_sentiments);
         return {
           positive: acc.positive + sentiments.positive,
           neutral: acc.neutral + sentiments.neutral,
@@ -546,9 +473,7 @@ const dispositionData = Object.entries(dispositionBreakdown)
     // AHT by hour - Fixed calculation with proper JSONB parsing
     const ahtByHour = filteredCalls.reduce((acc, call) => {
       const hour = new Date(call.initiation_timestamp).getHours();
-      // Parse call duration from JSONB format and convert to total seconds
-      const duration = parseCallDuration(call.call_duration);
-      const totalSeconds = duration.minutes * 60 + duration.seconds;
+      const totalSeconds = call.call_duration_total_seconds;
 
       if (!acc[hour]) {
         acc[hour] = { totalDuration: 0, callCount: 0 };
@@ -582,10 +507,9 @@ const dispositionData = Object.entries(dispositionBreakdown)
 const stats = useMemo(() => {
   const totalCalls = filteredCalls.length;
   
-  // Calculate total duration in seconds for accurate AHT using JSONB parsing
+  // Calculate total duration in seconds for accurate AHT
   const totalDurationSeconds = filteredCalls.reduce((sum, call) => {
-    const duration = parseCallDuration(call.call_duration);
-    return sum + (duration.minutes * 60) + duration.seconds;
+    return sum + call.call_duration_total_seconds;
   }, 0);
 
   // Calculate average duration and format as seconds only
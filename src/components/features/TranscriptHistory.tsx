@@ -0,0 +1,150 @@
+"use client";
+import { useEffect, useState } from "react";
+import type { TranscriptHistory as History } from "@/lib/domain";
+
+const ADMIN_KEY_STORAGE = "tsai-admin-key";
+
+interface TranscriptHistoryProps {
+  contactId: string;
+  // Called once a rollback has changed the current transcript
+  onRolledBack?: () => void;
+}
+
+const TranscriptHistory = ({ contactId, onRolledBack }: TranscriptHistoryProps) => {
+  const [history, setHistory] = useState<History | null>(null);
+  const [adminKey, setAdminKey] = useState("");
+  const [loading, setLoading] = useState(true);
+  const [rollingBack, setRollingBack] = useState<number | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+
+  useEffect(() => {
+    setAdminKey(sessionStorage.getItem(ADMIN_KEY_STORAGE) || "");
+
+    const fetchHistory = async () => {
+      try {
+        const response = await fetch(`/api/supabase/transcript-versions/${contactId}`);
+        const data = await response.json();
+
+        if (data.success) {
+          setHistory(data.data);
+        } else {
+          setError(data.error || "Failed to load transcript history");
+        }
+      } catch (err) {
+        setError("Network error occurred while loading transcript history");
+        console.error("Error loading transcript history:", err);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchHistory();
+  }, [contactId]);
+
+  const rollBack = async (version: number) => {
+    setRollingBack(version);
+    setError(null);
+    setMessage(null);
+    sessionStorage.setItem(ADMIN_KEY_STORAGE, adminKey);
+
+    try {
+      const response = await fetch(`/api/supabase/transcript-versions/${contactId}`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          "x-admin-key": adminKey,
+        },
+        body: JSON.stringify({ version }),
+      });
+      const data = await response.json();
+
+      if (!data.success) {
+        setError(data.error || "Failed to roll back transcript");
+        return;
+      }
+
+      setHistory(data.data);
+      setMessage(`Version ${version} is now current`);
+      onRolledBack?.();
+    } catch (err) {
+      setError("Network error occurred while rolling back");
+      console.error("Error rolling back transcript:", err);
+    } finally {
+      setRollingBack(null);
+    }
+  };
+
+  if (loading) {
+    return <div className="p-4 text-gray-400">Loading transcript history...</div>;
+  }
+
+  return (
+    <div className="bg-bg-secondary rounded-lg shadow-sm border border-border p-6">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-lg font-semibold text-white">Transcript History</h3>
+        <input
+          type="password"
+          value={adminKey}
+          onChange={(e) => setAdminKey(e.target.value)}
+          placeholder="Admin key to roll back"
+          className="px-2 py-1 bg-bg-primary border border-border rounded text-sm text-white"
+        />
+      </div>
+
+      {message && <p className="text-sm text-green-400 mb-3">{message}</p>}
+      {error && <p className="text-sm text-red-400 mb-3">{error}</p>}
+
+      {history && history.versions.length > 0 ? (
+        <ul className="space-y-3">
+          {history.versions.map((version) => {
+            const current = version.version === history.current_version;
+            return (
+              <li key={version.version} className="p-3 bg-bg-primary rounded-lg">
+                <div className="flex items-center justify-between">
+                  <div>
+                    <span className="font-medium text-white">Version {version.version}</span>
+                    {current && (
+                      <span className="ml-2 px-2 py-0.5 bg-green-100 text-green-800 rounded-full text-xs font-medium">
+                        Current
+                      </span>
+                    )}
+                    <div className="text-xs text-gray-400 mt-1">
+                      {new Date(version.created_at).toLocaleString()}
+                      {" · "}
+                      {version.provider || "Unknown provider"}
+                      {version.model && ` (${version.model})`}
+                      {version.config_hash && ` · config ${version.config_hash}`}
+                    </div>
+                  </div>
+                  {!current && (
+                    <button
+                      onClick={() => rollBack(version.version)}
+                      disabled={rollingBack !== null || !adminKey}
+                      className="px-3 py-1 bg-green-600 text-white rounded text-sm font-medium hover:bg-green-700 disabled:opacity-50"
+                    >
+                      {rollingBack === version.version ? "Rolling back..." : "Roll back"}
+                    </button>
+                  )}
+                </div>
+                <div className="text-sm text-gray-300 mt-2">
+                  {version.categories.length > 0
+                    ? version.categories.join(", ")
+                    : version.primary_category || "Uncategorised"}
+                  {version.language && <span className="text-gray-500"> · {version.language}</span>}
+                </div>
+                {version.call_summary && (
+                  <p className="text-sm text-gray-400 mt-1 line-clamp-2">{version.call_summary}</p>
+                )}
+              </li>
+            );
+          })}
+        </ul>
+      ) : (
+        !error && <p className="text-gray-400">No saved versions yet.</p>
+      )}
+    </div>
+  );
+};
+
+export default TranscriptHistory;
@@ -0,0 +1,197 @@
+"use client";
+import { useCallback, useEffect, useState } from "react";
+
+type BoostLevel = "low" | "default" | "high";
+
+interface ChannelVocabulary {
+  channel: string;
+  title: string;
+  active: boolean;
+  words: string[];
+  boost_param: BoostLevel;
+  updated_at: string | null;
+}
+
+// Edits are kept as one term per line until saved
+interface Draft {
+  text: string;
+  boost: BoostLevel;
+}
+
+const ADMIN_KEY_STORAGE = "tsai-admin-key";
+
+const VocabularyManager = () => {
+  const [vocabularies, setVocabularies] = useState<ChannelVocabulary[]>([]);
+  const [selectedChannel, setSelectedChannel] = useState<string | null>(null);
+  const [draft, setDraft] = useState<Draft>({ text: "", boost: "default" });
+  const [adminKey, setAdminKey] = useState("");
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const selected = vocabularies.find((vocabulary) => vocabulary.channel === selectedChannel) || null;
+  const draftWords = draft.text.split("\n").map((word) => word.trim()).filter(Boolean);
+
+  // Pick a channel and load its saved vocabulary into the editor
+  const selectChannel = useCallback((vocabulary: ChannelVocabulary) => {
+    setSelectedChannel(vocabulary.channel);
+    setDraft({ text: vocabulary.words.join("\n"), boost: vocabulary.boost_param });
+    setMessage(null);
+    setError(null);
+  }, []);
+
+  useEffect(() => {
+    setAdminKey(sessionStorage.getItem(ADMIN_KEY_STORAGE) || "");
+
+    const fetchVocabularies = async () => {
+      try {
+        const response = await fetch("/api/vocabulary");
+        const data = await response.json();
+
+        if (data.success) {
+          setVocabularies(data.vocabularies);
+          if (data.vocabularies.length > 0) selectChannel(data.vocabularies[0]);
+        } else {
+          setError(data.error || "Failed to load vocabularies");
+        }
+      } catch (err) {
+        setError("Network error occurred while loading vocabularies");
+        console.error("Error loading vocabularies:", err);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchVocabularies();
+  }, [selectChannel]);
+
+  const saveVocabulary = async () => {
+    if (!selected) return;
+
+    setSaving(true);
+    setError(null);
+    setMessage(null);
+    sessionStorage.setItem(ADMIN_KEY_STORAGE, adminKey);
+
+    try {
+      const response = await fetch("/api/vocabulary", {
+        method: "PUT",
+        headers: {
+          "Content-Type": "application/json",
+          "x-admin-key": adminKey,
+        },
+        body: JSON.stringify({
+          channel: selected.channel,
+          words: draftWords,
+          boostParam: draft.boost,
+        }),
+      });
+      const data = await response.json();
+
+      if (!data.success) {
+        setError(data.error || "Failed to save vocabulary");
+        return;
+      }
+
+      setVocabularies((prev) =>
+        prev.map((vocabulary) =>
+          vocabulary.channel === selected.channel
+            ? { ...vocabulary, words: data.vocabulary.words, boost_param: data.vocabulary.boost_param, updated_at: data.vocabulary.updated_at }
+            : vocabulary
+        )
+      );
+      setDraft({ text: data.vocabulary.words.join("\n"), boost: data.vocabulary.boost_param });
+      setMessage(`Saved ${data.vocabulary.words.length} terms for ${selected.title}`);
+    } catch (err) {
+      setError("Network error occurred while saving");
+      console.error("Error saving vocabulary:", err);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (loading) {
+    return <div className="flex-1 p-4 text-gray-400">Loading vocabularies...</div>;
+  }
+
+  return (
+    <div className="flex flex-1 p-4 gap-x-4 max-h-[calc(100vh-64px)]">
+      <div className="w-72 flex flex-col">
+        <h5 className="text-[#4ecca3] text-xl mb-4">Channel Vocabulary</h5>
+        <ul className="flex-1 overflow-y-auto rounded border-2 border-border">
+          {vocabularies.map((vocabulary) => (
+            <li key={vocabulary.channel}>
+              <button
+                onClick={() => vocabulary.channel !== selectedChannel && selectChannel(vocabulary)}
+                className={`w-full text-left p-2 border-b border-border text-sm ${
+                  vocabulary.channel === selectedChannel ? "bg-[#4ecca3] text-black" : "hover:bg-bg-secondary"
+                } ${vocabulary.active ? "" : "text-gray-500"}`}
+              >
+                {vocabulary.title}
+                <span className="ml-2 text-xs opacity-75">({vocabulary.words.length})</span>
+              </button>
+            </li>
+          ))}
+        </ul>
+      </div>
+
+      {selected && (
+        <div className="flex-1 flex flex-col border-2 p-4 rounded border-border bg-bg-secondary">
+          <div className="flex items-center justify-between mb-3">
+            <div>
+              <div className="text-lg text-white">{selected.title}</div>
+              <div className="text-xs text-gray-400">
+                Channel {selected.channel}
+                {selected.updated_at && ` · updated ${new Date(selected.updated_at).toLocaleString()}`}
+              </div>
+            </div>
+            <label className="text-sm text-gray-300">
+              Boost
+              <select
+                value={draft.boost}
+                onChange={(e) => setDraft((prev) => ({ ...prev, boost: e.target.value as BoostLevel }))}
+                className="ml-2 px-2 py-1 bg-bg-primary border border-border rounded text-white"
+              >
+                <option value="low">Low</option>
+                <option value="default">Default</option>
+                <option value="high">High</option>
+              </select>
+            </label>
+          </div>
+
+          <textarea
+            value={draft.text}
+            onChange={(e) => setDraft((prev) => ({ ...prev, text: e.target.value }))}
+            placeholder="One term per line, e.g. product names, suburbs or jargon callers use"
+            className="flex-1 p-2 bg-bg-primary border border-border rounded text-sm text-white font-mono resize-none"
+          />
+          <div className="text-xs text-gray-400 mt-1">
+            {draftWords.length} terms · sent with every transcription for this channel
+          </div>
+
+          <div className="flex items-center gap-2 mt-4">
+            <input
+              type="password"
+              value={adminKey}
+              onChange={(e) => setAdminKey(e.target.value)}
+              placeholder="Admin key"
+              className="px-2 py-1 bg-bg-primary border border-border rounded text-sm text-white"
+            />
+            <button
+              onClick={saveVocabulary}
+              disabled={saving || !adminKey}
+              className="px-3 py-1 bg-green-600 text-white rounded text-sm font-medium hover:bg-green-700 disabled:opacity-50"
+            >
+              {saving ? "Saving..." : "Save"}
+            </button>
+            {message && <span className="text-sm text-green-400">{message}</span>}
+            {error && <span className="text-sm text-red-400">{error}</span>}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default VocabularyManager;
@@ -1,7 +1,9 @@
 /* eslint-disable @typescript-eslint/no-unused-vars */
-/* eslint-disable @typescript-eslint/no-explicit-any */
 import { useState, useEffect, useCallback, useMemo, useRef } from "react";
 import Link from "next/link";
+import WorkerStatus from "@/components/ui/WorkerStatus";
+import ProcessingProgress from "@/components/ui/ProcessingProgress";
+import { formatDuration, type CallLog } from "@/lib/domain";
 
 interface DateRange {
   start: Date;
@@ -9,36 +11,13 @@ interface DateRange {
   label: string;
 }
 
-interface CallLog {
-  contact_id: string;
-  agent_username: string;
-  recording_location: string;
-  initiation_timestamp: string;
-  total_call_time: {
-    minutes: number;
-    seconds: number;
-  };
-  campaign_name: string;
-  campaign_id: number;
-  customer_cli: string;
-  agent_hold_time: number;
-  total_hold_time: number;
-  time_in_queue: number;
-  queue_name: string;
-  disposition_title: string;
-  existsInSupabase?: boolean;
+// A call in the list, with what this page tracks about its transcription
+type CallLogRow = CallLog & {
   transcriptionStatus?: "Transcribed" | "Pending Transcription" | "Failed" | "Processing";
-  transcriptionProgress?: number;
   transcriptionError?: string;
-  // Supabase fields for transcribed calls
   transcript_text?: string;
-  call_summary?: string;
-  sentiment_analysis?: string;
   primary_category?: string;
-  categories?: string;
-  created_at?: string;
-  updated_at?: string;
-}
+};
 
 interface ProcessingSummary {
   totalCalls: number;
@@ -53,6 +32,19 @@ interface ProcessingError {
   error: string;
 }
 
+// Dry-run estimate from /api/process-calls?dryRun=true
+interface ProcessingEstimate {
+  callCount: number;
+  foundCount: number;
+  notFoundCount: number;
+  totalBytes: number;
+  audioMinutes: number;
+  estimatedCostUsd: number;
+  estimatedSeconds: number;
+  exceedsBudget: boolean;
+  budget: { capUsd: number | null; remainingUsd: number | null } | null;
+}
+
 interface AutoProcessingState {
   isRunning: boolean;
   currentBatch: number;
@@ -63,10 +55,22 @@ interface AutoProcessingState {
   totalToProcess: number;
 }
 
+// Counts from /api/call-logs/count
+interface CallLogCounts {
+  total: number;
+  transcribed: number;
+  missing: number;
+}
+
+interface AgentCounts extends CallLogCounts {
+  value: string | null;
+}
+
 type SortField = 'agent_username' | 'initiation_timestamp' | 'total_call_time' | 'queue_name' | 'disposition_title';
 type SortDirection = 'asc' | 'desc';
 
 const ITEMS_PER_PAGE = 100;
+const MISSING_PAGE_SIZE = 500; // Page size when collecting every call to process
 const BATCH_SIZE = 3; // Process 3 calls at a time
 
 const CallLogDisplay = ({
@@ -76,12 +80,17 @@ const CallLogDisplay = ({
   selectedDateRange: DateRange | null;
   checkSupabase?: boolean;
 }) => {
-  const [callLogs, setCallLogs] = useState<CallLog[]>([]);
+  const [callLogs, setCallLogs] = useState<CallLogRow[]>([]); // The current page
+  const [counts, setCounts] = useState<CallLogCounts>({ total: 0, transcribed: 0, missing: 0 });
+  const [agentCounts, setAgentCounts] = useState<AgentCounts[]>([]);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [processing, setProcessing] = useState(false);
   const [processingSummary, setProcessingSummary] = useState<ProcessingSummary | null>(null);
   const [processingErrors, setProcessingErrors] = useState<ProcessingError[]>([]);
+  const [budgetError, setBudgetError] = useState<string | null>(null);
+  const [estimate, setEstimate] = useState<ProcessingEstimate | null>(null);
+  const [estimating, setEstimating] = useState(false);
   const [autoProcessing, setAutoProcessing] = useState<AutoProcessingState>({
     isRunning: false,
     currentBatch: 0,
@@ -96,84 +105,44 @@ const CallLogDisplay = ({
   const [sortField, setSortField] = useState<SortField>('initiation_timestamp');
   const [sortDirection, setSortDirection] = useState<SortDirection>('desc');
   const [currentPage, setCurrentPage] = useState(1);
+  // Cursor each page starts from (page 1 has none), filled in as pages are visited
+  const [pageCursors, setPageCursors] = useState<(string | null)[]>([null]);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [refreshKey, setRefreshKey] = useState(0);
   const [downloadingAudio, setDownloadingAudio] = useState<string[]>([]);
+  const [progressRun, setProgressRun] = useState<{ since: string; contactIds: string[] } | null>(null);
 
   // Simple refs for tracking
   const isProcessingRunning = useRef<boolean>(false);
   const processedContactIds = useRef<Set<string>>(new Set());
 
-  // Get unique agents
-  const uniqueAgents = useMemo(() => {
-    const agents = Array.from(new Set(callLogs.map(log => log.agent_username)))
-      .filter(agent => agent && agent.trim() !== "")
-      .sort();
-    return agents;
-  }, [callLogs]);
-
-  // Filter and sort call logs
-  const filteredAndSortedCallLogs = useMemo(() => {
-    let filtered = callLogs;
-    
-    if (selectedAgent !== "all") {
-      filtered = callLogs.filter(log => log.agent_username === selectedAgent);
-    }
-    
-    return filtered.sort((a, b) => {
-      let aValue: any, bValue: any;
-      
-      switch (sortField) {
-        case 'agent_username':
-          aValue = a.agent_username || '';
-          bValue = b.agent_username || '';
-          break;
-        case 'initiation_timestamp':
-          aValue = new Date(a.initiation_timestamp).getTime();
-          bValue = new Date(b.initiation_timestamp).getTime();
-          break;
-        case 'total_call_time':
-          aValue = (a.total_call_time?.minutes || 0) * 60 + (a.total_call_time?.seconds || 0);
-          bValue = (b.total_call_time?.minutes || 0) * 60 + (b.total_call_time?.seconds || 0);
-          break;
-        case 'queue_name':
-          aValue = a.queue_name || '';
-          bValue = b.queue_name || '';
-          break;
-        case 'disposition_title':
-          aValue = a.disposition_title || '';
-          bValue = b.disposition_title || '';
-          break;
-        default:
-          return 0;
-      }
-      
-      if (aValue < bValue) return sortDirection === 'asc' ? -1 : 1;
-      if (aValue > bValue) return sortDirection === 'asc' ? 1 : -1;
-      return 0;
-    });
-  }, [callLogs, selectedAgent, sortField, sortDirection]);
-
-  // Pagination calculations
-  const totalPages = Math.ceil(filteredAndSortedCallLogs.length / ITEMS_PER_PAGE);
-  const paginatedCallLogs = useMemo(() => {
-    const startIndex = (currentPage - 1) * ITEMS_PER_PAGE;
-    const endIndex = startIndex + ITEMS_PER_PAGE;
-    return filteredAndSortedCallLogs.slice(startIndex, endIndex);
-  }, [filteredAndSortedCallLogs, currentPage]);
-
-  // Calculate summary
-  const calculatedSummary = useMemo(() => {
-    const total = callLogs.length;
-    const transcribed = callLogs.filter(log => log.existsInSupabase).length;
-    const missing = callLogs.filter(log => !log.existsInSupabase && log.recording_location).length;
-    
-    return {
-      totalCalls: total,
-      existingTranscriptions: transcribed,
-      missingTranscriptions: missing,
-      processedThisRequest: autoProcessing.processed,
-      errors: autoProcessing.failed
-    };
-  }, [callLogs, autoProcessing.processed, autoProcessing.failed]);
+  // Agents in this date range, for the filter
+  const uniqueAgents = useMemo(
+    () => agentCounts.filter((agent) => agent.value && agent.value.trim() !== ""),
+    [agentCounts]
+  );
+
+  // Pages are fetched by cursor, so only the count for the selected agent is known up front
+  const filteredTotal = selectedAgent === "all"
+    ? counts.total
+    : uniqueAgents.find((agent) => agent.value === selectedAgent)?.total || 0;
+  const totalPages = Math.max(1, Math.ceil(filteredTotal / ITEMS_PER_PAGE));
+
+  const calculatedSummary = {
+    totalCalls: counts.total,
+    existingTranscriptions: counts.transcribed,
+    missingTranscriptions: counts.missing,
+    processedThisRequest: autoProcessing.processed,
+    errors: autoProcessing.failed
+  };
+
+  // Helper function to build the query shared by the page and count requests
+  const buildFilterParams = useCallback((range: DateRange, extra: Record<string, string> = {}) =>
+    new URLSearchParams({
+      start: range.start.toISOString(),
+      end: range.end.toISOString(),
+      ...extra,
+    }), []);
 
   const handleSort = (field: SortField) => {
     if (sortField === field) {
@@ -185,7 +154,7 @@ const CallLogDisplay = ({
   };
 
   // Audio download function
-  const handleAudioDownload = async (log: CallLog) => {
+  const handleAudioDownload = async (log: CallLogRow) => {
     if (!log.recording_location) {
       alert("No audio file available for this call");
       return;
@@ -200,7 +169,7 @@ const CallLogDisplay = ({
     try {
       console.log(`🎵 Downloading call recording: ${contactId}`);
 
-      const downloadUrl = `/api/sftp/download?filename=${encodeURIComponent(log.recording_location)}`;
+      const downloadUrl = `/api/sftp/audio/${encodeURIComponent(contactId)}?download=true`;
       
       const response = await fetch(downloadUrl);
 
@@ -239,7 +208,7 @@ const CallLogDisplay = ({
   };
 
   // Get transcription status
-  const getTranscriptionStatus = (log: CallLog) => {
+  const getTranscriptionStatus = (log: CallLogRow) => {
     if (log.existsInSupabase) {
       return (
         <span className="inline-flex items-center px-2 py-1 rounded-full text-xs font-medium bg-green-100 text-green-800"
@@ -279,7 +248,7 @@ const CallLogDisplay = ({
   };
 
   // Process a batch of calls
-  const processCallBatch = async (batchCalls: CallLog[], batchNumber: number) => {
+  const processCallBatch = async (batchCalls: CallLogRow[], batchNumber: number) => {
     console.log(`\n🚀 === PROCESSING BATCH ${batchNumber} ===`);
     console.log(`📋 Processing ${batchCalls.length} calls:`);
     batchCalls.forEach((call, idx) => {
@@ -304,7 +273,7 @@ const CallLogDisplay = ({
       const data = await response.json();
 
       if (data.success) {
-        const processed = data.summary.processedThisRequest || 0;
+        const processed = (data.summary.processedThisRequest || 0) + (data.summary.submittedThisRequest || 0);
         const errors = data.errors?.length || 0;
 
         console.log(`✅ Batch ${batchNumber} completed:`);
@@ -338,6 +307,11 @@ const CallLogDisplay = ({
         }));
 
         return { processed, errors };
+      } else if (data.budgetExceeded) {
+        // Nothing was processed; stop the run rather than failing every remaining batch
+        console.warn(`⏸️ Batch ${batchNumber} stopped:`, data.error);
+        setBudgetError(data.error);
+        return { processed: 0, errors: 0, stopped: true };
       } else {
         console.error(`❌ Batch ${batchNumber} failed:`, data.error);
         setAutoProcessing(prev => ({
@@ -356,6 +330,34 @@ const CallLogDisplay = ({
     }
   };
 
+  // Dry run so the user can see what "process all" will cost before confirming
+  const fetchEstimate = async (range: DateRange) => {
+    setEstimating(true);
+    setEstimate(null);
+
+    try {
+      const params = new URLSearchParams({
+        startDate: range.start.toISOString(),
+        endDate: range.end.toISOString(),
+        dryRun: 'true',
+      });
+
+      const response = await fetch(`/api/process-calls?${params}`);
+      const data = await response.json();
+
+      if (data.success) {
+        setEstimate(data.estimate);
+        console.log('🧮 Processing estimate:', data.estimate);
+      } else {
+        console.error('❌ Estimate failed:', data.error);
+      }
+    } catch (err) {
+      console.error('❌ Network error fetching estimate:', err);
+    } finally {
+      setEstimating(false);
+    }
+  };
+
   // Main processing function - simple and direct
   const processAllUnprocessedCalls = async () => {
     if (isProcessingRunning.current) {
@@ -365,10 +367,33 @@ const CallLogDisplay = ({
 
     console.log(`\n🚀 === STARTING SEQUENTIAL PROCESSING ===`);
     
+    if (!selectedDateRange) return;
+
     // Get all calls that need processing (have recording_location but not existsInSupabase)
-    const callsToProcess = callLogs.filter(log => 
-      log.recording_location && !log.existsInSupabase
-    );
+    const callsToProcess: CallLogRow[] = [];
+    try {
+      let cursor: string | null = null;
+      do {
+        const params = buildFilterParams(selectedDateRange, {
+          transcription: 'missing',
+          sort: 'initiation_timestamp',
+          direction: 'asc',
+          limit: String(MISSING_PAGE_SIZE),
+        });
+        if (cursor) params.set('cursor', cursor);
+
+        const response = await fetch(`/api/call-logs?${params}`);
+        const data = await response.json();
+        if (!data.success) throw new Error(data.error || 'Failed to list calls to process');
+
+        callsToProcess.push(...data.data);
+        cursor = data.nextCursor;
+      } while (cursor);
+    } catch (err) {
+      console.error('❌ Could not list calls to process:', err);
+      setError(err instanceof Error ? err.message : 'Failed to list calls to process');
+      return;
+    }
 
     if (callsToProcess.length === 0) {
       console.log('✅ No calls need processing - all done!');
@@ -395,6 +420,11 @@ const CallLogDisplay = ({
 
     setProcessing(true);
     setProcessingErrors([]);
+    setBudgetError(null);
+    setProgressRun({
+      since: new Date().toISOString(),
+      contactIds: callsToProcess.map(call => call.contact_id),
+    });
 
     try {
       for (let batchNum = 1; batchNum <= totalBatches; batchNum++) {
@@ -411,7 +441,8 @@ const CallLogDisplay = ({
 
         console.log(`\n📊 BATCH ${batchNum}/${totalBatches}: Processing calls ${startIdx + 1}-${endIdx} of ${callsToProcess.length}`);
 
-        await processCallBatch(batchCalls, batchNum);
+        const result = await processCallBatch(batchCalls, batchNum);
+        if (result.stopped) break;
 
         // Wait between batches (except for the last one)
         if (batchNum < totalBatches) {
@@ -434,28 +465,31 @@ const CallLogDisplay = ({
 
       console.log(`\n🎉 === SEQUENTIAL PROCESSING COMPLETED ===`);
       console.log(`📊 Final stats: ${autoProcessing.processed} processed, ${autoProcessing.failed} failed`);
+
+      // Reload the counts and the current page with the new statuses
+      setRefreshKey(key => key + 1);
     }
   };
 
   // Reset filters when data changes
   useEffect(() => {
     setSelectedAgent("all");
-    setCurrentPage(1);
   }, [selectedDateRange]);
 
+  // Any change to what's listed starts again from the first page
   useEffect(() => {
     setCurrentPage(1);
-  }, [selectedAgent, sortField, sortDirection]);
+    setPageCursors([null]);
+  }, [selectedDateRange, selectedAgent, sortField, sortDirection]);
 
-  // Main data fetching effect
+  // Counts for the summary and agent filter
   useEffect(() => {
-    const fetchCallLogs = async () => {
+    const fetchCounts = async () => {
       if (!selectedDateRange) return;
 
-      setLoading(true);
-      setError(null);
       setProcessingSummary(null);
       setProcessingErrors([]);
+      setEstimate(null);
       setAutoProcessing({
         isRunning: false,
         currentBatch: 0,
@@ -467,49 +501,100 @@ const CallLogDisplay = ({
       });
 
       try {
-        console.log('📊 Fetching call logs with Supabase status...');
-        const params = new URLSearchParams({
-          startDate: selectedDateRange.start.toISOString(),
-          endDate: selectedDateRange.end.toISOString(),
-          processTranscriptions: 'false', // Just get the data with Supabase status
-        });
-
-        const response = await fetch(`/api/process-calls?${params}`);
+        const params = buildFilterParams(selectedDateRange, { groupBy: 'agent_username' });
+        const response = await fetch(`/api/call-logs/count?${params}`);
         const data = await response.json();
 
         if (data.success) {
-          setCallLogs(data.data || []);
-          setProcessingSummary(data.summary);
-          console.log('📋 Call logs loaded:', data.summary);
-
-          // Auto-start processing after data loads
-          setTimeout(() => {
-            console.log('🚀 Auto-starting processing in 2 seconds...');
-            processAllUnprocessedCalls();
-          }, 2000);
-
+          setCounts({ total: data.total, transcribed: data.transcribed, missing: data.missing });
+          setAgentCounts(data.groups || []);
+          console.log('📋 Call log counts loaded:', data);
+
+          // Estimate the run; processing starts once the user confirms it
+          if (data.missing > 0) {
+            fetchEstimate(selectedDateRange);
+          }
         } else {
-          setError(data.error || "Failed to fetch call logs");
+          setError(data.error || "Failed to count call logs");
         }
       } catch (err) {
-        setError("Network error occurred while fetching call logs");
-        console.error("Error fetching call logs:", err);
-      } finally {
-        setLoading(false);
+        setError("Network error occurred while counting call logs");
+        console.error("Error counting call logs:", err);
       }
     };
 
-    fetchCallLogs();
-  }, [selectedDateRange]);
+    fetchCounts();
+  }, [selectedDateRange, buildFilterParams, refreshKey]);
+
+  // Where the current page starts; null for the first page
+  const pageCursor = pageCursors[currentPage - 1] ?? null;
+
+  // Fetches the current page. isSuperseded says whether a newer request has
+  // started, so a stale response is dropped.
+  const fetchCallLogs = useCallback(async (isSuperseded: () => boolean) => {
+    if (!selectedDateRange) return;
+
+    setLoading(true);
+    setError(null);
+
+    try {
+      const params = buildFilterParams(selectedDateRange, {
+        sort: sortField,
+        direction: sortDirection,
+        limit: String(ITEMS_PER_PAGE),
+      });
+      if (selectedAgent !== "all") params.set('agent', selectedAgent);
+      if (pageCursor) params.set('cursor', pageCursor);
+
+      const response = await fetch(`/api/call-logs?${params}`);
+      const data = await response.json();
+      if (isSuperseded()) return;
+
+      if (data.success) {
+        setCallLogs(data.data || []);
+        setNextCursor(data.nextCursor);
+      } else {
+        setError(data.error || "Failed to fetch call logs");
+      }
+    } catch (err) {
+      if (isSuperseded()) return;
+      setError("Network error occurred while fetching call logs");
+      console.error("Error fetching call logs:", err);
+    } finally {
+      if (!isSuperseded()) setLoading(false);
+    }
+  }, [selectedDateRange, selectedAgent, sortField, sortDirection, pageCursor, buildFilterParams]);
+
+  // Main data fetching effect: one page at a time. A filter change also resets
+  // the page, which runs this again; the first request's response is then dropped
+  useEffect(() => {
+    let superseded = false;
+    fetchCallLogs(() => superseded);
+    return () => {
+      superseded = true;
+    };
+  }, [fetchCallLogs, refreshKey]);
+
+  // Helper function to move to the next page, remembering where it starts
+  const goToNextPage = () => {
+    if (!nextCursor) return;
+    setPageCursors(prev => [...prev.slice(0, currentPage), nextCursor]);
+    setCurrentPage(currentPage + 1);
+  };
 
   const formatTimestamp = (timestamp: string) => {
     return new Date(timestamp).toLocaleString();
   };
 
-  const formatCallDuration = (totalCallTime: { minutes: number; seconds: number }) => {
-    if (!totalCallTime) return "N/A";
-    const { minutes = 0, seconds = 0 } = totalCallTime;
-    return `${minutes}:${seconds.toString().padStart(2, "0")}`;
+  const formatBytes = (bytes: number) => {
+    if (bytes >= 1024 ** 3) return `${(bytes / 1024 ** 3).toFixed(1)} GB`;
+    return `${(bytes / 1024 ** 2).toFixed(1)} MB`;
+  };
+
+  const formatEstimatedTime = (seconds: number) => {
+    const hours = Math.floor(seconds / 3600);
+    const minutes = Math.round((seconds % 3600) / 60);
+    return hours > 0 ? `${hours}h ${minutes}m` : `${minutes}m`;
   };
 
   const getSortIcon = (field: SortField) => {
@@ -522,6 +607,7 @@ const CallLogDisplay = ({
       <div className="flex items-center justify-between mb-4">
         <h5 className="text-[#4ecca3]">Call Logs & Transcriptions</h5>
         <div className="flex items-center gap-2">
+          <WorkerStatus />
           <Link
             href="/tge/overview"
             className="px-3 py-2 bg-[#4ecca3] text-[#0a101b] rounded-lg hover:bg-[#3bb891] transition-colors text-sm font-medium"
@@ -544,7 +630,7 @@ const CallLogDisplay = ({
           {/* Status Banner */}
           <div className="mb-4 p-2 bg-blue-900 border border-blue-600 rounded-lg">
             <div className="text-xs text-blue-300">
-              📊 SIMPLIFIED: Load call logs once, then process ALL unprocessed calls sequentially until done
+              📊 SIMPLIFIED: Load call logs once, review the estimate, then process ALL unprocessed calls sequentially until done
               {autoProcessing.isRunning && (
                 <span className="ml-2 text-yellow-400">(Processing in progress...)</span>
               )}
@@ -577,6 +663,9 @@ const CallLogDisplay = ({
                   Processing {BATCH_SIZE} calls per batch with 3 second intervals
                 </div>
               </div>
+              {progressRun && (
+                <ProcessingProgress since={progressRun.since} contactIds={progressRun.contactIds} />
+              )}
             </div>
           )}
 
@@ -594,20 +683,54 @@ const CallLogDisplay = ({
             </div>
             
             {calculatedSummary.missingTranscriptions > 0 && !autoProcessing.isRunning && (
-              <div className="mt-3 flex items-center gap-2">
-                <div className="text-xs text-green-400 font-medium">
-                  🤖 Ready to process {calculatedSummary.missingTranscriptions} calls
+              <div className="mt-3">
+                {estimating && (
+                  <div className="text-xs text-blue-300 mb-2">🧮 Checking recordings on SFTP and estimating cost...</div>
+                )}
+
+                {estimate && (
+                  <div className="mb-2 p-2 bg-bg-secondary border border-border rounded text-xs text-gray-300">
+                    <div className="grid grid-cols-2 md:grid-cols-5 gap-2">
+                      <div>Recordings: <span className="text-white font-medium">{estimate.foundCount}/{estimate.callCount}</span></div>
+                      <div>Size: <span className="text-white font-medium">{formatBytes(estimate.totalBytes)}</span></div>
+                      <div>Audio: <span className="text-white font-medium">{Math.round(estimate.audioMinutes)} min</span></div>
+                      <div>Est. cost: <span className="text-yellow-400 font-medium">${estimate.estimatedCostUsd.toFixed(2)}</span></div>
+                      <div>Est. time: <span className="text-white font-medium">{formatEstimatedTime(estimate.estimatedSeconds)}</span></div>
+                    </div>
+                    {estimate.notFoundCount > 0 && (
+                      <div className="mt-1 text-red-300">⚠️ {estimate.notFoundCount} recordings were not found on SFTP and will fail</div>
+                    )}
+                    {estimate.exceedsBudget && estimate.budget?.remainingUsd != null && (
+                      <div className="mt-1 text-yellow-300">
+                        ⚠️ Only ${estimate.budget.remainingUsd.toFixed(2)} of this month&apos;s budget remains; processing will pause when it runs out
+                      </div>
+                    )}
+                  </div>
+                )}
+
+                <div className="flex items-center gap-2">
+                  <div className="text-xs text-green-400 font-medium">
+                    🤖 Ready to process {calculatedSummary.missingTranscriptions} calls
+                  </div>
+                  <button
+                    onClick={processAllUnprocessedCalls}
+                    disabled={estimating}
+                    className="px-2 py-1 bg-green-600 text-white rounded text-xs font-medium hover:bg-green-700 disabled:opacity-50"
+                  >
+                    🚀 {estimate ? 'Confirm & Process All' : 'Start Processing All'}
+                  </button>
                 </div>
-                <button
-                  onClick={processAllUnprocessedCalls}
-                  className="px-2 py-1 bg-green-600 text-white rounded text-xs font-medium hover:bg-green-700"
-                >
-                  🚀 Start Processing All
-                </button>
               </div>
             )}
           </div>
 
+          {/* Budget cap reached */}
+          {budgetError && (
+            <div className="mb-4 p-3 bg-yellow-900 border border-yellow-600 rounded-lg text-sm text-yellow-200">
+              ⏸️ {budgetError}
+            </div>
+          )}
+
           {/* Processing Errors */}
           {processingErrors.length > 0 && (
             <div className="mb-4 p-3 bg-red-900 border border-red-600 rounded-lg">
@@ -640,16 +763,12 @@ const CallLogDisplay = ({
                 onChange={(e) => setSelectedAgent(e.target.value)}
                 className="px-3 py-2 bg-bg-primary border border-border rounded-lg text-white focus:outline-none focus:ring-2 focus:ring-[#4ecca3] focus:border-transparent"
               >
-                <option value="all">All Agents ({callLogs.length} calls)</option>
-                {uniqueAgents.map((agent) => {
-                  const agentCallCount = callLogs.filter(log => log.agent_username === agent).length;
-                  const transcribedCount = callLogs.filter(log => log.agent_username === agent && log.existsInSupabase).length;
-                  return (
-                    <option key={agent} value={agent}>
-                      {agent} ({agentCallCount} calls, {transcribedCount} transcribed)
-                    </option>
-                  );
-                })}
+                <option value="all">All Agents ({counts.total} calls)</option>
+                {uniqueAgents.map((agent) => (
+                  <option key={agent.value} value={agent.value!}>
+                    {agent.value} ({agent.total} calls, {agent.transcribed} transcribed)
+                  </option>
+                ))}
               </select>
             </div>
           )}
@@ -679,13 +798,13 @@ const CallLogDisplay = ({
               <div className="mb-4 flex justify-between items-center">
                 <div className="text-sm text-white">
                   {selectedAgent === "all" 
-                    ? `Found ${filteredAndSortedCallLogs.length} call(s) - Page ${currentPage} of ${totalPages} (showing ${paginatedCallLogs.length} records)` 
-                    : `Showing ${filteredAndSortedCallLogs.length} call(s) for ${selectedAgent} - Page ${currentPage} of ${totalPages} (${paginatedCallLogs.length} records)`
+                    ? `Found ${filteredTotal} call(s) - Page ${currentPage} of ${totalPages} (showing ${callLogs.length} records)` 
+                    : `Showing ${filteredTotal} call(s) for ${selectedAgent} - Page ${currentPage} of ${totalPages} (${callLogs.length} records)`
                   }
                 </div>
                 
                 {/* Pagination Controls */}
-                {totalPages > 1 && (
+                {(currentPage > 1 || nextCursor) && (
                   <div className="flex items-center space-x-2">
                     <button
                       onClick={() => setCurrentPage(1)}
@@ -705,24 +824,17 @@ const CallLogDisplay = ({
                       {currentPage} / {totalPages}
                     </span>
                     <button
-                      onClick={() => setCurrentPage(currentPage + 1)}
-                      disabled={currentPage === totalPages}
+                      onClick={goToNextPage}
+                      disabled={!nextCursor}
                       className="px-2 py-1 text-xs bg-bg-primary border border-border rounded disabled:opacity-50 disabled:cursor-not-allowed hover:bg-gray-700 text-white"
                     >
                       Next
                     </button>
-                    <button
-                      onClick={() => setCurrentPage(totalPages)}
-                      disabled={currentPage === totalPages}
-                      className="px-2 py-1 text-xs bg-bg-primary border border-border rounded disabled:opacity-50 disabled:cursor-not-allowed hover:bg-gray-700 text-white"
-                    >
-                      Last
-                    </button>
                   </div>
                 )}
               </div>
 
-              {filteredAndSortedCallLogs.length === 0 ? (
+              {callLogs.length === 0 ? (
                 <div className="text-gray-500 p-4 text-center">
                   {selectedAgent === "all" 
                     ? "No call logs found for this date range"
@@ -774,7 +886,7 @@ const CallLogDisplay = ({
                         </tr>
                       </thead>
                       <tbody className="divide-y divide-border">
-                        {paginatedCallLogs.map((log, index) => (
+                        {callLogs.map((log, index) => (
                           <tr 
                             key={log.contact_id || index}
                             className={`hover:bg-gray-800 transition-colors ${log.existsInSupabase ? 'bg-green-900/20' : ''}`}
@@ -786,7 +898,7 @@ const CallLogDisplay = ({
                               {formatTimestamp(log.initiation_timestamp)}
                             </td>
                             <td className="px-4 py-3 whitespace-nowrap text-sm text-[#4ecca3]">
-                              {formatCallDuration(log.total_call_time)}
+                              {formatDuration(log.total_call_time)}
                             </td>
                             <td className="px-4 py-3 whitespace-nowrap text-sm text-[#4ecca3]">
                               {log.queue_name || "N/A"}
@@ -0,0 +1,174 @@
+"use client";
+import { useEffect, useMemo, useState } from "react";
+
+type CallStage =
+  | "queued"
+  | "downloading"
+  | "uploaded"
+  | "transcribing"
+  | "categorising"
+  | "saved"
+  | "failed";
+
+interface CallProgressEvent {
+  contact_id: string;
+  stage: CallStage;
+  bytes_received: number | null;
+  bytes_total: number | null;
+  attempts: number;
+  last_error: string | null;
+  failure_reason: string | null;
+  stage_updated_at: string;
+}
+
+const STAGE_LABELS: Record<CallStage, string> = {
+  queued: "Queued",
+  downloading: "Downloading",
+  uploaded: "Uploaded",
+  transcribing: "Transcribing",
+  categorising: "Categorising",
+  saved: "Saved",
+  failed: "Failed",
+};
+
+// Calls whose recording failed its checks show why instead of "Failed"
+const FAILURE_REASON_LABELS: Record<string, string> = {
+  invalid_wav: "Invalid WAV",
+  truncated: "Truncated",
+  silent: "Silent",
+  duration_mismatch: "Wrong length",
+};
+
+const STAGE_COLOURS: Record<CallStage, string> = {
+  queued: "bg-gray-500",
+  downloading: "bg-blue-400",
+  uploaded: "bg-blue-500",
+  transcribing: "bg-purple-400",
+  categorising: "bg-yellow-400",
+  saved: "bg-green-500",
+  failed: "bg-red-500",
+};
+
+const MAX_FINISHED_SHOWN = 5;
+
+const isFinished = (stage: CallStage) => stage === "saved" || stage === "failed";
+
+const formatBytes = (bytes: number) => `${(bytes / (1024 * 1024)).toFixed(1)}MB`;
+
+const formatDuration = (ms: number) => {
+  const seconds = Math.max(0, Math.round(ms / 1000));
+  if (seconds < 60) return `${seconds}s`;
+  const minutes = Math.floor(seconds / 60);
+  if (minutes < 60) return `${minutes}m ${seconds % 60}s`;
+  return `${Math.floor(minutes / 60)}h ${minutes % 60}m`;
+};
+
+const ProcessingProgress = ({
+  since,
+  contactIds,
+}: {
+  since: string;
+  contactIds: string[];
+}) => {
+  const [calls, setCalls] = useState<Record<string, CallProgressEvent>>({});
+  const [connected, setConnected] = useState(false);
+  const [now, setNow] = useState(Date.now());
+
+  useEffect(() => {
+    setCalls({});
+    const source = new EventSource(`/api/process-calls/progress?since=${encodeURIComponent(since)}`);
+
+    source.onopen = () => setConnected(true);
+    source.onerror = () => setConnected(false); // EventSource reconnects on its own
+
+    // The stream also carries calls picked up by the background worker, so
+    // only keep the calls that belong to this run
+    const runContactIds = new Set(contactIds);
+    source.addEventListener("progress", (message) => {
+      const event: CallProgressEvent = JSON.parse((message as MessageEvent).data);
+      if (!runContactIds.has(event.contact_id)) return;
+      setCalls((prev) => ({ ...prev, [event.contact_id]: event }));
+    });
+
+    return () => source.close();
+  }, [since, contactIds]);
+
+  // Tick so the ETA and elapsed time keep moving between events
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, []);
+
+  const { active, finished, savedCount, failedCount } = useMemo(() => {
+    const all = Object.values(calls).sort(
+      (a, b) => new Date(b.stage_updated_at).getTime() - new Date(a.stage_updated_at).getTime()
+    );
+    const done = all.filter((call) => isFinished(call.stage));
+    return {
+      active: all.filter((call) => !isFinished(call.stage) && call.stage !== "queued"),
+      finished: done,
+      savedCount: done.filter((call) => call.stage === "saved").length,
+      failedCount: done.filter((call) => call.stage === "failed").length,
+    };
+  }, [calls]);
+
+  // ETA from the average time per finished call so far
+  const elapsed = now - new Date(since).getTime();
+  const remaining = Math.max(0, contactIds.length - finished.length);
+  const eta = finished.length > 0 ? (elapsed / finished.length) * remaining : null;
+
+  return (
+    <div className="mt-3 border-t border-blue-700 pt-3">
+      <div className="flex items-center justify-between text-xs text-blue-200 mb-2">
+        <span>
+          <span className={`inline-block w-2 h-2 rounded-full mr-1 ${connected ? "bg-green-400" : "bg-gray-500"}`}></span>
+          Live progress · {savedCount} saved · {failedCount} failed · {remaining} to go
+        </span>
+        <span>
+          Elapsed {formatDuration(elapsed)} · ETA {eta !== null ? formatDuration(eta) : "calculating..."}
+        </span>
+      </div>
+
+      <div className="space-y-1 max-h-48 overflow-y-auto">
+        {active.length === 0 && finished.length === 0 && (
+          <div className="text-xs text-blue-300">Waiting for the first call to start...</div>
+        )}
+
+        {[...active, ...finished.slice(0, MAX_FINISHED_SHOWN)].map((call) => {
+          const downloadPercent =
+            call.stage === "downloading" && call.bytes_total
+              ? Math.round(((call.bytes_received || 0) / call.bytes_total) * 100)
+              : null;
+
+          return (
+            <div key={call.contact_id} className="flex items-center gap-2 text-xs text-blue-100">
+              <span className="font-mono w-40 truncate" title={call.contact_id}>{call.contact_id}</span>
+              <span
+                className={`px-2 py-0.5 rounded-full text-[#0a101b] font-medium ${STAGE_COLOURS[call.stage]}`}
+                title={call.stage === "failed" ? call.last_error || undefined : undefined}
+              >
+                {(call.stage === "failed" && call.failure_reason && FAILURE_REASON_LABELS[call.failure_reason]) ||
+                  STAGE_LABELS[call.stage]}
+              </span>
+              {downloadPercent !== null && (
+                <div className="flex-1 flex items-center gap-2">
+                  <div className="flex-1 bg-blue-800 rounded-full h-1.5">
+                    <div className="bg-blue-400 h-1.5 rounded-full" style={{ width: `${downloadPercent}%` }}></div>
+                  </div>
+                  <span className="text-blue-300">
+                    {formatBytes(call.bytes_received || 0)} / {formatBytes(call.bytes_total || 0)}
+                  </span>
+                </div>
+              )}
+              {call.stage === "failed" && call.last_error && (
+                <span className="text-red-300 truncate">{call.last_error}</span>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default ProcessingProgress;
@@ -0,0 +1,116 @@
+"use client";
+import { useEffect, useState } from "react";
+
+interface WorkerHeartbeat {
+  worker_id: string;
+  hostname: string;
+  status: string;
+  concurrency: number;
+  in_flight: number;
+  processed_count: number;
+  failed_count: number;
+  last_error: string | null;
+  last_heartbeat_at: string;
+  online: boolean;
+}
+
+const REFRESH_INTERVAL_MS = 30 * 1000;
+
+const formatAge = (timestamp: string) => {
+  const seconds = Math.max(0, Math.round((Date.now() - new Date(timestamp).getTime()) / 1000));
+  if (seconds < 60) return `${seconds}s ago`;
+  if (seconds < 3600) return `${Math.floor(seconds / 60)}m ago`;
+  return `${Math.floor(seconds / 3600)}h ago`;
+};
+
+const WorkerStatus = () => {
+  const [workers, setWorkers] = useState<WorkerHeartbeat[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const fetchStatus = async () => {
+      try {
+        const response = await fetch("/api/worker/status");
+        const data = await response.json();
+
+        if (cancelled) return;
+
+        if (data.success) {
+          setWorkers(data.workers || []);
+          setError(null);
+        } else {
+          setError(data.error || "Failed to fetch worker status");
+        }
+      } catch (err) {
+        if (!cancelled) setError("Network error");
+        console.error("Error fetching worker status:", err);
+      }
+    };
+
+    fetchStatus();
+    const timer = setInterval(fetchStatus, REFRESH_INTERVAL_MS);
+
+    return () => {
+      cancelled = true;
+      clearInterval(timer);
+    };
+  }, []);
+
+  const onlineWorkers = workers.filter((worker) => worker.online);
+  const lastSeen = workers[0];
+
+  if (error) {
+    return (
+      <span className="inline-flex items-center px-2 py-1 rounded-full text-xs font-medium bg-gray-100 text-gray-800" title={error}>
+        <div className="w-2 h-2 bg-gray-500 rounded-full mr-1"></div>
+        Worker status unavailable
+      </span>
+    );
+  }
+
+  if (onlineWorkers.length === 0) {
+    return (
+      <span
+        className="inline-flex items-center px-2 py-1 rounded-full text-xs font-medium bg-red-100 text-red-800"
+        title={lastSeen ? `Last heartbeat ${formatAge(lastSeen.last_heartbeat_at)} from ${lastSeen.hostname}` : "No worker has reported in"}
+      >
+        <div className="w-2 h-2 bg-red-500 rounded-full mr-1"></div>
+        Worker offline
+      </span>
+    );
+  }
+
+  // Paused workers are alive but have stopped claiming calls (e.g. budget reached)
+  const pausedWorkers = onlineWorkers.filter((worker) => worker.status === "paused");
+  if (pausedWorkers.length === onlineWorkers.length) {
+    return (
+      <span
+        className="inline-flex items-center px-2 py-1 rounded-full text-xs font-medium bg-yellow-100 text-yellow-800"
+        title={pausedWorkers[0].last_error || "Worker paused"}
+      >
+        <div className="w-2 h-2 bg-yellow-500 rounded-full mr-1"></div>
+        Worker paused
+      </span>
+    );
+  }
+
+  const inFlight = onlineWorkers.reduce((total, worker) => total + worker.in_flight, 0);
+  const processed = onlineWorkers.reduce((total, worker) => total + worker.processed_count, 0);
+  const failed = onlineWorkers.reduce((total, worker) => total + worker.failed_count, 0);
+
+  return (
+    <span
+      className="inline-flex items-center px-2 py-1 rounded-full text-xs font-medium bg-green-100 text-green-800"
+      title={onlineWorkers
+        .map((worker) => `${worker.hostname}: ${worker.status}, beat ${formatAge(worker.last_heartbeat_at)}${worker.last_error ? ` (last error: ${worker.last_error})` : ""}`)
+        .join("\n")}
+    >
+      <div className={`w-2 h-2 bg-green-500 rounded-full mr-1 ${inFlight > 0 ? "animate-pulse" : ""}`}></div>
+      {onlineWorkers.length} worker{onlineWorkers.length === 1 ? "" : "s"} online · {inFlight} in flight · {processed} done · {failed} failed
+    </span>
+  );
+};
+
+export default WorkerStatus;
@@ -0,0 +1,74 @@
+// lib/adminAuth.ts - Shared-key check for admin-only API routes
+import { timingSafeEqual } from 'crypto';
+import { NextResponse } from 'next/server';
+
+export const ADMIN_KEY_HEADER = 'x-admin-key';
+
+// Function to check whether admin routes are enabled at all
+export function isAdminKeyConfigured(): boolean {
+  return !!process.env.ADMIN_API_KEY;
+}
+
+function keyMatches(secret: string | undefined, received: string | null): boolean {
+  if (!secret || !received) return false;
+
+  const expected = Buffer.from(secret);
+  const actual = Buffer.from(received);
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+}
+
+// Helper function to check the admin key sent with a request
+export function verifyAdminKey(received: string | null): boolean {
+  return keyMatches(process.env.ADMIN_API_KEY, received);
+}
+
+// Function to check whether unredacted transcripts can be read at all
+export function isPiiAccessConfigured(): boolean {
+  return !!process.env.PII_ACCESS_KEY || isAdminKeyConfigured();
+}
+
+// Helper function to check a key allowed to read unredacted transcripts.
+// PII_ACCESS_KEY lets that access be handed out without full admin rights.
+export function verifyPiiAccessKey(received: string | null): boolean {
+  return keyMatches(process.env.PII_ACCESS_KEY, received) || verifyAdminKey(received);
+}
+
+// Function to gate an admin-only route. Returns the response to send when the
+// request isn't allowed (feature names what isn't configured), or null when it is.
+export function requireAdmin(request: Request, feature: string): NextResponse | null {
+  if (!isAdminKeyConfigured()) {
+    return NextResponse.json(
+      { success: false, error: `${feature} is not configured` },
+      { status: 503 }
+    );
+  }
+
+  if (!verifyAdminKey(request.headers.get(ADMIN_KEY_HEADER))) {
+    return NextResponse.json(
+      { success: false, error: 'Unauthorized' },
+      { status: 401 }
+    );
+  }
+
+  return null;
+}
+
+// Function to gate access to unredacted transcripts, which the PII access key
+// or the admin key allows. Returns the response to send, or null when allowed.
+export function requirePiiAccess(request: Request, feature: string): NextResponse | null {
+  if (!isPiiAccessConfigured()) {
+    return NextResponse.json(
+      { success: false, error: `${feature} is not configured` },
+      { status: 503 }
+    );
+  }
+
+  if (!verifyPiiAccessKey(request.headers.get(ADMIN_KEY_HEADER))) {
+    return NextResponse.json(
+      { success: false, error: 'Unauthorized' },
+      { status: 401 }
+    );
+  }
+
+  return null;
+}
@@ -0,0 +1,178 @@
+// lib/audioCache.ts - Browser-friendly copies of recordings, transcoded with ffmpeg and cached on disk
+//
+// Raw recordings are uncompressed WAV and slow to pull over SFTP on every play.
+// Each call is transcoded once per format and kept under AUDIO_CACHE_DIR; the
+// least recently played files are removed once the cache outgrows its limit.
+import fs from 'fs';
+import path from 'path';
+import { spawn } from 'child_process';
+
+export type PlaybackFormat = 'opus' | 'mp3';
+
+export interface CachedAudio {
+  path: string;
+  size: number;
+  contentType: string;
+}
+
+export const PLAYBACK_FORMATS: Record<PlaybackFormat, { extension: string; contentType: string; codecArgs: string[] }> = {
+  // Smallest, and played by every current browser except older Safari
+  opus: { extension: 'ogg', contentType: 'audio/ogg', codecArgs: ['-c:a', 'libopus', '-b:a', '24k', '-f', 'ogg'] },
+  mp3: { extension: 'mp3', contentType: 'audio/mpeg', codecArgs: ['-c:a', 'libmp3lame', '-b:a', '32k', '-f', 'mp3'] },
+};
+
+const AUDIO_CACHE_DIR = process.env.AUDIO_CACHE_DIR || path.join(process.cwd(), 'audio_cache');
+const AUDIO_CACHE_MAX_BYTES = (parseInt(process.env.AUDIO_CACHE_MAX_MB || '', 10) || 2048) * 1024 * 1024;
+const FFMPEG_PATH = process.env.FFMPEG_PATH || 'ffmpeg';
+
+// Ensure the directory exists
+if (!fs.existsSync(AUDIO_CACHE_DIR)) {
+  fs.mkdirSync(AUDIO_CACHE_DIR, { recursive: true });
+}
+
+// Transcodes in progress, so concurrent plays of the same call share one
+const pendingTranscodes = new Map<string, Promise<CachedAudio>>();
+
+let ffmpegAvailable: Promise<boolean> | null = null;
+
+export function isPlaybackFormat(value: string | null): value is PlaybackFormat {
+  return !!value && Object.hasOwn(PLAYBACK_FORMATS, value);
+}
+
+// Helper function to get where a call's transcoded audio is cached
+function getCachePath(contactId: string, format: PlaybackFormat): string {
+  const safeId = contactId.replace(/[^A-Za-z0-9_-]/g, '_');
+  return path.join(AUDIO_CACHE_DIR, `${safeId}.${PLAYBACK_FORMATS[format].extension}`);
+}
+
+// Function to check once whether ffmpeg can be run from the configured path
+export function isTranscodingAvailable(): Promise<boolean> {
+  if (!ffmpegAvailable) {
+    ffmpegAvailable = new Promise((resolve) => {
+      const probe = spawn(FFMPEG_PATH, ['-version'], { stdio: 'ignore' });
+      probe.on('error', () => resolve(false));
+      probe.on('close', (code) => resolve(code === 0));
+    }).then((available) => {
+      if (!available) console.warn(`⚠️ ffmpeg not found at "${FFMPEG_PATH}", recordings will be served as WAV`);
+      return available as boolean;
+    });
+  }
+  return ffmpegAvailable;
+}
+
+// Function to transcode a WAV recording into a playback format
+export function transcodeAudio(wav: Buffer, format: PlaybackFormat): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const ffmpeg = spawn(FFMPEG_PATH, [
+      '-hide_banner', '-loglevel', 'error',
+      '-i', 'pipe:0',
+      ...PLAYBACK_FORMATS[format].codecArgs,
+      'pipe:1',
+    ]);
+
+    const output: Buffer[] = [];
+    let stderr = '';
+
+    ffmpeg.stdout.on('data', (chunk: Buffer) => output.push(chunk));
+    ffmpeg.stderr.on('data', (chunk: Buffer) => {
+      stderr += chunk.toString();
+    });
+    ffmpeg.on('error', (error) => reject(new Error(`Failed to run ffmpeg: ${error.message}`)));
+    ffmpeg.on('close', (code) => {
+      if (code === 0) resolve(Buffer.concat(output));
+      else reject(new Error(`ffmpeg exited with code ${code}: ${stderr.trim()}`));
+    });
+
+    // ffmpeg may stop reading early on bad input; the exit code reports why
+    ffmpeg.stdin.on('error', () => undefined);
+    ffmpeg.stdin.end(wav);
+  });
+}
+
+// Function to get a call's cached audio, marking it as recently played
+export async function getCachedAudio(contactId: string, format: PlaybackFormat): Promise<CachedAudio | null> {
+  const cachePath = getCachePath(contactId, format);
+
+  try {
+    const stats = await fs.promises.stat(cachePath);
+    const now = new Date();
+    await fs.promises.utimes(cachePath, now, now);
+    return { path: cachePath, size: stats.size, contentType: PLAYBACK_FORMATS[format].contentType };
+  } catch {
+    return null;
+  }
+}
+
+// Helper function to remove the least recently played files until the cache
+// fits its limit. Reads count as plays because getCachedAudio touches the mtime.
+async function evictLeastRecentlyUsed(): Promise<void> {
+  // Temp files belong to transcodes still being written
+  const names = (await fs.promises.readdir(AUDIO_CACHE_DIR)).filter((name) => !name.endsWith('.tmp'));
+  const files = (
+    await Promise.all(
+      names.map(async (name) => {
+        const filePath = path.join(AUDIO_CACHE_DIR, name);
+        const stats = await fs.promises.stat(filePath).catch(() => null);
+        return stats?.isFile() ? { filePath, size: stats.size, usedAt: stats.mtimeMs } : null;
+      })
+    )
+  ).filter((file): file is { filePath: string; size: number; usedAt: number } => !!file);
+
+  let total = files.reduce((sum, file) => sum + file.size, 0);
+  if (total <= AUDIO_CACHE_MAX_BYTES) return;
+
+  files.sort((a, b) => a.usedAt - b.usedAt);
+  let evicted = 0;
+
+  for (const file of files) {
+    if (total <= AUDIO_CACHE_MAX_BYTES) break;
+    await fs.promises.unlink(file.filePath).catch(() => undefined);
+    total -= file.size;
+    evicted++;
+  }
+
+  console.log(`🧹 Evicted ${evicted} recordings from the audio cache (${(total / (1024 * 1024)).toFixed(0)}MB kept)`);
+}
+
+// Function to transcode a call's recording into the cache. Written to a temp
+// file and renamed, so a half-written file is never served.
+export async function cacheAudio(contactId: string, wav: Buffer, format: PlaybackFormat): Promise<CachedAudio> {
+  const cachePath = getCachePath(contactId, format);
+  const pending = pendingTranscodes.get(cachePath);
+  if (pending) return pending;
+
+  const transcode = (async () => {
+    const startedAt = Date.now();
+    const audio = await transcodeAudio(wav, format);
+
+    const tempPath = `${cachePath}.${process.pid}.tmp`;
+    await fs.promises.writeFile(tempPath, audio);
+    await fs.promises.rename(tempPath, cachePath);
+
+    console.log(
+      `🎼 Cached ${contactId} as ${format}: ${(wav.length / (1024 * 1024)).toFixed(1)}MB → ${(audio.length / 1024).toFixed(0)}KB in ${Date.now() - startedAt}ms`
+    );
+
+    await evictLeastRecentlyUsed().catch((error) => console.error('⚠️ Audio cache eviction failed:', error));
+    return { path: cachePath, size: audio.length, contentType: PLAYBACK_FORMATS[format].contentType };
+  })().finally(() => pendingTranscodes.delete(cachePath));
+
+  pendingTranscodes.set(cachePath, transcode);
+  return transcode;
+}
+
+// Function to transcode a newly downloaded recording into every playback
+// format, so the first play doesn't have to wait. Failures are only logged.
+export async function warmAudioCache(contactId: string, wav: Buffer): Promise<void> {
+  if (!(await isTranscodingAvailable())) return;
+
+  for (const format of Object.keys(PLAYBACK_FORMATS) as PlaybackFormat[]) {
+    try {
+      if (!(await getCachedAudio(contactId, format))) {
+        await cacheAudio(contactId, wav, format);
+      }
+    } catch (error) {
+      console.error(`⚠️ Could not pre-transcode ${contactId} to ${format}:`, error);
+    }
+  }
+}
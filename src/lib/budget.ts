@@ -0,0 +1,109 @@
+// lib/budget.ts - Monthly spend caps per channel
+import { supabaseAdmin } from './supabaseAdmin';
+import { getIngestChannel } from './channelConfig';
+import { getChannelSpend } from './usage';
+
+export interface ChannelBudget {
+  channel: string;
+  monthly_cap_usd: number;
+  updated_at: string;
+}
+
+export interface BudgetStatus {
+  channel: string;
+  capUsd: number | null; // null means no cap
+  spentUsd: number;
+  remainingUsd: number | null;
+  exceeded: boolean;
+  periodStart: string;
+}
+
+const BUDGET_TABLE = 'channel_budgets';
+
+// Budgets reset at the start of each calendar month (UTC)
+function getPeriodStart(now = new Date()): Date {
+  return new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1));
+}
+
+// Function to list every configured budget
+export async function getChannelBudgets(): Promise<ChannelBudget[]> {
+  const { data, error } = await supabaseAdmin
+    .from(BUDGET_TABLE)
+    .select('*')
+    .order('channel', { ascending: true });
+
+  if (error) {
+    throw new Error(`Failed to fetch channel budgets: ${error.message}`);
+  }
+
+  return ((data as ChannelBudget[]) || []).map((budget) => ({
+    ...budget,
+    monthly_cap_usd: Number(budget.monthly_cap_usd),
+  }));
+}
+
+// Function to set a channel's monthly cap, or remove it with null
+export async function setChannelBudget(channel: string, monthlyCapUsd: number | null): Promise<void> {
+  const { error } =
+    monthlyCapUsd === null
+      ? await supabaseAdmin.from(BUDGET_TABLE).delete().eq('channel', channel)
+      : await supabaseAdmin.from(BUDGET_TABLE).upsert({
+          channel,
+          monthly_cap_usd: monthlyCapUsd,
+          updated_at: new Date().toISOString(),
+        });
+
+  if (error) {
+    throw new Error(`Failed to update budget for channel ${channel}: ${error.message}`);
+  }
+}
+
+// Function to compare a channel's spend this month against its cap
+export async function getBudgetStatus(channel: string): Promise<BudgetStatus> {
+  const periodStart = getPeriodStart();
+
+  const [{ data, error }, spentUsd] = await Promise.all([
+    supabaseAdmin.from(BUDGET_TABLE).select('monthly_cap_usd').eq('channel', channel).maybeSingle(),
+    getChannelSpend(channel, periodStart),
+  ]);
+
+  if (error) {
+    throw new Error(`Failed to fetch budget for channel ${channel}: ${error.message}`);
+  }
+
+  const capUsd = data ? Number(data.monthly_cap_usd) : null;
+
+  return {
+    channel,
+    capUsd,
+    spentUsd,
+    remainingUsd: capUsd === null ? null : Math.max(0, capUsd - spentUsd),
+    exceeded: capUsd !== null && spentUsd >= capUsd,
+    periodStart: periodStart.toISOString(),
+  };
+}
+
+// Function to check whether the pipeline may spend more on a channel.
+// Returns null when it may, otherwise an error to show the user.
+export async function budgetExceededError(
+  channel: string = String(getIngestChannel().id)
+): Promise<string | null> {
+  const status = await getBudgetStatus(channel);
+
+  if (!status.exceeded) return null;
+
+  return `Monthly budget for channel ${channel} reached ($${status.spentUsd.toFixed(2)} of $${status.capUsd!.toFixed(2)}). Processing is paused until the cap is raised or the month rolls over.`;
+}
+
+// Function to check the budgets of every channel a batch of calls belongs to.
+// Returns the first exceeded channel's error, or null when all of them may spend.
+export async function callsBudgetExceededError(logs: { channel?: string }[]): Promise<string | null> {
+  const channels = new Set(logs.map((log) => log.channel || String(getIngestChannel().id)));
+
+  for (const channel of Array.from(channels)) {
+    const error = await budgetExceededError(channel);
+    if (error) return error;
+  }
+
+  return null;
+}
@@ -0,0 +1,422 @@
+// lib/callPipeline.ts - Download → transcribe → categorise → save pipeline for a single call
+
+import { downloadRecording } from "./recordingStore";
+import { locateRecording } from "./recordingIndex";
+import { warmAudioCache } from "./audioCache";
+import {
+  getTranscriptionProvider,
+  getWebhookConfig,
+  Transcript,
+} from "./transcription";
+import { checkCallExistsInSupabase, saveTranscriptionToSupabase } from "./callRecords";
+import { getIngestChannel } from "./channelConfig";
+import type { CallLog, CategorisationResult, ChannelCallLog } from "./domain";
+import {
+  claimCallJobs,
+  completeCallJob,
+  enqueueCallJobs,
+  failCallJob,
+  getCallJobByTranscriptId,
+  markCallJobTranscribing,
+  rejectCallJob,
+} from "./jobQueue";
+import { createDownloadProgressReporter, reportCallProgress } from "./callProgress";
+import { categoriseUtterances } from "./categorise";
+import { loadResumePoint, recordLedgerEntry, ResumePoint } from "./pipelineLedger";
+import { recordTranscriptionUsage, UsageContext } from "./usage";
+import { getTranscriptionVocabulary } from "./vocabulary";
+import { getProviderRedaction, getRedactionPolicy, redactFinishedTranscript } from "./redaction";
+import { getLanguageSettings } from "./language";
+import { translateTranscript } from "./translation";
+import { assignSpeakerRoles } from "./speakerRoles";
+import { checkRecordingIntegrity, RecordingIntegrity } from "./recordingIntegrity";
+
+// "submitted" means the call is waiting on a webhook and "rejected" that its
+// recording failed the integrity checks and the job is already failed; neither
+// must be released
+export type CallProcessingOutcome = "saved" | "skipped" | "submitted" | "rejected";
+
+export interface WebhookResult {
+  contactId: string | null;
+  outcome: CallProcessingOutcome | "failed" | "ignored";
+}
+
+// Helper function for topic categorization (null means fall back to "Uncategorised").
+// Non-English calls are categorised from their English translation when there is one.
+export async function performTopicCategorization(
+  transcriptData: Transcript,
+  usageContext: UsageContext = {}
+): Promise<CategorisationResult | null> {
+  try {
+    return await categoriseUtterances((transcriptData.translation || transcriptData).utterances, usageContext);
+  } catch (error) {
+    console.error("Error in topic categorization:", error);
+    return null;
+  }
+}
+
+// Function to get the channel a call was ingested for. Calls sent or
+// queued without one belong to the ingest channel.
+export function getCallChannel(log: ChannelCallLog): string {
+  return log.channel || String(getIngestChannel().id);
+}
+
+// Helper function to bill a call's usage to its agent and channel
+function getUsageContext(log: CallLog, channel: string): UsageContext {
+  return { contactId: log.contact_id, agentUsername: log.agent_username, channel };
+}
+
+// Helper function to categorise a finished transcript and save it.
+// A categorisation recorded by an earlier attempt is reused rather than re-requested.
+async function categoriseAndSave(
+  log: CallLog,
+  transcript: Transcript,
+  leaseOwner: string,
+  channel: string,
+  resume: ResumePoint = {}
+): Promise<CallProcessingOutcome> {
+  let categorization: CategorisationResult | null = resume.categorisation ?? null;
+
+  if (transcript.utterances && transcript.utterances.length > 0) {
+    if (categorization) {
+      console.log("🏷️ Reusing topic categorization from previous attempt");
+    } else {
+      // Perform topic categorization
+      console.log("🏷️ Performing topic categorization...");
+      await reportCallProgress(log.contact_id, "categorising");
+
+      try {
+        categorization = await performTopicCategorization(transcript, getUsageContext(log, channel));
+      } catch (catError) {
+        console.error("⚠️ Categorization failed:", catError);
+      }
+
+      // Only a real result is worth resuming from; a fallback is retried next time
+      if (categorization) {
+        await recordLedgerEntry(log.contact_id, "categorised", {
+          output: { categorisation: categorization },
+          leaseOwner,
+        });
+      }
+    }
+
+    transcript.topic_categorization = categorization
+      ? {
+          primary_topic: categorization.primary_category,
+          all_topics: categorization.topic_categories,
+          confidence: categorization.confidence,
+        }
+      : {
+          primary_topic: "Uncategorised",
+          all_topics: ["Uncategorised"],
+          confidence: 0,
+        };
+  }
+
+  // Final check before saving to prevent race conditions
+  console.log("🔒 Final check before saving...");
+  if (await checkCallExistsInSupabase(log.contact_id)) {
+    console.log(`⚠️ Call ${log.contact_id} was processed by another batch during processing, skipping save...`);
+    await reportCallProgress(log.contact_id, "saved");
+    return "skipped";
+  }
+
+  // Save to Supabase
+  console.log("💾 Saving to Supabase...");
+  await saveTranscriptionToSupabase(log, transcript, categorization, channel);
+
+  await recordLedgerEntry(log.contact_id, "saved", {
+    output: { primary_category: categorization?.primary_category ?? null },
+    leaseOwner,
+  });
+  await reportCallProgress(log.contact_id, "saved");
+
+  console.log(`✅ Successfully processed call ${log.contact_id}`);
+  return "saved";
+}
+
+// Helper function to settle speaker roles, redact (and if needed translate) a
+// finished transcript and record it so later attempts can skip transcription,
+// and to account for its audio minutes. Returns the redacted transcript, which
+// is all that's passed on from here.
+async function recordTranscript(
+  log: CallLog,
+  transcript: Transcript,
+  leaseOwner: string,
+  channel: string
+): Promise<Transcript> {
+  const withRoles = assignSpeakerRoles(transcript, { agentUsername: log.agent_username });
+  const redacted = await translateTranscript(
+    await redactFinishedTranscript(withRoles, { contactId: log.contact_id, channel }),
+    await getLanguageSettings(channel),
+    { channel, usageContext: getUsageContext(log, channel) }
+  );
+
+  await recordLedgerEntry(log.contact_id, "transcript_received", {
+    output: { transcript_id: redacted.id, provider: redacted.provider, transcript: redacted },
+    leaseOwner,
+  });
+  await recordTranscriptionUsage(redacted, getUsageContext(log, channel));
+  return redacted;
+}
+
+// Helper function to hand a submitted call over to the webhook
+async function awaitWebhook(log: CallLog, leaseOwner: string, transcriptId: string) {
+  const marked = await markCallJobTranscribing(
+    log.contact_id,
+    leaseOwner,
+    transcriptId,
+    log as unknown as Record<string, unknown>
+  );
+  if (!marked) {
+    throw new Error(`Lost the lease on ${log.contact_id} before transcription was submitted`);
+  }
+
+  console.log(`📨 Call ${log.contact_id} submitted as ${transcriptId}, waiting for webhook`);
+}
+
+// Helper function to fail a call whose recording didn't pass its checks. The job
+// isn't retried, since downloading the same recording again won't fix it.
+async function rejectRecording(log: CallLog, leaseOwner: string, integrity: RecordingIntegrity) {
+  const message = `Recording failed integrity check: ${integrity.message}`;
+  console.log(`🚫 ${log.contact_id}: ${message}`);
+
+  await rejectCallJob(log.contact_id, leaseOwner, integrity.reason!, message);
+  await recordLedgerEntry(log.contact_id, "failed", {
+    output: { integrity },
+    error: message,
+    leaseOwner,
+  });
+}
+
+// Helper function to pick up a transcript submitted by an earlier attempt.
+// Returns null when it can't be recovered and the call should be transcribed again.
+async function resumeSubmittedTranscript(
+  log: CallLog,
+  leaseOwner: string,
+  resume: ResumePoint
+): Promise<Transcript | "submitted" | null> {
+  const transcriptId = resume.transcriptId!;
+
+  try {
+    const provider = getTranscriptionProvider(resume.provider);
+    const job = await provider.getJob(transcriptId);
+
+    if (job.status === "error") {
+      console.log(`🔁 Previous transcript ${transcriptId} failed (${job.error || "unknown error"}), transcribing again`);
+      return null;
+    }
+
+    if (job.status === "completed" && job.transcript) {
+      console.log(`♻️ Reusing completed transcript ${transcriptId}`);
+      return job.transcript;
+    }
+
+    await reportCallProgress(log.contact_id, "transcribing");
+
+    const webhook = provider.supportsWebhooks ? getWebhookConfig() : null;
+    if (webhook) {
+      await awaitWebhook(log, leaseOwner, transcriptId);
+      return "submitted";
+    }
+
+    console.log(`⏳ Waiting on transcript ${transcriptId} from previous attempt...`);
+    return await provider.waitForCompletion(transcriptId);
+  } catch (error) {
+    console.log(
+      `🔁 Could not resume transcript ${transcriptId}, transcribing again: ${
+        error instanceof Error ? error.message : "Unknown"
+      }`
+    );
+    return null;
+  }
+}
+
+// Helper function to run the full pipeline for one claimed call.
+// With a webhook configured the call is handed off after submission and
+// finished by handleTranscriptionWebhook instead of being polled here.
+// Each stage is recorded in the ledger, so a retry resumes from the last
+// good stage instead of downloading and transcribing again. The call's
+// channel decides its recording store, vocabulary, languages, redaction and
+// where it's saved.
+export async function processCall(
+  log: ChannelCallLog,
+  leaseOwner: string
+): Promise<CallProcessingOutcome> {
+  const channel = getCallChannel(log);
+  console.log(`\n🔍 Final check for call ${log.contact_id}...`);
+
+  // Double-check right before processing in case the record was saved elsewhere
+  if (await checkCallExistsInSupabase(log.contact_id)) {
+    console.log(`⏭️ Call ${log.contact_id} already processed by another batch, skipping...`);
+    await reportCallProgress(log.contact_id, "saved");
+    return "skipped";
+  }
+
+  console.log(`🎯 Processing call ${log.contact_id}...`);
+  const resume = await loadResumePoint(log.contact_id);
+
+  if (resume.transcript) {
+    console.log(`♻️ Resuming ${log.contact_id} from stored transcript ${resume.transcript.id}`);
+    return categoriseAndSave(log, resume.transcript, leaseOwner, channel, resume);
+  }
+
+  if (resume.transcriptId) {
+    const resumed = await resumeSubmittedTranscript(log, leaseOwner, resume);
+    if (resumed === "submitted") return "submitted";
+    if (resumed) {
+      return categoriseAndSave(log, await recordTranscript(log, resumed, leaseOwner, channel), leaseOwner, channel);
+    }
+  }
+
+  const provider = getTranscriptionProvider();
+
+  // Download audio from the recording store
+  console.log("📥 Downloading audio...");
+  await reportCallProgress(log.contact_id, "downloading");
+  let sftpPath: string | undefined;
+  const knownPath = resume.sftpPath || (await locateRecording(log.recording_location, channel))?.path;
+  const audioBuffer = await downloadRecording(log.recording_location, {
+    channel,
+    knownPath,
+    onProgress: createDownloadProgressReporter(log.contact_id),
+    onLocated: (path) => {
+      sftpPath = path;
+    },
+  });
+
+  // Transcode for playback in the background while the call is transcribed
+  warmAudioCache(log.contact_id, audioBuffer).catch((error) =>
+    console.error(`⚠️ Audio cache warm-up failed for ${log.contact_id}:`, error)
+  );
+
+  if (sftpPath && sftpPath !== resume.sftpPath) {
+    await recordLedgerEntry(log.contact_id, "sftp_located", {
+      output: { path: sftpPath, bytes: audioBuffer.length },
+      leaseOwner,
+    });
+  }
+
+  const integrity = checkRecordingIntegrity(audioBuffer, log);
+  if (!integrity.ok) {
+    await rejectRecording(log, leaseOwner, integrity);
+    return "rejected";
+  }
+
+  // Upload to the transcription provider
+  console.log(`⬆️ Uploading to ${provider.name}...`);
+  const audioUrl = await provider.upload(audioBuffer);
+  await reportCallProgress(log.contact_id, "uploaded", { bytesTotal: audioBuffer.length });
+
+  // Transcribe audio
+  const webhook = provider.supportsWebhooks ? getWebhookConfig() : null;
+  console.log(`🎙️ Transcribing audio${webhook ? " (webhook)" : ""}...`);
+  const vocabulary = await getTranscriptionVocabulary(channel);
+  const { expectedLanguages: languages } = await getLanguageSettings(channel);
+  const redaction = getProviderRedaction(await getRedactionPolicy(channel));
+  const audioChannels = integrity.channels;
+  const transcriptId = await provider.submit(audioUrl, {
+    speakerCount: 2,
+    webhook,
+    vocabulary,
+    audioChannels,
+    languages,
+    redaction,
+  });
+  await recordLedgerEntry(log.contact_id, "transcript_submitted", {
+    output: { transcript_id: transcriptId, provider: provider.name },
+    leaseOwner,
+  });
+  await reportCallProgress(log.contact_id, "transcribing");
+
+  if (webhook) {
+    await awaitWebhook(log, leaseOwner, transcriptId);
+    return "submitted";
+  }
+
+  const transcript = await provider.waitForCompletion(transcriptId);
+  return categoriseAndSave(log, await recordTranscript(log, transcript, leaseOwner, channel), leaseOwner, channel);
+}
+
+// Function to finish a call when AssemblyAI reports a transcript as done
+export async function handleTranscriptionWebhook(
+  transcriptId: string,
+  status: string
+): Promise<WebhookResult> {
+  const job = await getCallJobByTranscriptId(transcriptId);
+
+  // Unknown, already finished or re-claimed after the lease ran out
+  if (!job || job.status !== "transcribing" || !job.lease_owner || !job.call_data) {
+    console.log(`⏭️ Ignoring webhook for transcript ${transcriptId}`);
+    return { contactId: job?.contact_id ?? null, outcome: "ignored" };
+  }
+
+  const log = job.call_data as unknown as ChannelCallLog;
+  const leaseOwner = job.lease_owner;
+  const channel = getCallChannel(log);
+
+  try {
+    // Only AssemblyAI calls back, so webhook transcripts always belong to it
+    const transcriptJob = await getTranscriptionProvider("assemblyai").getJob(transcriptId);
+
+    if (status === "error" || transcriptJob.status === "error") {
+      throw new Error(`Transcription failed: ${transcriptJob.error || "Unknown error"}`);
+    }
+
+    if (!transcriptJob.transcript) {
+      throw new Error(`Transcript ${transcriptId} is ${transcriptJob.status}, expected completed`);
+    }
+
+    const transcript = await recordTranscript(log, transcriptJob.transcript, leaseOwner, channel);
+    const outcome = await categoriseAndSave(log, transcript, leaseOwner, channel);
+    await releaseCall(log.contact_id, leaseOwner);
+    return { contactId: log.contact_id, outcome };
+  } catch (error) {
+    console.error(`❌ Error finishing call ${log.contact_id}:`, error);
+    await releaseCall(log.contact_id, leaseOwner, error);
+    return { contactId: log.contact_id, outcome: "failed" };
+  }
+}
+
+// Function to enqueue calls and claim them under this request's lease
+export async function claimCallsForProcessing<T extends CallLog>(
+  logs: T[],
+  leaseOwner: string,
+  limit: number
+): Promise<T[]> {
+  if (logs.length === 0) return [];
+
+  const contactIds = logs.map((log) => log.contact_id);
+  await enqueueCallJobs(contactIds);
+
+  const claimedJobs = await claimCallJobs(leaseOwner, { contactIds, limit });
+  const claimedIds = new Set(claimedJobs.map((job) => job.contact_id));
+  console.log(`🔒 Claimed ${claimedIds.size}/${contactIds.length} calls as ${leaseOwner}`);
+
+  return logs.filter((log) => claimedIds.has(log.contact_id));
+}
+
+// Function to release a claimed call after processing
+export async function releaseCall(
+  contactId: string,
+  leaseOwner: string,
+  error?: unknown
+) {
+  try {
+    if (error === undefined) {
+      await completeCallJob(contactId, leaseOwner);
+      console.log(`✅ Released ${contactId} (completed)`);
+    } else {
+      const message = error instanceof Error ? error.message : String(error);
+      const job = await failCallJob(contactId, leaseOwner, message);
+      await recordLedgerEntry(contactId, "failed", { error: message, leaseOwner });
+      await reportCallProgress(contactId, "failed");
+      console.log(
+        `❌ Released ${contactId} (${job?.status || "unknown"}, attempt ${job?.attempts}/${job?.max_attempts})`
+      );
+    }
+  } catch (releaseError) {
+    // The lease will expire on its own, so just log it
+    console.error(`⚠️ Could not release job for ${contactId}:`, releaseError);
+  }
+}
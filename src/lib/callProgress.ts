@@ -0,0 +1,96 @@
+// lib/callProgress.ts - Per-call stage tracking for the live processing view
+import { supabaseAdmin } from './supabaseAdmin';
+import type { IntegrityFailureReason } from './recordingIntegrity';
+
+export type CallStage =
+  | 'queued'
+  | 'downloading'
+  | 'uploaded'
+  | 'transcribing'
+  | 'categorising'
+  | 'saved'
+  | 'failed';
+
+export interface CallProgressEvent {
+  contact_id: string;
+  stage: CallStage;
+  bytes_received: number | null;
+  bytes_total: number | null;
+  attempts: number;
+  last_error: string | null;
+  failure_reason: IntegrityFailureReason | null;
+  stage_updated_at: string;
+}
+
+interface ProgressDetail {
+  bytesReceived?: number;
+  bytesTotal?: number;
+}
+
+const JOB_TABLE = 'call_processing_jobs';
+const PROGRESS_COLUMNS = 'contact_id, stage, bytes_received, bytes_total, attempts, last_error, failure_reason, stage_updated_at';
+const DOWNLOAD_REPORT_INTERVAL_MS = 1000; // Byte progress is written at most once a second
+
+// Function to record the stage a call has reached. Progress is informational,
+// so a failed write is logged rather than failing the call.
+export async function reportCallProgress(
+  contactId: string,
+  stage: CallStage,
+  { bytesReceived, bytesTotal }: ProgressDetail = {}
+): Promise<void> {
+  try {
+    const { error } = await supabaseAdmin
+      .from(JOB_TABLE)
+      .update({
+        stage,
+        bytes_received: bytesReceived ?? null,
+        bytes_total: bytesTotal ?? null,
+        stage_updated_at: new Date().toISOString(),
+      })
+      .eq('contact_id', contactId);
+
+    if (error) {
+      console.error(`⚠️ Could not record ${stage} for ${contactId}:`, error.message);
+    }
+  } catch (error) {
+    console.error(`⚠️ Could not record ${stage} for ${contactId}:`, error);
+  }
+}
+
+// Function to build a throttled download progress callback for one call
+export function createDownloadProgressReporter(contactId: string) {
+  let lastReport = 0;
+
+  return (bytesReceived: number, bytesTotal: number) => {
+    const now = Date.now();
+    if (now - lastReport < DOWNLOAD_REPORT_INTERVAL_MS && bytesReceived < bytesTotal) return;
+
+    lastReport = now;
+    reportCallProgress(contactId, 'downloading', { bytesReceived, bytesTotal });
+  };
+}
+
+// Function to fetch calls whose stage changed at or after a point in time
+export async function getCallProgressSince(
+  since: string,
+  contactIds?: string[]
+): Promise<CallProgressEvent[]> {
+  let query = supabaseAdmin
+    .from(JOB_TABLE)
+    .select(PROGRESS_COLUMNS)
+    .gte('stage_updated_at', since)
+    .order('stage_updated_at', { ascending: true })
+    .limit(500);
+
+  if (contactIds && contactIds.length > 0) {
+    query = query.in('contact_id', contactIds);
+  }
+
+  const { data, error } = await query;
+
+  if (error) {
+    throw new Error(`Failed to fetch call progress: ${error.message}`);
+  }
+
+  return (data as CallProgressEvent[]) || [];
+}
@@ -0,0 +1,222 @@
+// lib/callRecords.ts - Reading and writing call_records in Supabase
+
+import { supabaseAdmin as supabase } from "./supabaseAdmin";
+import { getIngestChannel } from "./channelConfig";
+import { transcriptSource } from "./transcriptVersions";
+import { callRecordSchema, durationSeconds, toCallRecordRow, type CallLog, type CategorisationResult } from "./domain";
+import type { Transcript } from "./transcription";
+
+// Helper function to check if a single call exists in Supabase
+export async function checkCallExistsInSupabase(contactId: string): Promise<boolean> {
+  try {
+    const { data, error } = await supabase
+      .from("call_records")
+      .select("contact_id")
+      .eq("contact_id", contactId)
+      .single();
+
+    if (error && error.code !== "PGRST116") {
+      console.error(`Error checking call ${contactId}:`, error);
+      return false;
+    }
+
+    return !!data;
+  } catch (error) {
+    console.error(`Error checking call ${contactId}:`, error);
+    return false;
+  }
+}
+
+// Function to get the channel a call was saved under (null when it hasn't been
+// transcribed, or was saved before calls recorded their channel)
+export async function getCallRecordChannel(contactId: string): Promise<string | null> {
+  const { data, error } = await supabase
+    .from("call_records")
+    .select("channel")
+    .eq("contact_id", contactId)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to fetch channel of call ${contactId}: ${error.message}`);
+  }
+
+  return data?.channel ?? null;
+}
+
+// Function to get the contact_ids of a channel's transcribed calls, optionally
+// within a date range. Only ids are fetched, a page at a time.
+export async function getTranscribedContactIds(
+  channel: string = String(getIngestChannel().id),
+  { start, end }: { start?: Date; end?: Date } = {}
+): Promise<string[]> {
+  const PAGE_SIZE = 1000; // PostgREST's default row limit
+  const contactIds: string[] = [];
+
+  for (let from = 0; ; from += PAGE_SIZE) {
+    let query = supabase
+      .from("call_records")
+      .select("contact_id")
+      .eq("channel", channel)
+      .order("contact_id", { ascending: true })
+      .range(from, from + PAGE_SIZE - 1);
+
+    if (start) query = query.gte("initiation_timestamp", start.toISOString());
+    if (end) query = query.lte("initiation_timestamp", end.toISOString());
+
+    const { data, error } = await query;
+
+    if (error) {
+      throw new Error(`Failed to fetch transcribed calls: ${error.message}`);
+    }
+
+    contactIds.push(...(data || []).map((row) => row.contact_id as string));
+    if (!data || data.length < PAGE_SIZE) return contactIds;
+  }
+}
+
+// Helper function to check Supabase status for call logs (with batching to avoid 414 error)
+export async function enhanceCallLogsWithSupabaseStatus<T extends CallLog>(
+  logs: T[]
+): Promise<T[]> {
+  try {
+    if (logs.length === 0) return logs;
+
+    const contactIds = logs.map((log) => log.contact_id);
+    console.log(`🔍 Checking ${contactIds.length} contact IDs against Supabase in batches...`);
+
+    // CRITICAL FIX: Batch the Supabase queries to avoid 414 Request-URI Too Large error
+    const SUPABASE_BATCH_SIZE = 100; // Process 100 contact IDs at a time
+    const allExistingContactIds = new Set<string>();
+
+    for (let i = 0; i < contactIds.length; i += SUPABASE_BATCH_SIZE) {
+      const batch = contactIds.slice(i, i + SUPABASE_BATCH_SIZE);
+      const batchNumber = Math.floor(i / SUPABASE_BATCH_SIZE) + 1;
+      const totalBatches = Math.ceil(contactIds.length / SUPABASE_BATCH_SIZE);
+      
+      console.log(`📊 Checking Supabase batch ${batchNumber}/${totalBatches} (${batch.length} contact IDs)`);
+
+      try {
+        const { data: batchRecords, error } = await supabase
+          .from("call_records")
+          .select("contact_id")
+          .in("contact_id", batch);
+
+        if (error) {
+          console.error(`Error in Supabase batch ${batchNumber}:`, error);
+          continue; // Continue with next batch even if one fails
+        }
+
+        // Add this batch's results to the overall set
+        if (batchRecords) {
+          batchRecords.forEach(record => allExistingContactIds.add(record.contact_id));
+        }
+
+        console.log(`✅ Batch ${batchNumber}/${totalBatches}: Found ${batchRecords?.length || 0} existing records`);
+      } catch (batchError) {
+        console.error(`Error processing Supabase batch ${batchNumber}:`, batchError);
+        continue; // Continue with next batch
+      }
+    }
+
+    console.log(`📋 Total existing records found: ${allExistingContactIds.size}/${contactIds.length}`);
+
+    return logs.map((log) => ({
+      ...log,
+      existsInSupabase: allExistingContactIds.has(log.contact_id),
+    }));
+  } catch (error) {
+    console.error("Error enhancing call logs with Supabase status:", error);
+    return logs.map((log) => ({ ...log, existsInSupabase: false }));
+  }
+}
+
+// Helper function to save transcription to Supabase under the call's channel
+export async function saveTranscriptionToSupabase(
+  callData: CallLog,
+  transcriptData: Transcript,
+  categorization: CategorisationResult | null = null,
+  channel: string = String(getIngestChannel().id)
+): Promise<void> {
+  try {
+    const payload = toCallRecordRow(callRecordSchema.parse({
+      contact_id: callData.contact_id,
+      recording_location: callData.recording_location || "",
+      transcript_text: transcriptData.text || "",
+      queue_name: callData.queue_name || "",
+      agent_username: callData.agent_username || "",
+      initiation_timestamp:
+        callData.initiation_timestamp || new Date().toISOString(),
+      speaker_data: transcriptData.utterances || [],
+      sentiment_analysis: transcriptData.sentiment_analysis_results || [],
+      entities: transcriptData.entities || [],
+      disposition_title: callData.disposition_title || "",
+      call_summary: transcriptData.summary || null,
+      campaign_name: callData.campaign_name || null,
+      campaign_id: callData.campaign_id,
+      customer_cli: callData.customer_cli || null,
+      agent_hold_time: callData.agent_hold_time,
+      total_hold_time: callData.total_hold_time,
+      time_in_queue: callData.time_in_queue,
+      call_duration_seconds: durationSeconds(callData.total_call_time),
+      categories:
+        categorization?.topic_categories ||
+        transcriptData.topic_categorization?.all_topics ||
+        [],
+      primary_category:
+        categorization?.primary_category ||
+        transcriptData.topic_categorization?.primary_topic ||
+        null,
+      channel,
+      pii_findings: transcriptData.pii_findings || null,
+      language: transcriptData.language || null,
+      language_confidence: transcriptData.language_confidence ?? null,
+      translated_text: transcriptData.translation?.text || null,
+      ...transcriptSource(transcriptData),
+    }));
+
+    console.log(
+      "Saving transcription to Supabase for contact_id:",
+      payload.contact_id
+    );
+
+    // Check if record already exists
+    const { data: existingRecord, error: checkError } = await supabase
+      .from("call_records")
+      .select("contact_id")
+      .eq("contact_id", payload.contact_id)
+      .single();
+
+    if (checkError && checkError.code !== "PGRST116") {
+      throw new Error(`Error checking existing record: ${checkError.message}`);
+    }
+
+    if (existingRecord) {
+      // Update existing record
+      // The previous transcript is kept as an earlier version
+      const { data, error } = await supabase
+        .from("call_records")
+        .update(payload)
+        .eq("contact_id", payload.contact_id)
+        .select("current_version")
+        .single();
+
+      if (error) {
+        throw new Error(`Failed to update record: ${error.message}`);
+      }
+
+      console.log(`Successfully updated existing record (transcript version ${data.current_version})`);
+    } else {
+      // Insert new record
+      const { error } = await supabase.from("call_records").insert([payload]);
+
+      if (error) {
+        throw new Error(`Failed to insert record: ${error.message}`);
+      }
+
+      console.log("Successfully inserted new record");
+    }
+  } catch (error) {
+    console.error("Error saving to Supabase:", error);
+    throw error;
+  }
+}
@@ -0,0 +1,95 @@
+// lib/categorise.ts - OpenAI topic categorisation shared by the API route, pipeline and backfill
+import OpenAI from "openai";
+import { recordCompletionUsage, UsageContext } from "./usage";
+import type { CategorisationResult, TranscriptUtterance } from "./domain";
+
+// TODO: Update Categories - Mycar Appropriate
+// Changing this list leaves existing call_records stale; run `npm run recategorise` afterwards.
+export const TOPIC_CATEGORIES = [
+  "No Lead - Call Refused",
+  "Lead Generated - New Business",
+  "No Lead - No Product Service Match",
+  "Other",
+];
+
+export const FALLBACK_CATEGORY = "Other";
+
+export const CATEGORISATION_MODEL = "gpt-4o-mini";
+
+let openai: OpenAI | null = null;
+
+// Created lazily so modules that import this don't need the key at load time
+export function getOpenAI(): OpenAI {
+  if (!process.env.OPENAI_API_KEY) {
+    throw new Error("OpenAI API key not configured");
+  }
+  openai ??= new OpenAI({ apiKey: process.env.OPENAI_API_KEY });
+  return openai;
+}
+
+// Function to categorise a call from its utterances
+export async function categoriseUtterances(
+  utterances: Pick<TranscriptUtterance, "speaker" | "speakerRole" | "text">[],
+  usageContext: UsageContext = {}
+): Promise<CategorisationResult> {
+  if (!utterances || utterances.length === 0) {
+    throw new Error("No utterances found in transcript data");
+  }
+
+  const formattedTranscript = utterances
+    .map((u) => `${u.speakerRole && u.speakerRole !== "Unknown" ? u.speakerRole : u.speaker}: ${u.text}`)
+    .join("\n");
+
+  console.log("Formatted transcript for OpenAI:", {
+    length: formattedTranscript.length,
+    preview: formattedTranscript.substring(0, 200) + "..."
+  });
+
+  // POST to OpenAI for multi-topic categorization
+  const completion = await getOpenAI().chat.completions.create({
+    model: CATEGORISATION_MODEL,
+    messages: [
+      {
+        role: "system",
+        content: `You are a specialized AI that categorizes customer service call transcripts into specific topics.
+
+        Analyze the following call transcript and identify the 1-3 MOST RELEVANT categories from this list:
+        ${TOPIC_CATEGORIES.join(", ")}
+
+        Respond with ONLY the category names separated by "||". Include ONLY 1-3 categories based on relevance - if only one topic is clearly relevant, return just that one.
+
+        Example responses:
+        "No Lead - Call Refused"
+        "No Lead - No Product Service Match"
+        "Other"
+
+        Here is the call transcript:
+        ${formattedTranscript}`,
+      },
+    ],
+    max_tokens: 50,
+    temperature: 0.3,
+  });
+
+  await recordCompletionUsage("categorisation", completion, usageContext);
+
+  const categoriesResponse = completion.choices[0].message.content?.trim() || "";
+  console.log("Raw OpenAI response:", categoriesResponse);
+
+  // Split the response and filter for valid categories
+  const categoriesArray = categoriesResponse.split("||")
+    .map(category => category.trim())
+    .filter(category => TOPIC_CATEGORIES.includes(category));
+
+  // Fallback to "Other" if no valid categories were returned
+  const validCategories = categoriesArray.length > 0 ? categoriesArray : [FALLBACK_CATEGORY];
+
+  // Limit to maximum 3 categories
+  const finalCategories = validCategories.slice(0, 3);
+
+  return {
+    topic_categories: finalCategories,
+    primary_category: finalCategories[0],
+    confidence: categoriesArray.length > 0 ? 1.0 : 0.0
+  };
+}
@@ -0,0 +1,188 @@
+// lib/categoryBackfill.ts - Re-run topic categorisation over stored transcripts
+import { supabaseAdmin } from './supabaseAdmin';
+import { categoriseUtterances } from './categorise';
+import { parseStoredList, utteranceSchema } from './domain';
+
+export type BackfillSelector = 'all' | 'uncategorised' | 'other';
+
+export interface BackfillOptions {
+  start?: Date;
+  end?: Date;
+  channel?: string;
+  only?: BackfillSelector;
+  dryRun?: boolean;
+  limit?: number;
+  after?: string; // contact_id cursor from the previous batch
+}
+
+export interface BackfillChange {
+  contact_id: string;
+  before: string | null;
+  after: string;
+}
+
+export interface BackfillReport {
+  dryRun: boolean;
+  selected: number;
+  recategorised: number;
+  changed: number;
+  skipped: number;
+  failed: number;
+  before: Record<string, number>;
+  after: Record<string, number>;
+  delta: Record<string, number>;
+  changes: BackfillChange[];
+  errors: { contact_id: string; error: string }[];
+  nextCursor: string | null;
+}
+
+interface StoredCall {
+  contact_id: string;
+  primary_category: string | null;
+  speaker_data: unknown;
+  channel: string | null;
+  agent_username: string | null;
+}
+
+const DEFAULT_LIMIT = 100;
+const CONCURRENCY = 3; // Keep OpenAI requests well under the rate limit
+const UNCATEGORISED_LABEL = 'Uncategorised';
+
+// Function to bucket empty categories under one label in reports
+const categoryLabel = (category: string | null) => category || UNCATEGORISED_LABEL;
+
+function countBy(categories: (string | null)[]): Record<string, number> {
+  return categories.reduce<Record<string, number>>((counts, category) => {
+    const label = categoryLabel(category);
+    counts[label] = (counts[label] || 0) + 1;
+    return counts;
+  }, {});
+}
+
+// Function to subtract two distributions, keeping only categories that moved
+export function diffDistributions(
+  before: Record<string, number>,
+  after: Record<string, number>
+): Record<string, number> {
+  const delta: Record<string, number> = {};
+  new Set([...Object.keys(before), ...Object.keys(after)]).forEach((category) => {
+    const change = (after[category] || 0) - (before[category] || 0);
+    if (change !== 0) delta[category] = change;
+  });
+  return delta;
+}
+
+async function fetchBatch(options: BackfillOptions): Promise<StoredCall[]> {
+  let query = supabaseAdmin
+    .from('call_records')
+    .select('contact_id, primary_category, speaker_data, channel, agent_username')
+    .order('contact_id', { ascending: true })
+    .limit(options.limit || DEFAULT_LIMIT);
+
+  if (options.start) query = query.gte('initiation_timestamp', options.start.toISOString());
+  if (options.end) query = query.lte('initiation_timestamp', options.end.toISOString());
+  if (options.channel) query = query.eq('channel', options.channel);
+  if (options.after) query = query.gt('contact_id', options.after);
+
+  if (options.only === 'uncategorised') {
+    query = query.or(`primary_category.is.null,primary_category.in.("",${UNCATEGORISED_LABEL})`);
+  } else if (options.only === 'other') {
+    query = query.eq('primary_category', 'Other');
+  }
+
+  const { data, error } = await query;
+
+  if (error) {
+    throw new Error(`Failed to fetch call records for backfill: ${error.message}`);
+  }
+
+  return (data as StoredCall[]) || [];
+}
+
+// Function to recategorise one batch of stored calls. Batches are keyed on
+// contact_id so rows that leave the selector after an update aren't skipped;
+// pass nextCursor back as `after` until it comes back null.
+export async function runCategoryBackfill(options: BackfillOptions = {}): Promise<BackfillReport> {
+  const dryRun = options.dryRun ?? false;
+  const calls = await fetchBatch(options);
+
+  const report: BackfillReport = {
+    dryRun,
+    selected: calls.length,
+    recategorised: 0,
+    changed: 0,
+    skipped: 0,
+    failed: 0,
+    before: countBy(calls.map((call) => call.primary_category)),
+    after: {},
+    delta: {},
+    changes: [],
+    errors: [],
+    nextCursor: calls.length === (options.limit || DEFAULT_LIMIT) ? calls[calls.length - 1].contact_id : null,
+  };
+
+  const afterCategories: (string | null)[] = [];
+
+  const recategorise = async (call: StoredCall) => {
+    const utterances = parseStoredList(utteranceSchema, call.speaker_data);
+
+    if (utterances.length === 0) {
+      report.skipped++;
+      afterCategories.push(call.primary_category);
+      return;
+    }
+
+    try {
+      const result = await categoriseUtterances(utterances, {
+        channel: call.channel,
+        agentUsername: call.agent_username,
+        contactId: call.contact_id,
+      });
+
+      if (!dryRun) {
+        const { error } = await supabaseAdmin
+          .from('call_records')
+          .update({
+            categories: result.topic_categories,
+            primary_category: result.primary_category,
+          })
+          .eq('contact_id', call.contact_id);
+
+        if (error) throw new Error(error.message);
+      }
+
+      report.recategorised++;
+      afterCategories.push(result.primary_category);
+
+      if (result.primary_category !== call.primary_category) {
+        report.changed++;
+        report.changes.push({
+          contact_id: call.contact_id,
+          before: call.primary_category,
+          after: result.primary_category,
+        });
+      }
+    } catch (error) {
+      console.error(`❌ Failed to recategorise ${call.contact_id}:`, error);
+      report.failed++;
+      afterCategories.push(call.primary_category);
+      report.errors.push({
+        contact_id: call.contact_id,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  };
+
+  for (let i = 0; i < calls.length; i += CONCURRENCY) {
+    await Promise.all(calls.slice(i, i + CONCURRENCY).map(recategorise));
+  }
+
+  report.after = countBy(afterCategories);
+  report.delta = diffDistributions(report.before, report.after);
+
+  console.log(
+    `🏷️ Backfill batch${dryRun ? ' (dry run)' : ''}: ${report.recategorised}/${report.selected} recategorised, ${report.changed} changed, ${report.skipped} skipped, ${report.failed} failed`
+  );
+
+  return report;
+}
@@ -0,0 +1,36 @@
+// lib/channelConfig.ts - Which channel the ingested calls belong to
+import { Channels } from './Channels';
+import type { SpeakerRole } from './transcription';
+
+// The reporting database behind this deployment only carries Team Global Express calls
+export const DEFAULT_CHANNEL_ID = 22;
+
+export type Channel = (typeof Channels)[number];
+
+// Who is on each side of a stereo recording, left channel first. The diallers we
+// take recordings from put the agent on the left; channels that don't go here.
+const STEREO_CHANNEL_ROLES: Partial<Record<number, SpeakerRole[]>> = {};
+
+export const DEFAULT_STEREO_CHANNEL_ROLES: SpeakerRole[] = ['Agent', 'Customer'];
+
+// Function to get the channel calls from contact_log are ingested under
+export function getIngestChannel(): Channel {
+  const channelId = parseInt(process.env.INGEST_CHANNEL_ID || '', 10) || DEFAULT_CHANNEL_ID;
+  const channel = Channels.find((c) => c.id === channelId);
+
+  if (!channel) {
+    throw new Error(`Unknown INGEST_CHANNEL_ID ${channelId}`);
+  }
+
+  return channel;
+}
+
+// Function to get a channel from the value stored in call_records.channel
+export function getChannelById(channelId: string | number): Channel | null {
+  return Channels.find((c) => String(c.id) === String(channelId)) || null;
+}
+
+// Function to get the role recorded on each audio channel for a channel's calls
+export function getStereoChannelRoles(channelId: string | number = getIngestChannel().id): SpeakerRole[] {
+  return STEREO_CHANNEL_ROLES[Number(channelId)] || DEFAULT_STEREO_CHANNEL_ROLES;
+}
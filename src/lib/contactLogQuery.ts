@@ -0,0 +1,210 @@
+// lib/contactLogQuery.ts - Filters, sorting and keyset cursors for paging through contact_log
+
+export type ContactLogSortField =
+  | 'initiation_timestamp'
+  | 'agent_username'
+  | 'total_call_time'
+  | 'queue_name'
+  | 'disposition_title';
+
+export type SortDirection = 'asc' | 'desc';
+
+// "missing" means not transcribed yet but with a recording to transcribe
+export type TranscriptionFilter = 'transcribed' | 'missing';
+
+export interface ContactLogFilters {
+  start?: Date;
+  end?: Date;
+  agents?: string[];
+  queues?: string[];
+  dispositions?: string[];
+  campaignIds?: number[];
+  minSeconds?: number;
+  maxSeconds?: number;
+  transcription?: TranscriptionFilter;
+}
+
+export interface ContactLogQuery extends ContactLogFilters {
+  channel?: string;
+  sort: ContactLogSortField;
+  direction: SortDirection;
+  limit: number;
+  cursor: ContactLogCursor | null;
+}
+
+// Where the previous page ended: its last row's sort value and contact_id
+export interface ContactLogCursor {
+  value: string;
+  contactId: string;
+}
+
+export const DEFAULT_PAGE_SIZE = 100;
+export const MAX_PAGE_SIZE = 500;
+
+// Each sort is an expression that is never null, so rows compare cleanly
+// against a cursor. Durations sort by their length in seconds.
+export const SORT_EXPRESSIONS: Record<ContactLogSortField, string> = {
+  initiation_timestamp: 'initiation_timestamp',
+  agent_username: "COALESCE(agent_username, '')",
+  total_call_time: 'COALESCE(EXTRACT(EPOCH FROM total_call_time), 0)',
+  queue_name: "COALESCE(queue_name, '')",
+  disposition_title: "COALESCE(disposition_title, '')",
+};
+
+export const GROUP_BY_FIELDS = ['agent_username', 'queue_name', 'disposition_title'] as const;
+export type ContactLogGroupBy = (typeof GROUP_BY_FIELDS)[number];
+
+const DURATION_EXPRESSION = 'EXTRACT(EPOCH FROM total_call_time)';
+
+// Function to encode where a page ended, tied to the sort it was taken under
+export function encodeCursor(
+  cursor: ContactLogCursor,
+  sort: ContactLogSortField,
+  direction: SortDirection
+): string {
+  return Buffer.from(JSON.stringify([cursor.value, cursor.contactId, sort, direction])).toString('base64url');
+}
+
+// Function to decode a cursor (null when it's malformed or from another sort)
+export function decodeCursor(
+  encoded: string,
+  sort: ContactLogSortField,
+  direction: SortDirection
+): ContactLogCursor | null {
+  try {
+    const [value, contactId, cursorSort, cursorDirection] = JSON.parse(
+      Buffer.from(encoded, 'base64url').toString('utf8')
+    );
+
+    if (typeof value !== 'string' || typeof contactId !== 'string') return null;
+    if (cursorSort !== sort || cursorDirection !== direction) return null;
+
+    return { value, contactId };
+  } catch {
+    return null;
+  }
+}
+
+// Function to compile filters into SQL conditions, numbering parameters from
+// params.length + 1 so they can follow the channel's ingestion rules.
+// transcribedIds is needed for the transcription filter, since call_records
+// lives in another database.
+export function compileContactLogFilters(
+  filters: ContactLogFilters,
+  params: unknown[],
+  transcribedIds: string[] | null
+): string[] {
+  const conditions: string[] = [];
+  const param = (value: unknown) => {
+    params.push(value);
+    return `$${params.length}`;
+  };
+
+  if (filters.start) conditions.push(`initiation_timestamp >= ${param(filters.start)}`);
+  if (filters.end) conditions.push(`initiation_timestamp <= ${param(filters.end)}`);
+  if (filters.agents?.length) conditions.push(`agent_username = ANY(${param(filters.agents)})`);
+  if (filters.queues?.length) conditions.push(`queue_name = ANY(${param(filters.queues)})`);
+  if (filters.dispositions?.length) conditions.push(`disposition_title = ANY(${param(filters.dispositions)})`);
+  if (filters.campaignIds?.length) conditions.push(`campaign_id = ANY(${param(filters.campaignIds)})`);
+  if (filters.minSeconds !== undefined) conditions.push(`${DURATION_EXPRESSION} >= ${param(filters.minSeconds)}`);
+  if (filters.maxSeconds !== undefined) conditions.push(`${DURATION_EXPRESSION} <= ${param(filters.maxSeconds)}`);
+
+  if (filters.transcription && transcribedIds) {
+    const ids = param(transcribedIds);
+    conditions.push(
+      filters.transcription === 'transcribed'
+        ? `contact_id = ANY(${ids})`
+        : `contact_id <> ALL(${ids}) AND COALESCE(recording_location, '') <> ''`
+    );
+  }
+
+  return conditions;
+}
+
+// Helper function to read a repeatable parameter; "agent=a&agent=b" and "agent=a,b" both work
+function readList(searchParams: URLSearchParams, name: string): string[] | undefined {
+  const values = searchParams
+    .getAll(name)
+    .flatMap((value) => value.split(','))
+    .map((value) => value.trim())
+    .filter(Boolean);
+  return values.length > 0 ? values : undefined;
+}
+
+// Function to read filters from query parameters. Returns an error message
+// instead when one of them is invalid.
+export function parseContactLogFilters(searchParams: URLSearchParams): ContactLogFilters | string {
+  const filters: ContactLogFilters = {
+    agents: readList(searchParams, 'agent'),
+    queues: readList(searchParams, 'queue'),
+    dispositions: readList(searchParams, 'disposition'),
+  };
+
+  for (const name of ['start', 'end'] as const) {
+    const value = searchParams.get(name);
+    if (!value) continue;
+    const date = new Date(value);
+    if (isNaN(date.getTime())) return 'Invalid date format. Please use ISO date format.';
+    filters[name] = date;
+  }
+
+  if (filters.start && filters.end && filters.start > filters.end) {
+    return 'Start date must be before or equal to end date.';
+  }
+
+  const campaignIds = readList(searchParams, 'campaignId');
+  if (campaignIds) {
+    filters.campaignIds = campaignIds.map(Number);
+    if (filters.campaignIds.some((id) => !Number.isInteger(id))) return 'campaignId must be an integer';
+  }
+
+  for (const name of ['minSeconds', 'maxSeconds'] as const) {
+    const value = searchParams.get(name);
+    if (value === null || value === '') continue;
+    const seconds = Number(value);
+    if (!Number.isFinite(seconds) || seconds < 0) return `${name} must be a number of seconds`;
+    filters[name] = seconds;
+  }
+
+  const transcription = searchParams.get('transcription');
+  if (transcription) {
+    if (transcription !== 'transcribed' && transcription !== 'missing') {
+      return 'transcription must be transcribed or missing';
+    }
+    filters.transcription = transcription;
+  }
+
+  return filters;
+}
+
+// Function to read a page request (filters, sort, limit and cursor) from query parameters
+export function parseContactLogQuery(searchParams: URLSearchParams): ContactLogQuery | string {
+  const filters = parseContactLogFilters(searchParams);
+  if (typeof filters === 'string') return filters;
+
+  const sort = (searchParams.get('sort') || 'initiation_timestamp') as ContactLogSortField;
+  if (!Object.keys(SORT_EXPRESSIONS).includes(sort)) {
+    return `sort must be one of: ${Object.keys(SORT_EXPRESSIONS).join(', ')}`;
+  }
+
+  const direction = (searchParams.get('direction') || 'desc') as SortDirection;
+  if (direction !== 'asc' && direction !== 'desc') return 'direction must be asc or desc';
+
+  const limit = searchParams.has('limit') ? Number(searchParams.get('limit')) : DEFAULT_PAGE_SIZE;
+  if (!Number.isInteger(limit) || limit < 1 || limit > MAX_PAGE_SIZE) {
+    return `limit must be between 1 and ${MAX_PAGE_SIZE}`;
+  }
+
+  const encodedCursor = searchParams.get('cursor');
+  const cursor = encodedCursor ? decodeCursor(encodedCursor, sort, direction) : null;
+  if (encodedCursor && !cursor) return 'cursor is invalid or was taken under a different sort';
+
+  return {
+    ...filters,
+    channel: searchParams.get('channel') || undefined,
+    sort,
+    direction,
+    limit,
+    cursor,
+  };
+}
@@ -1,4 +1,16 @@
 import { Pool } from 'pg';
+import { getIngestChannel } from './channelConfig';
+import { compileIngestionRules, getIngestionRules } from './ingestionRules';
+import { enhanceCallLogsWithSupabaseStatus, getTranscribedContactIds } from './callRecords';
+import { callLogSchema, type CallLog, type ChannelCallLog } from './domain';
+import {
+  compileContactLogFilters,
+  ContactLogFilters,
+  ContactLogGroupBy,
+  ContactLogQuery,
+  encodeCursor,
+  SORT_EXPRESSIONS,
+} from './contactLogQuery';
 
 const pool = new Pool({
   host: process.env.DB_HOST,
@@ -13,56 +25,197 @@ interface DateRange {
   end: Date;
 }
 
-export async function getContactLogs(dateRange?: DateRange) {
+export interface ContactLogPage {
+  logs: CallLog[];
+  nextCursor: string | null;
+}
+
+export interface ContactLogCounts {
+  total: number;
+  transcribed: number;
+  missing: number;
+}
+
+// Only what the call list and pipeline use, rather than every reporting column
+const CONTACT_LOG_COLUMNS = [
+  'contact_id',
+  'agent_username',
+  'recording_location',
+  'initiation_timestamp',
+  'total_call_time',
+  'campaign_name',
+  'campaign_id',
+  'customer_cli',
+  'agent_hold_time',
+  'total_hold_time',
+  'time_in_queue',
+  'queue_name',
+  'disposition_title',
+].join(', ');
+
+// Fetch a channel's calls from contact_log under its ingestion rules, newest first.
+// A channel without rules gets no calls. Each call carries the channel whose
+// rules matched it, so the pipeline applies that channel's settings.
+export async function getContactLogs(
+  dateRange?: DateRange,
+  channel: string = String(getIngestChannel().id)
+): Promise<ChannelCallLog[]> {
   try {
-    let query: string;
-    // eslint-disable-next-line @typescript-eslint/no-explicit-any
-    let params: any[] = [];
-
-    if (dateRange) {
-      // Use provided date range
-      query = `
-        SELECT * FROM reporting.contact_log 
-        WHERE agent_username IS NOT NULL
-        AND disposition_title IS NOT NULL
-        AND disposition_title NOT IN ('No Answer - No Voicemail Available', 'No Answer - Voicemail Available', 'Engaged', 'Done', 'Invalid Endpoint')
-        AND initiation_timestamp >= $1 
-        AND initiation_timestamp <= $2
-        ORDER BY initiation_timestamp DESC
-      `;
-      params = [dateRange.start, dateRange.end];
-    } else {
-      // No date range provided
-      query = `
-        SELECT * FROM reporting.contact_log 
-        WHERE agent_username IS NOT NULL
-        AND disposition_title IS NOT NULL
-        AND disposition_title NOT IN ('No Answer - No Voicemail Available', 'No Answer - Voicemail Available', 'Engaged', 'Done', 'Invalid Endpoint')
-        ORDER BY initiation_timestamp DESC
-      `;
+    const params: unknown[] = [];
+    const built = await buildContactLogConditions(dateRange || {}, channel, params, false);
+    if (!built) {
+      console.warn(`⚠️ Channel ${channel} has no ingestion rules, so no calls are fetched for it`);
+      return [];
     }
 
+    const query = `
+      SELECT ${CONTACT_LOG_COLUMNS} FROM reporting.contact_log
+      WHERE ${built.conditions.join('\n      AND ')}
+      ORDER BY initiation_timestamp DESC
+    `;
+
     const result = await pool.query(query, params);
-    return result.rows;
+    return callLogSchema.array().parse(result.rows).map((log) => ({ ...log, channel }));
   } catch (error) {
     console.error('Database query error:', error);
     throw error;
   }
 }
 
-// Alternative function if you want to keep the original function unchanged
-export async function getContactLogsByDateRange() {
+// Look up one call's recording, so routes can serve audio by contact_id
+export async function getContactRecordingLocation(contactId: string): Promise<string | null> {
   try {
     const result = await pool.query(
-      `SELECT * FROM reporting.contact_log 
-       WHERE agent_username IS NOT NULL
-       AND disposition_title IS NOT NULL
-       AND disposition_title NOT IN ('No Answer - No Voicemail Available', 'No Answer - Voicemail Available', 'Engaged', 'Done', 'Invalid Endpoint')
-       ORDER BY initiation_timestamp DESC`
+      `SELECT recording_location FROM reporting.contact_log
+       WHERE contact_id = $1
+       LIMIT 1`,
+      [contactId]
+    );
+    return result.rows[0]?.recording_location || null;
+  } catch (error) {
+    console.error('Database query error:', error);
+    throw error;
+  }
+}
+
+// Helper function to build the conditions for a channel's calls under the given
+// filters. Null when the channel has no ingestion rules and so has no calls.
+// Transcription status lives in Supabase, so when it's needed the range's
+// transcribed ids are fetched first and passed in as a parameter.
+async function buildContactLogConditions(
+  filters: ContactLogFilters,
+  channel: string,
+  params: unknown[],
+  needTranscribedIds: boolean
+): Promise<{ conditions: string[]; transcribedIds: string[] | null } | null> {
+  const rules = await getIngestionRules(channel);
+  if (!rules) return null;
+
+  const compiled = compileIngestionRules(rules);
+  params.push(...compiled.params);
+
+  const transcribedIds = needTranscribedIds ? await getTranscribedContactIds(channel, filters) : null;
+  const conditions = [...compiled.conditions, ...compileContactLogFilters(filters, params, transcribedIds)];
+
+  return { conditions, transcribedIds };
+}
+
+// Fetch one page of a channel's calls. Pages are keyed on the last row's sort
+// value and contact_id, so later pages cost the same as the first and rows
+// added meanwhile don't shift them.
+export async function getContactLogPage(query: ContactLogQuery): Promise<ContactLogPage> {
+  try {
+    const channel = query.channel || String(getIngestChannel().id);
+    const params: unknown[] = [];
+    const built = await buildContactLogConditions(query, channel, params, !!query.transcription);
+    if (!built) return { logs: [], nextCursor: null };
+
+    const sortExpression = SORT_EXPRESSIONS[query.sort];
+    const order = query.direction === 'asc' ? 'ASC' : 'DESC';
+
+    if (query.cursor) {
+      params.push(query.cursor.value, query.cursor.contactId);
+      built.conditions.push(
+        `(${sortExpression}, contact_id) ${query.direction === 'asc' ? '>' : '<'} ($${params.length - 1}, $${params.length})`
+      );
+    }
+
+    // One extra row says whether there's another page. The sort value is read
+    // back as text so the cursor keeps full timestamp precision.
+    params.push(query.limit + 1);
+    const result = await pool.query(
+      `
+      SELECT ${CONTACT_LOG_COLUMNS}, (${sortExpression})::text AS sort_value
+      FROM reporting.contact_log
+      WHERE ${built.conditions.join('\n      AND ')}
+      ORDER BY ${sortExpression} ${order}, contact_id ${order}
+      LIMIT $${params.length}
+    `,
+      params
     );
-    return result.rows;
+
+    const rows = result.rows.slice(0, query.limit);
+    const last = rows[rows.length - 1];
+    const nextCursor =
+      result.rows.length > query.limit && last
+        ? encodeCursor({ value: last.sort_value, contactId: last.contact_id }, query.sort, query.direction)
+        : null;
+
+    // Parsing also drops sort_value
+    const logs = callLogSchema.array().parse(rows);
+
+    // Without a transcription filter only this page's calls need checking
+    if (!built.transcribedIds) {
+      return { logs: await enhanceCallLogsWithSupabaseStatus(logs), nextCursor };
+    }
+
+    const transcribed = query.transcription === 'transcribed';
+    return { logs: logs.map((log) => ({ ...log, existsInSupabase: transcribed })), nextCursor };
   } catch (error) {
     console.error('Database query error:', error);
     throw error;
   }
-}
\ No newline at end of file
+}
+
+// Count a channel's calls under the given filters, split by transcription
+// status. With groupBy the counts are also given per agent, queue or disposition.
+export async function countContactLogs(
+  filters: ContactLogFilters,
+  channel: string = String(getIngestChannel().id),
+  groupBy?: ContactLogGroupBy
+): Promise<ContactLogCounts & { groups?: (ContactLogCounts & { value: string | null })[] }> {
+  try {
+    const empty = { total: 0, transcribed: 0, missing: 0 };
+    const params: unknown[] = [];
+    const built = await buildContactLogConditions(filters, channel, params, true);
+    if (!built) return groupBy ? { ...empty, groups: [] } : empty;
+
+    params.push(built.transcribedIds);
+    const ids = `$${params.length}`;
+    const where = built.conditions.join('\n      AND ');
+    const counts = `
+      COUNT(*)::int AS total,
+      COUNT(*) FILTER (WHERE contact_id = ANY(${ids}))::int AS transcribed,
+      COUNT(*) FILTER (
+        WHERE contact_id <> ALL(${ids}) AND COALESCE(recording_location, '') <> ''
+      )::int AS missing`;
+
+    const totals = await pool.query(`SELECT ${counts} FROM reporting.contact_log WHERE ${where}`, params);
+    if (!groupBy) return totals.rows[0];
+
+    // groupBy is one of GROUP_BY_FIELDS, never user text
+    const grouped = await pool.query(
+      `SELECT ${groupBy} AS value, ${counts}
+      FROM reporting.contact_log
+      WHERE ${where}
+      GROUP BY ${groupBy}
+      ORDER BY ${groupBy}`,
+      params
+    );
+
+    return { ...totals.rows[0], groups: grouped.rows };
+  } catch (error) {
+    console.error('Database query error:', error);
+    throw error;
+  }
+}
@@ -0,0 +1,104 @@
+// lib/domain/callLog.ts - Calls as contact_log reports them
+import { z } from "zod";
+
+// Helper function to read a duration in any shape it has been kept in: pg
+// interval objects (which leave out zero fields), JSON strings of those, "m:ss"
+// and plain seconds
+function toDurationObject(value: unknown): unknown {
+  if (value === null || value === undefined || value === "") return {};
+  if (typeof value === "number") return { minutes: Math.floor(value / 60), seconds: value % 60 };
+  if (typeof value !== "string") return value;
+
+  const clock = value.match(/^(\d+):(\d{1,2})$/);
+  if (clock) return { minutes: Number(clock[1]), seconds: Number(clock[2]) };
+
+  try {
+    const parsed = JSON.parse(value);
+    return typeof parsed === "string" ? value : toDurationObject(parsed);
+  } catch {
+    return value;
+  }
+}
+
+export const callDurationSchema = z.preprocess(
+  toDurationObject,
+  z.object({
+    hours: z.number().optional(),
+    minutes: z.number().default(0),
+    seconds: z.number().default(0),
+  })
+);
+
+// Helper function to read an amount of time as seconds (null when there is none)
+function toSeconds(value: unknown): unknown {
+  if (value === null || value === undefined || value === "") return null;
+  if (typeof value === "string" && value.trim() && !isNaN(Number(value))) return Number(value);
+  if (typeof value === "object") {
+    const duration = callDurationSchema.safeParse(value);
+    return duration.success ? durationSeconds(duration.data) : value;
+  }
+  return value;
+}
+
+// Hold and queue times in seconds; contact_log may report them as intervals
+export const secondsSchema = z.preprocess(toSeconds, z.number().nullable());
+
+// pg returns timestamps as Dates, Supabase as strings
+export const timestampSchema = z
+  .union([z.string(), z.date()])
+  .transform((value) => (typeof value === "string" ? value : value.toISOString()));
+
+// Text the app treats as empty rather than missing
+export const textSchema = z
+  .string()
+  .nullish()
+  .transform((value) => value ?? "");
+
+export const optionalTextSchema = z
+  .string()
+  .nullish()
+  .transform((value) => value ?? null);
+
+export const contactIdSchema = z.union([z.string().min(1), z.number()]).transform(String);
+
+export const callLogSchema = z.object({
+  contact_id: contactIdSchema,
+  agent_username: textSchema,
+  recording_location: textSchema,
+  initiation_timestamp: timestampSchema,
+  total_call_time: callDurationSchema,
+  campaign_name: textSchema,
+  campaign_id: z.preprocess(
+    (value) => (value === null || value === undefined || value === "" ? null : Number(value)),
+    z.number().int().nullable()
+  ),
+  customer_cli: textSchema,
+  agent_hold_time: secondsSchema,
+  total_hold_time: secondsSchema,
+  time_in_queue: secondsSchema,
+  queue_name: textSchema,
+  disposition_title: textSchema,
+  existsInSupabase: z.boolean().optional(),
+});
+
+export type CallDuration = z.infer<typeof callDurationSchema>;
+export type CallLog = z.infer<typeof callLogSchema>;
+
+// Function to get a duration's length in seconds
+export function durationSeconds(duration: CallDuration): number {
+  return (duration.hours || 0) * 3600 + duration.minutes * 60 + duration.seconds;
+}
+
+// Function to format a number of seconds as m:ss (h:mm:ss past the hour)
+export function formatSeconds(totalSeconds: number): string {
+  const total = Math.round(totalSeconds);
+  const hours = Math.floor(total / 3600);
+  const minutes = Math.floor((total % 3600) / 60);
+  const seconds = String(total % 60).padStart(2, "0");
+  return hours > 0 ? `${hours}:${String(minutes).padStart(2, "0")}:${seconds}` : `${minutes}:${seconds}`;
+}
+
+// Function to format a duration as m:ss (h:mm:ss past the hour)
+export function formatDuration(duration: CallDuration): string {
+  return formatSeconds(durationSeconds(duration));
+}
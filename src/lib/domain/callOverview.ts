@@ -0,0 +1,57 @@
+// lib/domain/callOverview.ts - Transcribed calls with the derived fields the overview and AI chat read
+import { z } from "zod";
+import { categoriesSchema, sentimentResultSchema } from "./transcript";
+
+export const greetingSentimentSchema = z.enum(["positive", "neutral", "negative"]);
+
+export const transcriptProcessedSchema = z.object({
+  full: z.string(),
+  greeting: z.string(),
+  closing: z.string(),
+  length: z.number(),
+  wordCount: z.number(),
+  greetingSentiment: greetingSentimentSchema.nullable(),
+  closingSentiment: greetingSentimentSchema.nullable(),
+  hasTransfer: z.boolean(),
+  hasEscalation: z.boolean(),
+  keywordMatches: z.array(z.string()),
+});
+
+export const callOverviewSchema = z.object({
+  id: z.union([z.string(), z.number()]).optional(),
+  contact_id: z.string(),
+  agent_username: z.string(),
+  initiation_timestamp: z.string(),
+  queue_name: z.string(),
+  disposition_title: z.string(),
+  campaign_name: z.string(),
+  customer_cli: z.string(),
+  call_duration_total_seconds: z.number(),
+  call_summary: z.string(),
+  primary_category: z.string(),
+  categories: categoriesSchema,
+  processed_sentiments: z.array(sentimentResultSchema).nullable(),
+  transcript_text: z.string(),
+  translated_text: z.string(),
+  transcript_processed: transcriptProcessedSchema.nullable(),
+  keywords: z.string(),
+  topics: z.string(),
+  satisfaction_score: z.number().nullable(),
+  resolution_status: z.string(),
+  escalation_reason: z.string(),
+  callback_requested: z.boolean(),
+  language: z.string(),
+  channel: z.string(),
+  created_at: z.string(),
+  updated_at: z.string(),
+  processed_at: z.string().nullable(),
+  has_transcript: z.boolean(),
+  has_sentiment: z.boolean(),
+  has_summary: z.boolean(),
+  is_short_call: z.boolean(),
+  is_long_call: z.boolean(),
+});
+
+export type GreetingSentiment = z.infer<typeof greetingSentimentSchema>;
+export type TranscriptProcessed = z.infer<typeof transcriptProcessedSchema>;
+export type CallOverview = z.infer<typeof callOverviewSchema>;
@@ -0,0 +1,93 @@
+// lib/domain/callRecord.ts - Transcribed calls as stored in call_records
+import { z } from "zod";
+import {
+  contactIdSchema,
+  optionalTextSchema,
+  secondsSchema,
+  textSchema,
+  timestampSchema,
+} from "./callLog";
+import {
+  categoriesSchema,
+  entitySchema,
+  sentimentResultSchema,
+  storedListSchema,
+  utteranceSchema,
+} from "./transcript";
+
+export const callRecordSchema = z.object({
+  contact_id: contactIdSchema,
+  recording_location: textSchema,
+  transcript_text: textSchema,
+  queue_name: optionalTextSchema,
+  agent_username: textSchema,
+  initiation_timestamp: timestampSchema,
+  speaker_data: storedListSchema(utteranceSchema),
+  sentiment_analysis: storedListSchema(sentimentResultSchema),
+  entities: storedListSchema(entitySchema),
+  categories: storedListSchema(categoriesSchema.element),
+  disposition_title: optionalTextSchema,
+  call_summary: optionalTextSchema,
+  campaign_name: optionalTextSchema,
+  campaign_id: z
+    .union([z.string(), z.number()])
+    .nullish()
+    .transform((value) => (value === null || value === undefined ? null : String(value))),
+  customer_cli: optionalTextSchema,
+  agent_hold_time: secondsSchema,
+  total_hold_time: secondsSchema,
+  time_in_queue: secondsSchema,
+  call_duration_seconds: secondsSchema,
+  primary_category: optionalTextSchema,
+  channel: optionalTextSchema,
+  pii_findings: z
+    .record(z.number())
+    .nullish()
+    .transform((value) => value ?? null),
+  language: optionalTextSchema,
+  language_confidence: z
+    .number()
+    .nullish()
+    .transform((value) => value ?? null),
+  translated_text: optionalTextSchema,
+  // What produced the transcript; saved onto the version each save creates
+  transcript_provider: optionalTextSchema,
+  transcript_model: optionalTextSchema,
+  transcript_config_hash: optionalTextSchema,
+  // Set by the database when a save creates a version, or on rollback
+  current_version: z.number().int().nullish(),
+  created_at: timestampSchema.optional(),
+  updated_at: timestampSchema.optional(),
+});
+
+// Helper function to accept a list sent for storage. Unlike stored lists,
+// entries that don't match are rejected rather than dropped.
+function listInputSchema<T extends z.ZodTypeAny>(schema: T) {
+  return z
+    .array(schema)
+    .nullish()
+    .transform((value): z.infer<T>[] => value ?? []);
+}
+
+// What save-transcription accepts: the identifying fields can't be empty
+export const callRecordInputSchema = callRecordSchema.extend({
+  recording_location: z.string().min(1),
+  agent_username: z.string().min(1),
+  initiation_timestamp: timestampSchema.refine((value) => !isNaN(Date.parse(value)), "Invalid timestamp"),
+  speaker_data: listInputSchema(utteranceSchema),
+  sentiment_analysis: listInputSchema(sentimentResultSchema),
+  entities: listInputSchema(entitySchema),
+  categories: listInputSchema(categoriesSchema.element),
+});
+
+export type CallRecord = z.infer<typeof callRecordSchema>;
+
+// Function to turn a call record into the row written to call_records.
+// Timestamps and the current version are left to the database.
+export function toCallRecordRow(record: CallRecord) {
+  const row = { ...record };
+  delete row.current_version;
+  delete row.created_at;
+  delete row.updated_at;
+  return row;
+}
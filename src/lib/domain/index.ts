@@ -0,0 +1,9 @@
+// lib/domain/index.ts - Shared call, transcript and request schemas, and the types inferred from them
+//
+// Safe to import from client components: nothing here touches the server.
+export * from "./callLog";
+export * from "./transcript";
+export * from "./callRecord";
+export * from "./callOverview";
+export * from "./transcriptVersion";
+export * from "./requests";
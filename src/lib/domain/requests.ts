@@ -0,0 +1,80 @@
+// lib/domain/requests.ts - Request bodies of the API routes that take calls
+import { z } from "zod";
+import { callLogSchema, contactIdSchema } from "./callLog";
+import { callRecordSchema } from "./callRecord";
+import { callOverviewSchema } from "./callOverview";
+import { utteranceSchema } from "./transcript";
+
+export const chatMessageSchema = z.object({
+  role: z.enum(["user", "assistant"]),
+  content: z.string(),
+});
+
+// A call as sent for transcription, optionally with the channel it belongs to
+export const channelCallLogSchema = callLogSchema.extend({
+  channel: z.string().optional(),
+});
+
+// POST /api/get-call-logs
+export const callLogsRequestSchema = z.object({
+  startDate: z.string().optional(),
+  endDate: z.string().optional(),
+  checkSupabase: z.boolean().default(false),
+  channel: z.coerce.string().optional(),
+});
+
+// POST /api/process-calls
+export const processCallsRequestSchema = z.object({
+  contactIds: z.array(contactIdSchema),
+  processTranscriptions: z.boolean().default(true),
+});
+
+// POST /api/transcribe
+export const transcribeRequestSchema = z.object({
+  audioUrl: z.string().optional(),
+  speakerCount: z.number().int().positive().default(2),
+  filename: z.string().min(1, "Filename required"),
+  isDirectSftpFile: z.boolean().default(false),
+  sftpFilename: z.string().nullable().default(null),
+  callData: channelCallLogSchema.nullable().default(null),
+});
+
+// POST /api/openAI/categorise
+export const categoriseRequestSchema = z.object({
+  transcript: z.object({
+    text: z.string().optional(),
+    utterances: z.array(utteranceSchema).min(1, "No utterances found in transcript data"),
+    translation: z.object({ utterances: z.array(utteranceSchema) }).optional(),
+  }),
+  callData: channelCallLogSchema.partial().nullish(),
+});
+
+// POST /api/openAI/ai-query
+export const callsQueryRequestSchema = z.object({
+  message: z.string().min(1, "Message is required"),
+  transcriptionData: z.array(callOverviewSchema),
+  conversationHistory: z.array(chatMessageSchema).default([]),
+  dataFields: z.array(z.string()).default([]),
+});
+
+// POST /api/openAI/ai-query-single-call
+export const callQueryRequestSchema = z.object({
+  message: z.string().min(1, "Message is required"),
+  callData: callRecordSchema,
+  conversationHistory: z.array(chatMessageSchema).default([]),
+});
+
+// POST /api/supabase/transcript-versions/[contactId]
+export const rollbackRequestSchema = z.object({
+  version: z.number().int().positive(),
+});
+
+export type ChatMessage = z.infer<typeof chatMessageSchema>;
+export type ChannelCallLog = z.infer<typeof channelCallLogSchema>;
+
+// Function to describe why a request didn't match its schema, for a 400 response
+export function validationError(error: z.ZodError): string {
+  return error.issues
+    .map((issue) => (issue.path.length > 0 ? `${issue.path.join(".")}: ${issue.message}` : issue.message))
+    .join("; ");
+}
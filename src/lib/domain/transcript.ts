@@ -0,0 +1,77 @@
+// lib/domain/transcript.ts - Utterances, sentiments, entities and categories of a transcribed call
+//
+// Defaults fill in fields that calls transcribed before speaker roles existed
+// don't have, so stored transcripts read back in the current shape.
+import { z } from "zod";
+
+export const speakerRoleSchema = z.enum(["Agent", "Customer", "Unknown"]);
+
+export const sentimentSchema = z.enum(["POSITIVE", "NEUTRAL", "NEGATIVE"]);
+
+export const transcriptWordSchema = z.object({
+  text: z.string(),
+  start: z.number(), // milliseconds
+  end: z.number(),
+  confidence: z.number().default(0),
+  speaker: z.string().nullable().default(null),
+  speakerRole: speakerRoleSchema.default("Unknown"),
+});
+
+export const utteranceSchema = z.object({
+  text: z.string(),
+  start: z.number(),
+  end: z.number(),
+  confidence: z.number().default(0),
+  speaker: z.coerce.string(), // Diarised label ("A", "B") or, for multichannel audio, the channel number ("1", "2")
+  speakerRole: speakerRoleSchema.default("Unknown"),
+  words: z.array(transcriptWordSchema).default([]),
+});
+
+export const sentimentResultSchema = z.object({
+  text: z.string(),
+  start: z.number().default(0),
+  end: z.number().default(0),
+  sentiment: sentimentSchema,
+  confidence: z.number().default(0),
+  speaker: z.string().nullable().default(null),
+});
+
+export const entitySchema = z.object({
+  entity_type: z.string(),
+  text: z.string(),
+  start: z.number().default(0),
+  end: z.number().default(0),
+});
+
+// call_records.categories holds the topic names, most relevant first
+export const categoriesSchema = z.array(z.string());
+
+export const categorisationSchema = z.object({
+  topic_categories: categoriesSchema,
+  primary_category: z.string(),
+  confidence: z.number(),
+});
+
+export type SpeakerRole = z.infer<typeof speakerRoleSchema>;
+export type Sentiment = z.infer<typeof sentimentSchema>;
+export type TranscriptWord = z.infer<typeof transcriptWordSchema>;
+export type TranscriptUtterance = z.infer<typeof utteranceSchema>;
+export type TranscriptSentiment = z.infer<typeof sentimentResultSchema>;
+export type TranscriptEntity = z.infer<typeof entitySchema>;
+export type CategorisationResult = z.infer<typeof categorisationSchema>;
+
+// Function to read a stored list, keeping the entries that match the schema.
+// Anything that isn't a list reads as an empty list.
+export function parseStoredList<T extends z.ZodTypeAny>(schema: T, value: unknown): z.infer<T>[] {
+  if (!Array.isArray(value)) return [];
+
+  return value.flatMap((entry) => {
+    const parsed = schema.safeParse(entry);
+    return parsed.success ? [parsed.data] : [];
+  });
+}
+
+// A jsonb list column read through parseStoredList
+export function storedListSchema<T extends z.ZodTypeAny>(schema: T) {
+  return z.unknown().transform((value) => parseStoredList(schema, value));
+}
@@ -0,0 +1,27 @@
+// lib/domain/transcriptVersion.ts - Saved versions of a call's transcript
+import { z } from "zod";
+import { contactIdSchema, optionalTextSchema, timestampSchema } from "./callLog";
+import { categoriesSchema, storedListSchema } from "./transcript";
+
+// A version as listed in a call's history; the transcript itself is left out
+export const transcriptVersionSchema = z.object({
+  contact_id: contactIdSchema,
+  version: z.number().int(),
+  provider: optionalTextSchema,
+  model: optionalTextSchema,
+  config_hash: optionalTextSchema,
+  primary_category: optionalTextSchema,
+  categories: storedListSchema(categoriesSchema.element),
+  language: optionalTextSchema,
+  call_summary: optionalTextSchema,
+  created_at: timestampSchema,
+});
+
+export const transcriptHistorySchema = z.object({
+  contact_id: contactIdSchema,
+  current_version: z.number().int().nullable(),
+  versions: z.array(transcriptVersionSchema), // Newest first
+});
+
+export type TranscriptVersion = z.infer<typeof transcriptVersionSchema>;
+export type TranscriptHistory = z.infer<typeof transcriptHistorySchema>;
@@ -0,0 +1,37 @@
+// lib/httpRange.ts - Parsing HTTP Range headers for partial responses
+
+export interface ByteRange {
+  start: number;
+  end: number; // Inclusive, as in Content-Range
+}
+
+// Function to resolve a Range header against a file size. Returns null when
+// the whole file should be sent (no header, or one we don't serve such as
+// multiple ranges) and "unsatisfiable" when the range lies outside the file.
+export function parseRangeHeader(
+  header: string | null,
+  size: number
+): ByteRange | "unsatisfiable" | null {
+  if (!header) return null;
+
+  const match = /^bytes=(\d*)-(\d*)$/.exec(header.trim());
+  if (!match || (!match[1] && !match[2])) return null;
+
+  let start: number;
+  let end: number;
+
+  if (!match[1]) {
+    // Suffix range: the last N bytes
+    const suffix = parseInt(match[2], 10);
+    if (suffix === 0) return "unsatisfiable";
+    start = Math.max(0, size - suffix);
+    end = size - 1;
+  } else {
+    start = parseInt(match[1], 10);
+    if (match[2] && parseInt(match[2], 10) < start) return null; // Malformed, so ignored
+    end = match[2] ? Math.min(parseInt(match[2], 10), size - 1) : size - 1;
+  }
+
+  if (start >= size) return "unsatisfiable";
+  return { start, end };
+}
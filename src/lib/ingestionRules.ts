@@ -0,0 +1,165 @@
+// lib/ingestionRules.ts - Which contact_log calls each channel ingests
+import { supabaseAdmin } from './supabaseAdmin';
+
+export interface IngestionRules {
+  campaignIds: number[]; // Empty means every campaign
+  queueNames: string[]; // Empty means every queue
+  excludedDispositions: string[];
+  minCallSeconds: number;
+  agentAllowlist: string[]; // Empty means every agent
+  agentDenylist: string[];
+}
+
+export interface ChannelIngestionRules extends IngestionRules {
+  channel: string;
+  updatedAt: string;
+}
+
+export interface CompiledIngestionQuery {
+  conditions: string[];
+  params: unknown[];
+}
+
+interface RulesRow {
+  channel: string;
+  campaign_ids: number[];
+  queue_names: string[];
+  excluded_dispositions: string[];
+  min_call_seconds: number;
+  agent_allowlist: string[];
+  agent_denylist: string[];
+  updated_at: string;
+}
+
+const RULES_TABLE = 'channel_ingestion_rules';
+
+const LIST_FIELDS = ['queueNames', 'excludedDispositions', 'agentAllowlist', 'agentDenylist'] as const;
+
+// Helper function to turn a stored row into rules
+function toRules(row: RulesRow): ChannelIngestionRules {
+  return {
+    channel: row.channel,
+    campaignIds: row.campaign_ids || [],
+    queueNames: row.queue_names || [],
+    excludedDispositions: row.excluded_dispositions || [],
+    minCallSeconds: row.min_call_seconds || 0,
+    agentAllowlist: row.agent_allowlist || [],
+    agentDenylist: row.agent_denylist || [],
+    updatedAt: row.updated_at,
+  };
+}
+
+// Function to check submitted rules (null means valid)
+export function ingestionRulesError(rules: Record<string, unknown>): string | null {
+  const { campaignIds, minCallSeconds } = rules;
+
+  if (!Array.isArray(campaignIds) || campaignIds.some((id) => !Number.isInteger(id))) {
+    return 'campaignIds must be an array of integers';
+  }
+
+  for (const field of LIST_FIELDS) {
+    const list = rules[field];
+    if (!Array.isArray(list) || list.some((value) => typeof value !== 'string' || !value.trim())) {
+      return `${field} must be an array of non-empty strings`;
+    }
+  }
+
+  if (typeof minCallSeconds !== 'number' || !Number.isInteger(minCallSeconds) || minCallSeconds < 0) {
+    return 'minCallSeconds must be a whole number of seconds';
+  }
+
+  return null;
+}
+
+// Function to compile rules into SQL conditions on reporting.contact_log.
+// Values are only ever passed as parameters ($1, $2, ...), so further
+// conditions can be added from params.length + 1.
+export function compileIngestionRules(rules: IngestionRules): CompiledIngestionQuery {
+  const conditions = ['agent_username IS NOT NULL', 'disposition_title IS NOT NULL'];
+  const params: unknown[] = [];
+  const param = (value: unknown) => {
+    params.push(value);
+    return `$${params.length}`;
+  };
+
+  if (rules.campaignIds.length > 0) {
+    conditions.push(`campaign_id = ANY(${param(rules.campaignIds)})`);
+  }
+  if (rules.queueNames.length > 0) {
+    conditions.push(`queue_name = ANY(${param(rules.queueNames)})`);
+  }
+  if (rules.excludedDispositions.length > 0) {
+    conditions.push(`disposition_title <> ALL(${param(rules.excludedDispositions)})`);
+  }
+  if (rules.minCallSeconds > 0) {
+    conditions.push(`total_call_time >= make_interval(secs => ${param(rules.minCallSeconds)})`);
+  }
+  if (rules.agentAllowlist.length > 0) {
+    conditions.push(`agent_username = ANY(${param(rules.agentAllowlist)})`);
+  }
+  if (rules.agentDenylist.length > 0) {
+    conditions.push(`agent_username <> ALL(${param(rules.agentDenylist)})`);
+  }
+
+  return { conditions, params };
+}
+
+// Function to list every stored channel's rules
+export async function getChannelIngestionRules(): Promise<ChannelIngestionRules[]> {
+  const { data, error } = await supabaseAdmin
+    .from(RULES_TABLE)
+    .select('*')
+    .order('channel', { ascending: true });
+
+  if (error) {
+    throw new Error(`Failed to fetch ingestion rules: ${error.message}`);
+  }
+
+  return ((data as RulesRow[]) || []).map(toRules);
+}
+
+// Function to get a channel's rules (null when it has none and ingests nothing).
+// Errors are thrown rather than falling back, so a lookup failure can't pull in
+// other channels' calls.
+export async function getIngestionRules(channel: string): Promise<ChannelIngestionRules | null> {
+  const { data, error } = await supabaseAdmin
+    .from(RULES_TABLE)
+    .select('*')
+    .eq('channel', channel)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to fetch ingestion rules for channel ${channel}: ${error.message}`);
+  }
+
+  return data ? toRules(data as RulesRow) : null;
+}
+
+// Function to replace a channel's rules
+export async function saveIngestionRules(
+  channel: string,
+  rules: IngestionRules
+): Promise<ChannelIngestionRules> {
+  const tidy = (list: string[]) => Array.from(new Set(list.map((value) => value.trim())));
+
+  const { data, error } = await supabaseAdmin
+    .from(RULES_TABLE)
+    .upsert({
+      channel,
+      campaign_ids: Array.from(new Set(rules.campaignIds)),
+      queue_names: tidy(rules.queueNames),
+      excluded_dispositions: tidy(rules.excludedDispositions),
+      min_call_seconds: rules.minCallSeconds,
+      agent_allowlist: tidy(rules.agentAllowlist),
+      agent_denylist: tidy(rules.agentDenylist),
+      updated_at: new Date().toISOString(),
+    })
+    .select()
+    .single();
+
+  if (error) {
+    throw new Error(`Failed to save ingestion rules for channel ${channel}: ${error.message}`);
+  }
+
+  return toRules(data as RulesRow);
+}
@@ -0,0 +1,211 @@
+// lib/jobQueue.ts - Durable job queue for the call processing pipeline
+import { hostname } from 'os';
+import { randomUUID } from 'crypto';
+import { supabaseAdmin } from './supabaseAdmin';
+import type { IntegrityFailureReason } from './recordingIntegrity';
+
+export type CallJobStatus = 'pending' | 'processing' | 'transcribing' | 'completed' | 'failed';
+
+export interface CallJob {
+  contact_id: string;
+  status: CallJobStatus;
+  attempts: number;
+  max_attempts: number;
+  last_error: string | null;
+  failure_reason: IntegrityFailureReason | null;
+  next_retry_at: string;
+  lease_owner: string | null;
+  lease_expires_at: string | null;
+  transcript_id: string | null;
+  call_data: Record<string, unknown> | null;
+  transcript_submitted_at: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+interface ClaimOptions {
+  limit?: number;
+  leaseSeconds?: number;
+  contactIds?: string[];
+}
+
+const JOB_TABLE = 'call_processing_jobs';
+const LOOKUP_BATCH_SIZE = 100; // Keep .in() filters under the URL length limit
+const DEFAULT_LEASE_SECONDS = 15 * 60; // Longer than the slowest transcription
+const WEBHOOK_LEASE_SECONDS = 60 * 60; // How long to wait for a webhook before retrying
+
+// Function to build a unique lease owner id for this process/request
+export function createLeaseOwner(prefix: string): string {
+  return `${prefix}:${hostname()}:${process.pid}:${randomUUID()}`;
+}
+
+// Function to add calls to the queue (in-flight and failed jobs are left untouched)
+export async function enqueueCallJobs(contactIds: string[]): Promise<number> {
+  if (contactIds.length === 0) return 0;
+
+  const { data, error } = await supabaseAdmin.rpc('enqueue_call_jobs', {
+    p_contact_ids: contactIds,
+  });
+
+  if (error) {
+    throw new Error(`Failed to enqueue call jobs: ${error.message}`);
+  }
+
+  return data ?? 0;
+}
+
+// Function to atomically claim jobs under a lease
+export async function claimCallJobs(
+  owner: string,
+  { limit = 3, leaseSeconds = DEFAULT_LEASE_SECONDS, contactIds }: ClaimOptions = {}
+): Promise<CallJob[]> {
+  const { data, error } = await supabaseAdmin.rpc('claim_call_jobs', {
+    p_owner: owner,
+    p_limit: limit,
+    p_lease_seconds: leaseSeconds,
+    p_contact_ids: contactIds ?? null,
+  });
+
+  if (error) {
+    throw new Error(`Failed to claim call jobs: ${error.message}`);
+  }
+
+  return (data as CallJob[]) || [];
+}
+
+// Function to mark a claimed job as completed
+export async function completeCallJob(contactId: string, owner: string): Promise<boolean> {
+  const { data, error } = await supabaseAdmin.rpc('complete_call_job', {
+    p_contact_id: contactId,
+    p_owner: owner,
+  });
+
+  if (error) {
+    throw new Error(`Failed to complete call job ${contactId}: ${error.message}`);
+  }
+
+  return Boolean(data);
+}
+
+// Function to record a failed attempt (retried with backoff until max_attempts)
+export async function failCallJob(
+  contactId: string,
+  owner: string,
+  errorMessage: string
+): Promise<CallJob | null> {
+  const { data, error } = await supabaseAdmin.rpc('fail_call_job', {
+    p_contact_id: contactId,
+    p_owner: owner,
+    p_error: errorMessage,
+  });
+
+  if (error) {
+    throw new Error(`Failed to record failure for call job ${contactId}: ${error.message}`);
+  }
+
+  return (data as CallJob) || null;
+}
+
+// Function to fail a claimed job without retrying, recording why
+export async function rejectCallJob(
+  contactId: string,
+  owner: string,
+  reason: IntegrityFailureReason,
+  errorMessage: string
+): Promise<CallJob | null> {
+  const { data, error } = await supabaseAdmin.rpc('reject_call_job', {
+    p_contact_id: contactId,
+    p_owner: owner,
+    p_reason: reason,
+    p_error: errorMessage,
+  });
+
+  if (error) {
+    throw new Error(`Failed to reject call job ${contactId}: ${error.message}`);
+  }
+
+  return (data as CallJob) || null;
+}
+
+// Function to park a claimed job until its transcription webhook arrives
+export async function markCallJobTranscribing(
+  contactId: string,
+  owner: string,
+  transcriptId: string,
+  callData: Record<string, unknown> | null = null
+): Promise<boolean> {
+  const { data, error } = await supabaseAdmin.rpc('mark_call_job_transcribing', {
+    p_contact_id: contactId,
+    p_owner: owner,
+    p_transcript_id: transcriptId,
+    p_call_data: callData,
+    p_lease_seconds: WEBHOOK_LEASE_SECONDS,
+  });
+
+  if (error) {
+    throw new Error(`Failed to mark call job ${contactId} as transcribing: ${error.message}`);
+  }
+
+  return Boolean(data);
+}
+
+// Function to find the job waiting on a transcript
+export async function getCallJobByTranscriptId(transcriptId: string): Promise<CallJob | null> {
+  const { data, error } = await supabaseAdmin
+    .from(JOB_TABLE)
+    .select('*')
+    .eq('transcript_id', transcriptId)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to look up job for transcript ${transcriptId}: ${error.message}`);
+  }
+
+  return (data as CallJob) || null;
+}
+
+// Function to check whether a job can be picked up right now
+function isJobAvailable(job: CallJob, now: number): boolean {
+  // Completed jobs are re-enqueued if their call record has gone missing
+  if (job.status === 'completed') return true;
+  if (job.attempts >= job.max_attempts) return false;
+
+  switch (job.status) {
+    case 'pending':
+      return new Date(job.next_retry_at).getTime() <= now;
+    case 'processing':
+    case 'transcribing':
+      return !!job.lease_expires_at && new Date(job.lease_expires_at).getTime() < now;
+    default:
+      return false;
+  }
+}
+
+// Function to find which of the given calls are leased, backing off or exhausted
+export async function getUnavailableContactIds(contactIds: string[]): Promise<Set<string>> {
+  const unavailable = new Set<string>();
+  if (contactIds.length === 0) return unavailable;
+
+  const now = Date.now();
+
+  for (let i = 0; i < contactIds.length; i += LOOKUP_BATCH_SIZE) {
+    const batch = contactIds.slice(i, i + LOOKUP_BATCH_SIZE);
+
+    const { data, error } = await supabaseAdmin
+      .from(JOB_TABLE)
+      .select('*')
+      .in('contact_id', batch);
+
+    if (error) {
+      throw new Error(`Failed to look up call jobs: ${error.message}`);
+    }
+
+    (data as CallJob[] | null)?.forEach((job) => {
+      if (!isJobAvailable(job, now)) {
+        unavailable.add(job.contact_id);
+      }
+    });
+  }
+
+  return unavailable;
+}
@@ -0,0 +1,102 @@
+// lib/language.ts - Expected languages and translation settings per channel
+import { supabaseAdmin } from './supabaseAdmin';
+import { getIngestChannel } from './channelConfig';
+
+export interface ChannelLanguages {
+  channel: string;
+  expected_languages: string[];
+  translate_to_english: boolean;
+  updated_at: string;
+}
+
+export interface LanguageSettings {
+  expectedLanguages: string[]; // Empty means detect any language
+  translateToEnglish: boolean;
+}
+
+const LANGUAGE_TABLE = 'channel_languages';
+
+// Channels without stored settings detect any language and translate to English
+export const DEFAULT_LANGUAGE_SETTINGS: LanguageSettings = {
+  expectedLanguages: [],
+  translateToEnglish: true,
+};
+
+// Function to reduce a language tag to its ISO 639 code ("en_AU" -> "en")
+export function normaliseLanguageCode(language: string): string {
+  return language.trim().toLowerCase().split(/[-_]/)[0];
+}
+
+// Function to check whether a detected language still needs translating
+export function isEnglish(language: string | null | undefined): boolean {
+  return !language || normaliseLanguageCode(language) === 'en';
+}
+
+// Function to check a submitted language list (null means valid)
+export function languagesError(languages: string[]): string | null {
+  const invalid = languages.find((language) => !/^[a-z]{2,3}$/.test(language));
+  if (invalid !== undefined) {
+    return `"${invalid}" is not an ISO 639 language code (e.g. en, mi, tl)`;
+  }
+  return null;
+}
+
+// Function to list every channel's stored language settings
+export async function getChannelLanguages(): Promise<ChannelLanguages[]> {
+  const { data, error } = await supabaseAdmin
+    .from(LANGUAGE_TABLE)
+    .select('*')
+    .order('channel', { ascending: true });
+
+  if (error) {
+    throw new Error(`Failed to fetch channel languages: ${error.message}`);
+  }
+
+  return (data as ChannelLanguages[]) || [];
+}
+
+// Function to replace a channel's language settings
+export async function saveChannelLanguages(
+  channel: string,
+  expectedLanguages: string[],
+  translateToEnglish: boolean
+): Promise<ChannelLanguages> {
+  const { data, error } = await supabaseAdmin
+    .from(LANGUAGE_TABLE)
+    .upsert({
+      channel,
+      expected_languages: Array.from(new Set(expectedLanguages.map(normaliseLanguageCode))),
+      translate_to_english: translateToEnglish,
+      updated_at: new Date().toISOString(),
+    })
+    .select()
+    .single();
+
+  if (error) {
+    throw new Error(`Failed to save languages for channel ${channel}: ${error.message}`);
+  }
+
+  return data as ChannelLanguages;
+}
+
+// Function to get a channel's language settings for a transcription. Like the
+// vocabulary, a lookup error falls back to the default rather than failing the call.
+export async function getLanguageSettings(
+  channel: string = String(getIngestChannel().id)
+): Promise<LanguageSettings> {
+  try {
+    const { data, error } = await supabaseAdmin
+      .from(LANGUAGE_TABLE)
+      .select('expected_languages, translate_to_english')
+      .eq('channel', channel)
+      .maybeSingle();
+
+    if (error) throw new Error(error.message);
+    if (!data) return DEFAULT_LANGUAGE_SETTINGS;
+
+    return { expectedLanguages: data.expected_languages, translateToEnglish: data.translate_to_english };
+  } catch (error) {
+    console.error(`⚠️ Could not load language settings for channel ${channel}, using defaults:`, error);
+    return DEFAULT_LANGUAGE_SETTINGS;
+  }
+}
@@ -0,0 +1,163 @@
+// lib/pipelineLedger.ts - Per-call record of completed pipeline stages
+import { supabaseAdmin } from './supabaseAdmin';
+import { Transcript } from './transcription';
+import type { CategorisationResult } from './domain';
+
+export type LedgerStage =
+  | 'sftp_located'
+  | 'transcript_submitted'
+  | 'transcript_received'
+  | 'categorised'
+  | 'saved'
+  | 'failed';
+
+export interface LedgerEntry {
+  id: number;
+  contact_id: string;
+  stage: LedgerStage;
+  output: Record<string, unknown> | null;
+  error: string | null;
+  lease_owner: string | null;
+  created_at: string;
+}
+
+// What a retry can pick up from instead of starting over
+export interface ResumePoint {
+  sftpPath?: string;
+  transcriptId?: string;
+  provider?: string;
+  transcript?: Transcript;
+  categorisation?: CategorisationResult;
+}
+
+// A transcript as it was received and saved
+export interface SavedTranscript {
+  transcript: Transcript;
+  categorisation?: CategorisationResult;
+}
+
+const LEDGER_TABLE = 'call_pipeline_ledger';
+
+// Function to append a stage to the ledger. A failed write is logged rather
+// than failing the call; the worst case is a retry repeating that stage.
+export async function recordLedgerEntry(
+  contactId: string,
+  stage: LedgerStage,
+  {
+    output = null,
+    error = null,
+    leaseOwner = null,
+  }: { output?: unknown; error?: string | null; leaseOwner?: string | null } = {}
+): Promise<void> {
+  try {
+    const { error: insertError } = await supabaseAdmin.from(LEDGER_TABLE).insert({
+      contact_id: contactId,
+      stage,
+      output,
+      error,
+      lease_owner: leaseOwner,
+    });
+
+    if (insertError) {
+      console.error(`⚠️ Could not record ${stage} in ledger for ${contactId}:`, insertError.message);
+    }
+  } catch (ledgerError) {
+    console.error(`⚠️ Could not record ${stage} in ledger for ${contactId}:`, ledgerError);
+  }
+}
+
+// Function to fetch the full ledger for a call, oldest first
+export async function getLedger(
+  contactId: string,
+  { includeOutput = true }: { includeOutput?: boolean } = {}
+): Promise<LedgerEntry[]> {
+  const { data, error } = await supabaseAdmin
+    .from(LEDGER_TABLE)
+    .select(includeOutput ? '*' : 'id, contact_id, stage, error, lease_owner, created_at')
+    .eq('contact_id', contactId)
+    .order('created_at', { ascending: true })
+    .order('id', { ascending: true });
+
+  if (error) {
+    throw new Error(`Failed to fetch ledger for ${contactId}: ${error.message}`);
+  }
+
+  return ((data as unknown as LedgerEntry[]) || []).map((entry) => ({
+    ...entry,
+    output: entry.output ?? null,
+  }));
+}
+
+// Function to work out where a retry should resume. Only entries after the
+// last save count, so a call re-enqueued after its record was removed starts
+// over rather than reusing an old transcript.
+export function getResumePoint(entries: LedgerEntry[]): ResumePoint {
+  const lastSaved = entries.map((entry) => entry.stage).lastIndexOf('saved');
+  const resume: ResumePoint = {};
+
+  entries.slice(lastSaved + 1).forEach((entry) => {
+    const output = entry.output || {};
+
+    switch (entry.stage) {
+      case 'sftp_located':
+        resume.sftpPath = output.path as string;
+        break;
+      case 'transcript_submitted':
+        // A new submission supersedes any earlier transcript
+        resume.transcriptId = output.transcript_id as string;
+        resume.provider = output.provider as string;
+        delete resume.transcript;
+        delete resume.categorisation;
+        break;
+      case 'transcript_received':
+        resume.transcript = output.transcript as Transcript;
+        delete resume.categorisation;
+        break;
+      case 'categorised':
+        resume.categorisation = output.categorisation as CategorisationResult;
+        break;
+    }
+  });
+
+  return resume;
+}
+
+// Function to find the saved result of a transcript in a call's ledger: the
+// transcript as received and its categorisation. Returns null unless a save
+// followed it, so a transcript still being processed is done again.
+export function findSavedTranscript(
+  entries: LedgerEntry[],
+  transcriptId: string
+): SavedTranscript | null {
+  let received: Partial<SavedTranscript> = {};
+  let saved: SavedTranscript | null = null;
+
+  entries.forEach((entry) => {
+    const output = entry.output || {};
+
+    switch (entry.stage) {
+      case 'transcript_received':
+        received = output.transcript_id === transcriptId ? { transcript: output.transcript as Transcript } : {};
+        break;
+      case 'categorised':
+        if (received.transcript) received.categorisation = output.categorisation as CategorisationResult;
+        break;
+      case 'saved':
+        if (received.transcript) saved = { ...received } as SavedTranscript;
+        break;
+    }
+  });
+
+  return saved;
+}
+
+// Function to load the resume point for a call
+export async function loadResumePoint(contactId: string): Promise<ResumePoint> {
+  try {
+    return getResumePoint(await getLedger(contactId));
+  } catch (error) {
+    // Without the ledger the call simply starts from the beginning
+    console.error(`⚠️ Could not load ledger for ${contactId}, starting over:`, error);
+    return {};
+  }
+}
@@ -0,0 +1,127 @@
+// lib/processingEstimate.ts - Dry-run cost and time estimate for a processing run
+import { locateRecordings } from './recordingIndex';
+import { durationSeconds, type CallLog } from './domain';
+import { getTranscriptionProvider } from './transcription';
+import { CATEGORISATION_MODEL } from './categorise';
+import { getCompletionCost, getTranscriptionCost } from './usage';
+import { BudgetStatus, getBudgetStatus } from './budget';
+import { getIngestChannel } from './channelConfig';
+
+export interface CallEstimate {
+  contact_id: string;
+  recording_location: string;
+  found: boolean;
+  sftp_path: string | null;
+  bytes: number;
+  audio_seconds: number;
+  estimated_cost_usd: number;
+}
+
+export interface ProcessingEstimate {
+  provider: string;
+  callCount: number;
+  foundCount: number;
+  notFoundCount: number;
+  totalBytes: number;
+  audioMinutes: number;
+  transcriptionCostUsd: number;
+  categorisationCostUsd: number;
+  estimatedCostUsd: number;
+  estimatedSeconds: number; // Processing the calls one after another, as the panel does
+  budget: BudgetStatus | null;
+  exceedsBudget: boolean;
+  calls: CallEstimate[];
+}
+
+// Recordings are 8kHz 16-bit mono WAV; only used when contact_log has no duration
+const WAV_BYTES_PER_SECOND = 16000;
+
+// Categorisation prompt size: fixed instructions plus the transcript itself
+const PROMPT_OVERHEAD_TOKENS = 250;
+const TOKENS_PER_AUDIO_MINUTE = 200;
+const COMPLETION_TOKENS = 15;
+
+// Rough timings observed in production
+const SFTP_BYTES_PER_SECOND = 1024 * 1024;
+const PER_CALL_OVERHEAD_SECONDS = 25; // Upload, queueing, categorisation and save
+const TRANSCRIPTION_REALTIME_FACTOR: Record<string, number> = {
+  assemblyai: 0.3,
+  whisper: 0.5,
+};
+
+// Helper function to get a call's length, preferring the duration contact_log reports
+function getAudioSeconds(log: CallLog, bytes: number): number {
+  const loggedSeconds = durationSeconds(log.total_call_time);
+  return loggedSeconds > 0 ? loggedSeconds : bytes / WAV_BYTES_PER_SECOND;
+}
+
+function getCategorisationCost(audioSeconds: number): number {
+  const promptTokens = PROMPT_OVERHEAD_TOKENS + Math.ceil((audioSeconds / 60) * TOKENS_PER_AUDIO_MINUTE);
+  return getCompletionCost(CATEGORISATION_MODEL, promptTokens, COMPLETION_TOKENS);
+}
+
+// Function to estimate what processing these calls would cost and how long it
+// would take. Recording sizes come from the recording index; nothing is downloaded.
+export async function estimateProcessing(logs: CallLog[]): Promise<ProcessingEstimate> {
+  const provider = getTranscriptionProvider();
+  const realtimeFactor = TRANSCRIPTION_REALTIME_FACTOR[provider.name] ?? 0.5;
+
+  const recordings = logs.length > 0 ? await locateRecordings(logs.map((log) => log.recording_location)) : new Map();
+
+  let transcriptionCostUsd = 0;
+  let categorisationCostUsd = 0;
+  let estimatedSeconds = 0;
+
+  const calls: CallEstimate[] = logs.map((log) => {
+    const recording = recordings.get(log.recording_location);
+    const found = !!recording;
+    const bytes = recording ? Number(recording.size) : 0;
+    const audioSeconds = found ? getAudioSeconds(log, bytes) : 0;
+
+    const transcriptionCost = found ? getTranscriptionCost(provider.name, audioSeconds) : 0;
+    const categorisationCost = found ? getCategorisationCost(audioSeconds) : 0;
+
+    transcriptionCostUsd += transcriptionCost;
+    categorisationCostUsd += categorisationCost;
+    if (found) {
+      estimatedSeconds += bytes / SFTP_BYTES_PER_SECOND + audioSeconds * realtimeFactor + PER_CALL_OVERHEAD_SECONDS;
+    }
+
+    return {
+      contact_id: log.contact_id,
+      recording_location: log.recording_location,
+      found,
+      sftp_path: recording?.path ?? null,
+      bytes,
+      audio_seconds: Math.round(audioSeconds),
+      estimated_cost_usd: transcriptionCost + categorisationCost,
+    };
+  });
+
+  const estimatedCostUsd = transcriptionCostUsd + categorisationCostUsd;
+
+  let budget: BudgetStatus | null = null;
+  try {
+    budget = await getBudgetStatus(String(getIngestChannel().id));
+  } catch (error) {
+    console.error('⚠️ Could not check budget for estimate:', error);
+  }
+
+  const foundCount = calls.filter((call) => call.found).length;
+
+  return {
+    provider: provider.name,
+    callCount: calls.length,
+    foundCount,
+    notFoundCount: calls.length - foundCount,
+    totalBytes: calls.reduce((total, call) => total + call.bytes, 0),
+    audioMinutes: calls.reduce((total, call) => total + call.audio_seconds, 0) / 60,
+    transcriptionCostUsd,
+    categorisationCostUsd,
+    estimatedCostUsd,
+    estimatedSeconds: Math.round(estimatedSeconds),
+    budget,
+    exceedsBudget: !!budget && budget.remainingUsd !== null && estimatedCostUsd > budget.remainingUsd,
+    calls,
+  };
+}
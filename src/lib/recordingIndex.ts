@@ -0,0 +1,350 @@
+// lib/recordingIndex.ts - Index of each channel's recordings, built by crawling its store's YYYY/MM/DD tree
+import { supabaseAdmin } from './supabaseAdmin';
+import { getIngestChannel } from './channelConfig';
+import { getRecordingStore, MIN_AUDIO_BYTES, RecordingEntry, RecordingStore } from './recordingStore';
+import type { CallLog } from './domain';
+
+export interface IndexedRecording {
+  channel: string;
+  filename: string;
+  path: string; // Relative to the channel's recording store
+  directory: string;
+  size: number;
+  mtime: string;
+  indexed_at: string;
+}
+
+export interface CrawlReport {
+  channel: string;
+  directoriesCrawled: number;
+  directoriesSkipped: number;
+  recordingsIndexed: number;
+  durationMs: number;
+}
+
+export interface UnmatchedRecording {
+  contact_id: string;
+  recording_location: string;
+  filename: string;
+  initiation_timestamp: string;
+}
+
+export interface RecordingIndexStatus {
+  channel: string;
+  recordings: number;
+  directories: number;
+  lastCrawledAt: string | null;
+}
+
+const RECORDINGS_TABLE = 'sftp_recordings';
+const DIRECTORIES_TABLE = 'sftp_crawled_directories';
+
+const UPSERT_BATCH_SIZE = 500;
+const LOOKUP_BATCH_SIZE = 200;
+
+// A lookup miss crawls for new recordings at most this often
+const CATCH_UP_INTERVAL_MS = 60 * 1000;
+
+// S3 has no directory mtimes, so days this recent are always crawled again
+const RECENT_DAYS = 2;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Function to get the file name a contact_log recording_location refers to
+export function getRecordingFilename(recordingLocation: string): string {
+  let decoded = recordingLocation;
+  try {
+    decoded = decodeURIComponent(recordingLocation);
+  } catch {
+    // Not URL encoded
+  }
+  return decoded.split('/').pop() || decoded;
+}
+
+// Helper function to keep the subdirectories named like a date part ("2026", "01")
+function dateDirectories(list: RecordingEntry[], digits: number): RecordingEntry[] {
+  const pattern = new RegExp(`^\\d{${digits}}$`);
+  return list
+    .filter((entry) => entry.isDirectory && pattern.test(entry.name))
+    .sort((a, b) => a.name.localeCompare(b.name));
+}
+
+// Helper function to list a directory for the crawl. A listing that fails stops
+// the crawl: indexing it as empty would prune the day's recordings and record
+// its mtime, so incremental crawls would skip it from then on.
+async function listDirectory(store: RecordingStore, directory: string): Promise<RecordingEntry[]> {
+  try {
+    return await store.list(directory);
+  } catch (error) {
+    throw new Error(
+      `Crawl stopped listing ${directory || 'the store root'}: ${error instanceof Error ? error.message : error}`
+    );
+  }
+}
+
+async function getCrawledDirectories(channel: string): Promise<Map<string, number>> {
+  const { data, error } = await supabaseAdmin
+    .from(DIRECTORIES_TABLE)
+    .select('directory, directory_mtime')
+    .eq('channel', channel);
+
+  if (error) {
+    throw new Error(`Failed to fetch crawled directories: ${error.message}`);
+  }
+
+  return new Map(
+    (data || []).map((row) => [row.directory as string, new Date(row.directory_mtime).getTime()])
+  );
+}
+
+// Helper function to replace a day directory's recordings in the index. Rows
+// not seen in this crawl are files that have since been removed.
+async function indexDirectory(
+  channel: string,
+  directory: string,
+  directoryMtime: Date,
+  files: RecordingEntry[]
+): Promise<void> {
+  const indexedAt = new Date().toISOString();
+  const rows = files.map((file) => ({
+    channel,
+    filename: file.name,
+    path: file.path,
+    directory,
+    size: file.size,
+    mtime: (file.mtime || directoryMtime).toISOString(),
+    indexed_at: indexedAt,
+  }));
+
+  for (let i = 0; i < rows.length; i += UPSERT_BATCH_SIZE) {
+    const { error } = await supabaseAdmin
+      .from(RECORDINGS_TABLE)
+      .upsert(rows.slice(i, i + UPSERT_BATCH_SIZE), { onConflict: 'channel,filename' });
+
+    if (error) {
+      throw new Error(`Failed to index recordings in ${directory}: ${error.message}`);
+    }
+  }
+
+  const { error: deleteError } = await supabaseAdmin
+    .from(RECORDINGS_TABLE)
+    .delete()
+    .eq('channel', channel)
+    .eq('directory', directory)
+    .lt('indexed_at', indexedAt);
+
+  if (deleteError) {
+    throw new Error(`Failed to prune recordings in ${directory}: ${deleteError.message}`);
+  }
+
+  const { error: stateError } = await supabaseAdmin
+    .from(DIRECTORIES_TABLE)
+    .upsert({
+      channel,
+      directory,
+      directory_mtime: directoryMtime.toISOString(),
+      file_count: rows.length,
+      crawled_at: indexedAt,
+    }, { onConflict: 'channel,directory' });
+
+  if (stateError) {
+    throw new Error(`Failed to record crawl of ${directory}: ${stateError.message}`);
+  }
+}
+
+// Helper function to decide whether a day directory needs listing again. Stores
+// with directory mtimes (SFTP, local) change it whenever a file is added or
+// removed; for S3, already-crawled days are only revisited while recent.
+function isUnchanged(day: RecordingEntry, crawledMtime: number | undefined): boolean {
+  if (crawledMtime === undefined) return false;
+  if (day.mtime) return day.mtime.getTime() === crawledMtime;
+
+  const dayStart = new Date(`${day.path.replace(/\//g, '-')}T00:00:00Z`).getTime();
+  return Date.now() - dayStart > RECENT_DAYS * DAY_MS;
+}
+
+// Function to crawl a channel's recording store into the index. Unchanged day
+// directories are skipped, so after the first run only days with new
+// recordings are listed; pass full to list every day again. Rejects if any
+// listing fails, leaving that day's index and crawl state as they were.
+export async function crawlRecordings({
+  full = false,
+  channel = String(getIngestChannel().id),
+}: { full?: boolean; channel?: string } = {}): Promise<CrawlReport> {
+  const startedAt = Date.now();
+  const crawled = full ? new Map<string, number>() : await getCrawledDirectories(channel);
+  const report: CrawlReport = {
+    channel,
+    directoriesCrawled: 0,
+    directoriesSkipped: 0,
+    recordingsIndexed: 0,
+    durationMs: 0,
+  };
+
+  const store = getRecordingStore(channel);
+
+  try {
+    for (const year of dateDirectories(await listDirectory(store, ''), 4)) {
+      for (const month of dateDirectories(await listDirectory(store, year.path), 2)) {
+        for (const day of dateDirectories(await listDirectory(store, month.path), 2)) {
+          if (isUnchanged(day, crawled.get(day.path))) {
+            report.directoriesSkipped++;
+            continue;
+          }
+
+          const files = (await listDirectory(store, day.path)).filter(
+            (entry) => !entry.isDirectory && entry.name.toLowerCase().endsWith('.wav')
+          );
+
+          // The directory mtime is taken before listing, so files added mid-crawl
+          // change it and get picked up next time
+          const newestFile = Math.max(0, ...files.map((file) => file.mtime?.getTime() || 0));
+          const directoryMtime = day.mtime || new Date(newestFile || Date.now());
+
+          await indexDirectory(channel, day.path, directoryMtime, files);
+          report.directoriesCrawled++;
+          report.recordingsIndexed += files.length;
+        }
+      }
+    }
+  } finally {
+    store.close();
+  }
+
+  report.durationMs = Date.now() - startedAt;
+  console.log(
+    `🗂️ Crawled ${report.directoriesCrawled} directories for channel ${channel} (${report.directoriesSkipped} unchanged), indexed ${report.recordingsIndexed} recordings in ${report.durationMs}ms`
+  );
+  return report;
+}
+
+// Function to look recordings up in a channel's index, keyed by file name
+export async function lookupRecordings(
+  recordingLocations: string[],
+  channel: string = String(getIngestChannel().id)
+): Promise<Map<string, IndexedRecording>> {
+  const filenames = Array.from(new Set(recordingLocations.filter(Boolean).map(getRecordingFilename)));
+  const found = new Map<string, IndexedRecording>();
+
+  for (let i = 0; i < filenames.length; i += LOOKUP_BATCH_SIZE) {
+    const { data, error } = await supabaseAdmin
+      .from(RECORDINGS_TABLE)
+      .select('*')
+      .eq('channel', channel)
+      .in('filename', filenames.slice(i, i + LOOKUP_BATCH_SIZE));
+
+    if (error) {
+      throw new Error(`Failed to look up recordings: ${error.message}`);
+    }
+
+    (data as IndexedRecording[]).forEach((recording) => found.set(recording.filename, recording));
+  }
+
+  return found;
+}
+
+const catchUpCrawls = new Map<string, Promise<unknown>>();
+const lastCatchUpAt = new Map<string, number>();
+
+// Helper function to pick up recordings uploaded since the last crawl. Callers
+// share one crawl per channel, and recordings that are still missing don't
+// trigger another for a minute.
+async function crawlForNewRecordings(channel: string): Promise<void> {
+  let pending = catchUpCrawls.get(channel);
+
+  if (!pending) {
+    if (Date.now() - (lastCatchUpAt.get(channel) || 0) < CATCH_UP_INTERVAL_MS) return;
+
+    pending = crawlRecordings({ channel })
+      .catch((error) => console.error('⚠️ Catch-up crawl failed:', error))
+      .finally(() => {
+        lastCatchUpAt.set(channel, Date.now());
+        catchUpCrawls.delete(channel);
+      });
+    catchUpCrawls.set(channel, pending);
+  }
+
+  await pending;
+}
+
+// Function to find where recordings are in a channel's store, keyed by
+// recording_location. Recordings missing from the index are looked for again
+// after an incremental crawl; ones still missing, or too small to be a call,
+// are left out.
+export async function locateRecordings(
+  recordingLocations: string[],
+  channel: string = String(getIngestChannel().id)
+): Promise<Map<string, IndexedRecording>> {
+  let found = await lookupRecordings(recordingLocations, channel);
+  const isMissing = (location: string) => location && !found.has(getRecordingFilename(location));
+
+  if (recordingLocations.some(isMissing)) {
+    await crawlForNewRecordings(channel);
+    const missing = recordingLocations.filter(isMissing);
+    found = new Map([...found, ...(await lookupRecordings(missing, channel))]);
+  }
+
+  const located = new Map<string, IndexedRecording>();
+  recordingLocations.forEach((location) => {
+    const recording = location ? found.get(getRecordingFilename(location)) : undefined;
+    if (recording && recording.size >= MIN_AUDIO_BYTES) {
+      located.set(location, recording);
+    }
+  });
+
+  return located;
+}
+
+// Function to find where one recording is (null when it isn't indexed)
+export async function locateRecording(
+  recordingLocation: string,
+  channel?: string
+): Promise<IndexedRecording | null> {
+  return (await locateRecordings([recordingLocation], channel)).get(recordingLocation) || null;
+}
+
+// Function to report calls whose recording isn't in the index
+export async function findUnmatchedRecordings(
+  logs: CallLog[],
+  channel?: string
+): Promise<UnmatchedRecording[]> {
+  const withRecordings = logs.filter((log) => log.recording_location);
+  const found = await lookupRecordings(withRecordings.map((log) => log.recording_location), channel);
+
+  return withRecordings
+    .filter((log) => !found.has(getRecordingFilename(log.recording_location)))
+    .map((log) => ({
+      contact_id: log.contact_id,
+      recording_location: log.recording_location,
+      filename: getRecordingFilename(log.recording_location),
+      initiation_timestamp: log.initiation_timestamp,
+    }));
+}
+
+// Function to summarise a channel's index for the status endpoint
+export async function getRecordingIndexStatus(
+  channel: string = String(getIngestChannel().id)
+): Promise<RecordingIndexStatus> {
+  const [recordings, directories, latest] = await Promise.all([
+    supabaseAdmin.from(RECORDINGS_TABLE).select('*', { count: 'exact', head: true }).eq('channel', channel),
+    supabaseAdmin.from(DIRECTORIES_TABLE).select('*', { count: 'exact', head: true }).eq('channel', channel),
+    supabaseAdmin
+      .from(DIRECTORIES_TABLE)
+      .select('crawled_at')
+      .eq('channel', channel)
+      .order('crawled_at', { ascending: false })
+      .limit(1)
+      .maybeSingle(),
+  ]);
+
+  const error = recordings.error || directories.error || latest.error;
+  if (error) {
+    throw new Error(`Failed to fetch recording index status: ${error.message}`);
+  }
+
+  return {
+    channel,
+    recordings: recordings.count || 0,
+    directories: directories.count || 0,
+    lastCrawledAt: latest.data?.crawled_at || null,
+  };
+}
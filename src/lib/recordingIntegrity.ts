@@ -0,0 +1,106 @@
+// lib/recordingIntegrity.ts - Checks that a downloaded recording is worth transcribing
+//
+// Truncated, silent and wrong-call recordings otherwise get transcribed and
+// saved like any other call. Each check failure has its own reason so it can be
+// told apart from download or transcription errors and investigated.
+import { parseWavHeader, measureWavLevels, WavInfo } from './wav';
+import { durationSeconds, type CallLog } from './domain';
+
+export type IntegrityFailureReason = 'invalid_wav' | 'truncated' | 'silent' | 'duration_mismatch';
+
+export interface RecordingIntegrity {
+  ok: boolean;
+  reason: IntegrityFailureReason | null;
+  message: string | null;
+  durationSeconds: number | null;
+  loggedSeconds: number | null;
+  channels: number | null;
+  sampleRate: number | null;
+  levelsDbfs: number[] | null; // Per channel RMS
+}
+
+// Below this on every channel the recording is treated as silence
+const SILENCE_DBFS = parseFloat(process.env.RECORDING_SILENCE_DBFS || '') || -60;
+// Share of the logged call time a recording may differ by, on top of a fixed allowance
+// for the ringing and wrap-up contact_log counts but the recording doesn't
+const DURATION_TOLERANCE = parseFloat(process.env.RECORDING_DURATION_TOLERANCE || '') || 0.25;
+const DURATION_ALLOWANCE_SECONDS = 15;
+// A header's data size may overstate what was written by a few bytes of padding
+const TRUNCATION_SLACK_BYTES = 1024;
+
+// Helper function to get the call length contact_log reports (null when it has none)
+function getLoggedSeconds(log: CallLog): number | null {
+  const total = durationSeconds(log.total_call_time);
+  return total > 0 ? total : null;
+}
+
+// Helper function to get how long the recording actually is. Writers that never
+// went back to fill in the data size leave it 0 or 0xFFFFFFFF, so those are
+// measured from the bytes present instead.
+function getRecordedBytes(buffer: Buffer, info: WavInfo): { declared: number | null; present: number } {
+  const present = Math.max(0, buffer.length - (info.dataOffset ?? buffer.length));
+  const declared = info.dataBytes && info.dataBytes !== 0xffffffff ? info.dataBytes : null;
+  return { declared, present };
+}
+
+const formatSeconds = (seconds: number) => `${Math.round(seconds)}s`;
+
+// Function to check a downloaded WAV recording against its contact_log row.
+// Checks run in order (header, truncation, silence, duration) and stop at the
+// first failure.
+export function checkRecordingIntegrity(buffer: Buffer, log: CallLog): RecordingIntegrity {
+  const info = parseWavHeader(buffer);
+  const loggedSeconds = getLoggedSeconds(log);
+  const result: RecordingIntegrity = {
+    ok: true,
+    reason: null,
+    message: null,
+    durationSeconds: null,
+    loggedSeconds,
+    channels: info?.channels ?? null,
+    sampleRate: info?.sampleRate ?? null,
+    levelsDbfs: null,
+  };
+
+  const fail = (reason: IntegrityFailureReason, message: string): RecordingIntegrity => ({
+    ...result,
+    ok: false,
+    reason,
+    message,
+  });
+
+  if (!info || info.dataOffset === null || info.byteRate <= 0) {
+    return fail('invalid_wav', 'Recording is not a readable WAV file');
+  }
+
+  const { declared, present } = getRecordedBytes(buffer, info);
+  result.durationSeconds = Math.min(declared ?? present, present) / info.byteRate;
+
+  if (declared !== null && present + TRUNCATION_SLACK_BYTES < declared) {
+    return fail(
+      'truncated',
+      `Recording is truncated: ${present} of ${declared} bytes (${formatSeconds(result.durationSeconds)} of ${formatSeconds(declared / info.byteRate)})`
+    );
+  }
+
+  result.levelsDbfs = measureWavLevels(buffer, info);
+  if (result.levelsDbfs && result.levelsDbfs.every((level) => level < SILENCE_DBFS)) {
+    const loudest = Math.max(...result.levelsDbfs);
+    return fail(
+      'silent',
+      `Recording is silent (${Number.isFinite(loudest) ? `${loudest.toFixed(1)} dBFS` : 'no signal'})`
+    );
+  }
+
+  if (loggedSeconds !== null) {
+    const allowed = loggedSeconds * DURATION_TOLERANCE + DURATION_ALLOWANCE_SECONDS;
+    if (Math.abs(result.durationSeconds - loggedSeconds) > allowed) {
+      return fail(
+        'duration_mismatch',
+        `Recording is ${formatSeconds(result.durationSeconds)} but contact_log reports ${formatSeconds(loggedSeconds)}`
+      );
+    }
+  }
+
+  return result;
+}
@@ -0,0 +1,155 @@
+// lib/recordingStore/index.ts - Where each channel's call recordings are stored
+import { getIngestChannel } from '../channelConfig';
+import { createLocalStore } from './localStore';
+import { createS3Store } from './s3Store';
+import { createSftpStore } from './sftpStore';
+import type { RecordingStore, RecordingStoreConfig, RecordingStoreType } from './types';
+
+export * from './types';
+
+// Anything smaller than this is a failed or empty recording
+export const MIN_AUDIO_BYTES = 10000;
+
+const STORE_TYPES: RecordingStoreType[] = ['sftp', 's3', 'local'];
+
+// Channels without configuration read Amazon Connect's recordings as mirrored
+// onto the SFTP server, which drops the bucket name from the front
+export const DEFAULT_RECORDING_STORE: RecordingStoreConfig = {
+  type: 'sftp',
+  root: '.',
+  stripPrefix: 'amazon-connect-b1a9c08821e5/',
+};
+
+let storeConfigs: Record<string, RecordingStoreConfig> | null = null;
+
+// Helper function to parse RECORDING_STORES, a JSON object of store settings
+// keyed by channel id (or "default"), once
+function getStoreConfigs(): Record<string, RecordingStoreConfig> {
+  if (!storeConfigs) {
+    const configs = JSON.parse(process.env.RECORDING_STORES || '{}') as Record<string, RecordingStoreConfig>;
+
+    Object.entries(configs).forEach(([channel, config]) => {
+      if (!STORE_TYPES.includes(config?.type)) {
+        throw new Error(`RECORDING_STORES.${channel} must have a type of ${STORE_TYPES.join(', ')}`);
+      }
+    });
+
+    storeConfigs = configs;
+  }
+  return storeConfigs;
+}
+
+// Function to get the store settings for a channel's recordings
+export function getRecordingStoreConfig(channel: string = String(getIngestChannel().id)): RecordingStoreConfig {
+  const configs = getStoreConfigs();
+  return configs[channel] || configs.default || DEFAULT_RECORDING_STORE;
+}
+
+export function createRecordingStore(config: RecordingStoreConfig): RecordingStore {
+  switch (config.type) {
+    case 's3':
+      return createS3Store(config);
+    case 'local':
+      return createLocalStore(config);
+    default:
+      return createSftpStore(config);
+  }
+}
+
+// Function to open the store a channel's recordings are kept in. Call close()
+// on it when done.
+export function getRecordingStore(channel: string = String(getIngestChannel().id)): RecordingStore {
+  return createRecordingStore(getRecordingStoreConfig(channel));
+}
+
+// Function to map a contact_log recording_location onto a path in the store.
+// Bare file names give null; only the recording index can place those.
+export function getRecordingPath(recordingLocation: string, config: RecordingStoreConfig): string | null {
+  let decoded = recordingLocation;
+  try {
+    decoded = decodeURIComponent(recordingLocation);
+  } catch {
+    console.log(`⚠️ Could not decode recording location: ${recordingLocation}`);
+  }
+
+  if (!decoded.includes('/')) return null;
+
+  if (config.stripPrefix && decoded.startsWith(config.stripPrefix)) {
+    decoded = decoded.slice(config.stripPrefix.length);
+  }
+
+  return decoded.replace(/^(\.\/|\/)+/, '');
+}
+
+// Function to read a whole recording into memory, e.g. to upload it for
+// transcription. A knownPath (from the recording index or an earlier attempt)
+// is tried before the path in recording_location itself, and onLocated
+// reports whichever path the file was actually found at.
+export async function downloadRecording(
+  recordingLocation: string,
+  {
+    channel,
+    knownPath,
+    onProgress,
+    onLocated,
+  }: {
+    channel?: string;
+    knownPath?: string;
+    onProgress?: (bytesReceived: number, bytesTotal: number) => void;
+    onLocated?: (path: string) => void;
+  } = {}
+): Promise<Buffer> {
+  const config = getRecordingStoreConfig(channel);
+  const directPath = getRecordingPath(recordingLocation, config);
+  const candidates = Array.from(new Set([knownPath, directPath].filter((candidate): candidate is string => !!candidate)));
+
+  if (candidates.length === 0) {
+    throw new Error(`Recording ${recordingLocation} is not in the recording index`);
+  }
+
+  const store = createRecordingStore(config);
+
+  try {
+    for (const candidate of candidates) {
+      const stats = await store.stat(candidate);
+
+      if (!stats) {
+        console.log(`Not found in ${config.type} store: ${candidate}`);
+        continue;
+      }
+
+      if (stats.size < MIN_AUDIO_BYTES) {
+        console.log(`File too small: ${stats.size} bytes at ${candidate}`);
+        continue;
+      }
+
+      console.log(`Downloading ${stats.size} bytes from ${candidate}`);
+      onLocated?.(candidate);
+
+      const chunks: Uint8Array[] = [];
+      let received = 0;
+      const reader = (await store.stream(candidate)).getReader();
+
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        chunks.push(value);
+        received += value.length;
+        onProgress?.(received, stats.size);
+      }
+
+      const audioBuffer = Buffer.concat(chunks);
+      console.log(`Downloaded: ${audioBuffer.length} bytes`);
+
+      if (audioBuffer.length !== stats.size) {
+        throw new Error(`Size mismatch: expected ${stats.size}, got ${audioBuffer.length}`);
+      }
+
+      return audioBuffer;
+    }
+  } finally {
+    store.close();
+  }
+
+  throw new Error("Audio file not found");
+}
@@ -0,0 +1,59 @@
+// lib/recordingStore/localStore.ts - Recordings in a directory on this machine
+import fs from 'fs';
+import path from 'path';
+import { Readable } from 'stream';
+import type { RecordingEntry, RecordingStore, RecordingStoreConfig } from './types';
+
+export function createLocalStore(config: RecordingStoreConfig): RecordingStore {
+  const root = path.resolve(config.root || '.');
+
+  // Paths come from contact_log and the index, so never let one leave the root
+  const resolve = (relativePath: string) => {
+    const resolved = path.resolve(root, relativePath.replace(/^\/+/, ''));
+    if (resolved !== root && !resolved.startsWith(root + path.sep)) {
+      throw new Error(`Path ${relativePath} is outside the recording directory`);
+    }
+    return resolved;
+  };
+
+  return {
+    type: 'local',
+
+    list: async (directory) => {
+      const entries = await fs.promises.readdir(resolve(directory), { withFileTypes: true }).catch((error) => {
+        if (error.code === 'ENOENT') return [];
+        throw new Error(`Failed to list ${directory || '/'}: ${error.message}`);
+      });
+
+      const listed = await Promise.all(
+        entries.map(async (entry): Promise<RecordingEntry | null> => {
+          const entryPath = path.posix.join(directory, entry.name);
+          const stats = await fs.promises.stat(resolve(entryPath)).catch(() => null);
+          if (!stats) return null;
+
+          return {
+            name: entry.name,
+            path: entryPath,
+            isDirectory: stats.isDirectory(),
+            size: stats.size,
+            mtime: stats.mtime,
+          };
+        })
+      );
+
+      return listed.filter((entry): entry is RecordingEntry => !!entry);
+    },
+
+    stat: async (filePath) => {
+      const stats = await fs.promises.stat(resolve(filePath)).catch(() => null);
+      return stats?.isFile() ? { size: stats.size, mtime: stats.mtime } : null;
+    },
+
+    stream: async (filePath, range) => {
+      const fileStream = fs.createReadStream(resolve(filePath), range || {});
+      return Readable.toWeb(fileStream) as ReadableStream<Uint8Array>;
+    },
+
+    close: () => undefined,
+  };
+}
@@ -0,0 +1,214 @@
+// lib/recordingStore/s3Store.ts - Recordings in an S3-compatible bucket (Amazon Connect's own, or MinIO)
+//
+// Only needs three read-only calls (ListObjectsV2, HeadObject and GetObject),
+// so requests are signed here with Signature Version 4 rather than pulling in
+// the AWS SDK.
+import crypto from 'crypto';
+import type { RecordingEntry, RecordingStore, RecordingStoreConfig } from './types';
+
+const EMPTY_PAYLOAD_HASH = crypto.createHash('sha256').update('').digest('hex');
+
+export interface S3Credentials {
+  accessKeyId: string;
+  secretAccessKey: string;
+  region: string;
+}
+
+function sha256Hex(data: string): string {
+  return crypto.createHash('sha256').update(data).digest('hex');
+}
+
+function hmac(key: crypto.BinaryLike, data: string): Buffer {
+  return crypto.createHmac('sha256', key).update(data).digest();
+}
+
+// Helper function to percent-encode the way SigV4 expects (RFC 3986)
+function encodeRfc3986(value: string): string {
+  return encodeURIComponent(value).replace(/[!'()*]/g, (c) => `%${c.charCodeAt(0).toString(16).toUpperCase()}`);
+}
+
+// Function to sign an S3 request with Signature Version 4. Every header passed
+// in is signed; the returned headers add the date, payload hash and Authorization.
+export function signS3Request(
+  method: string,
+  url: URL,
+  headers: Record<string, string>,
+  credentials: S3Credentials,
+  now: Date = new Date()
+): Record<string, string> {
+  const amzDate = now.toISOString().replace(/[:-]|\.\d{3}/g, '');
+  const dateStamp = amzDate.slice(0, 8);
+
+  const allHeaders: Record<string, string> = {
+    ...Object.fromEntries(Object.entries(headers).map(([name, value]) => [name.toLowerCase(), value.trim()])),
+    host: url.host,
+    'x-amz-content-sha256': EMPTY_PAYLOAD_HASH,
+    'x-amz-date': amzDate,
+  };
+
+  const headerNames = Object.keys(allHeaders).sort();
+  const canonicalQuery = Array.from(url.searchParams.entries())
+    .map(([name, value]) => [encodeRfc3986(name), encodeRfc3986(value)])
+    .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+    .map(([name, value]) => `${name}=${value}`)
+    .join('&');
+
+  const canonicalRequest = [
+    method,
+    url.pathname,
+    canonicalQuery,
+    headerNames.map((name) => `${name}:${allHeaders[name]}\n`).join(''),
+    headerNames.join(';'),
+    EMPTY_PAYLOAD_HASH,
+  ].join('\n');
+
+  const scope = `${dateStamp}/${credentials.region}/s3/aws4_request`;
+  const stringToSign = ['AWS4-HMAC-SHA256', amzDate, scope, sha256Hex(canonicalRequest)].join('\n');
+
+  const signingKey = ['s3', 'aws4_request'].reduce(
+    (key, part) => hmac(key, part),
+    hmac(hmac(`AWS4${credentials.secretAccessKey}`, dateStamp), credentials.region)
+  );
+  const signature = crypto.createHmac('sha256', signingKey).update(stringToSign).digest('hex');
+
+  return {
+    ...allHeaders,
+    authorization: `AWS4-HMAC-SHA256 Credential=${credentials.accessKeyId}/${scope}, SignedHeaders=${headerNames.join(';')}, Signature=${signature}`,
+  };
+}
+
+// Helper function to read the text of each <tag> element in an S3 XML response
+function xmlValues(xml: string, tag: string): string[] {
+  return Array.from(xml.matchAll(new RegExp(`<${tag}>([\\s\\S]*?)</${tag}>`, 'g'))).map(([, value]) =>
+    value
+      .replace(/&lt;/g, '<')
+      .replace(/&gt;/g, '>')
+      .replace(/&quot;/g, '"')
+      .replace(/&apos;/g, "'")
+      .replace(/&amp;/g, '&')
+  );
+}
+
+export function createS3Store(config: RecordingStoreConfig): RecordingStore {
+  if (!config.bucket) {
+    throw new Error('S3 recording store needs a bucket');
+  }
+
+  const credentials: S3Credentials = {
+    accessKeyId: config.accessKeyId || process.env.S3_ACCESS_KEY_ID || process.env.AWS_ACCESS_KEY_ID || '',
+    secretAccessKey: config.secretAccessKey || process.env.S3_SECRET_ACCESS_KEY || process.env.AWS_SECRET_ACCESS_KEY || '',
+    region: config.region || process.env.S3_REGION || process.env.AWS_REGION || 'us-east-1',
+  };
+
+  if (!credentials.accessKeyId || !credentials.secretAccessKey) {
+    throw new Error('S3 recording store needs S3_ACCESS_KEY_ID and S3_SECRET_ACCESS_KEY');
+  }
+
+  const prefix = (config.root || '').replace(/^\/+|\/+$/g, '');
+  const toKey = (relativePath: string) =>
+    [prefix, relativePath.replace(/^(\.\/|\/)+/, '').replace(/\/+$/, '')].filter(Boolean).join('/');
+
+  // MinIO and most self-hosted stores only support path-style addressing
+  const bucketUrl = config.endpoint
+    ? `${config.endpoint.replace(/\/+$/, '')}/${config.bucket}`
+    : `https://${config.bucket}.s3.${credentials.region}.amazonaws.com`;
+
+  const request = async (method: string, key: string, query: Record<string, string> = {}, headers: Record<string, string> = {}) => {
+    const url = new URL(`${bucketUrl}/${key.split('/').map(encodeRfc3986).join('/')}`);
+    Object.entries(query).forEach(([name, value]) => url.searchParams.set(name, value));
+
+    // Object downloads stream for as long as the reader takes, so only the rest time out
+    const isDownload = method === 'GET' && key !== '';
+
+    // fetch sets Host itself, to the same value that was signed
+    const signedHeaders = signS3Request(method, url, headers, credentials);
+    delete signedHeaders.host;
+
+    return fetch(url, {
+      method,
+      headers: signedHeaders,
+      signal: isDownload ? undefined : AbortSignal.timeout(30000),
+    });
+  };
+
+  return {
+    type: 's3',
+
+    // Lists one level, using "/" as the delimiter so prefixes act as directories
+    list: async (directory) => {
+      const directoryKey = toKey(directory);
+      const listPrefix = directoryKey ? `${directoryKey}/` : '';
+      const entries: RecordingEntry[] = [];
+      let continuationToken: string | undefined;
+
+      do {
+        const response = await request('GET', '', {
+          'list-type': '2',
+          prefix: listPrefix,
+          delimiter: '/',
+          ...(continuationToken ? { 'continuation-token': continuationToken } : {}),
+        });
+
+        if (!response.ok) {
+          throw new Error(`Failed to list s3://${config.bucket}/${listPrefix}: ${response.status}`);
+        }
+
+        const xml = await response.text();
+        const toEntryPath = (name: string) => (directory ? `${directory.replace(/\/+$/, '')}/${name}` : name);
+
+        xmlValues(xml, 'CommonPrefixes').forEach((commonPrefix) => {
+          const name = xmlValues(commonPrefix, 'Prefix')[0].slice(listPrefix.length).replace(/\/$/, '');
+          entries.push({ name, path: toEntryPath(name), isDirectory: true, size: 0, mtime: null });
+        });
+
+        xmlValues(xml, 'Contents').forEach((object) => {
+          const name = xmlValues(object, 'Key')[0].slice(listPrefix.length);
+          if (!name) return;
+          entries.push({
+            name,
+            path: toEntryPath(name),
+            isDirectory: false,
+            size: parseInt(xmlValues(object, 'Size')[0], 10),
+            mtime: new Date(xmlValues(object, 'LastModified')[0]),
+          });
+        });
+
+        continuationToken = xmlValues(xml, 'IsTruncated')[0] === 'true'
+          ? xmlValues(xml, 'NextContinuationToken')[0]
+          : undefined;
+      } while (continuationToken);
+
+      return entries;
+    },
+
+    stat: async (filePath) => {
+      const response = await request('HEAD', toKey(filePath));
+      if (response.status === 404) return null;
+      if (!response.ok) {
+        throw new Error(`Failed to stat s3://${config.bucket}/${toKey(filePath)}: ${response.status}`);
+      }
+
+      return {
+        size: parseInt(response.headers.get('content-length') || '0', 10),
+        mtime: new Date(response.headers.get('last-modified') || Date.now()),
+      };
+    },
+
+    stream: async (filePath, range) => {
+      const response = await request(
+        'GET',
+        toKey(filePath),
+        {},
+        range ? { range: `bytes=${range.start}-${range.end}` } : {}
+      );
+
+      if (!response.ok || !response.body) {
+        throw new Error(`Failed to read s3://${config.bucket}/${toKey(filePath)}: ${response.status}`);
+      }
+
+      return response.body;
+    },
+
+    close: () => undefined,
+  };
+}
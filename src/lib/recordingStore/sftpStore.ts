@@ -0,0 +1,90 @@
+// lib/recordingStore/sftpStore.ts - Recordings on the SFTP server
+import type { SFTPWrapper, Stats } from 'ssh2';
+import { acquireSftp, withSftp } from '../sftp';
+import type { RecordingStore, RecordingStoreConfig } from './types';
+
+const SFTP_NO_SUCH_FILE = 2; // SSH_FX_NO_SUCH_FILE
+
+export function createSftpStore(config: RecordingStoreConfig): RecordingStore {
+  const root = (config.root || '.').replace(/\/+$/, '');
+  const resolve = (relativePath: string) =>
+    relativePath ? `${root}/${relativePath.replace(/^(\.\/|\/)+/, '')}` : root;
+
+  const stat = (sftp: SFTPWrapper, remotePath: string) =>
+    new Promise<Stats | null>((resolveStat) => {
+      sftp.stat(remotePath, (statErr, stats) => resolveStat(statErr ? null : stats));
+    });
+
+  return {
+    type: 'sftp',
+
+    // list() and stat() borrow a pooled session for each call
+    list: (directory) =>
+      withSftp(
+        (sftp) =>
+          new Promise((resolveList, rejectList) => {
+            sftp.readdir(resolve(directory), (err, list) => {
+              if (err) {
+                // A missing directory has nothing in it; any other failure is an error
+                if ((err as Error & { code?: number }).code === SFTP_NO_SUCH_FILE) return resolveList([]);
+                return rejectList(new Error(`Failed to list ${directory || '/'}: ${err.message}`));
+              }
+
+              resolveList(
+                list.map((entry) => ({
+                  name: entry.filename,
+                  path: directory ? `${directory.replace(/\/+$/, '')}/${entry.filename}` : entry.filename,
+                  isDirectory: entry.attrs.isDirectory(),
+                  size: entry.attrs.size,
+                  mtime: new Date(entry.attrs.mtime * 1000),
+                }))
+              );
+            });
+          })
+      ),
+
+    stat: async (filePath) => {
+      const stats = await withSftp((sftp) => stat(sftp, resolve(filePath)));
+      return stats?.isFile() ? { size: stats.size, mtime: new Date(stats.mtime * 1000) } : null;
+    },
+
+    // Each stream holds a pooled session until it ends, fails or is cancelled
+    // by the client. A failed session isn't reused.
+    stream: async (filePath, range) => {
+      const { sftp, release } = await acquireSftp();
+      const readStream = sftp.createReadStream(resolve(filePath), {
+        highWaterMark: 256 * 1024,
+        ...(range ? { start: range.start, end: range.end } : {}),
+      });
+
+      return new ReadableStream<Uint8Array>({
+        start(controller) {
+          readStream.on('data', (chunk: Buffer) => {
+            controller.enqueue(new Uint8Array(chunk));
+            // Backpressure: wait for the reader to catch up
+            if ((controller.desiredSize ?? 1) <= 0) readStream.pause();
+          });
+          readStream.on('end', () => {
+            controller.close();
+            release();
+          });
+          readStream.on('error', (readErr: Error) => {
+            console.error(`Stream error for ${filePath}: ${readErr.message}`);
+            controller.error(readErr);
+            release(true);
+          });
+        },
+        pull() {
+          readStream.resume();
+        },
+        cancel() {
+          readStream.destroy();
+          release();
+        },
+      });
+    },
+
+    // Sessions go back to the pool, which closes them once idle
+    close: () => undefined,
+  };
+}
@@ -0,0 +1,48 @@
+// lib/recordingStore/types.ts - Types shared by the recording store backends
+import type { ByteRange } from '../httpRange';
+
+export type RecordingStoreType = 'sftp' | 's3' | 'local';
+
+export interface RecordingEntry {
+  name: string;
+  path: string; // Relative to the store root, usable with stat() and stream()
+  isDirectory: boolean;
+  size: number;
+  mtime: Date | null; // null for S3 "directories", which are only key prefixes
+}
+
+export interface RecordingStat {
+  size: number;
+  mtime: Date;
+}
+
+// Where a channel's recordings are kept and how contact_log's recording_location
+// maps onto a path in the store
+export interface RecordingStoreConfig {
+  type: RecordingStoreType;
+  // Directory (sftp, local) or key prefix (s3) the recordings sit under
+  root?: string;
+  // Removed from the start of recording_location before it's used as a path
+  stripPrefix?: string;
+  // s3 only
+  bucket?: string;
+  region?: string;
+  endpoint?: string; // e.g. http://localhost:9000 for MinIO; path-style addressing is used when set
+  accessKeyId?: string;
+  secretAccessKey?: string;
+}
+
+// Paths passed to a store are relative to its root. Stores hold whatever
+// connection they need until close() is called; streams clean up after
+// themselves once read or cancelled.
+export interface RecordingStore {
+  type: RecordingStoreType;
+  // Entries directly inside a directory, or nothing if it doesn't exist. Rejects
+  // when the listing fails, so a failure is never mistaken for an empty directory.
+  list: (directory: string) => Promise<RecordingEntry[]>;
+  // null when there's no such file
+  stat: (path: string) => Promise<RecordingStat | null>;
+  // All of the file, or the inclusive byte range given
+  stream: (path: string, range?: ByteRange) => Promise<ReadableStream<Uint8Array>>;
+  close: () => void;
+}
@@ -0,0 +1,6 @@
+// lib/redaction/index.ts - PII redaction of transcripts before storage
+export * from "./types";
+export { classifyNumber, findPii } from "./rules";
+export { redactTranscript } from "./redactor";
+export type { RedactableTranscript } from "./redactor";
+export * from "./policy";
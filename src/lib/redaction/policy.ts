@@ -0,0 +1,220 @@
+// lib/redaction/policy.ts - Per-channel redaction policies and the unredacted copy store
+import { supabaseAdmin } from "../supabaseAdmin";
+import { getIngestChannel } from "../channelConfig";
+import type { Transcript } from "../transcription";
+import { redactTranscript, RedactableTranscript } from "./redactor";
+import { PiiType, RedactionAction, RedactionFindings, RedactionPolicy } from "./types";
+
+export interface ChannelRedactionPolicy extends RedactionPolicy {
+  channel: string;
+  updatedAt: string | null; // null when the channel uses the default
+}
+
+export interface UnredactedCopy {
+  contact_id: string;
+  channel: string | null;
+  transcript_text: string | null;
+  speaker_data: unknown;
+  sentiment_analysis: unknown;
+  entities: unknown;
+  call_summary: string | null;
+  created_at: string;
+}
+
+interface PolicyRow {
+  channel: string;
+  enabled: boolean;
+  actions: Partial<Record<PiiType, RedactionAction>> | null;
+  provider_redaction: boolean;
+  keep_unredacted: boolean;
+  updated_at: string;
+}
+
+const POLICY_TABLE = "channel_redaction_policies";
+const UNREDACTED_TABLE = "call_records_unredacted";
+
+export const PII_TYPES: PiiType[] = ["phone", "tfn", "medicare", "credit_card", "email", "address", "account_number"];
+export const REDACTION_ACTIONS: RedactionAction[] = ["mask", "hash", "drop"];
+
+// AssemblyAI policies that cover each PII type. It has nothing for TFNs or
+// Medicare numbers, so those are only ever caught locally.
+const PROVIDER_POLICIES: Record<PiiType, string[]> = {
+  phone: ["phone_number"],
+  tfn: [],
+  medicare: [],
+  credit_card: ["credit_card_number", "credit_card_cvv", "credit_card_expiration"],
+  email: ["email_address"],
+  address: ["location"],
+  account_number: ["banking_information", "account_number"],
+};
+
+// Channels without a stored policy mask everything locally
+export const DEFAULT_REDACTION_POLICY: RedactionPolicy = {
+  enabled: true,
+  actions: Object.fromEntries(PII_TYPES.map((type) => [type, "mask"])) as Record<PiiType, RedactionAction>,
+  providerRedaction: false,
+  keepUnredacted: false,
+};
+
+// Helper function to turn a stored row into a full policy, masking any type it leaves out
+function toPolicy(row: PolicyRow): ChannelRedactionPolicy {
+  return {
+    channel: row.channel,
+    enabled: row.enabled,
+    actions: { ...DEFAULT_REDACTION_POLICY.actions, ...(row.actions || {}) },
+    providerRedaction: row.provider_redaction,
+    keepUnredacted: row.keep_unredacted,
+    updatedAt: row.updated_at,
+  };
+}
+
+// Function to check submitted actions (null means valid)
+export function redactionActionsError(actions: Record<string, unknown>): string | null {
+  for (const [type, action] of Object.entries(actions)) {
+    if (!PII_TYPES.includes(type as PiiType)) {
+      return `Unknown PII type "${type}". Use one of: ${PII_TYPES.join(", ")}`;
+    }
+    if (!REDACTION_ACTIONS.includes(action as RedactionAction)) {
+      return `Action for ${type} must be one of: ${REDACTION_ACTIONS.join(", ")}`;
+    }
+  }
+  return null;
+}
+
+// Function to list every stored policy
+export async function getRedactionPolicies(): Promise<ChannelRedactionPolicy[]> {
+  const { data, error } = await supabaseAdmin
+    .from(POLICY_TABLE)
+    .select("*")
+    .order("channel", { ascending: true });
+
+  if (error) {
+    throw new Error(`Failed to fetch redaction policies: ${error.message}`);
+  }
+
+  return ((data as PolicyRow[]) || []).map(toPolicy);
+}
+
+// Function to get the policy for a channel, falling back to the default
+export async function getRedactionPolicy(
+  channel: string = String(getIngestChannel().id)
+): Promise<ChannelRedactionPolicy> {
+  const { data, error } = await supabaseAdmin
+    .from(POLICY_TABLE)
+    .select("*")
+    .eq("channel", channel)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to fetch redaction policy for channel ${channel}: ${error.message}`);
+  }
+
+  return data ? toPolicy(data as PolicyRow) : { ...DEFAULT_REDACTION_POLICY, channel, updatedAt: null };
+}
+
+// Function to replace a channel's policy
+export async function saveRedactionPolicy(
+  channel: string,
+  policy: RedactionPolicy
+): Promise<ChannelRedactionPolicy> {
+  const { data, error } = await supabaseAdmin
+    .from(POLICY_TABLE)
+    .upsert({
+      channel,
+      enabled: policy.enabled,
+      actions: policy.actions,
+      provider_redaction: policy.providerRedaction,
+      keep_unredacted: policy.keepUnredacted,
+      updated_at: new Date().toISOString(),
+    })
+    .select()
+    .single();
+
+  if (error) {
+    throw new Error(`Failed to save redaction policy for channel ${channel}: ${error.message}`);
+  }
+
+  return toPolicy(data as PolicyRow);
+}
+
+// Function to get the provider-side redaction to request, if any. Skipped when
+// the original has to be kept, since the provider never returns it.
+export function getProviderRedaction(policy: RedactionPolicy): { policies: string[] } | null {
+  if (!policy.enabled || !policy.providerRedaction || policy.keepUnredacted) return null;
+
+  return { policies: PII_TYPES.flatMap((type) => PROVIDER_POLICIES[type]) };
+}
+
+// Function to store the original transcript for a call
+export async function storeUnredactedCopy(
+  contactId: string,
+  channel: string,
+  transcript: RedactableTranscript
+): Promise<void> {
+  const { error } = await supabaseAdmin.from(UNREDACTED_TABLE).upsert({
+    contact_id: contactId,
+    channel,
+    transcript_text: transcript.text || null,
+    speaker_data: transcript.utterances || null,
+    sentiment_analysis: transcript.sentiment_analysis_results || null,
+    entities: transcript.entities || null,
+    call_summary: transcript.summary || null,
+  });
+
+  if (error) {
+    throw new Error(`Failed to store unredacted copy of ${contactId}: ${error.message}`);
+  }
+}
+
+// Function to fetch the original transcript for a call (null when none was kept)
+export async function getUnredactedCopy(contactId: string): Promise<UnredactedCopy | null> {
+  const { data, error } = await supabaseAdmin
+    .from(UNREDACTED_TABLE)
+    .select("*")
+    .eq("contact_id", contactId)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to fetch unredacted copy of ${contactId}: ${error.message}`);
+  }
+
+  return (data as UnredactedCopy) || null;
+}
+
+// Function to redact a transcript under its channel's policy before it's stored
+// anywhere. The original is kept first when the policy asks for it; if that
+// fails the call fails rather than losing the original. Pass keepCopy: false
+// when the input may already be redacted, so a copy is never overwritten.
+export async function applyRedaction<T extends RedactableTranscript>(
+  transcript: T,
+  {
+    contactId,
+    channel = String(getIngestChannel().id),
+    keepCopy = true,
+  }: { contactId?: string; channel?: string; keepCopy?: boolean } = {}
+): Promise<{ transcript: T; findings: RedactionFindings }> {
+  const policy = await getRedactionPolicy(channel);
+
+  if (policy.enabled && policy.keepUnredacted && keepCopy && contactId) {
+    await storeUnredactedCopy(contactId, channel, transcript);
+  }
+
+  const result = redactTranscript(transcript, policy);
+
+  const total = Object.values(result.findings).reduce((sum, count) => sum + (count || 0), 0);
+  if (total > 0) {
+    console.log(`🔏 Redacted ${total} PII value(s)${contactId ? ` from ${contactId}` : ""}:`, result.findings);
+  }
+
+  return result;
+}
+
+// Function to redact a finished transcript and attach what was found, for
+// callers that pass the transcript on to be saved
+export async function redactFinishedTranscript(
+  transcript: Transcript,
+  options: { contactId?: string; channel?: string; keepCopy?: boolean } = {}
+): Promise<Transcript> {
+  const { transcript: redacted, findings } = await applyRedaction(transcript, options);
+  return { ...redacted, pii_findings: findings };
+}
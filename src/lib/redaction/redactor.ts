@@ -0,0 +1,160 @@
+// lib/redaction/redactor.ts - Apply a redaction policy to a transcript
+import { createHmac } from "crypto";
+import type { Transcript, TranscriptEntity, TranscriptWord } from "../transcription";
+import { findPii, KnownTerm } from "./rules";
+import { PiiMatch, PiiType, RedactionFindings, RedactionPolicy } from "./types";
+
+// Provider entity types that count as PII, and what we treat them as
+const ENTITY_PII_TYPES: Record<string, PiiType> = {
+  phone_number: "phone",
+  credit_card_number: "credit_card",
+  credit_card_cvv: "credit_card",
+  credit_card_expiration: "credit_card",
+  email_address: "email",
+  location: "address",
+  banking_information: "account_number",
+  account_number: "account_number",
+};
+
+// The transcript fields that end up in call_records
+export type RedactableTranscript = Pick<
+  Transcript,
+  "text" | "utterances" | "sentiment_analysis_results" | "entities" | "summary"
+> &
+  Partial<Pick<Transcript, "words">>;
+
+// Helper function to build the replacement for one match according to the policy
+function getReplacement(policy: RedactionPolicy, type: PiiType, value: string): string {
+  const action = policy.actions[type];
+  if (action === "drop") return "";
+
+  const label = type.toUpperCase();
+  const secret = process.env.REDACTION_HASH_SECRET;
+  if (action === "hash" && secret) {
+    // Normalise so "0412 345 678" and "0412-345-678" hash the same
+    const normalised = type === "email" || type === "address"
+      ? value.trim().toLowerCase()
+      : value.replace(/\D/g, "");
+    return `[${label}:${createHmac("sha256", secret).update(normalised).digest("hex").slice(0, 12)}]`;
+  }
+
+  // Hashing without a secret would be reversible for short numbers, so mask instead
+  return `[${label}]`;
+}
+
+// Helper function to build the redaction functions for one transcript
+function createRedactor(policy: RedactionPolicy, entities: TranscriptEntity[]) {
+  const knownTerms: KnownTerm[] = entities
+    .filter((entity) => ENTITY_PII_TYPES[entity.entity_type])
+    .map((entity) => ({ type: ENTITY_PII_TYPES[entity.entity_type], text: entity.text }));
+
+  const text = (value: string | null): string | null => {
+    if (!value) return value;
+
+    const matches = findPii(value, knownTerms);
+    if (matches.length === 0) return value;
+
+    let result = "";
+    let cursor = 0;
+    matches.forEach((match) => {
+      result += value.slice(cursor, match.start) + getReplacement(policy, match.type, match.value);
+      cursor = match.end;
+    });
+    result += value.slice(cursor);
+
+    // Dropped values leave doubled spaces behind
+    return result.replace(/ {2,}/g, " ").trim();
+  };
+
+  // Words carry timings, so a number spread over several words becomes one
+  // word spanning all of them
+  const words = <W extends TranscriptWord>(values: W[]): W[] => {
+    if (!values || values.length === 0) return values;
+
+    const spans: { start: number; end: number }[] = [];
+    let offset = 0;
+    values.forEach((word) => {
+      spans.push({ start: offset, end: offset + word.text.length });
+      offset += word.text.length + 1;
+    });
+
+    const matches = findPii(values.map((word) => word.text).join(" "), knownTerms);
+    if (matches.length === 0) return values;
+
+    const result: W[] = [];
+    let current: { match: PiiMatch; word: W } | null = null;
+
+    values.forEach((word, i) => {
+      const span = spans[i];
+      const match = matches.find((m) => m.start < span.end && m.end > span.start);
+
+      if (!match) {
+        current = null;
+        result.push(word);
+        return;
+      }
+
+      const suffix = match.end < span.end ? word.text.slice(match.end - span.start) : "";
+
+      if (current && current.match === match) {
+        current.word.end = word.end;
+        current.word.text += suffix;
+        return;
+      }
+
+      const prefix = match.start > span.start ? word.text.slice(0, match.start - span.start) : "";
+      const redacted = { ...word, text: prefix + getReplacement(policy, match.type, match.value) + suffix };
+      current = { match, word: redacted };
+      result.push(redacted);
+    });
+
+    return result.filter((word) => word.text.trim() !== "");
+  };
+
+  const entityList = (values: TranscriptEntity[]): TranscriptEntity[] =>
+    (values || []).flatMap((entity) => {
+      const type = ENTITY_PII_TYPES[entity.entity_type];
+      if (!type) return [{ ...entity, text: text(entity.text) || "" }];
+      if (policy.actions[type] === "drop") return [];
+      return [{ ...entity, text: getReplacement(policy, type, entity.text) }];
+    });
+
+  // Counted on the full text only, since utterances, words and sentiment repeat it
+  const findings = (value: string | null): RedactionFindings =>
+    findPii(value || "", knownTerms).reduce<RedactionFindings>((counts, match) => {
+      counts[match.type] = (counts[match.type] || 0) + 1;
+      return counts;
+    }, {});
+
+  return { text, words, entities: entityList, findings };
+}
+
+// Function to redact every stored field of a transcript. Safe to run twice:
+// tokens from an earlier pass are left alone.
+export function redactTranscript<T extends RedactableTranscript>(
+  transcript: T,
+  policy: RedactionPolicy
+): { transcript: T; findings: RedactionFindings } {
+  if (!policy.enabled) return { transcript, findings: {} };
+
+  const redactor = createRedactor(policy, transcript.entities || []);
+
+  const redacted: T = {
+    ...transcript,
+    text: redactor.text(transcript.text) || "",
+    utterances: (transcript.utterances || []).map((utterance) => ({
+      ...utterance,
+      text: redactor.text(utterance.text) || "",
+      words: redactor.words(utterance.words || []),
+    })),
+    sentiment_analysis_results: (transcript.sentiment_analysis_results || []).map((sentiment) => ({
+      ...sentiment,
+      text: redactor.text(sentiment.text) || "",
+    })),
+    entities: redactor.entities(transcript.entities),
+    summary: redactor.text(transcript.summary),
+    ...(transcript.words && { words: redactor.words(transcript.words) }),
+  };
+
+  return { transcript: redacted, findings: redactor.findings(transcript.text) };
+}
@@ -0,0 +1,42 @@
+// lib/redaction/rules.test.ts - Rule-based PII detection
+import { describe, expect, it } from "vitest";
+import { findPii } from "./rules";
+
+const found = (text: string) => findPii(text).map((match) => [match.type, match.value]);
+
+describe("findPii", () => {
+  it("finds single numbers by their checks", () => {
+    expect(found("card 4111 1111 1111 1111 please")).toEqual([["credit_card", "4111 1111 1111 1111"]]);
+    expect(found("call me on 0412 345 678")).toEqual([["phone", "0412 345 678"]]);
+    expect(found("it's (02) 9876 5432")).toEqual([["phone", "(02) 9876 5432"]]);
+    expect(found("my TFN is 123 456 782")).toEqual([["tfn", "123 456 782"]]);
+    expect(found("medicare 2123 45670 1")).toEqual([["medicare", "2123 45670 1"]]);
+  });
+
+  it("leaves numbers that fail every check alone", () => {
+    expect(found("consignment 123 456 789 012")).toEqual([]);
+  });
+
+  it("splits a card read out with its expiry", () => {
+    expect(found("4111 1111 1111 1111 0527")).toEqual([["credit_card", "4111 1111 1111 1111"]]);
+    expect(found("4111 1111 1111 1111 12/27")).toEqual([["credit_card", "4111 1111 1111 1111"]]);
+  });
+
+  it("splits a phone number read out with a TFN", () => {
+    expect(found("0412 345 678 123 456 782")).toEqual([
+      ["phone", "0412 345 678"],
+      ["tfn", "123 456 782"],
+    ]);
+  });
+
+  it("splits two phone numbers read out together", () => {
+    expect(found("0412 345 678 02 9876 5432")).toEqual([
+      ["phone", "0412 345 678"],
+      ["phone", "02 9876 5432"],
+    ]);
+  });
+
+  it("skips numbers already redacted", () => {
+    expect(found("call [PHONE_NUMBER] or 0412 345 678")).toEqual([["phone", "0412 345 678"]]);
+  });
+});
@@ -0,0 +1,156 @@
+// lib/redaction/rules.ts - Rule-based PII detection for AU/NZ formats
+//
+// Numbers are matched as runs of digits (allowing spaces, dashes, dots and
+// brackets between them) and then classified by their digits and check
+// digits. A run can hold several numbers read out back to back, so it's
+// classified in pieces split at its spaces. Numbers read out as words ("oh four one two...") aren't caught here;
+// provider-side redaction covers some of those.
+import { PiiMatch, PiiType } from "./types";
+
+export interface KnownTerm {
+  type: PiiType;
+  text: string;
+}
+
+// Tokens left by an earlier pass (ours or the provider's) are never re-matched
+const REDACTION_TOKEN = /\[[A-Z_]+(?::[0-9a-f]+)?\]/g;
+
+const NUMBER_RUN = /\+?\(?\d[\d\s().-]{5,}\d/g;
+const NUMBER_GROUP = /\S+/g;
+// Longest number any check accepts (a 19-digit card)
+const MAX_NUMBER_DIGITS = 19;
+const EMAIL = /[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}/g;
+
+// Shortest a provider-detected term can be before it's matched elsewhere in the text
+const MIN_KNOWN_TERM_LENGTH = 3;
+
+function luhnValid(digits: string): boolean {
+  let sum = 0;
+  for (let i = 0; i < digits.length; i++) {
+    let digit = Number(digits[digits.length - 1 - i]);
+    if (i % 2 === 1) {
+      digit *= 2;
+      if (digit > 9) digit -= 9;
+    }
+    sum += digit;
+  }
+  return sum % 10 === 0;
+}
+
+// Medicare: first digit 2-6, weighted check digit in position 9, optional IRN
+function medicareValid(digits: string): boolean {
+  if (!/^[2-6]\d{9,10}$/.test(digits)) return false;
+  const weights = [1, 3, 7, 9, 1, 3, 7, 9];
+  const sum = weights.reduce((total, weight, i) => total + weight * Number(digits[i]), 0);
+  return sum % 10 === Number(digits[8]);
+}
+
+// Tax File Number: 8 or 9 digits whose weighted sum is divisible by 11
+function tfnValid(digits: string): boolean {
+  const weights =
+    digits.length === 9
+      ? [1, 4, 3, 7, 5, 8, 6, 9, 10]
+      : digits.length === 8
+        ? [10, 7, 8, 4, 6, 3, 5, 1]
+        : null;
+  if (!weights) return false;
+  const sum = weights.reduce((total, weight, i) => total + weight * Number(digits[i]), 0);
+  return sum % 11 === 0;
+}
+
+function phoneValid(digits: string): boolean {
+  return (
+    /^(?:61|0)[23478]\d{8}$/.test(digits) || // AU mobiles and landlines
+    /^1[38]00\d{6}$/.test(digits) || // AU 1300/1800
+    /^(?:64|0)(?:2\d{7,9}|[34679]\d{7})$/.test(digits) // NZ mobiles and landlines
+  );
+}
+
+// Function to classify a run of digits, most specific check first
+export function classifyNumber(digits: string): PiiType | null {
+  if (digits.length >= 13 && digits.length <= 19 && luhnValid(digits)) return "credit_card";
+  if (medicareValid(digits)) return "medicare";
+  if (tfnValid(digits)) return "tfn";
+  if (phoneValid(digits)) return "phone";
+  return null;
+}
+
+// Helper function to find the numbers in a run. From each space-separated group
+// the longest span of groups that classifies is taken, so a card followed by
+// its expiry, or a phone number followed by a TFN, is matched as two numbers
+// rather than one run that fails every check.
+function classifyRun(run: string, offset: number): PiiMatch[] {
+  const groups = Array.from(run.matchAll(NUMBER_GROUP)).map((m) => ({
+    start: m.index!,
+    end: m.index! + m[0].length,
+    digits: m[0].replace(/\D/g, ""),
+  }));
+  const matches: PiiMatch[] = [];
+
+  let i = 0;
+  while (i < groups.length) {
+    let next = i + 1;
+    for (let j = groups.length - 1; j >= i; j--) {
+      const digits = groups.slice(i, j + 1).map((group) => group.digits).join("");
+      if (digits.length > MAX_NUMBER_DIGITS) continue;
+
+      const type = classifyNumber(digits);
+      if (type) {
+        const start = groups[i].start;
+        const end = groups[j].end;
+        matches.push({ type, start: offset + start, end: offset + end, value: run.slice(start, end) });
+        next = j + 1;
+        break;
+      }
+    }
+    i = next;
+  }
+
+  return matches;
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+// Function to find PII in text. knownTerms are values the provider already
+// flagged (e.g. addresses), matched wherever else they appear. Returns
+// non-overlapping matches in order.
+export function findPii(text: string, knownTerms: KnownTerm[] = []): PiiMatch[] {
+  if (!text) return [];
+
+  const tokens = Array.from(text.matchAll(REDACTION_TOKEN)).map((m) => [m.index!, m.index! + m[0].length]);
+  const insideToken = (start: number, end: number) =>
+    tokens.some(([tokenStart, tokenEnd]) => start < tokenEnd && end > tokenStart);
+
+  const candidates: PiiMatch[] = [];
+
+  for (const m of text.matchAll(NUMBER_RUN)) {
+    candidates.push(...classifyRun(m[0], m.index!));
+  }
+
+  for (const m of text.matchAll(EMAIL)) {
+    candidates.push({ type: "email", start: m.index!, end: m.index! + m[0].length, value: m[0] });
+  }
+
+  knownTerms
+    .filter((term) => term.text.trim().length >= MIN_KNOWN_TERM_LENGTH)
+    .forEach((term) => {
+      for (const m of text.matchAll(new RegExp(escapeRegExp(term.text.trim()), "gi"))) {
+        candidates.push({ type: term.type, start: m.index!, end: m.index! + m[0].length, value: m[0] });
+      }
+    });
+
+  // Earliest first, longest first on ties; drop anything overlapping a kept match
+  candidates.sort((a, b) => a.start - b.start || b.end - a.end);
+
+  const matches: PiiMatch[] = [];
+  candidates.forEach((candidate) => {
+    const last = matches[matches.length - 1];
+    if (last && candidate.start < last.end) return;
+    if (insideToken(candidate.start, candidate.end)) return;
+    matches.push(candidate);
+  });
+
+  return matches;
+}
@@ -0,0 +1,34 @@
+// lib/redaction/types.ts - PII types and per-channel redaction policies
+
+export type PiiType =
+  | "phone"
+  | "tfn"
+  | "medicare"
+  | "credit_card"
+  | "email"
+  | "address"
+  | "account_number";
+
+// mask: replace with a [TYPE] token
+// hash: replace with [TYPE:hash] so repeats can be matched without the value
+// drop: remove entirely
+export type RedactionAction = "mask" | "hash" | "drop";
+
+export interface RedactionPolicy {
+  enabled: boolean;
+  actions: Record<PiiType, RedactionAction>;
+  // Ask the provider to redact too. Ignored when keepUnredacted is set,
+  // since the provider never returns the original text.
+  providerRedaction: boolean;
+  keepUnredacted: boolean;
+}
+
+export interface PiiMatch {
+  type: PiiType;
+  start: number;
+  end: number;
+  value: string;
+}
+
+// Count of redactions per type, stored alongside the call
+export type RedactionFindings = Partial<Record<PiiType, number>>;
@@ -0,0 +1,225 @@
+// lib/sftp.ts - SFTP connections to the recordings server
+
+import { Client, SFTPWrapper } from "ssh2";
+import { readFileSync } from "fs";
+import * as path from "path";
+
+// SFTP configuration
+export type SftpConfig = {
+  host: string;
+  port: number;
+  username: string;
+  privateKey: Buffer;
+  passphrase: string;
+};
+
+export function getSftpConfig(): SftpConfig {
+  return {
+    host: process.env.SFTP_HOST!,
+    port: parseInt(process.env.SFTP_PORT!),
+    username: process.env.SFTP_USERNAME!,
+    privateKey: readFileSync(
+      path.resolve(process.env.HOME || "~", ".ssh/sftp_key")
+    ),
+    passphrase: process.env.SFTP_PASSPHRASE!,
+  };
+}
+
+export interface SftpLease {
+  sftp: SFTPWrapper;
+  // Returns the session to the pool. Pass true if it shouldn't be reused.
+  release: (broken?: boolean) => void;
+}
+
+interface PooledSession {
+  conn: Client;
+  sftp: SFTPWrapper;
+  closed: boolean;
+  idleTimer: NodeJS.Timeout | null;
+}
+
+// Helper function to read a positive integer from the environment
+function readPositiveInt(name: string, fallback: number): number {
+  const value = parseInt(process.env[name] || "", 10);
+  return Number.isFinite(value) && value > 0 ? value : fallback;
+}
+
+// The server limits concurrent connections per user, so every consumer shares these
+const SFTP_MAX_SESSIONS = readPositiveInt("SFTP_MAX_SESSIONS", 4);
+const SFTP_IDLE_TIMEOUT_MS = readPositiveInt("SFTP_IDLE_TIMEOUT_MS", 60 * 1000);
+const SFTP_CONNECT_ATTEMPTS = 3;
+
+const idleSessions: PooledSession[] = [];
+const waiters: ((session: PooledSession | Error) => void)[] = [];
+let openSessions = 0; // Idle, borrowed and still connecting
+
+// Helper function to open one SSH connection with an SFTP session on it
+function openSession(): Promise<PooledSession> {
+  const sftpConfig = getSftpConfig();
+
+  return new Promise((resolve, reject) => {
+    const conn = new Client();
+    let settled = false;
+
+    conn.on("ready", () => {
+      conn.sftp((err, sftp) => {
+        if (err) {
+          console.error("SFTP session error:", err);
+          settled = true;
+          conn.end();
+          return reject(new Error("SFTP session error"));
+        }
+
+        const session: PooledSession = { conn, sftp, closed: false, idleTimer: null };
+
+        // A dropped connection is noticed here and replaced on the next borrow
+        const markClosed = () => {
+          if (session.closed) return;
+          session.closed = true;
+          const idleIndex = idleSessions.indexOf(session);
+          if (idleIndex >= 0) {
+            idleSessions.splice(idleIndex, 1);
+            if (session.idleTimer) clearTimeout(session.idleTimer);
+            openSessions--;
+          }
+        };
+        conn.on("close", markClosed);
+        sftp.on("close", markClosed);
+
+        settled = true;
+        resolve(session);
+      });
+    });
+
+    conn.on("error", (err) => {
+      console.error("SFTP connection error:", err.message);
+      if (!settled) {
+        settled = true;
+        reject(new Error("SFTP connection failed"));
+      }
+    });
+
+    try {
+      conn.connect({
+        ...sftpConfig,
+        keepaliveInterval: 30000,
+        keepaliveCountMax: 10,
+        algorithms: {
+          compress: ["none"],
+        },
+        tryKeyboard: false,
+      });
+    } catch (e) {
+      console.error("Connection setup error:", e);
+      settled = true;
+      reject(new Error("Failed to initialize SFTP connection"));
+    }
+  });
+}
+
+// Helper function to open a session, retrying with a growing delay
+async function openSessionWithRetry(): Promise<PooledSession> {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await openSession();
+    } catch (error) {
+      if (attempt >= SFTP_CONNECT_ATTEMPTS) throw error;
+      console.log(`🔁 SFTP connection attempt ${attempt} failed, retrying...`);
+      await new Promise((resolve) => setTimeout(resolve, attempt * 1000));
+    }
+  }
+}
+
+function closeSession(session: PooledSession) {
+  session.closed = true;
+  if (session.idleTimer) clearTimeout(session.idleTimer);
+  try {
+    session.sftp.end();
+    session.conn.end();
+  } catch (e) {
+    console.log("Cleanup error:", e);
+  }
+}
+
+// Helper function to open a session for whoever is waiting longest, once a slot frees up
+function openSessionForWaiter() {
+  const waiter = waiters.shift();
+  if (!waiter) return;
+
+  openSessions++;
+  openSessionWithRetry().then(waiter, (error) => {
+    openSessions--;
+    waiter(error);
+    openSessionForWaiter();
+  });
+}
+
+function releaseSession(session: PooledSession, broken: boolean) {
+  if (broken || session.closed) {
+    closeSession(session);
+    openSessions--;
+    openSessionForWaiter();
+    return;
+  }
+
+  const waiter = waiters.shift();
+  if (waiter) return waiter(session);
+
+  // Idle sessions are closed after a while so the server isn't held open overnight
+  session.idleTimer = setTimeout(() => {
+    const idleIndex = idleSessions.indexOf(session);
+    if (idleIndex < 0) return;
+    idleSessions.splice(idleIndex, 1);
+    openSessions--;
+    closeSession(session);
+  }, SFTP_IDLE_TIMEOUT_MS);
+  session.idleTimer.unref();
+  idleSessions.push(session);
+}
+
+// Function to borrow an SFTP session from the pool. Reuses an idle session,
+// opens a new one while under SFTP_MAX_SESSIONS, and otherwise waits for one
+// to be released. Always release() the lease once done with it.
+export async function acquireSftp(): Promise<SftpLease> {
+  let session = idleSessions.pop();
+
+  if (session) {
+    if (session.idleTimer) clearTimeout(session.idleTimer);
+    session.idleTimer = null;
+  } else if (openSessions < SFTP_MAX_SESSIONS) {
+    openSessions++;
+    try {
+      session = await openSessionWithRetry();
+    } catch (error) {
+      openSessions--;
+      openSessionForWaiter();
+      throw error;
+    }
+  } else {
+    const handedOver = await new Promise<PooledSession | Error>((resolve) => waiters.push(resolve));
+    if (handedOver instanceof Error) throw handedOver;
+    session = handedOver;
+  }
+
+  const borrowed = session;
+  let released = false;
+
+  return {
+    sftp: borrowed.sftp,
+    release: (broken = false) => {
+      if (released) return;
+      released = true;
+      releaseSession(borrowed, broken);
+    },
+  };
+}
+
+// Function to run something with a pooled SFTP session, releasing it afterwards
+export async function withSftp<T>(fn: (sftp: SFTPWrapper) => Promise<T>): Promise<T> {
+  const lease = await acquireSftp();
+  try {
+    return await fn(lease.sftp);
+  } finally {
+    lease.release();
+  }
+}
@@ -0,0 +1,130 @@
+// lib/speakerRoles.ts - Working out which speaker on a call is the agent
+//
+// Stereo recordings carry one party per channel, so the channel decides. Mono
+// recordings are diarised into anonymous speakers, and "whoever talks first is
+// the agent" is wrong whenever the customer speaks first, so the opening of the
+// call is checked for the agent introducing themselves before falling back to it.
+import { getChannelById, getIngestChannel, getStereoChannelRoles } from "./channelConfig";
+import type {
+  SpeakerRole,
+  SpeakerRoleAssignment,
+  Transcript,
+  TranscriptWord,
+} from "./transcription";
+
+// How many utterances at the start of the call to look at
+const OPENING_UTTERANCES = 6;
+
+// Phrases agents open with that customers rarely say
+const AGENT_GREETINGS = [
+  /thanks? (you )?for calling/i,
+  /you'?re (speaking|talking) (with|to)/i,
+  /my name is/i,
+  /this is \w+ (from|calling|speaking)/i,
+  /how (can|may) i (help|assist)/i,
+  /calling (from|on behalf of)/i,
+  /what can i do for you/i,
+];
+
+const GREETING_SCORE = 2;
+const COMPANY_SCORE = 1;
+const AGENT_NAME_SCORE = 3;
+
+// Helper function to get the name an agent would introduce themselves by
+// ("john.smith", "jsmith_tge" or "John Smith" -> "john"). Short or unclear
+// usernames give null rather than a name that would match by accident.
+function getAgentFirstName(agentUsername: string | null | undefined): string | null {
+  const firstPart = (agentUsername || "").trim().toLowerCase().split(/[._\s-]+/)[0];
+  return /^[a-z]{3,}$/.test(firstPart) ? firstPart : null;
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+// Function to pick the agent out of a diarised call from its opening utterances.
+// Returns null when nothing points at one speaker.
+export function identifyAgentSpeaker(
+  utterances: { speaker: string; text: string }[],
+  { agentUsername, companyName }: { agentUsername?: string | null; companyName?: string | null } = {}
+): SpeakerRoleAssignment | null {
+  const agentName = getAgentFirstName(agentUsername);
+  const namePattern = agentName ? new RegExp(`\\b${escapeRegExp(agentName)}\\b`, "i") : null;
+  const companyPattern = companyName ? new RegExp(escapeRegExp(companyName), "i") : null;
+
+  const scores = new Map<string, { total: number; saidName: boolean }>();
+
+  utterances.slice(0, OPENING_UTTERANCES).forEach(({ speaker, text }) => {
+    const score = scores.get(speaker) || { total: 0, saidName: false };
+
+    score.total += AGENT_GREETINGS.filter((pattern) => pattern.test(text)).length * GREETING_SCORE;
+    if (companyPattern?.test(text)) score.total += COMPANY_SCORE;
+    if (namePattern?.test(text)) {
+      score.total += AGENT_NAME_SCORE;
+      score.saidName = true;
+    }
+
+    scores.set(speaker, score);
+  });
+
+  const ranked = Array.from(scores.entries()).sort(([, a], [, b]) => b.total - a.total);
+  const [best, runnerUp] = ranked;
+
+  if (!best || best[1].total === 0 || (runnerUp && runnerUp[1].total === best[1].total)) {
+    return null;
+  }
+
+  return { agentSpeaker: best[0], source: best[1].saidName ? "agent_name" : "greeting" };
+}
+
+// Function to settle the Agent/Customer role of every utterance and word
+export function assignSpeakerRoles(
+  transcript: Transcript,
+  {
+    channel = getIngestChannel().id,
+    agentUsername,
+  }: { channel?: string | number; agentUsername?: string | null } = {}
+): Transcript {
+  const utterances = transcript.utterances || [];
+  const speakers = new Set(utterances.map((utterance) => utterance.speaker));
+
+  let assignment: SpeakerRoleAssignment;
+  let roleOf: (speaker: string | null) => SpeakerRole;
+
+  if (transcript.audio_channels && transcript.audio_channels > 1) {
+    const channelRoles = getStereoChannelRoles(channel);
+    roleOf = (speaker) => (speaker ? channelRoles[Number(speaker) - 1] || "Unknown" : "Unknown");
+    assignment = {
+      source: "audio_channel",
+      agentSpeaker: String(channelRoles.indexOf("Agent") + 1),
+    };
+  } else if (speakers.size < 2) {
+    // Nothing to tell apart (or no diarisation, as with Whisper)
+    return transcript;
+  } else {
+    assignment = identifyAgentSpeaker(utterances, {
+      agentUsername,
+      companyName: getChannelById(channel)?.title,
+    }) || { source: "first_speaker", agentSpeaker: utterances[0].speaker };
+
+    roleOf = (speaker) =>
+      !speaker ? "Unknown" : speaker === assignment.agentSpeaker ? "Agent" : "Customer";
+  }
+
+  const withRole = (word: TranscriptWord): TranscriptWord => ({ ...word, speakerRole: roleOf(word.speaker) });
+
+  if (assignment.source !== "audio_channel" && assignment.source !== "first_speaker") {
+    console.log(`🎧 Speaker ${assignment.agentSpeaker} identified as the agent (${assignment.source})`);
+  }
+
+  return {
+    ...transcript,
+    utterances: utterances.map((utterance) => ({
+      ...utterance,
+      speakerRole: roleOf(utterance.speaker),
+      words: (utterance.words || []).map(withRole),
+    })),
+    words: (transcript.words || []).map(withRole),
+    speaker_roles: assignment,
+  };
+}
@@ -0,0 +1,7 @@
+// lib/supabaseAdmin.ts - Service role client for server-side code only
+import { createClient } from '@supabase/supabase-js'
+
+const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL!
+const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY!
+
+export const supabaseAdmin = createClient(supabaseUrl, supabaseServiceKey)
@@ -0,0 +1,79 @@
+// lib/transcriptReport.ts - Sentiment and talk time across transcripts, from call_utterances and call_sentiments
+import { supabaseAdmin } from './supabaseAdmin';
+import type { Sentiment, SpeakerRole } from './domain';
+
+export interface TranscriptReportOptions {
+  start: Date;
+  end: Date;
+  channel?: string | null;
+  speakerRole?: SpeakerRole | null; // Sentiments only; talk time is always split by role
+  lastSeconds?: number | null; // Only what was said in the last n seconds of each call
+}
+
+export interface SentimentReportRow {
+  sentiment: Sentiment;
+  speaker_role: SpeakerRole;
+  segments: number;
+  calls: number;
+}
+
+export interface TalkTimeReportRow {
+  speaker_role: SpeakerRole;
+  utterances: number;
+  calls: number;
+  talk_seconds: number;
+}
+
+export interface TranscriptReport {
+  start: string;
+  end: string;
+  channel: string | null;
+  speakerRole: SpeakerRole | null;
+  lastSeconds: number | null;
+  sentiments: SentimentReportRow[];
+  talkTime: TalkTimeReportRow[];
+}
+
+// Function to report sentiment results and talk time by speaker role for the
+// calls in a date range
+export async function getTranscriptReport(options: TranscriptReportOptions): Promise<TranscriptReport> {
+  const filters = {
+    p_start: options.start.toISOString(),
+    p_end: options.end.toISOString(),
+    p_channel: options.channel || null,
+    p_last_seconds: options.lastSeconds ?? null,
+  };
+
+  const [sentiments, talkTime] = await Promise.all([
+    supabaseAdmin.rpc('transcript_sentiment_report', { ...filters, p_speaker_role: options.speakerRole || null }),
+    supabaseAdmin.rpc('transcript_talk_time_report', filters),
+  ]);
+
+  if (sentiments.error) {
+    throw new Error(`Failed to build sentiment report: ${sentiments.error.message}`);
+  }
+  if (talkTime.error) {
+    throw new Error(`Failed to build talk time report: ${talkTime.error.message}`);
+  }
+
+  // numeric and bigint columns come back as strings
+  return {
+    start: filters.p_start,
+    end: filters.p_end,
+    channel: filters.p_channel,
+    speakerRole: options.speakerRole || null,
+    lastSeconds: filters.p_last_seconds,
+    sentiments: ((sentiments.data as Record<string, unknown>[]) || []).map((row) => ({
+      sentiment: row.sentiment as Sentiment,
+      speaker_role: row.speaker_role as SpeakerRole,
+      segments: Number(row.segments),
+      calls: Number(row.calls),
+    })),
+    talkTime: ((talkTime.data as Record<string, unknown>[]) || []).map((row) => ({
+      speaker_role: row.speaker_role as SpeakerRole,
+      utterances: Number(row.utterances),
+      calls: Number(row.calls),
+      talk_seconds: Number(row.talk_seconds),
+    })),
+  };
+}
@@ -0,0 +1,87 @@
+// lib/transcriptVersions.ts - Transcript version history and rolling a call back to an earlier version
+//
+// Versions are written by a trigger on call_records: every save that changes a
+// transcript or its analysis becomes a new version. Writers only say what
+// produced the transcript, through transcriptSource().
+import { createHash } from 'crypto';
+import { supabaseAdmin } from './supabaseAdmin';
+import { transcriptHistorySchema, type TranscriptHistory } from './domain';
+import type { Transcript } from './transcription';
+
+const VERSION_COLUMNS =
+  'contact_id, version, provider, model, config_hash, primary_category, categories, language, call_summary, created_at';
+
+// Helper function to serialise settings with their keys sorted, so the hash
+// doesn't change with key order
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) return `[${value.map(stableStringify).join(',')}]`;
+  if (value && typeof value === 'object') {
+    const entries = Object.entries(value).sort(([a], [b]) => a.localeCompare(b));
+    return `{${entries.map(([key, entry]) => `${JSON.stringify(key)}:${stableStringify(entry)}`).join(',')}}`;
+  }
+  return JSON.stringify(value ?? null);
+}
+
+// Function to get the call_records fields that say what produced a transcript
+export function transcriptSource(transcript: Partial<Pick<Transcript, 'provider' | 'model' | 'config'>>) {
+  const provider = transcript.provider || null;
+  const model = transcript.model ?? null;
+  const configHash = createHash('sha256')
+    .update(stableStringify({ provider, model, config: transcript.config ?? {} }))
+    .digest('hex')
+    .slice(0, 16);
+
+  return {
+    transcript_provider: provider,
+    transcript_model: model,
+    transcript_config_hash: configHash,
+  };
+}
+
+// Function to get a call's transcript versions, newest first, and which one
+// is current. Returns null when the call hasn't been transcribed.
+export async function getTranscriptHistory(contactId: string): Promise<TranscriptHistory | null> {
+  const { data: record, error: recordError } = await supabaseAdmin
+    .from('call_records')
+    .select('current_version')
+    .eq('contact_id', contactId)
+    .single();
+
+  if (recordError) {
+    if (recordError.code === 'PGRST116') return null;
+    throw new Error(`Failed to fetch call ${contactId}: ${recordError.message}`);
+  }
+
+  const { data: versions, error } = await supabaseAdmin
+    .from('call_transcript_versions')
+    .select(VERSION_COLUMNS)
+    .eq('contact_id', contactId)
+    .order('version', { ascending: false });
+
+  if (error) {
+    throw new Error(`Failed to fetch transcript versions for ${contactId}: ${error.message}`);
+  }
+
+  return transcriptHistorySchema.parse({
+    contact_id: contactId,
+    current_version: record.current_version ?? null,
+    versions: versions || [],
+  });
+}
+
+// Function to make an earlier version current again. The versions in between
+// are kept. Returns false when the call or the version doesn't exist.
+export async function rollbackTranscript(contactId: string, version: number): Promise<boolean> {
+  const { error } = await supabaseAdmin.rpc('rollback_call_transcript', {
+    p_contact_id: contactId,
+    p_version: version,
+  });
+
+  if (error) {
+    if (error.code === 'P0002') return false; // no_data_found
+    throw new Error(`Failed to roll back ${contactId} to version ${version}: ${error.message}`);
+  }
+
+  console.log(`⏪ Rolled back ${contactId} to transcript version ${version}`);
+  return true;
+}
@@ -0,0 +1,312 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+// lib/transcription/assemblyai.ts - AssemblyAI transcription provider
+import { timingSafeEqual } from "crypto";
+import {
+  SpeakerRole,
+  SubmitOptions,
+  Transcript,
+  TranscriptionJob,
+  TranscriptionProvider,
+  TranscriptWord,
+  WebhookConfig,
+} from "./types";
+
+// Overridable so the pipeline can be pointed at scripts/mock-assemblyai.ts
+export const ASSEMBLYAI_API_URL =
+  process.env.ASSEMBLYAI_API_URL || "https://api.assemblyai.com";
+
+export const WEBHOOK_SECRET_HEADER = "x-webhook-secret";
+
+const POLL_INTERVAL_MS = 5000;
+const MAX_POLL_ATTEMPTS = 120; // 10 minutes at 5-second intervals
+
+// Submission settings AssemblyAI echoes back on the transcript
+const CONFIG_FIELDS = [
+  "speech_model",
+  "language_code",
+  "language_detection",
+  "word_boost",
+  "boost_param",
+  "speaker_labels",
+  "speakers_expected",
+  "multichannel",
+  "summarization",
+  "summary_model",
+  "summary_type",
+  "redact_pii",
+  "redact_pii_policies",
+];
+
+// Helper function to get the webhook settings (null means fall back to polling)
+export function getWebhookConfig(): WebhookConfig | null {
+  const secret = process.env.ASSEMBLYAI_WEBHOOK_SECRET;
+  if (!secret) return null;
+
+  const serverUrl = process.env.NEXT_PUBLIC_SERVER_URL || "http://192.168.40.101";
+  return {
+    url: process.env.ASSEMBLYAI_WEBHOOK_URL || `${serverUrl}/api/transcribe/webhook`,
+    secret,
+  };
+}
+
+// Helper function to check the shared secret sent back by AssemblyAI
+export function verifyWebhookSecret(received: string | null): boolean {
+  const secret = process.env.ASSEMBLYAI_WEBHOOK_SECRET;
+  if (!secret || !received) return false;
+
+  const expected = Buffer.from(secret);
+  const actual = Buffer.from(received);
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+}
+
+function getApiKey(): string {
+  const apiKey = process.env.ASSEMBLYAI_API_KEY;
+  if (!apiKey) {
+    throw new Error("AssemblyAI API key not configured");
+  }
+  return apiKey;
+}
+
+// Provisional roles until assignSpeakerRoles() settles them: speaker A is whoever
+// talks first, and on multichannel audio channel 1 is the usual agent side
+function speakerRole(speaker: string | null | undefined): SpeakerRole {
+  if (!speaker) return "Unknown";
+  return speaker === "A" || speaker === "1" ? "Agent" : "Customer";
+}
+
+// Helper function to build the language settings for a submission
+function languageOptions(languages: string[] | null) {
+  if (languages?.length === 1) return { language_code: languages[0] };
+
+  return {
+    language_detection: true,
+    ...(languages && languages.length > 1 && {
+      language_detection_options: {
+        expected_languages: languages,
+        fallback_language: languages[0],
+        code_switching: true,
+      },
+    }),
+  };
+}
+
+// Multichannel results label everything by channel instead of speaker
+function getSpeaker(item: any): string | null {
+  return item.channel ?? item.speaker ?? null;
+}
+
+function normaliseWord(word: any): TranscriptWord {
+  const speaker = getSpeaker(word);
+  return {
+    text: word.text,
+    start: word.start,
+    end: word.end,
+    confidence: word.confidence ?? 0,
+    speaker,
+    speakerRole: speakerRole(speaker),
+  };
+}
+
+export const assemblyAIProvider: TranscriptionProvider = {
+  name: "assemblyai",
+  supportsWebhooks: true,
+
+  configurationError() {
+    return process.env.ASSEMBLYAI_API_KEY ? null : "AssemblyAI API key not configured";
+  },
+
+  async upload(audio) {
+    console.log("Uploading audio to AssemblyAI...");
+
+    // Convert Buffer to Uint8Array for fetch compatibility
+    const uint8Array = new Uint8Array(audio);
+
+    const uploadResponse = await fetch(`${ASSEMBLYAI_API_URL}/v2/upload`, {
+      method: "POST",
+      headers: {
+        Authorization: getApiKey(),
+        "Content-Type": "application/octet-stream",
+      },
+      body: uint8Array,
+    });
+
+    if (!uploadResponse.ok) {
+      const errorText = await uploadResponse.text();
+      throw new Error(
+        `AssemblyAI upload failed: ${uploadResponse.status} - ${errorText}`
+      );
+    }
+
+    const { upload_url } = await uploadResponse.json();
+    console.log("Audio uploaded to AssemblyAI successfully");
+    return upload_url;
+  },
+
+  async submit(
+    audioUrl,
+    {
+      speakerCount = 2,
+      webhook = null,
+      vocabulary = null,
+      audioChannels = null,
+      languages = null,
+      redaction = null,
+    }: SubmitOptions = {}
+  ) {
+    console.log("Submitting transcription to AssemblyAI...");
+
+    // Stereo calls have one party per channel, which beats diarisation; the two can't be combined
+    const multichannel = !!audioChannels && audioChannels > 1;
+
+    // Summarisation is English-only, so channels expecting other languages go without it
+    const englishOnly = !languages?.length || languages.every((language) => language === "en");
+
+    const transcriptResponse = await fetch(`${ASSEMBLYAI_API_URL}/v2/transcript`, {
+      method: "POST",
+      headers: {
+        Authorization: getApiKey(),
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify({
+        audio_url: audioUrl,
+        speech_model: "best",
+        ...languageOptions(languages),
+        ...(vocabulary?.words.length && {
+          word_boost: vocabulary.words,
+          boost_param: vocabulary.boost,
+        }),
+        ...(multichannel
+          ? { multichannel: true }
+          : { speaker_labels: true, speakers_expected: speakerCount }),
+        ...(englishOnly && {
+          summarization: true,
+          summary_model: "conversational",
+          summary_type: "paragraph",
+        }),
+        entity_detection: true,
+        sentiment_analysis: true,
+        filter_profanity: false,
+        auto_highlights: true,
+        ...(redaction?.policies.length && {
+          redact_pii: true,
+          redact_pii_policies: redaction.policies,
+          redact_pii_sub: "entity_name", // [PHONE_NUMBER] etc., which local redaction leaves alone
+        }),
+        punctuate: true,
+        format_text: true,
+        ...(webhook && {
+          webhook_url: webhook.url,
+          webhook_auth_header_name: WEBHOOK_SECRET_HEADER,
+          webhook_auth_header_value: webhook.secret,
+        }),
+      }),
+      signal: AbortSignal.timeout(30000), // Submission is quick; don't hang the caller
+    });
+
+    if (!transcriptResponse.ok) {
+      const errorData = await transcriptResponse.json();
+      throw new Error(
+        `AssemblyAI submission failed: ${JSON.stringify(errorData)}`
+      );
+    }
+
+    const { id } = await transcriptResponse.json();
+    console.log(`Transcription job created: ${id}`);
+    return id;
+  },
+
+  async getJob(id) {
+    const statusResponse = await fetch(`${ASSEMBLYAI_API_URL}/v2/transcript/${id}`, {
+      headers: { Authorization: getApiKey() },
+      signal: AbortSignal.timeout(15000),
+    });
+
+    if (!statusResponse.ok) {
+      throw new Error(`Status check failed: ${statusResponse.status}`);
+    }
+
+    const raw = await statusResponse.json();
+    const job: TranscriptionJob = { id, status: raw.status };
+
+    if (raw.status === "error") {
+      job.error = raw.error || "Unknown error";
+    } else if (raw.status === "completed") {
+      job.transcript = this.normalise(raw);
+    }
+
+    return job;
+  },
+
+  async waitForCompletion(id) {
+    let job: TranscriptionJob = { id, status: "queued" };
+    let attempts = 0;
+
+    while (
+      (job.status === "processing" || job.status === "queued") &&
+      attempts < MAX_POLL_ATTEMPTS
+    ) {
+      await new Promise((resolve) => setTimeout(resolve, POLL_INTERVAL_MS));
+      attempts++;
+
+      job = await this.getJob(id);
+
+      if (attempts % 12 === 0) {
+        // Log every minute
+        console.log(`Transcription status after ${attempts * 5}s: ${job.status}`);
+      }
+    }
+
+    if (job.status === "error") {
+      throw new Error(`Transcription failed: ${job.error}`);
+    }
+
+    if (job.status !== "completed" || !job.transcript) {
+      throw new Error(
+        `Transcription timed out after ${(MAX_POLL_ATTEMPTS * POLL_INTERVAL_MS) / 1000}s`
+      );
+    }
+
+    console.log("Transcription completed successfully");
+    return job.transcript;
+  },
+
+  normalise(raw): Transcript {
+    return {
+      id: raw.id,
+      provider: "assemblyai",
+      model: raw.speech_model || null,
+      config: Object.fromEntries(CONFIG_FIELDS.map((field) => [field, raw[field] ?? null])),
+      status: "completed",
+      text: raw.text || "",
+      audio_duration: raw.audio_duration ?? null,
+      utterances: (raw.utterances || []).map((utterance: any) => ({
+        text: utterance.text,
+        start: utterance.start,
+        end: utterance.end,
+        confidence: utterance.confidence ?? 0,
+        speaker: getSpeaker(utterance),
+        speakerRole: speakerRole(getSpeaker(utterance)),
+        words: (utterance.words || []).map(normaliseWord),
+      })),
+      words: (raw.words || []).map(normaliseWord),
+      sentiment_analysis_results: (raw.sentiment_analysis_results || []).map((result: any) => ({
+        text: result.text,
+        start: result.start,
+        end: result.end,
+        sentiment: result.sentiment,
+        confidence: result.confidence ?? 0,
+        speaker: getSpeaker(result),
+      })),
+      entities: (raw.entities || []).map((entity: any) => ({
+        entity_type: entity.entity_type,
+        text: entity.text,
+        start: entity.start,
+        end: entity.end,
+      })),
+      summary: raw.summary || null,
+      audio_channels: raw.multichannel ? raw.audio_channels ?? null : null,
+      language: raw.language_code ? raw.language_code.split("_")[0] : null, // "en_au" -> "en"
+      language_confidence: raw.language_confidence ?? null,
+    };
+  },
+};
@@ -0,0 +1,33 @@
+// lib/transcription/index.ts - Pick the speech-to-text provider
+import { assemblyAIProvider } from "./assemblyai";
+import { whisperProvider } from "./whisper";
+import { TranscriptionProvider } from "./types";
+
+export * from "./types";
+export {
+  ASSEMBLYAI_API_URL,
+  getWebhookConfig,
+  verifyWebhookSecret,
+  WEBHOOK_SECRET_HEADER,
+} from "./assemblyai";
+
+const PROVIDERS: Record<string, TranscriptionProvider> = {
+  assemblyai: assemblyAIProvider,
+  whisper: whisperProvider,
+};
+
+export const DEFAULT_PROVIDER = "assemblyai";
+
+// Function to get a provider by name, defaulting to TRANSCRIPTION_PROVIDER
+export function getTranscriptionProvider(name?: string | null): TranscriptionProvider {
+  const providerName = name || process.env.TRANSCRIPTION_PROVIDER || DEFAULT_PROVIDER;
+  const provider = PROVIDERS[providerName];
+
+  if (!provider) {
+    throw new Error(
+      `Unknown transcription provider "${providerName}" (expected one of: ${Object.keys(PROVIDERS).join(", ")})`
+    );
+  }
+
+  return provider;
+}
@@ -0,0 +1,120 @@
+// lib/transcription/types.ts - Provider-neutral transcript shape
+//
+// Field names follow what is already stored in call_records (speaker_data,
+// sentiment_analysis, entities, call_summary), so every provider normalises
+// into the shape the rest of the app reads. Utterances, sentiments and entities
+// come from the shared domain schemas.
+import type {
+  TranscriptWord,
+  TranscriptUtterance,
+  TranscriptSentiment,
+  TranscriptEntity,
+} from "../domain/transcript";
+
+export type {
+  SpeakerRole,
+  Sentiment,
+  TranscriptWord,
+  TranscriptUtterance,
+  TranscriptSentiment,
+  TranscriptEntity,
+} from "../domain/transcript";
+
+// How the agent was told apart from the customer
+export type SpeakerRoleSource = "audio_channel" | "agent_name" | "greeting" | "first_speaker";
+
+export interface SpeakerRoleAssignment {
+  source: SpeakerRoleSource;
+  agentSpeaker: string | null;
+}
+
+export interface TopicCategorization {
+  primary_topic: string;
+  all_topics: string[];
+  confidence: number;
+}
+
+// English version of a non-English call. Utterances keep their speakers and
+// timings but have no words, since a translation doesn't line up with the audio.
+export interface TranscriptTranslation {
+  language: string; // Always "en" for now
+  text: string;
+  utterances: TranscriptUtterance[];
+}
+
+export interface Transcript {
+  id: string;
+  provider: string;
+  model: string | null; // The provider's speech model, where it reports one
+  // Settings the provider reports the transcript was made with; saved transcript
+  // versions keep a hash of them, so reruns with different settings can be told apart
+  config: Record<string, unknown>;
+  status: "completed";
+  text: string;
+  audio_duration: number | null; // seconds
+  utterances: TranscriptUtterance[];
+  words: TranscriptWord[];
+  sentiment_analysis_results: TranscriptSentiment[];
+  entities: TranscriptEntity[];
+  summary: string | null;
+  audio_channels: number | null; // Set when each audio channel was transcribed separately
+  speaker_roles?: SpeakerRoleAssignment;
+  language: string | null; // ISO 639-1 code, detected or taken from the channel's hint
+  language_confidence: number | null;
+  translation?: TranscriptTranslation;
+  topic_categorization?: TopicCategorization;
+  pii_findings?: Partial<Record<string, number>>; // Redactions per PII type, set before storage
+}
+
+export type TranscriptionJobStatus = "queued" | "processing" | "completed" | "error";
+
+export interface TranscriptionJob {
+  id: string;
+  status: TranscriptionJobStatus;
+  error?: string;
+  transcript?: Transcript; // Set once status is "completed"
+}
+
+export interface WebhookConfig {
+  url: string;
+  secret: string;
+}
+
+export type WordBoostLevel = "low" | "default" | "high";
+
+// Channel-specific terms to bias recognition towards
+export interface Vocabulary {
+  words: string[];
+  boost: WordBoostLevel;
+}
+
+export interface SubmitOptions {
+  speakerCount?: number;
+  webhook?: WebhookConfig | null;
+  vocabulary?: Vocabulary | null;
+  // Channels in the recording; stereo calls are transcribed per channel where supported
+  audioChannels?: number | null;
+  // Languages the call may be in (ISO 639-1). One language is transcribed as
+  // that language; otherwise the provider detects it, limited to these if given.
+  languages?: string[] | null;
+  // Provider-side PII redaction, for providers that support it
+  redaction?: { policies: string[] } | null;
+}
+
+export interface TranscriptionProvider {
+  name: string;
+  // Providers that can't call back are always polled
+  supportsWebhooks: boolean;
+  // Returns a message describing missing configuration, or null when ready
+  configurationError(): string | null;
+  // Makes audio available to the provider and returns a reference to submit
+  upload(audio: Buffer): Promise<string>;
+  // Starts a transcription for an uploaded reference or a URL the provider can fetch
+  submit(audioUrl: string, options?: SubmitOptions): Promise<string>;
+  // Single status check
+  getJob(id: string): Promise<TranscriptionJob>;
+  // Polls until the job finishes and returns the normalised transcript
+  waitForCompletion(id: string): Promise<Transcript>;
+  // Converts the provider's raw response into the common transcript shape
+  normalise(raw: any): Transcript; // eslint-disable-line @typescript-eslint/no-explicit-any
+}
@@ -0,0 +1,232 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+// lib/transcription/whisper.ts - Local Whisper provider (whisper.cpp or faster-whisper server)
+//
+// Talks to a whisper.cpp `whisper-server` (/inference) or any faster-whisper
+// server exposing the OpenAI-compatible /v1/audio/transcriptions endpoint.
+// Both accept a multipart upload and return verbose_json with timestamped
+// segments. Audio never leaves the machine running the server.
+import { randomUUID } from "crypto";
+import { mkdir, readFile, unlink, writeFile } from "fs/promises";
+import { tmpdir } from "os";
+import path from "path";
+import { fileURLToPath, pathToFileURL } from "url";
+import {
+  SubmitOptions,
+  Transcript,
+  TranscriptionJob,
+  TranscriptionProvider,
+  TranscriptWord,
+  Vocabulary,
+} from "./types";
+
+interface LocalJob extends TranscriptionJob {
+  done: Promise<void>;
+}
+
+const WHISPER_SERVER_URL =
+  process.env.WHISPER_SERVER_URL || "http://127.0.0.1:8080/inference";
+const WHISPER_TIMEOUT_MS = parseInt(process.env.WHISPER_TIMEOUT_MS || "", 10) || 30 * 60 * 1000;
+const UPLOAD_DIR = path.join(tmpdir(), "tsai-whisper");
+const JOB_RETENTION_MS = 60 * 60 * 1000; // Keep finished jobs around for status checks
+
+// Jobs only live in this process; the pipeline awaits them in the same process
+const jobs = new Map<string, LocalJob>();
+
+// Helper function to load audio from an uploaded file or a URL
+async function loadAudio(audioUrl: string): Promise<Buffer> {
+  if (audioUrl.startsWith("file://")) {
+    return readFile(fileURLToPath(audioUrl));
+  }
+
+  const response = await fetch(audioUrl);
+  if (!response.ok) {
+    throw new Error(`Failed to fetch audio for Whisper: ${response.status}`);
+  }
+  return Buffer.from(await response.arrayBuffer());
+}
+
+// Whisper reports the language by name on OpenAI-compatible servers and by code on whisper.cpp
+const LANGUAGE_CODES: Record<string, string> = {
+  english: "en",
+  tagalog: "tl",
+  maori: "mi",
+  hindi: "hi",
+  chinese: "zh",
+  vietnamese: "vi",
+  arabic: "ar",
+  spanish: "es",
+};
+
+function normaliseLanguage(language: string | undefined): string | null {
+  if (!language) return null;
+  const key = language.toLowerCase();
+  return LANGUAGE_CODES[key] || key;
+}
+
+// Helper function to run a transcription against the Whisper server
+async function runInference(
+  audio: Buffer,
+  vocabulary: Vocabulary | null,
+  languages: string[] | null
+): Promise<any> {
+  const form = new FormData();
+  form.append("file", new Blob([new Uint8Array(audio)]), "audio.wav");
+  form.append("response_format", "verbose_json");
+  form.append("timestamp_granularities[]", "word");
+  form.append("temperature", "0");
+  if (process.env.WHISPER_MODEL) form.append("model", process.env.WHISPER_MODEL);
+  // Whisper detects the language itself unless it's pinned. It can't be limited to a
+  // set, so only a single-language hint is passed; WHISPER_LANGUAGE overrides both.
+  const language = process.env.WHISPER_LANGUAGE || (languages?.length === 1 ? languages[0] : null);
+  if (language) form.append("language", language);
+  // Whisper has no boost weighting; an initial prompt listing the terms is the closest equivalent
+  if (vocabulary?.words.length) form.append("prompt", vocabulary.words.join(", "));
+
+  const response = await fetch(WHISPER_SERVER_URL, {
+    method: "POST",
+    body: form,
+    signal: AbortSignal.timeout(WHISPER_TIMEOUT_MS),
+  });
+
+  if (!response.ok) {
+    const errorText = await response.text();
+    throw new Error(`Whisper transcription failed: ${response.status} - ${errorText}`);
+  }
+
+  // The server doesn't echo its settings, so they're passed on for normalise()
+  const settings = {
+    model: process.env.WHISPER_MODEL || null,
+    language,
+    prompt: vocabulary?.words.length ? vocabulary.words.join(", ") : null,
+  };
+  return { ...(await response.json()), settings };
+}
+
+// Whisper reports seconds; the common shape uses milliseconds like AssemblyAI
+const toMs = (seconds: number | undefined) => Math.round((seconds || 0) * 1000);
+
+function normaliseWord(word: any): TranscriptWord {
+  return {
+    text: (word.word ?? word.text ?? "").trim(),
+    start: toMs(word.start),
+    end: toMs(word.end),
+    confidence: word.probability ?? 0,
+    speaker: null,
+    speakerRole: "Unknown",
+  };
+}
+
+export const whisperProvider: TranscriptionProvider = {
+  name: "whisper",
+  supportsWebhooks: false,
+
+  configurationError() {
+    return null; // WHISPER_SERVER_URL has a local default
+  },
+
+  async upload(audio) {
+    await mkdir(UPLOAD_DIR, { recursive: true });
+    const filePath = path.join(UPLOAD_DIR, `${randomUUID()}.wav`);
+    await writeFile(filePath, audio);
+    return pathToFileURL(filePath).toString();
+  },
+
+  async submit(audioUrl, { vocabulary = null, languages = null }: SubmitOptions = {}) {
+    const id = randomUUID();
+    console.log(`Submitting transcription to Whisper (${WHISPER_SERVER_URL})...`);
+
+    const job = { id, status: "processing" } as LocalJob;
+    job.done = (async () => {
+      try {
+        const raw = await runInference(await loadAudio(audioUrl), vocabulary, languages);
+        job.transcript = this.normalise({ ...raw, id });
+        job.status = "completed";
+      } catch (error) {
+        job.status = "error";
+        job.error = error instanceof Error ? error.message : "Unknown error";
+      } finally {
+        if (audioUrl.startsWith("file://")) {
+          await unlink(fileURLToPath(audioUrl)).catch(() => undefined);
+        }
+        setTimeout(() => jobs.delete(id), JOB_RETENTION_MS).unref();
+      }
+    })();
+
+    jobs.set(id, job);
+    console.log(`Transcription job created: ${id}`);
+    return id;
+  },
+
+  async getJob(id) {
+    const job = jobs.get(id);
+    if (!job) {
+      throw new Error(`Whisper job ${id} not found (jobs only exist on the server that started them)`);
+    }
+
+    const { done, ...status } = job; // eslint-disable-line @typescript-eslint/no-unused-vars
+    return status;
+  },
+
+  async waitForCompletion(id) {
+    const job = jobs.get(id);
+    if (!job) {
+      throw new Error(`Whisper job ${id} not found`);
+    }
+
+    await job.done;
+
+    if (job.status === "error" || !job.transcript) {
+      throw new Error(`Transcription failed: ${job.error || "Unknown error"}`);
+    }
+
+    console.log("Transcription completed successfully");
+    return job.transcript;
+  },
+
+  // Whisper has no diarisation, sentiment, entities or summary, so segments
+  // become speaker-less utterances and the analysis fields are left empty
+  normalise(raw): Transcript {
+    const segments: any[] = raw.segments || [];
+    const topLevelWords: any[] = raw.words || [];
+
+    const utterances = segments.map((segment) => {
+      const start = toMs(segment.start);
+      const end = toMs(segment.end);
+      const words = segment.words
+        ? segment.words.map(normaliseWord)
+        : topLevelWords
+            .map(normaliseWord)
+            .filter((word) => word.start >= start && word.end <= end);
+
+      return {
+        text: (segment.text || "").trim(),
+        start,
+        end,
+        confidence: segment.avg_logprob !== undefined ? Math.exp(segment.avg_logprob) : 0,
+        speaker: "UNKNOWN",
+        speakerRole: "Unknown" as const,
+        words,
+      };
+    });
+
+    return {
+      id: raw.id,
+      provider: "whisper",
+      model: raw.settings?.model ?? null,
+      config: raw.settings ?? {},
+      status: "completed",
+      text: (raw.text || "").trim(),
+      audio_duration: raw.duration ?? null,
+      utterances,
+      words: topLevelWords.length > 0
+        ? topLevelWords.map(normaliseWord)
+        : utterances.flatMap((utterance) => utterance.words),
+      sentiment_analysis_results: [],
+      entities: [],
+      summary: null,
+      audio_channels: null, // Stereo input is mixed down
+      language: normaliseLanguage(raw.language),
+      language_confidence: raw.language_probability ?? null,
+    };
+  },
+};
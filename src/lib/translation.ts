@@ -0,0 +1,99 @@
+// lib/translation.ts - English translation of non-English calls
+import { getOpenAI } from "./categorise";
+import { isEnglish, LanguageSettings } from "./language";
+import { applyRedaction } from "./redaction";
+import { recordCompletionUsage, UsageContext } from "./usage";
+import type { Transcript, TranscriptTranslation, TranscriptUtterance } from "./transcription";
+
+export const TRANSLATION_MODEL = "gpt-4o-mini";
+
+// Function to translate a call's utterances into English, one line per utterance
+// so speakers and timings carry over
+export async function translateUtterances(
+  utterances: TranscriptUtterance[],
+  language: string,
+  usageContext: UsageContext = {}
+): Promise<TranscriptTranslation> {
+  const completion = await getOpenAI().chat.completions.create({
+    model: TRANSLATION_MODEL,
+    response_format: { type: "json_object" },
+    messages: [
+      {
+        role: "system",
+        content: `You translate call centre transcripts into English. The call is mostly in language "${language}" and may switch between languages mid-sentence.
+
+        You receive a JSON object {"lines": [...]} with one entry per utterance. Respond with ONLY a JSON object {"lines": [...]} containing the English translation of each entry, in the same order and with the same number of entries. Keep lines that are already English unchanged. Keep bracketed tokens such as [PHONE] or [EMAIL:1a2b3c] exactly as they are.`,
+      },
+      {
+        role: "user",
+        content: JSON.stringify({ lines: utterances.map((utterance) => utterance.text) }),
+      },
+    ],
+    temperature: 0,
+  });
+
+  await recordCompletionUsage("translation", completion, usageContext);
+
+  const lines = JSON.parse(completion.choices[0].message.content || "{}").lines;
+  if (!Array.isArray(lines) || lines.length !== utterances.length) {
+    throw new Error(
+      `Translation returned ${Array.isArray(lines) ? lines.length : "no"} lines for ${utterances.length} utterances`
+    );
+  }
+
+  const translated = utterances.map((utterance, i) => ({ ...utterance, text: String(lines[i]), words: [] }));
+
+  return {
+    language: "en",
+    text: translated.map((utterance) => utterance.text).join(" "),
+    utterances: translated,
+  };
+}
+
+// Function to add an English translation to a redacted transcript when its
+// channel wants one. The translation is redacted again, since numbers read out
+// in another language can come back as digits. A failed translation leaves the
+// call untranslated rather than failing it.
+export async function translateTranscript(
+  transcript: Transcript,
+  settings: LanguageSettings,
+  { channel, usageContext = {} }: { channel?: string; usageContext?: UsageContext } = {}
+): Promise<Transcript> {
+  if (!settings.translateToEnglish || isEnglish(transcript.language) || transcript.translation) {
+    return transcript;
+  }
+
+  if (!transcript.utterances || transcript.utterances.length === 0) {
+    return transcript;
+  }
+
+  try {
+    console.log(`🌐 Translating ${usageContext.contactId || transcript.id} from ${transcript.language} to English...`);
+    const translation = await translateUtterances(transcript.utterances, transcript.language!, usageContext);
+
+    const { transcript: redacted, findings } = await applyRedaction(
+      {
+        text: translation.text,
+        utterances: translation.utterances,
+        sentiment_analysis_results: [],
+        entities: [],
+        summary: null,
+      },
+      { contactId: usageContext.contactId || undefined, channel, keepCopy: false }
+    );
+
+    const piiFindings = { ...(transcript.pii_findings || {}) };
+    Object.entries(findings).forEach(([type, count]) => {
+      piiFindings[type] = (piiFindings[type] || 0) + (count || 0);
+    });
+
+    return {
+      ...transcript,
+      translation: { ...translation, text: redacted.text, utterances: redacted.utterances },
+      pii_findings: piiFindings,
+    };
+  } catch (error) {
+    console.error(`⚠️ Translation failed for ${usageContext.contactId || transcript.id}, keeping the original only:`, error);
+    return transcript;
+  }
+}
@@ -0,0 +1,235 @@
+// lib/usage.ts - Cost accounting for transcription minutes and OpenAI tokens
+import { supabaseAdmin } from './supabaseAdmin';
+import { getIngestChannel } from './channelConfig';
+import type { Transcript } from './transcription';
+
+export type UsageKind = 'transcription' | 'categorisation' | 'chat' | 'translation';
+
+// Who a request is billed to; the channel defaults to the ingest channel
+export interface UsageContext {
+  channel?: string | null;
+  agentUsername?: string | null;
+  contactId?: string | null;
+}
+
+export interface UsageReportRow {
+  day: string;
+  channel: string | null;
+  agent_username: string | null;
+  kind: UsageKind;
+  events: number;
+  audio_seconds: number;
+  prompt_tokens: number;
+  completion_tokens: number;
+  cost_usd: number;
+}
+
+export interface UsageTotals {
+  events: number;
+  audioMinutes: number;
+  promptTokens: number;
+  completionTokens: number;
+  costUsd: number;
+}
+
+export interface UsageReport {
+  start: string;
+  end: string;
+  channel: string | null;
+  rows: UsageReportRow[];
+  byDay: Record<string, UsageTotals>;
+  byChannel: Record<string, UsageTotals>;
+  byAgent: Record<string, UsageTotals>;
+  totals: UsageTotals;
+}
+
+// Minimal shape of an OpenAI chat completion that we account for
+interface CompletionLike {
+  model: string;
+  usage?: { prompt_tokens: number; completion_tokens: number } | null;
+}
+
+const USAGE_TABLE = 'usage_events';
+const UNKNOWN_LABEL = 'Unknown';
+
+// USD per hour of audio. AssemblyAI's rate includes the speaker labels,
+// sentiment, entity and summary add-ons the pipeline requests.
+const TRANSCRIPTION_COST_PER_HOUR: Record<string, number> = {
+  assemblyai: 0.65,
+  whisper: 0, // Self-hosted
+};
+
+// USD per million tokens, matched on the model prefix (e.g. gpt-4o-2024-08-06)
+const OPENAI_TOKEN_PRICES: Record<string, { prompt: number; completion: number }> = {
+  'gpt-4o-mini': { prompt: 0.15, completion: 0.6 },
+  'gpt-4o': { prompt: 2.5, completion: 10 },
+};
+
+// Helper function to read a rate override such as ASSEMBLYAI_COST_PER_HOUR
+function getTranscriptionRate(provider: string): number {
+  const override = parseFloat(process.env[`${provider.toUpperCase()}_COST_PER_HOUR`] || '');
+  return Number.isFinite(override) && override >= 0 ? override : TRANSCRIPTION_COST_PER_HOUR[provider] ?? 0;
+}
+
+// Helper function to find token prices, longest matching model prefix first
+function getTokenPrices(model: string) {
+  const match = Object.keys(OPENAI_TOKEN_PRICES)
+    .sort((a, b) => b.length - a.length)
+    .find((prefix) => model.startsWith(prefix));
+
+  if (!match) {
+    console.warn(`⚠️ No token prices for model ${model}, recording usage at no cost`);
+    return { prompt: 0, completion: 0 };
+  }
+
+  return OPENAI_TOKEN_PRICES[match];
+}
+
+// Function to price a transcript from its audio duration
+export function getTranscriptionCost(provider: string, audioSeconds: number): number {
+  return (audioSeconds / 3600) * getTranscriptionRate(provider);
+}
+
+// Function to price an OpenAI completion from its token usage
+export function getCompletionCost(model: string, promptTokens: number, completionTokens: number): number {
+  const prices = getTokenPrices(model);
+  return (promptTokens * prices.prompt + completionTokens * prices.completion) / 1_000_000;
+}
+
+function resolveChannel(context: UsageContext): string {
+  return context.channel || String(getIngestChannel().id);
+}
+
+// Helper function to write a usage event. Accounting must never fail the
+// request it describes, so errors are only logged.
+async function insertUsageEvent(event: Record<string, unknown>) {
+  try {
+    const { error } = await supabaseAdmin
+      .from(USAGE_TABLE)
+      .upsert(event, { onConflict: 'kind,source_id', ignoreDuplicates: true });
+
+    if (error) {
+      console.error(`⚠️ Could not record ${event.kind} usage:`, error.message);
+    }
+  } catch (error) {
+    console.error(`⚠️ Could not record ${event.kind} usage:`, error);
+  }
+}
+
+// Function to record the audio minutes of a finished transcript.
+// Keyed on the transcript id, so recording the same transcript twice is harmless.
+export async function recordTranscriptionUsage(
+  transcript: Pick<Transcript, 'id' | 'provider' | 'audio_duration'>,
+  context: UsageContext = {}
+): Promise<void> {
+  const audioSeconds = transcript.audio_duration || 0;
+
+  await insertUsageEvent({
+    kind: 'transcription',
+    provider: transcript.provider,
+    model: transcript.provider === 'assemblyai' ? 'best' : process.env.WHISPER_MODEL || null,
+    channel: resolveChannel(context),
+    agent_username: context.agentUsername || null,
+    contact_id: context.contactId || null,
+    source_id: transcript.id,
+    audio_seconds: audioSeconds,
+    cost_usd: getTranscriptionCost(transcript.provider, audioSeconds),
+  });
+}
+
+// Function to record the tokens used by an OpenAI completion
+export async function recordCompletionUsage(
+  kind: Exclude<UsageKind, 'transcription'>,
+  completion: CompletionLike,
+  context: UsageContext = {}
+): Promise<void> {
+  const promptTokens = completion.usage?.prompt_tokens || 0;
+  const completionTokens = completion.usage?.completion_tokens || 0;
+
+  await insertUsageEvent({
+    kind,
+    provider: 'openai',
+    model: completion.model,
+    channel: resolveChannel(context),
+    agent_username: context.agentUsername || null,
+    contact_id: context.contactId || null,
+    prompt_tokens: promptTokens,
+    completion_tokens: completionTokens,
+    cost_usd: getCompletionCost(completion.model, promptTokens, completionTokens),
+  });
+}
+
+function emptyTotals(): UsageTotals {
+  return { events: 0, audioMinutes: 0, promptTokens: 0, completionTokens: 0, costUsd: 0 };
+}
+
+function addRow(totals: UsageTotals, row: UsageReportRow) {
+  totals.events += row.events;
+  totals.audioMinutes += row.audio_seconds / 60;
+  totals.promptTokens += row.prompt_tokens;
+  totals.completionTokens += row.completion_tokens;
+  totals.costUsd += row.cost_usd;
+}
+
+// Function to build the cost report by day, channel and agent
+export async function getUsageReport(start: Date, end: Date, channel?: string | null): Promise<UsageReport> {
+  const { data, error } = await supabaseAdmin.rpc('usage_cost_report', {
+    p_start: start.toISOString(),
+    p_end: end.toISOString(),
+    p_channel: channel || null,
+  });
+
+  if (error) {
+    throw new Error(`Failed to build usage report: ${error.message}`);
+  }
+
+  // numeric and bigint columns come back as strings
+  const rows: UsageReportRow[] = ((data as Record<string, unknown>[]) || []).map((row) => ({
+    day: row.day as string,
+    channel: (row.channel as string) ?? null,
+    agent_username: (row.agent_username as string) ?? null,
+    kind: row.kind as UsageKind,
+    events: Number(row.events),
+    audio_seconds: Number(row.audio_seconds),
+    prompt_tokens: Number(row.prompt_tokens),
+    completion_tokens: Number(row.completion_tokens),
+    cost_usd: Number(row.cost_usd),
+  }));
+
+  const report: UsageReport = {
+    start: start.toISOString(),
+    end: end.toISOString(),
+    channel: channel || null,
+    rows,
+    byDay: {},
+    byChannel: {},
+    byAgent: {},
+    totals: emptyTotals(),
+  };
+
+  rows.forEach((row) => {
+    const channelKey = row.channel || UNKNOWN_LABEL;
+    const agentKey = row.agent_username || UNKNOWN_LABEL;
+
+    addRow((report.byDay[row.day] ??= emptyTotals()), row);
+    addRow((report.byChannel[channelKey] ??= emptyTotals()), row);
+    addRow((report.byAgent[agentKey] ??= emptyTotals()), row);
+    addRow(report.totals, row);
+  });
+
+  return report;
+}
+
+// Function to get total spend for a channel since a point in time
+export async function getChannelSpend(channel: string, since: Date): Promise<number> {
+  const { data, error } = await supabaseAdmin.rpc('channel_spend_since', {
+    p_channel: channel,
+    p_since: since.toISOString(),
+  });
+
+  if (error) {
+    throw new Error(`Failed to fetch spend for channel ${channel}: ${error.message}`);
+  }
+
+  return Number(data) || 0;
+}
@@ -0,0 +1,107 @@
+// lib/vocabulary.ts - Custom transcription vocabulary per channel
+import { supabaseAdmin } from './supabaseAdmin';
+import { getIngestChannel } from './channelConfig';
+import type { Vocabulary, WordBoostLevel } from './transcription';
+
+export interface ChannelVocabulary {
+  channel: string;
+  words: string[];
+  boost_param: WordBoostLevel;
+  updated_at: string;
+}
+
+const VOCABULARY_TABLE = 'channel_vocabularies';
+
+export const WORD_BOOST_LEVELS: WordBoostLevel[] = ['low', 'default', 'high'];
+
+// AssemblyAI rejects word_boost lists beyond these limits
+export const MAX_VOCABULARY_TERMS = 1000;
+const MAX_WORDS_PER_TERM = 6;
+
+// Function to tidy a submitted word list: trimmed, de-duplicated (case-insensitively), no blanks
+export function normaliseVocabularyWords(words: string[]): string[] {
+  const seen = new Set<string>();
+
+  return words
+    .map((word) => word.trim().replace(/\s+/g, ' '))
+    .filter((word) => {
+      const key = word.toLowerCase();
+      if (!word || seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    });
+}
+
+// Function to check a word list against the provider limits (null means valid)
+export function vocabularyError(words: string[]): string | null {
+  if (words.length > MAX_VOCABULARY_TERMS) {
+    return `Vocabulary is limited to ${MAX_VOCABULARY_TERMS} terms (got ${words.length})`;
+  }
+
+  const tooLong = words.find((word) => word.split(' ').length > MAX_WORDS_PER_TERM);
+  if (tooLong) {
+    return `Terms can have at most ${MAX_WORDS_PER_TERM} words: "${tooLong}"`;
+  }
+
+  return null;
+}
+
+// Function to list every channel's stored vocabulary
+export async function getChannelVocabularies(): Promise<ChannelVocabulary[]> {
+  const { data, error } = await supabaseAdmin
+    .from(VOCABULARY_TABLE)
+    .select('*')
+    .order('channel', { ascending: true });
+
+  if (error) {
+    throw new Error(`Failed to fetch channel vocabularies: ${error.message}`);
+  }
+
+  return (data as ChannelVocabulary[]) || [];
+}
+
+// Function to replace a channel's vocabulary
+export async function saveChannelVocabulary(
+  channel: string,
+  words: string[],
+  boostParam: WordBoostLevel
+): Promise<ChannelVocabulary> {
+  const { data, error } = await supabaseAdmin
+    .from(VOCABULARY_TABLE)
+    .upsert({
+      channel,
+      words: normaliseVocabularyWords(words),
+      boost_param: boostParam,
+      updated_at: new Date().toISOString(),
+    })
+    .select()
+    .single();
+
+  if (error) {
+    throw new Error(`Failed to save vocabulary for channel ${channel}: ${error.message}`);
+  }
+
+  return data as ChannelVocabulary;
+}
+
+// Function to get the vocabulary to send with a transcription request.
+// Transcribing without one beats failing the call, so lookup errors return null.
+export async function getTranscriptionVocabulary(
+  channel: string = String(getIngestChannel().id)
+): Promise<Vocabulary | null> {
+  try {
+    const { data, error } = await supabaseAdmin
+      .from(VOCABULARY_TABLE)
+      .select('words, boost_param')
+      .eq('channel', channel)
+      .maybeSingle();
+
+    if (error) throw new Error(error.message);
+    if (!data || data.words.length === 0) return null;
+
+    return { words: data.words, boost: data.boost_param };
+  } catch (error) {
+    console.error(`⚠️ Could not load vocabulary for channel ${channel}, transcribing without it:`, error);
+    return null;
+  }
+}
@@ -0,0 +1,149 @@
+// lib/wav.ts - Reading WAV headers without decoding the audio
+
+export interface WavInfo {
+  audioFormat: number; // 1 = PCM, 6 = A-law, 7 = mu-law
+  channels: number;
+  sampleRate: number;
+  bitsPerSample: number;
+  byteRate: number;
+  dataOffset: number | null; // Where the samples start; null when beyond the bytes given
+  dataBytes: number | null; // null when the data chunk starts beyond the bytes given
+  durationSeconds: number | null;
+}
+
+// Enough to reach the data chunk in recordings with LIST/fact chunks before it
+export const WAV_HEADER_PROBE_BYTES = 4096;
+
+// Function to parse a WAV header. Only the start of the file is needed; returns
+// null when the bytes aren't a RIFF/WAVE file with a fmt chunk.
+export function parseWavHeader(buffer: Buffer): WavInfo | null {
+  if (buffer.length < 12) return null;
+  if (buffer.toString("ascii", 0, 4) !== "RIFF" || buffer.toString("ascii", 8, 12) !== "WAVE") {
+    return null;
+  }
+
+  let info: Omit<WavInfo, "dataOffset" | "dataBytes" | "durationSeconds"> | null = null;
+  let offset = 12;
+
+  // Chunks are [id:4][size:4][body], padded to an even length
+  while (offset + 8 <= buffer.length) {
+    const id = buffer.toString("ascii", offset, offset + 4);
+    const size = buffer.readUInt32LE(offset + 4);
+    const body = offset + 8;
+
+    if (id === "fmt " && body + 16 <= buffer.length) {
+      info = {
+        audioFormat: buffer.readUInt16LE(body),
+        channels: buffer.readUInt16LE(body + 2),
+        sampleRate: buffer.readUInt32LE(body + 4),
+        byteRate: buffer.readUInt32LE(body + 8),
+        bitsPerSample: buffer.readUInt16LE(body + 14),
+      };
+    }
+
+    if (id === "data") {
+      if (!info) return null;
+      return {
+        ...info,
+        dataOffset: body,
+        dataBytes: size,
+        durationSeconds: info.byteRate > 0 ? size / info.byteRate : null,
+      };
+    }
+
+    offset = body + size + (size % 2);
+  }
+
+  return info ? { ...info, dataOffset: null, dataBytes: null, durationSeconds: null } : null;
+}
+
+// Function to read the header of a WAV served over HTTP without downloading it
+// all. Asks for a byte range, but stops reading either way once it has enough.
+export async function fetchWavHeader(url: string): Promise<WavInfo | null> {
+  const response = await fetch(url, {
+    headers: { Range: `bytes=0-${WAV_HEADER_PROBE_BYTES - 1}` },
+    signal: AbortSignal.timeout(15000),
+  });
+
+  if (!response.ok || !response.body) {
+    throw new Error(`Failed to read WAV header: ${response.status}`);
+  }
+
+  const reader = response.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let received = 0;
+
+  try {
+    while (received < WAV_HEADER_PROBE_BYTES) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      chunks.push(value);
+      received += value.length;
+    }
+  } finally {
+    await reader.cancel().catch(() => undefined);
+  }
+
+  return parseWavHeader(Buffer.concat(chunks));
+}
+
+// Helper function to decode a G.711 A-law byte to a 16-bit sample
+function decodeALaw(byte: number): number {
+  const value = byte ^ 0x55;
+  const exponent = (value & 0x70) >> 4;
+  let sample = ((value & 0x0f) << 4) + 8;
+  if (exponent > 0) sample = (sample + 0x100) << (exponent - 1);
+  return value & 0x80 ? sample : -sample;
+}
+
+// Helper function to decode a G.711 mu-law byte to a 16-bit sample
+function decodeMuLaw(byte: number): number {
+  const value = ~byte & 0xff;
+  const exponent = (value & 0x70) >> 4;
+  const sample = ((((value & 0x0f) << 3) + 0x84) << exponent) - 0x84;
+  return value & 0x80 ? -sample : sample;
+}
+
+// Function to measure the RMS level of each channel in dBFS (-Infinity for
+// digital silence). Covers the samples present in the buffer, so a truncated
+// file is measured as far as it goes. Returns null for formats other than
+// 8/16-bit PCM, A-law and mu-law.
+export function measureWavLevels(buffer: Buffer, info: WavInfo): number[] | null {
+  if (info.dataOffset === null || info.channels < 1) return null;
+
+  let readSample: (offset: number) => number;
+  let bytesPerSample: number;
+
+  if (info.audioFormat === 1 && info.bitsPerSample === 16) {
+    readSample = (offset) => buffer.readInt16LE(offset);
+    bytesPerSample = 2;
+  } else if (info.audioFormat === 1 && info.bitsPerSample === 8) {
+    readSample = (offset) => (buffer[offset] - 128) << 8;
+    bytesPerSample = 1;
+  } else if (info.audioFormat === 6) {
+    readSample = (offset) => decodeALaw(buffer[offset]);
+    bytesPerSample = 1;
+  } else if (info.audioFormat === 7) {
+    readSample = (offset) => decodeMuLaw(buffer[offset]);
+    bytesPerSample = 1;
+  } else {
+    return null;
+  }
+
+  const frameBytes = bytesPerSample * info.channels;
+  const end = Math.min(buffer.length, info.dataOffset + (info.dataBytes ?? buffer.length));
+  const sumOfSquares = new Array<number>(info.channels).fill(0);
+  let frames = 0;
+
+  for (let offset = info.dataOffset; offset + frameBytes <= end; offset += frameBytes) {
+    for (let channel = 0; channel < info.channels; channel++) {
+      const sample = readSample(offset + channel * bytesPerSample);
+      sumOfSquares[channel] += sample * sample;
+    }
+    frames++;
+  }
+
+  return sumOfSquares.map((sum) =>
+    frames > 0 && sum > 0 ? 20 * Math.log10(Math.sqrt(sum / frames) / 32768) : -Infinity
+  );
+}
@@ -0,0 +1,63 @@
+// lib/workerHeartbeat.ts - Heartbeats for the headless ingestion worker
+import { supabaseAdmin } from './supabaseAdmin';
+
+export type WorkerStatus = 'starting' | 'idle' | 'processing' | 'paused' | 'stopping' | 'stopped';
+
+export interface WorkerHeartbeat {
+  worker_id: string;
+  hostname: string;
+  pid: number;
+  status: WorkerStatus;
+  concurrency: number;
+  in_flight: number;
+  processed_count: number;
+  failed_count: number;
+  last_poll_at: string | null;
+  last_error: string | null;
+  started_at: string;
+  last_heartbeat_at: string;
+}
+
+export interface WorkerHeartbeatWithHealth extends WorkerHeartbeat {
+  online: boolean;
+}
+
+const HEARTBEAT_TABLE = 'worker_heartbeats';
+export const HEARTBEAT_INTERVAL_MS = 15 * 1000;
+const OFFLINE_AFTER_MS = HEARTBEAT_INTERVAL_MS * 3; // Allow a couple of missed beats
+const RECENT_WORKER_LIMIT = 10;
+
+// Function to upsert this worker's heartbeat row
+export async function recordHeartbeat(
+  heartbeat: Omit<WorkerHeartbeat, 'last_heartbeat_at'>
+): Promise<void> {
+  const { error } = await supabaseAdmin
+    .from(HEARTBEAT_TABLE)
+    .upsert({ ...heartbeat, last_heartbeat_at: new Date().toISOString() });
+
+  if (error) {
+    throw new Error(`Failed to record worker heartbeat: ${error.message}`);
+  }
+}
+
+// Function to get the most recently active workers with an online flag
+export async function getWorkerHeartbeats(): Promise<WorkerHeartbeatWithHealth[]> {
+  const { data, error } = await supabaseAdmin
+    .from(HEARTBEAT_TABLE)
+    .select('*')
+    .order('last_heartbeat_at', { ascending: false })
+    .limit(RECENT_WORKER_LIMIT);
+
+  if (error) {
+    throw new Error(`Failed to fetch worker heartbeats: ${error.message}`);
+  }
+
+  const now = Date.now();
+
+  return ((data as WorkerHeartbeat[]) || []).map((beat) => ({
+    ...beat,
+    online:
+      beat.status !== 'stopped' &&
+      now - new Date(beat.last_heartbeat_at).getTime() < OFFLINE_AFTER_MS,
+  }));
+}
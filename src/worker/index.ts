@@ -0,0 +1,15 @@
+// worker/index.ts - Entry point for `npm run worker`
+import { loadEnvConfig } from "@next/env";
+
+// Load .env files the same way `next dev`/`next start` do. This has to run
+// before the worker modules are imported because the lib clients read
+// process.env when they are first loaded.
+loadEnvConfig(process.cwd());
+
+import("./ingestWorker")
+  .then(({ startIngestWorker }) => startIngestWorker())
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error("💥 Ingestion worker crashed:", error);
+    process.exit(1);
+  });
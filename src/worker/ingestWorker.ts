@@ -0,0 +1,281 @@
+// worker/ingestWorker.ts - Polls contact_log and runs the call pipeline without a browser tab
+import { hostname } from "os";
+import { getContactLogs } from "@/lib/db";
+import { enhanceCallLogsWithSupabaseStatus } from "@/lib/callRecords";
+import type { ChannelCallLog } from "@/lib/domain";
+import { claimCallJobs, createLeaseOwner, enqueueCallJobs } from "@/lib/jobQueue";
+import { processCall, releaseCall } from "@/lib/callPipeline";
+import { getTranscriptionProvider } from "@/lib/transcription";
+import { callsBudgetExceededError } from "@/lib/budget";
+import { crawlRecordings } from "@/lib/recordingIndex";
+import {
+  HEARTBEAT_INTERVAL_MS,
+  recordHeartbeat,
+  WorkerStatus,
+} from "@/lib/workerHeartbeat";
+
+interface WorkerConfig {
+  pollIntervalMs: number;
+  concurrency: number;
+  lookbackDays: number;
+  crawlIntervalMs: number;
+}
+
+interface WorkerState {
+  status: WorkerStatus;
+  processed: number;
+  // Handed to the webhook; the webhook saves them, so they aren't processed here
+  submitted: number;
+  failed: number;
+  lastPollAt: string | null;
+  lastError: string | null;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Helper function to read a positive integer from the environment
+function readPositiveInt(name: string, fallback: number): number {
+  const value = parseInt(process.env[name] || "", 10);
+  return Number.isFinite(value) && value > 0 ? value : fallback;
+}
+
+function getWorkerConfig(): WorkerConfig {
+  return {
+    pollIntervalMs: readPositiveInt("WORKER_POLL_INTERVAL_MS", 60 * 1000),
+    concurrency: readPositiveInt("WORKER_CONCURRENCY", 2),
+    lookbackDays: readPositiveInt("WORKER_LOOKBACK_DAYS", 7),
+    crawlIntervalMs: readPositiveInt("WORKER_CRAWL_INTERVAL_MS", 10 * 60 * 1000),
+  };
+}
+
+export async function startIngestWorker(): Promise<void> {
+  const config = getWorkerConfig();
+  const configError = getTranscriptionProvider().configurationError();
+  if (configError) {
+    throw new Error(configError);
+  }
+
+  const workerId = createLeaseOwner("worker");
+  const startedAt = new Date().toISOString();
+  const state: WorkerState = {
+    status: "starting",
+    processed: 0,
+    submitted: 0,
+    failed: 0,
+    lastPollAt: null,
+    lastError: null,
+  };
+
+  const inFlight = new Set<Promise<void>>();
+  let candidates = new Map<string, ChannelCallLog>();
+  let lastRefresh = 0;
+  let crawl: Promise<void> | null = null;
+  let lastCrawl = 0;
+  let stopping = false;
+  let paused = false;
+  let wakeRequested = false;
+
+  // A wake requested while the loop is busy skips its next sleep
+  const requestWake = () => {
+    wakeRequested = true;
+  };
+  let wake: () => void = requestWake;
+
+  console.log(`🤖 Starting ingestion worker ${workerId}`, config);
+
+  // Heartbeat so the UI can tell whether a worker is alive
+  const beat = async () => {
+    try {
+      await recordHeartbeat({
+        worker_id: workerId,
+        hostname: hostname(),
+        pid: process.pid,
+        status: state.status,
+        concurrency: config.concurrency,
+        in_flight: inFlight.size,
+        processed_count: state.processed,
+        failed_count: state.failed,
+        last_poll_at: state.lastPollAt,
+        last_error: state.lastError,
+        started_at: startedAt,
+      });
+    } catch (error) {
+      console.error("⚠️ Heartbeat failed:", error);
+    }
+  };
+
+  const updateStatus = (status?: WorkerStatus) => {
+    state.status = status || (inFlight.size > 0 ? "processing" : paused ? "paused" : "idle");
+  };
+
+  // Find calls in the lookback window that are missing from call_records
+  const refreshCandidates = async () => {
+    const end = new Date();
+    const start = new Date(end.getTime() - config.lookbackDays * DAY_MS);
+
+    const logs: ChannelCallLog[] = await getContactLogs({ start, end });
+    const enhancedLogs = await enhanceCallLogsWithSupabaseStatus(logs);
+    const missing = enhancedLogs.filter(
+      (log) => !log.existsInSupabase && log.recording_location
+    );
+
+    await enqueueCallJobs(missing.map((log) => log.contact_id));
+
+    candidates = new Map(missing.map((log) => [log.contact_id, log]));
+    lastRefresh = Date.now();
+    state.lastPollAt = end.toISOString();
+    console.log(`📊 Poll found ${missing.length}/${logs.length} calls without transcriptions`);
+  };
+
+  // Keep the recording index current in the background, so downloads rarely
+  // have to wait for a catch-up crawl
+  const crawlIfDue = () => {
+    if (crawl || Date.now() - lastCrawl < config.crawlIntervalMs) return;
+
+    crawl = crawlRecordings()
+      .then(() => undefined)
+      .catch((error) => console.error("⚠️ Recording crawl failed:", error))
+      .finally(() => {
+        crawl = null;
+        lastCrawl = Date.now();
+      });
+  };
+
+  const runCall = (log: ChannelCallLog) => {
+    const task = (async () => {
+      try {
+        const outcome = await processCall(log, workerId);
+        if (outcome === "submitted") {
+          // Handed off to the webhook, which releases the job
+          state.submitted++;
+          return;
+        }
+
+        if (outcome === "rejected") {
+          // Already failed for good by the integrity check
+          state.failed++;
+          state.lastError = `${log.contact_id}: recording failed integrity check`;
+          return;
+        }
+
+        await releaseCall(log.contact_id, workerId);
+        if (outcome === "saved") state.processed++;
+      } catch (error) {
+        console.error(`❌ Error processing call ${log.contact_id}:`, error);
+        await releaseCall(log.contact_id, workerId, error);
+        state.failed++;
+        state.lastError = `${log.contact_id}: ${
+          error instanceof Error ? error.message : "Unknown error"
+        }`;
+      }
+    })().finally(() => {
+      inFlight.delete(task);
+      if (!stopping) updateStatus();
+      wake(); // A slot is free, so try to claim the next call straight away
+    });
+
+    inFlight.add(task);
+  };
+
+  // Claim as many candidates as there are free slots
+  const fillSlots = async () => {
+    const freeSlots = config.concurrency - inFlight.size;
+    if (freeSlots <= 0 || candidates.size === 0) return;
+
+    // Stop claiming once a candidate channel's monthly budget is spent; in-flight calls finish
+    const budgetError = await callsBudgetExceededError(Array.from(candidates.values()));
+    if (budgetError) {
+      if (!paused) console.warn(`⏸️ ${budgetError}`);
+      paused = true;
+      state.lastError = budgetError;
+      updateStatus();
+      return;
+    }
+
+    if (paused) {
+      console.log("▶️ Budget available again, resuming");
+      paused = false;
+      state.lastError = null;
+    }
+
+    const jobs = await claimCallJobs(workerId, {
+      contactIds: Array.from(candidates.keys()),
+      limit: freeSlots,
+    });
+
+    jobs.forEach((job) => {
+      const log = candidates.get(job.contact_id);
+      candidates.delete(job.contact_id);
+      if (log) runCall(log);
+    });
+
+    updateStatus();
+  };
+
+  // Interruptible sleep so freed slots and shutdown don't wait for the poll interval
+  const sleep = (ms: number) =>
+    new Promise<void>((resolve) => {
+      if (wakeRequested) {
+        wakeRequested = false;
+        return resolve();
+      }
+
+      const done = () => {
+        clearTimeout(timer);
+        wake = requestWake;
+        resolve();
+      };
+      const timer = setTimeout(done, ms);
+      wake = done;
+    });
+
+  // Graceful shutdown: stop claiming, let in-flight calls finish, then exit.
+  // A second signal exits immediately; unfinished leases expire and are retried.
+  const shutdown = (signal: string) => {
+    if (stopping) {
+      console.warn(`⚠️ Received ${signal} again, exiting without waiting`);
+      process.exit(1);
+    }
+
+    console.log(`🛑 Received ${signal}, waiting for ${inFlight.size} in-flight call(s)...`);
+    stopping = true;
+    updateStatus("stopping");
+    beat();
+    wake();
+  };
+
+  process.on("SIGINT", () => shutdown("SIGINT"));
+  process.on("SIGTERM", () => shutdown("SIGTERM"));
+
+  await beat();
+  const heartbeatTimer = setInterval(beat, HEARTBEAT_INTERVAL_MS);
+
+  while (!stopping) {
+    crawlIfDue();
+
+    try {
+      if (Date.now() - lastRefresh >= config.pollIntervalMs) {
+        await refreshCandidates();
+      }
+      await fillSlots();
+    } catch (error) {
+      console.error("⚠️ Worker poll failed:", error);
+      state.lastError = error instanceof Error ? error.message : "Unknown error";
+      lastRefresh = Date.now(); // Back off until the next poll interval
+    }
+
+    if (!stopping) {
+      await sleep(Math.max(0, config.pollIntervalMs - (Date.now() - lastRefresh)));
+    }
+  }
+
+  await Promise.allSettled([...Array.from(inFlight), crawl]);
+
+  clearInterval(heartbeatTimer);
+  updateStatus("stopped");
+  await beat();
+
+  console.log(
+    `👋 Worker stopped (${state.processed} processed, ${state.submitted} left to the webhook, ${state.failed} failed)`
+  );
+}
@@ -0,0 +1,137 @@
+-- Durable job queue for the call processing pipeline.
+-- One row per contact_id. Workers claim rows under a lease so that two
+-- batches (or two server instances) can never transcribe the same call.
+
+create table if not exists public.call_processing_jobs (
+  contact_id text primary key,
+  status text not null default 'pending'
+    check (status in ('pending', 'processing', 'completed', 'failed')),
+  attempts integer not null default 0,
+  max_attempts integer not null default 3,
+  last_error text,
+  next_retry_at timestamptz not null default now(),
+  lease_owner text,
+  lease_expires_at timestamptz,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index if not exists call_processing_jobs_claimable_idx
+  on public.call_processing_jobs (status, next_retry_at);
+
+-- Enqueue calls. Pending, processing and failed rows are left untouched so
+-- attempt counts survive. A completed row is only re-enqueued when its
+-- call_records row has gone missing, so it is reset to a fresh job.
+create or replace function public.enqueue_call_jobs(p_contact_ids text[])
+returns integer
+language plpgsql
+as $$
+declare
+  inserted integer;
+begin
+  insert into public.call_processing_jobs (contact_id)
+  select distinct unnest(p_contact_ids)
+  on conflict (contact_id) do update
+  set status = 'pending',
+      attempts = 0,
+      last_error = null,
+      next_retry_at = now(),
+      updated_at = now()
+  where public.call_processing_jobs.status = 'completed';
+
+  get diagnostics inserted = row_count;
+  return inserted;
+end;
+$$;
+
+-- Claim up to p_limit jobs for p_owner. Pending jobs whose retry time has
+-- passed and processing jobs whose lease has expired are both claimable.
+-- SKIP LOCKED keeps concurrent claimers from blocking on each other.
+create or replace function public.claim_call_jobs(
+  p_owner text,
+  p_limit integer default 3,
+  p_lease_seconds integer default 900,
+  p_contact_ids text[] default null
+)
+returns setof public.call_processing_jobs
+language plpgsql
+as $$
+begin
+  return query
+  with claimable as (
+    select j.contact_id
+    from public.call_processing_jobs j
+    where j.attempts < j.max_attempts
+      and (
+        (j.status = 'pending' and j.next_retry_at <= now())
+        or (j.status = 'processing' and j.lease_expires_at < now())
+      )
+      and (p_contact_ids is null or j.contact_id = any (p_contact_ids))
+    order by j.next_retry_at
+    limit p_limit
+    for update skip locked
+  )
+  update public.call_processing_jobs j
+  set status = 'processing',
+      attempts = j.attempts + 1,
+      lease_owner = p_owner,
+      lease_expires_at = now() + make_interval(secs => p_lease_seconds),
+      updated_at = now()
+  from claimable
+  where j.contact_id = claimable.contact_id
+  returning j.*;
+end;
+$$;
+
+-- Mark a claimed job as completed. Only the current lease owner may do so.
+create or replace function public.complete_call_job(
+  p_contact_id text,
+  p_owner text
+)
+returns boolean
+language plpgsql
+as $$
+begin
+  update public.call_processing_jobs
+  set status = 'completed',
+      last_error = null,
+      lease_owner = null,
+      lease_expires_at = null,
+      updated_at = now()
+  where contact_id = p_contact_id
+    and lease_owner = p_owner;
+
+  return found;
+end;
+$$;
+
+-- Record a failed attempt. The job goes back to pending with an exponential
+-- backoff, or to failed once max_attempts is reached.
+create or replace function public.fail_call_job(
+  p_contact_id text,
+  p_owner text,
+  p_error text,
+  p_retry_base_seconds integer default 60
+)
+returns public.call_processing_jobs
+language plpgsql
+as $$
+declare
+  job public.call_processing_jobs;
+begin
+  update public.call_processing_jobs
+  set status = case when attempts >= max_attempts then 'failed' else 'pending' end,
+      last_error = p_error,
+      next_retry_at = now() + make_interval(
+        secs => p_retry_base_seconds * power(2, greatest(attempts - 1, 0))
+      ),
+      lease_owner = null,
+      lease_expires_at = null,
+      updated_at = now()
+  where contact_id = p_contact_id
+    and lease_owner = p_owner
+  returning * into job;
+
+  return job;
+end;
+$$;
@@ -0,0 +1,21 @@
+-- Heartbeats written by the headless ingestion worker (npm run worker).
+-- The Call Logs panel reads this table to show whether a worker is online.
+
+create table if not exists public.worker_heartbeats (
+  worker_id text primary key,
+  hostname text not null,
+  pid integer not null,
+  status text not null
+    check (status in ('starting', 'idle', 'processing', 'stopping', 'stopped')),
+  concurrency integer not null,
+  in_flight integer not null default 0,
+  processed_count integer not null default 0,
+  failed_count integer not null default 0,
+  last_poll_at timestamptz,
+  last_error text,
+  started_at timestamptz not null default now(),
+  last_heartbeat_at timestamptz not null default now()
+);
+
+create index if not exists worker_heartbeats_last_heartbeat_idx
+  on public.worker_heartbeats (last_heartbeat_at desc);
@@ -0,0 +1,89 @@
+-- AssemblyAI webhook support for the call processing pipeline.
+-- Instead of polling, a job is submitted with a webhook and parked in the
+-- 'transcribing' state until AssemblyAI calls back. The transcript id is
+-- how the webhook finds its way back to the contact, and call_data keeps
+-- the contact_log row needed to save the call_records row.
+
+alter table public.call_processing_jobs
+  add column if not exists transcript_id text,
+  add column if not exists call_data jsonb,
+  add column if not exists transcript_submitted_at timestamptz;
+
+alter table public.call_processing_jobs
+  drop constraint if exists call_processing_jobs_status_check;
+
+alter table public.call_processing_jobs
+  add constraint call_processing_jobs_status_check
+  check (status in ('pending', 'processing', 'transcribing', 'completed', 'failed'));
+
+create unique index if not exists call_processing_jobs_transcript_id_idx
+  on public.call_processing_jobs (transcript_id)
+  where transcript_id is not null;
+
+-- Park a claimed job until its webhook arrives. The lease is extended so
+-- the job is only picked up again if AssemblyAI never calls back.
+create or replace function public.mark_call_job_transcribing(
+  p_contact_id text,
+  p_owner text,
+  p_transcript_id text,
+  p_call_data jsonb default null,
+  p_lease_seconds integer default 3600
+)
+returns boolean
+language plpgsql
+as $$
+begin
+  update public.call_processing_jobs
+  set status = 'transcribing',
+      transcript_id = p_transcript_id,
+      call_data = p_call_data,
+      transcript_submitted_at = now(),
+      lease_expires_at = now() + make_interval(secs => p_lease_seconds),
+      updated_at = now()
+  where contact_id = p_contact_id
+    and lease_owner = p_owner;
+
+  return found;
+end;
+$$;
+
+-- Claiming now also covers 'transcribing' jobs whose webhook never came.
+-- The old transcript id is cleared so a late webhook for it is ignored.
+create or replace function public.claim_call_jobs(
+  p_owner text,
+  p_limit integer default 3,
+  p_lease_seconds integer default 900,
+  p_contact_ids text[] default null
+)
+returns setof public.call_processing_jobs
+language plpgsql
+as $$
+begin
+  return query
+  with claimable as (
+    select j.contact_id
+    from public.call_processing_jobs j
+    where j.attempts < j.max_attempts
+      and (
+        (j.status = 'pending' and j.next_retry_at <= now())
+        or (j.status in ('processing', 'transcribing') and j.lease_expires_at < now())
+      )
+      and (p_contact_ids is null or j.contact_id = any (p_contact_ids))
+    order by j.next_retry_at
+    limit p_limit
+    for update skip locked
+  )
+  update public.call_processing_jobs j
+  set status = 'processing',
+      attempts = j.attempts + 1,
+      lease_owner = p_owner,
+      lease_expires_at = now() + make_interval(secs => p_lease_seconds),
+      transcript_id = null,
+      call_data = null,
+      transcript_submitted_at = null,
+      updated_at = now()
+  from claimable
+  where j.contact_id = claimable.contact_id
+  returning j.*;
+end;
+$$;
@@ -0,0 +1,40 @@
+-- Per-call progress for the live processing view.
+-- The pipeline records the stage each call is in (and download progress)
+-- on its job row, and /api/process-calls/progress streams the changes.
+
+alter table public.call_processing_jobs
+  add column if not exists stage text not null default 'queued'
+    check (stage in ('queued', 'downloading', 'uploaded', 'transcribing', 'categorising', 'saved', 'failed')),
+  add column if not exists bytes_received bigint,
+  add column if not exists bytes_total bigint,
+  add column if not exists stage_updated_at timestamptz not null default now();
+
+create index if not exists call_processing_jobs_stage_updated_idx
+  on public.call_processing_jobs (stage_updated_at);
+
+-- Enqueueing (or re-enqueueing a completed job) puts it back to 'queued'.
+create or replace function public.enqueue_call_jobs(p_contact_ids text[])
+returns integer
+language plpgsql
+as $$
+declare
+  inserted integer;
+begin
+  insert into public.call_processing_jobs (contact_id)
+  select distinct unnest(p_contact_ids)
+  on conflict (contact_id) do update
+  set status = 'pending',
+      attempts = 0,
+      last_error = null,
+      next_retry_at = now(),
+      stage = 'queued',
+      bytes_received = null,
+      bytes_total = null,
+      stage_updated_at = now(),
+      updated_at = now()
+  where public.call_processing_jobs.status = 'completed';
+
+  get diagnostics inserted = row_count;
+  return inserted;
+end;
+$$;
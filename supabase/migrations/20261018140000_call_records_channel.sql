@@ -0,0 +1,13 @@
+-- Record which channel each call belongs to so backfills and reports can
+-- be scoped per channel. Existing rows all came from Team Global Express
+-- (channel 22), the only channel ingested so far.
+
+alter table public.call_records
+  add column if not exists channel text;
+
+update public.call_records
+set channel = '22'
+where channel is null or channel = '';
+
+create index if not exists call_records_channel_initiation_idx
+  on public.call_records (channel, initiation_timestamp);
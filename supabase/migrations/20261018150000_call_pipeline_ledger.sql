@@ -0,0 +1,18 @@
+-- Append-only ledger of pipeline stage outputs per call.
+-- Each completed stage writes its output here so a retry can resume from
+-- the last good stage instead of re-downloading and re-transcribing, and
+-- the rows double as an audit trail per contact_id.
+
+create table if not exists public.call_pipeline_ledger (
+  id bigserial primary key,
+  contact_id text not null,
+  stage text not null
+    check (stage in ('sftp_located', 'transcript_submitted', 'transcript_received', 'categorised', 'saved', 'failed')),
+  output jsonb,
+  error text,
+  lease_owner text,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists call_pipeline_ledger_contact_idx
+  on public.call_pipeline_ledger (contact_id, created_at);
@@ -0,0 +1,94 @@
+-- Cost accounting for transcription and OpenAI usage, with monthly
+-- budget caps per channel that pause the pipeline once reached.
+
+create table if not exists public.usage_events (
+  id bigserial primary key,
+  kind text not null
+    check (kind in ('transcription', 'categorisation', 'chat')),
+  provider text not null,
+  model text,
+  channel text,
+  agent_username text,
+  contact_id text,
+  -- Transcript id for transcription events, so repeated status polls record it once
+  source_id text,
+  audio_seconds numeric not null default 0,
+  prompt_tokens integer not null default 0,
+  completion_tokens integer not null default 0,
+  cost_usd numeric(12, 6) not null default 0,
+  created_at timestamptz not null default now()
+);
+
+-- Not partial so upserts can target it; null source_ids never conflict
+create unique index if not exists usage_events_source_idx
+  on public.usage_events (kind, source_id);
+
+create index if not exists usage_events_channel_created_idx
+  on public.usage_events (channel, created_at);
+
+create index if not exists usage_events_created_idx
+  on public.usage_events (created_at);
+
+create table if not exists public.channel_budgets (
+  channel text primary key,
+  monthly_cap_usd numeric(12, 2) not null check (monthly_cap_usd >= 0),
+  updated_at timestamptz not null default now()
+);
+
+-- Usage rolled up by day, channel and agent for the cost report.
+create or replace function public.usage_cost_report(
+  p_start timestamptz,
+  p_end timestamptz,
+  p_channel text default null
+)
+returns table (
+  day date,
+  channel text,
+  agent_username text,
+  kind text,
+  events bigint,
+  audio_seconds numeric,
+  prompt_tokens bigint,
+  completion_tokens bigint,
+  cost_usd numeric
+)
+language sql
+stable
+as $$
+  select
+    (e.created_at at time zone 'utc')::date as day,
+    e.channel,
+    e.agent_username,
+    e.kind,
+    count(*) as events,
+    sum(e.audio_seconds) as audio_seconds,
+    sum(e.prompt_tokens)::bigint as prompt_tokens,
+    sum(e.completion_tokens)::bigint as completion_tokens,
+    sum(e.cost_usd) as cost_usd
+  from public.usage_events e
+  where e.created_at >= p_start
+    and e.created_at < p_end
+    and (p_channel is null or e.channel = p_channel)
+  group by 1, 2, 3, 4
+  order by 1, 2, 3, 4;
+$$;
+
+-- Total spend for one channel since a point in time (the start of the month).
+create or replace function public.channel_spend_since(p_channel text, p_since timestamptz)
+returns numeric
+language sql
+stable
+as $$
+  select coalesce(sum(cost_usd), 0)
+  from public.usage_events
+  where channel = p_channel
+    and created_at >= p_since;
+$$;
+
+-- Workers report 'paused' while their channel is over budget.
+alter table public.worker_heartbeats
+  drop constraint if exists worker_heartbeats_status_check;
+
+alter table public.worker_heartbeats
+  add constraint worker_heartbeats_status_check
+    check (status in ('starting', 'idle', 'processing', 'paused', 'stopping', 'stopped'));
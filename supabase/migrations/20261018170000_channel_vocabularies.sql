@@ -0,0 +1,82 @@
+-- Custom vocabulary (AssemblyAI word_boost) per channel.
+-- Replaces the freight terms that were hardcoded for every channel; they are
+-- kept below as Team Global Express's (channel 22) list.
+
+create table if not exists public.channel_vocabularies (
+  channel text primary key,
+  words text[] not null default '{}',
+  boost_param text not null default 'default'
+    check (boost_param in ('low', 'default', 'high')),
+  updated_at timestamptz not null default now()
+);
+
+insert into public.channel_vocabularies (channel, words)
+values (
+  '22',
+  array[
+    'Team',
+    'Global',
+    'Express',
+    'Freight',
+    'Referred',
+    'You''re',
+    'Logistics',
+    'Calling',
+    'Regards',
+    'Referral',
+    'Transportation',
+    'Shipment',
+    'Supply Chain',
+    'Carrier',
+    'Warehouse',
+    'Cargo',
+    'Dispatch',
+    'Consignment',
+    'Tracking',
+    'Delivery',
+    'Inventory',
+    'Import',
+    'Export',
+    'Port',
+    'Barge',
+    'Forwarding',
+    'Customs',
+    'Route',
+    'Tracking Number',
+    'Handling',
+    'Third-party',
+    'Broker',
+    'Load',
+    'Pallet',
+    'Shipping',
+    'Logistics Management',
+    'Freight Forwarder',
+    'Fleet',
+    'Intermodal',
+    'Air Freight',
+    'Sea Freight',
+    'Freight Rates',
+    'Lead Time',
+    'Shipping Label',
+    'Warehouse Management',
+    'Distribution',
+    'Freight Broker',
+    'Freight Consolidation',
+    'Cross-docking',
+    'Port of Entry',
+    'Drop-off',
+    'Pickup',
+    'Route Optimization',
+    'Fleet Management',
+    'Supply Chain Solutions',
+    'Full Truckload',
+    'Less-than-Truckload',
+    '3PL',
+    'Logistics Provider',
+    'Transporter',
+    'Freight Class',
+    'Shipping Terms',
+    'Logistics Network'
+  ]
+)
+on conflict (channel) do nothing;
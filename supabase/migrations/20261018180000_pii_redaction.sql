@@ -0,0 +1,31 @@
+-- PII redaction before storage. Each channel has a policy saying what to do
+-- with each kind of PII; channels without one mask everything.
+
+create table if not exists public.channel_redaction_policies (
+  channel text primary key,
+  enabled boolean not null default true,
+  -- PII type -> 'mask' | 'hash' | 'drop'; missing types are masked
+  actions jsonb not null default '{}'::jsonb,
+  provider_redaction boolean not null default false,
+  keep_unredacted boolean not null default false,
+  updated_at timestamptz not null default now()
+);
+
+-- Original transcripts for channels that keep them. Only the service role
+-- can read this table; the app hands it out through a key-protected route.
+create table if not exists public.call_records_unredacted (
+  contact_id text primary key,
+  channel text,
+  transcript_text text,
+  speaker_data jsonb,
+  sentiment_analysis jsonb,
+  entities jsonb,
+  call_summary text,
+  created_at timestamptz not null default now()
+);
+
+alter table public.call_records_unredacted enable row level security;
+
+-- How many values of each type were redacted, e.g. {"phone": 2, "email": 1}
+alter table public.call_records
+  add column if not exists pii_findings jsonb;
@@ -0,0 +1,32 @@
+-- Language detection and translation. Each call records the language it was
+-- transcribed in; non-English calls also get an English translation so
+-- categorisation, analytics and the AI chat keep working.
+
+create table if not exists public.channel_languages (
+  channel text primary key,
+  -- ISO 639-1 codes the channel's calls are expected to use; empty means any
+  expected_languages text[] not null default '{}',
+  translate_to_english boolean not null default true,
+  updated_at timestamptz not null default now()
+);
+
+-- Channels known to code-switch between English and Māori or Tagalog
+insert into public.channel_languages (channel, expected_languages)
+values
+  ('5', array['en', 'mi']),
+  ('7', array['en', 'tl']),
+  ('11', array['en', 'tl', 'mi'])
+on conflict (channel) do nothing;
+
+alter table public.call_records
+  add column if not exists language text,
+  add column if not exists language_confidence numeric,
+  add column if not exists translated_text text;
+
+-- Translation tokens are accounted like other OpenAI usage
+alter table public.usage_events
+  drop constraint if exists usage_events_kind_check;
+
+alter table public.usage_events
+  add constraint usage_events_kind_check
+    check (kind in ('transcription', 'categorisation', 'chat', 'translation'));
@@ -0,0 +1,27 @@
+-- Index of the recordings on the SFTP server, built by a crawler over its
+-- YYYY/MM/DD tree. Downloads resolve a call's recording_location with one
+-- lookup here instead of stat'ing hundreds of guessed paths.
+
+create table if not exists public.sftp_recordings (
+  -- Recording file name, which is what contact_log's recording_location ends in
+  filename text primary key,
+  path text not null,
+  -- Day directory the file was found in, e.g. 2026/01/05
+  directory text not null,
+  size bigint not null,
+  mtime timestamptz not null,
+  indexed_at timestamptz not null default now()
+);
+
+create index if not exists sftp_recordings_directory_idx
+  on public.sftp_recordings (directory);
+
+-- One row per crawled day directory. A directory whose mtime hasn't changed
+-- since it was crawled has had no files added or removed, so incremental
+-- crawls skip it.
+create table if not exists public.sftp_crawled_directories (
+  directory text primary key,
+  directory_mtime timestamptz not null,
+  file_count integer not null default 0,
+  crawled_at timestamptz not null default now()
+);
@@ -0,0 +1,36 @@
+-- Recordings can now live in a different store (SFTP, S3 or a local directory)
+-- per channel, so the index records which channel's store each one was found
+-- in. Existing rows came from the Team Global Express SFTP server.
+
+alter table public.sftp_recordings
+  add column if not exists channel text not null default '22';
+
+alter table public.sftp_recordings
+  alter column channel drop default;
+
+alter table public.sftp_recordings
+  drop constraint if exists sftp_recordings_pkey;
+
+alter table public.sftp_recordings
+  add primary key (channel, filename);
+
+alter table public.sftp_crawled_directories
+  add column if not exists channel text not null default '22';
+
+alter table public.sftp_crawled_directories
+  alter column channel drop default;
+
+alter table public.sftp_crawled_directories
+  drop constraint if exists sftp_crawled_directories_pkey;
+
+alter table public.sftp_crawled_directories
+  add primary key (channel, directory);
+
+-- S3 has no directory mtimes; those directories record their newest file's instead
+comment on column public.sftp_crawled_directories.directory_mtime is
+  'Directory mtime when crawled, or the newest file mtime for stores without directory mtimes';
+
+create index if not exists sftp_recordings_channel_directory_idx
+  on public.sftp_recordings (channel, directory);
+
+drop index if exists public.sftp_recordings_directory_idx;
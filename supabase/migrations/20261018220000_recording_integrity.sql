@@ -0,0 +1,41 @@
+-- Recordings are checked before transcription. A truncated, silent or
+-- wrong-length recording fails its job straight away, without retries, and
+-- the job records why so those calls can be investigated.
+
+alter table public.call_processing_jobs
+  add column if not exists failure_reason text
+    check (failure_reason in ('invalid_wav', 'truncated', 'silent', 'duration_mismatch'));
+
+create index if not exists call_processing_jobs_failure_reason_idx
+  on public.call_processing_jobs (failure_reason)
+  where failure_reason is not null;
+
+-- Fail a claimed job for good. Only the current lease owner may do so.
+create or replace function public.reject_call_job(
+  p_contact_id text,
+  p_owner text,
+  p_reason text,
+  p_error text
+)
+returns public.call_processing_jobs
+language plpgsql
+as $$
+declare
+  job public.call_processing_jobs;
+begin
+  update public.call_processing_jobs
+  set status = 'failed',
+      failure_reason = p_reason,
+      last_error = p_error,
+      stage = 'failed',
+      stage_updated_at = now(),
+      lease_owner = null,
+      lease_expires_at = null,
+      updated_at = now()
+  where contact_id = p_contact_id
+    and lease_owner = p_owner
+  returning * into job;
+
+  return job;
+end;
+$$;
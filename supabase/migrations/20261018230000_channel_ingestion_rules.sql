@@ -0,0 +1,30 @@
+-- Which reporting.contact_log rows belong to each channel. getContactLogs
+-- compiles a channel's rules into its query; channels without a row pull no
+-- calls. Empty lists don't restrict anything.
+-- The disposition exclusions that were hardcoded for every call are kept as
+-- Team Global Express's (channel 22), the only channel in the reporting
+-- database so far.
+
+create table if not exists public.channel_ingestion_rules (
+  channel text primary key,
+  campaign_ids integer[] not null default '{}',
+  queue_names text[] not null default '{}',
+  excluded_dispositions text[] not null default '{}',
+  min_call_seconds integer not null default 0 check (min_call_seconds >= 0),
+  agent_allowlist text[] not null default '{}',
+  agent_denylist text[] not null default '{}',
+  updated_at timestamptz not null default now()
+);
+
+insert into public.channel_ingestion_rules (channel, excluded_dispositions)
+values (
+  '22',
+  array[
+    'No Answer - No Voicemail Available',
+    'No Answer - Voicemail Available',
+    'Engaged',
+    'Done',
+    'Invalid Endpoint'
+  ]
+)
+on conflict (channel) do nothing;
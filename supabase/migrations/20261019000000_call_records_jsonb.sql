@@ -0,0 +1,29 @@
+-- call_records kept speaker_data, sentiment_analysis, entities, categories and
+-- call_duration as JSON text, so every reader had to parse them again. They
+-- become jsonb lists under the same names, and the call length a number of
+-- seconds.
+--
+-- The text columns are kept as *_legacy until `npm run convert-call-records`
+-- has moved the existing rows across; a later migration drops them.
+
+alter table public.call_records rename column speaker_data to speaker_data_legacy;
+alter table public.call_records rename column sentiment_analysis to sentiment_analysis_legacy;
+alter table public.call_records rename column entities to entities_legacy;
+alter table public.call_records rename column categories to categories_legacy;
+alter table public.call_records rename column call_duration to call_duration_legacy;
+
+alter table public.call_records
+  -- Utterances, sentiments and entities as the transcription providers return them
+  add column speaker_data jsonb not null default '[]'::jsonb,
+  add column sentiment_analysis jsonb not null default '[]'::jsonb,
+  add column entities jsonb not null default '[]'::jsonb,
+  -- Topic names, most relevant first
+  add column categories jsonb not null default '[]'::jsonb,
+  add column call_duration_seconds numeric;
+
+alter table public.call_records
+  add constraint call_records_speaker_data_array check (jsonb_typeof(speaker_data) = 'array'),
+  add constraint call_records_sentiment_analysis_array check (jsonb_typeof(sentiment_analysis) = 'array'),
+  add constraint call_records_entities_array check (jsonb_typeof(entities) = 'array'),
+  add constraint call_records_categories_array check (jsonb_typeof(categories) = 'array'),
+  add constraint call_records_call_duration_seconds_non_negative check (call_duration_seconds >= 0);
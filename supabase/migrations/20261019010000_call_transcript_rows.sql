@@ -0,0 +1,224 @@
+-- One row per utterance and per sentiment result, so transcript-level
+-- questions ("calls with a negative customer utterance in their last minute")
+-- can be answered in the database instead of pulling every transcript into
+-- Node. call_records.speaker_data and sentiment_analysis stay the source;
+-- a trigger keeps these tables in step with them.
+
+create table if not exists public.call_utterances (
+  contact_id text not null,
+  position integer not null, -- Order within the transcript, from 0
+  speaker text,
+  speaker_role text not null default 'Unknown'
+    check (speaker_role in ('Agent', 'Customer', 'Unknown')),
+  start_ms integer not null,
+  end_ms integer not null,
+  -- How long before the end of the call the utterance ends; 0 for the last one
+  ms_before_end integer not null,
+  text text not null,
+  confidence numeric,
+  primary key (contact_id, position)
+);
+
+create table if not exists public.call_sentiments (
+  contact_id text not null,
+  position integer not null,
+  speaker text,
+  -- Taken from the speaker's utterances; AssemblyAI only labels sentiments with the speaker
+  speaker_role text not null default 'Unknown'
+    check (speaker_role in ('Agent', 'Customer', 'Unknown')),
+  start_ms integer not null,
+  end_ms integer not null,
+  ms_before_end integer not null,
+  text text not null,
+  sentiment text not null check (sentiment in ('POSITIVE', 'NEUTRAL', 'NEGATIVE')),
+  confidence numeric,
+  primary key (contact_id, position)
+);
+
+-- Per-speaker and end-of-call windows across calls
+create index if not exists call_utterances_role_window_idx
+  on public.call_utterances (speaker_role, ms_before_end);
+
+create index if not exists call_sentiments_sentiment_role_window_idx
+  on public.call_sentiments (sentiment, speaker_role, ms_before_end);
+
+-- Time windows within one call
+create index if not exists call_utterances_contact_start_idx
+  on public.call_utterances (contact_id, start_ms);
+
+create index if not exists call_sentiments_contact_start_idx
+  on public.call_sentiments (contact_id, start_ms);
+
+-- A transcript timestamp in whole milliseconds, or null when it isn't a number
+create or replace function public.transcript_ms(p_value jsonb)
+returns integer
+language sql
+immutable
+as $$
+  select case when jsonb_typeof(p_value) = 'number' then round(p_value::text::numeric)::integer end;
+$$;
+
+-- Rewrite a call's utterance and sentiment rows from its stored lists.
+-- Entries without text or timings are skipped, as the app skips them on read.
+create or replace function public.sync_call_transcript_rows(
+  p_contact_id text,
+  p_speaker_data jsonb,
+  p_sentiment_analysis jsonb
+)
+returns void
+language plpgsql
+as $$
+declare
+  v_call_end_ms integer;
+begin
+  delete from public.call_utterances where contact_id = p_contact_id;
+  delete from public.call_sentiments where contact_id = p_contact_id;
+
+  select max(public.transcript_ms(item->'end'))
+  into v_call_end_ms
+  from (
+    select jsonb_array_elements(coalesce(p_speaker_data, '[]'::jsonb)) as item
+    union all
+    select jsonb_array_elements(coalesce(p_sentiment_analysis, '[]'::jsonb))
+  ) items;
+
+  insert into public.call_utterances (
+    contact_id, position, speaker, speaker_role, start_ms, end_ms, ms_before_end, text, confidence
+  )
+  select
+    p_contact_id,
+    u.position - 1,
+    u.item->>'speaker',
+    case when u.item->>'speakerRole' in ('Agent', 'Customer') then u.item->>'speakerRole' else 'Unknown' end,
+    public.transcript_ms(u.item->'start'),
+    public.transcript_ms(u.item->'end'),
+    v_call_end_ms - public.transcript_ms(u.item->'end'),
+    u.item->>'text',
+    case when jsonb_typeof(u.item->'confidence') = 'number' then (u.item->>'confidence')::numeric end
+  from jsonb_array_elements(coalesce(p_speaker_data, '[]'::jsonb)) with ordinality as u(item, position)
+  where jsonb_typeof(u.item->'text') = 'string'
+    and public.transcript_ms(u.item->'start') is not null
+    and public.transcript_ms(u.item->'end') is not null;
+
+  insert into public.call_sentiments (
+    contact_id, position, speaker, speaker_role, start_ms, end_ms, ms_before_end, text, sentiment, confidence
+  )
+  select
+    p_contact_id,
+    s.position - 1,
+    s.item->>'speaker',
+    coalesce(
+      (
+        select u.speaker_role
+        from public.call_utterances u
+        where u.contact_id = p_contact_id
+          and u.speaker = s.item->>'speaker'
+          and u.speaker_role <> 'Unknown'
+        limit 1
+      ),
+      'Unknown'
+    ),
+    coalesce(public.transcript_ms(s.item->'start'), 0),
+    coalesce(public.transcript_ms(s.item->'end'), 0),
+    coalesce(v_call_end_ms - public.transcript_ms(s.item->'end'), 0),
+    s.item->>'text',
+    s.item->>'sentiment',
+    case when jsonb_typeof(s.item->'confidence') = 'number' then (s.item->>'confidence')::numeric end
+  from jsonb_array_elements(coalesce(p_sentiment_analysis, '[]'::jsonb)) with ordinality as s(item, position)
+  where jsonb_typeof(s.item->'text') = 'string'
+    and s.item->>'sentiment' in ('POSITIVE', 'NEUTRAL', 'NEGATIVE');
+end;
+$$;
+
+create or replace function public.call_records_sync_transcript_rows()
+returns trigger
+language plpgsql
+as $$
+begin
+  if tg_op = 'DELETE' then
+    delete from public.call_utterances where contact_id = old.contact_id;
+    delete from public.call_sentiments where contact_id = old.contact_id;
+    return old;
+  end if;
+
+  perform public.sync_call_transcript_rows(new.contact_id, new.speaker_data, new.sentiment_analysis);
+  return new;
+end;
+$$;
+
+drop trigger if exists call_records_transcript_rows on public.call_records;
+
+create trigger call_records_transcript_rows
+  after insert or delete or update of speaker_data, sentiment_analysis on public.call_records
+  for each row execute function public.call_records_sync_transcript_rows();
+
+-- Calls already converted to jsonb. Rows converted later by
+-- `npm run convert-call-records` are picked up by the trigger.
+select public.sync_call_transcript_rows(contact_id, speaker_data, sentiment_analysis)
+from public.call_records
+where speaker_data <> '[]'::jsonb or sentiment_analysis <> '[]'::jsonb;
+
+-- Sentiment results by sentiment and speaker role for calls in a date range,
+-- optionally only those ending within the last p_last_seconds of each call.
+create or replace function public.transcript_sentiment_report(
+  p_start timestamptz,
+  p_end timestamptz,
+  p_channel text default null,
+  p_speaker_role text default null,
+  p_last_seconds integer default null
+)
+returns table (
+  sentiment text,
+  speaker_role text,
+  segments bigint,
+  calls bigint
+)
+language sql
+stable
+as $$
+  select
+    s.sentiment,
+    s.speaker_role,
+    count(*) as segments,
+    count(distinct s.contact_id) as calls
+  from public.call_sentiments s
+  join public.call_records r on r.contact_id = s.contact_id
+  where r.initiation_timestamp >= p_start
+    and r.initiation_timestamp < p_end
+    and (p_channel is null or r.channel = p_channel)
+    and (p_speaker_role is null or s.speaker_role = p_speaker_role)
+    and (p_last_seconds is null or s.ms_before_end < p_last_seconds * 1000)
+  group by 1, 2
+  order by 1, 2;
+$$;
+
+-- Utterances and talk time by speaker role, with the same filters.
+create or replace function public.transcript_talk_time_report(
+  p_start timestamptz,
+  p_end timestamptz,
+  p_channel text default null,
+  p_last_seconds integer default null
+)
+returns table (
+  speaker_role text,
+  utterances bigint,
+  calls bigint,
+  talk_seconds numeric
+)
+language sql
+stable
+as $$
+  select
+    u.speaker_role,
+    count(*) as utterances,
+    count(distinct u.contact_id) as calls,
+    sum(u.end_ms - u.start_ms) / 1000.0 as talk_seconds
+  from public.call_utterances u
+  join public.call_records r on r.contact_id = u.contact_id
+  where r.initiation_timestamp >= p_start
+    and r.initiation_timestamp < p_end
+    and (p_channel is null or r.channel = p_channel)
+    and (p_last_seconds is null or u.ms_before_end < p_last_seconds * 1000)
+  group by 1
+  order by 1;
+$$;
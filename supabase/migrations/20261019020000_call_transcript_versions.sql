@@ -0,0 +1,195 @@
+-- Transcript version history. Every save that changes a call's transcript or
+-- its analysis is kept as a new version, so reprocessing can't destroy a good
+-- transcript; call_records holds the current version and admins can roll
+-- back to an earlier one.
+
+create table if not exists public.call_transcript_versions (
+  contact_id text not null,
+  version integer not null,
+  provider text,
+  model text,
+  -- Hash of the settings the provider reported for the run
+  config_hash text,
+  transcript_text text,
+  speaker_data jsonb not null default '[]'::jsonb,
+  sentiment_analysis jsonb not null default '[]'::jsonb,
+  entities jsonb not null default '[]'::jsonb,
+  categories jsonb not null default '[]'::jsonb,
+  primary_category text,
+  call_summary text,
+  pii_findings jsonb,
+  language text,
+  language_confidence numeric,
+  translated_text text,
+  created_at timestamptz not null default now(),
+  primary key (contact_id, version)
+);
+
+create or replace function public.call_transcript_versions_immutable()
+returns trigger
+language plpgsql
+as $$
+begin
+  raise exception 'Transcript versions can''t be changed; save a new version instead';
+end;
+$$;
+
+drop trigger if exists call_transcript_versions_immutable on public.call_transcript_versions;
+
+create trigger call_transcript_versions_immutable
+  before update or delete on public.call_transcript_versions
+  for each row execute function public.call_transcript_versions_immutable();
+
+alter table public.call_records
+  add column if not exists current_version integer,
+  -- What produced the transcript being saved; copied onto its version
+  add column if not exists transcript_provider text,
+  add column if not exists transcript_model text,
+  add column if not exists transcript_config_hash text;
+
+-- Snapshot the transcript into a new version on insert, and on updates that
+-- change it. Updates that only move current_version are rollbacks.
+--
+-- Rows saved before 20261019000000_call_records_jsonb have empty lists until
+-- convert-call-records moves their *_legacy values across. Those rows get no
+-- version until they're converted, and the update that converts them writes
+-- version 1 from the converted values instead of a second version.
+-- (The migration that drops the *_legacy columns has to replace this function.)
+--
+-- Concurrent saves of one call take the next version number one at a time. The
+-- lock is per call rather than on its call_records row, which a first save
+-- hasn't written yet, and is held until the saving transaction ends.
+create or replace function public.call_records_version_transcript()
+returns trigger
+language plpgsql
+as $$
+declare
+  converting boolean := false;
+begin
+  if tg_op = 'UPDATE' then
+    if new.current_version is distinct from old.current_version then
+      return new;
+    end if;
+
+    converting :=
+      (old.speaker_data_legacy is not null and new.speaker_data_legacy is null)
+      or (old.sentiment_analysis_legacy is not null and new.sentiment_analysis_legacy is null)
+      or (old.entities_legacy is not null and new.entities_legacy is null)
+      or (old.categories_legacy is not null and new.categories_legacy is null)
+      or (old.call_duration_legacy is not null and new.call_duration_legacy is null);
+
+    if converting then
+      -- Converting legacy values doesn't change a transcript that already has a version
+      if old.current_version is not null then
+        return new;
+      end if;
+    elsif (
+      new.transcript_text, new.speaker_data, new.sentiment_analysis, new.entities, new.categories,
+      new.primary_category, new.call_summary, new.language, new.translated_text
+    ) is not distinct from (
+      old.transcript_text, old.speaker_data, old.sentiment_analysis, old.entities, old.categories,
+      old.primary_category, old.call_summary, old.language, old.translated_text
+    ) then
+      return new;
+    end if;
+  end if;
+
+  perform pg_advisory_xact_lock(hashtext('call_transcript_versions'), hashtext(new.contact_id));
+
+  select coalesce(max(version), 0) + 1
+  into new.current_version
+  from public.call_transcript_versions
+  where contact_id = new.contact_id;
+
+  insert into public.call_transcript_versions (
+    contact_id, version, provider, model, config_hash,
+    transcript_text, speaker_data, sentiment_analysis, entities, categories,
+    primary_category, call_summary, pii_findings, language, language_confidence, translated_text
+  )
+  values (
+    new.contact_id, new.current_version, new.transcript_provider, new.transcript_model, new.transcript_config_hash,
+    new.transcript_text, new.speaker_data, new.sentiment_analysis, new.entities, new.categories,
+    new.primary_category, new.call_summary, new.pii_findings, new.language, new.language_confidence, new.translated_text
+  );
+
+  return new;
+end;
+$$;
+
+drop trigger if exists call_records_version_transcript on public.call_records;
+
+create trigger call_records_version_transcript
+  before insert or update on public.call_records
+  for each row execute function public.call_records_version_transcript();
+
+-- Existing transcripts become version 1. Rows still waiting on
+-- convert-call-records get theirs when they're converted.
+insert into public.call_transcript_versions (
+  contact_id, version, transcript_text, speaker_data, sentiment_analysis, entities, categories,
+  primary_category, call_summary, pii_findings, language, language_confidence, translated_text, created_at
+)
+select
+  contact_id, 1, transcript_text, speaker_data, sentiment_analysis, entities, categories,
+  primary_category, call_summary, pii_findings, language, language_confidence, translated_text,
+  coalesce(updated_at, created_at, now())
+from public.call_records
+where current_version is null
+  and speaker_data_legacy is null
+  and sentiment_analysis_legacy is null
+  and entities_legacy is null
+  and categories_legacy is null
+  and call_duration_legacy is null
+on conflict (contact_id, version) do nothing;
+
+update public.call_records r
+set current_version = 1
+where current_version is null
+  and exists (
+    select 1 from public.call_transcript_versions v
+    where v.contact_id = r.contact_id and v.version = 1
+  );
+
+-- Point a call back at one of its versions. Raises no_data_found (P0002)
+-- when the call or the version doesn't exist.
+create or replace function public.rollback_call_transcript(p_contact_id text, p_version integer)
+returns void
+language plpgsql
+as $$
+declare
+  v public.call_transcript_versions;
+begin
+  select * into v
+  from public.call_transcript_versions
+  where contact_id = p_contact_id
+    and version = p_version;
+
+  if not found then
+    raise exception 'Version % of call % not found', p_version, p_contact_id
+      using errcode = 'no_data_found';
+  end if;
+
+  update public.call_records
+  set
+    current_version = v.version,
+    transcript_provider = v.provider,
+    transcript_model = v.model,
+    transcript_config_hash = v.config_hash,
+    transcript_text = v.transcript_text,
+    speaker_data = v.speaker_data,
+    sentiment_analysis = v.sentiment_analysis,
+    entities = v.entities,
+    categories = v.categories,
+    primary_category = v.primary_category,
+    call_summary = v.call_summary,
+    pii_findings = v.pii_findings,
+    language = v.language,
+    language_confidence = v.language_confidence,
+    translated_text = v.translated_text
+  where contact_id = p_contact_id;
+
+  if not found then
+    raise exception 'Call % not found', p_contact_id
+      using errcode = 'no_data_found';
+  end if;
+end;
+$$;
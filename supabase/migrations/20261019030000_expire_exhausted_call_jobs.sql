@@ -0,0 +1,57 @@
+-- A job whose lease ran out on its last attempt was never claimed again
+-- (it has no attempts left) and never failed (nobody held the lease to fail
+-- it), so it stayed 'processing' or 'transcribing' for good and its call was
+-- hidden from every batch. Claiming now fails those jobs first.
+
+create or replace function public.claim_call_jobs(
+  p_owner text,
+  p_limit integer default 3,
+  p_lease_seconds integer default 900,
+  p_contact_ids text[] default null
+)
+returns setof public.call_processing_jobs
+language plpgsql
+as $$
+begin
+  update public.call_processing_jobs j
+  set status = 'failed',
+      last_error = 'Lease expired on the last attempt'
+        || coalesce(' (' || j.last_error || ')', ''),
+      stage = 'failed',
+      stage_updated_at = now(),
+      lease_owner = null,
+      lease_expires_at = null,
+      transcript_id = null,
+      updated_at = now()
+  where j.status in ('processing', 'transcribing')
+    and j.lease_expires_at < now()
+    and j.attempts >= j.max_attempts;
+
+  return query
+  with claimable as (
+    select j.contact_id
+    from public.call_processing_jobs j
+    where j.attempts < j.max_attempts
+      and (
+        (j.status = 'pending' and j.next_retry_at <= now())
+        or (j.status in ('processing', 'transcribing') and j.lease_expires_at < now())
+      )
+      and (p_contact_ids is null or j.contact_id = any (p_contact_ids))
+    order by j.next_retry_at
+    limit p_limit
+    for update skip locked
+  )
+  update public.call_processing_jobs j
+  set status = 'processing',
+      attempts = j.attempts + 1,
+      lease_owner = p_owner,
+      lease_expires_at = now() + make_interval(secs => p_lease_seconds),
+      transcript_id = null,
+      call_data = null,
+      transcript_submitted_at = null,
+      updated_at = now()
+  from claimable
+  where j.contact_id = claimable.contact_id
+  returning j.*;
+end;
+$$;